@@ -5,9 +5,10 @@ import { useSearchParams, useRouter } from "next/navigation";
 import { Search, Eye, ArrowUpRight, ExternalLink, CreditCard, Coins, Sparkles } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge, Button } from "@bfeai/ui";
 import { useBilling } from "@/hooks/useBilling";
-import { APP_CATALOG } from "@/config/apps";
+import { APP_CATALOG, type AppKey } from "@/config/apps";
 import { CreditBalanceCard } from "@/components/billing/CreditBalanceCard";
 import { CancellationDialog } from "@/components/billing/CancellationDialog";
+import type { SubscriptionSummary } from "@/services/BillingService";
 import { toast } from "@bfeai/ui";
 import { format } from "date-fns";
 
@@ -33,7 +34,7 @@ export function DashboardPage() {
   } = useBilling();
   const searchParams = useSearchParams();
   const router = useRouter();
-  const [cancellationDialogOpen, setCancellationDialogOpen] = useState(false);
+  const [cancelSubscription, setCancelSubscription] = useState<SubscriptionSummary | null>(null);
 
   // Handle checkout success redirect
   const checkoutStatus = searchParams.get("checkout");
@@ -174,7 +175,7 @@ export function DashboardPage() {
                             size="sm"
                             variant="ghost"
                             className="text-red-600 hover:text-red-700"
-                            onClick={() => setCancellationDialogOpen(true)}
+                            onClick={() => setCancelSubscription(appSub)}
                           >
                             Cancel
                           </Button>
@@ -331,21 +332,17 @@ export function DashboardPage() {
       </Card>
 
       <CancellationDialog
-        open={cancellationDialogOpen}
-        onOpenChange={setCancellationDialogOpen}
-        subscription={(() => {
-          // Find the subscription being cancelled (active, non-cancelled)
-          const cancelSub = subscriptions.find((s) => s.status === 'active' && !s.cancelAtPeriodEnd);
-          return cancelSub
-            ? {
-                id: cancelSub.id,
-                planName: cancelSub.appKey === 'labs' ? 'LABS' : 'Keywords',
-                amount: cancelSub.amount,
-                currency: cancelSub.currency,
-                nextBillingDate: cancelSub.nextBillingDate,
-              }
-            : null;
-        })()}
+        open={cancelSubscription !== null}
+        onOpenChange={(open) => {
+          if (!open) setCancelSubscription(null);
+        }}
+        subscription={cancelSubscription && {
+          id: cancelSubscription.id,
+          planName: APP_CATALOG[cancelSubscription.appKey as AppKey]?.shortName ?? cancelSubscription.appKey,
+          amount: cancelSubscription.amount,
+          currency: cancelSubscription.currency,
+          nextBillingDate: cancelSubscription.nextBillingDate,
+        }}
       />
     </>
   );
@@ -14,6 +14,8 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge, Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@bfeai/ui";
 import { APP_CATALOG, APP_ORDER, type AppConfig } from "@/config/apps";
 import { useBilling } from "@/hooks/useBilling";
+import type { PromoCodeQuote } from "@/services/BillingService";
+import { PromoCodeInput } from "@/components/billing/PromoCodeInput";
 import { toast } from "@bfeai/ui";
 
 const ICON_MAP: Record<string, React.ElementType> = {
@@ -28,6 +30,7 @@ export function AppsPage() {
   const [selectedApp, setSelectedApp] = useState<AppConfig | null>(null);
   const [trialRedirecting, setTrialRedirecting] = useState(false);
   const [trialAttempted, setTrialAttempted] = useState(false);
+  const [promo, setPromo] = useState<PromoCodeQuote | null>(null);
 
   // Auto-trigger trial checkout when ?trial=true&app=X is in URL
   useEffect(() => {
@@ -67,7 +70,8 @@ export function AppsPage() {
 
   const handleSubscribe = async (appKey: string) => {
     try {
-      const url = await createCheckout(appKey);
+      // Only send the code for apps it discounts
+      const url = await createCheckout(appKey, promo?.prices[appKey] ? promo.code : undefined);
       window.location.href = url;
     } catch (error) {
       toast({
@@ -131,6 +135,8 @@ export function AppsPage() {
         </CardHeader>
       </Card>
 
+      <PromoCodeInput kind="subscription" quote={promo} onChange={setPromo} />
+
       {/* Apps Grid */}
       <div className="grid gap-6 md:grid-cols-2">
         {APP_ORDER.map((key) => {
@@ -201,7 +207,14 @@ export function AppsPage() {
                   {/* Pricing */}
                   {app.pricing && status === 'available' && (
                     <div className="flex items-baseline gap-1 pt-2">
-                      <span className="text-2xl font-bold text-foreground">${app.pricing.monthly}</span>
+                      {promo?.prices[app.key] ? (
+                        <>
+                          <span className="text-2xl font-bold text-foreground">${promo.prices[app.key].discounted}</span>
+                          <span className="text-sm text-muted-foreground line-through">${app.pricing.monthly}</span>
+                        </>
+                      ) : (
+                        <span className="text-2xl font-bold text-foreground">${app.pricing.monthly}</span>
+                      )}
                       <span className="text-sm text-muted-foreground">/month</span>
                       {app.key === 'keywords' && (
                         <span className="ml-2 text-xs text-muted-foreground">300 credits/mo</span>
@@ -6,15 +6,24 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button } fro
 import { useBilling } from "@/hooks/useBilling";
 import { toast } from "@bfeai/ui";
 import { CancellationDialog } from "@/components/billing/CancellationDialog";
+import { AppSubscriptionCard } from "@/components/billing/AppSubscriptionCard";
+import { ChangePlanDialog } from "@/components/billing/ChangePlanDialog";
+import { ChangeBillingPeriodDialog } from "@/components/billing/ChangeBillingPeriodDialog";
+import { APP_CATALOG, type AppKey } from "@/config/apps";
+import type { SubscriptionSummary } from "@/services/BillingService";
 
 export function BillingPage() {
   const {
     subscriptions,
     createPortalSession,
     portalSessionLoading,
+    reactivateSubscription,
+    reactivateLoading,
   } = useBilling();
   const [redirecting, setRedirecting] = useState(false);
-  const [cancellationDialogOpen, setCancellationDialogOpen] = useState(false);
+  const [cancelSubscription, setCancelSubscription] = useState<SubscriptionSummary | null>(null);
+  const [changePlanSubscription, setChangePlanSubscription] = useState<SubscriptionSummary | null>(null);
+  const [billingPeriodSubscription, setBillingPeriodSubscription] = useState<SubscriptionSummary | null>(null);
 
   const handlePortalRedirect = async () => {
     setRedirecting(true);
@@ -36,6 +45,22 @@ export function BillingPage() {
     }
   };
 
+  const handleKeep = async (subscription: SubscriptionSummary) => {
+    try {
+      await reactivateSubscription(subscription.id);
+      toast({
+        title: "Subscription kept",
+        description: `Your ${APP_CATALOG[subscription.appKey as AppKey]?.shortName ?? subscription.appKey} subscription will continue as normal.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Unable to keep subscription",
+        description: error instanceof Error ? error.message : "Please try again in a moment.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const isPortalLoading = portalSessionLoading || redirecting;
 
   return (
@@ -83,36 +108,54 @@ export function BillingPage() {
               {isPortalLoading ? "Opening..." : "Open Stripe Billing Portal"}
             </Button>
           </div>
-
-          {subscriptions.filter((s) => s.stripeManaged && !s.cancelAtPeriodEnd && s.status === "active").map((sub) => (
-            <div key={sub.id} className="flex items-center justify-between rounded-2xl border border-red-200 bg-red-50/50 p-4 dark:border-red-900/50 dark:bg-red-900/10">
-              <div>
-                <p className="text-sm font-semibold text-red-900 dark:text-red-200">Cancel {sub.appKey === 'labs' ? 'LABS' : 'Keywords'} subscription</p>
-                <p className="text-xs text-red-700 dark:text-red-300">Cancel at the end of the current billing period.</p>
-              </div>
-              <Button variant="destructive" size="sm" onClick={() => setCancellationDialogOpen(true)}>
-                Cancel
-              </Button>
-            </div>
-          ))}
         </CardContent>
       </Card>
 
+      {subscriptions
+        .filter((s) => s.stripeManaged && s.appKey in APP_CATALOG)
+        .map((sub) => (
+          <AppSubscriptionCard
+            key={sub.id}
+            appKey={sub.appKey as AppKey}
+            subscription={sub}
+            onManage={() => void handlePortalRedirect()}
+            onCancel={() => setCancelSubscription(sub)}
+            onKeep={() => void handleKeep(sub)}
+            keepLoading={reactivateLoading}
+            onChangePlan={() => setChangePlanSubscription(sub)}
+            onChangeBillingPeriod={() => setBillingPeriodSubscription(sub)}
+            manageLoading={isPortalLoading}
+          />
+        ))}
+
+      <ChangePlanDialog
+        open={changePlanSubscription !== null}
+        onOpenChange={(open) => {
+          if (!open) setChangePlanSubscription(null);
+        }}
+        subscription={changePlanSubscription}
+      />
+
+      <ChangeBillingPeriodDialog
+        open={billingPeriodSubscription !== null}
+        onOpenChange={(open) => {
+          if (!open) setBillingPeriodSubscription(null);
+        }}
+        subscription={billingPeriodSubscription}
+      />
+
       <CancellationDialog
-        open={cancellationDialogOpen}
-        onOpenChange={setCancellationDialogOpen}
-        subscription={(() => {
-          const cancelSub = subscriptions.find((s) => s.status === 'active' && !s.cancelAtPeriodEnd);
-          return cancelSub
-            ? {
-                id: cancelSub.id,
-                planName: cancelSub.appKey === 'labs' ? 'LABS' : 'Keywords',
-                amount: cancelSub.amount,
-                currency: cancelSub.currency,
-                nextBillingDate: cancelSub.nextBillingDate,
-              }
-            : null;
-        })()}
+        open={cancelSubscription !== null}
+        onOpenChange={(open) => {
+          if (!open) setCancelSubscription(null);
+        }}
+        subscription={cancelSubscription && {
+          id: cancelSubscription.id,
+          planName: APP_CATALOG[cancelSubscription.appKey as AppKey]?.shortName ?? cancelSubscription.appKey,
+          amount: cancelSubscription.amount,
+          currency: cancelSubscription.currency,
+          nextBillingDate: cancelSubscription.nextBillingDate,
+        }}
       />
     </div>
   );
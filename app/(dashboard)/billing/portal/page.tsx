@@ -1,10 +1,21 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 
-export default function BillingPortalPage() {
+function RedirectingSpinner() {
+  return (
+    <div className="flex items-center justify-center min-h-[200px] gap-3">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-indigo" />
+      <span className="text-muted-foreground">Redirecting to Stripe...</span>
+    </div>
+  );
+}
+
+function PortalRedirect() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const flow = searchParams.get('flow') === 'payment_method_update' ? 'payment_method_update' : undefined;
 
   useEffect(() => {
     async function redirect() {
@@ -12,7 +23,10 @@ export default function BillingPortalPage() {
         const res = await fetch('/.netlify/functions/stripe-portal', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ returnUrl: window.location.origin + '/' }),
+          body: JSON.stringify({
+            returnUrl: window.location.origin + (flow ? '/billing' : '/'),
+            flow,
+          }),
         });
         const data = await res.json();
         if (data.url) {
@@ -25,12 +39,20 @@ export default function BillingPortalPage() {
       }
     }
     redirect();
-  }, [router]);
+  }, [router, flow]);
+
+  return <RedirectingSpinner />;
+}
 
+/**
+ * Redirects to the Stripe portal. `?flow=payment_method_update` (used by the
+ * past-due banner and dunning emails) opens the payment method form directly
+ * and returns to the billing page.
+ */
+export default function BillingPortalPage() {
   return (
-    <div className="flex items-center justify-center min-h-[200px] gap-3">
-      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-indigo" />
-      <span className="text-muted-foreground">Redirecting to Stripe...</span>
-    </div>
+    <Suspense fallback={<RedirectingSpinner />}>
+      <PortalRedirect />
+    </Suspense>
   );
 }
@@ -7,6 +7,10 @@ import { useCredits } from "@/hooks/useCredits";
 import { CreditBalanceCard } from "@/components/billing/CreditBalanceCard";
 import { CreditHistoryTable } from "@/components/billing/CreditHistoryTable";
 import { TopUpPacksGrid } from "@/components/billing/TopUpPacksGrid";
+import { LowBalanceSettingsCard } from "@/components/billing/LowBalanceSettingsCard";
+import { CreditUsageCard } from "@/components/billing/CreditUsageCard";
+import { CreditTransferCard } from "@/components/billing/CreditTransferCard";
+import { GiftCodesCard } from "@/components/billing/GiftCodesCard";
 
 const PAGE_SIZE = 20;
 
@@ -21,6 +25,10 @@ export function CreditsPage() {
     historyLoading,
     purchaseTopUp,
     topUpLoading,
+    transferCredits,
+    transferLoading,
+    redeemGiftCode,
+    redeemLoading,
   } = useCredits(PAGE_SIZE, page * PAGE_SIZE);
 
   return (
@@ -42,7 +50,7 @@ export function CreditsPage() {
               </div>
               <div className="rounded-xl border border-border bg-muted/50 p-3">
                 <p className="font-semibold text-foreground">Top-up credits</p>
-                <p>Buy extra credits anytime. They never expire and are used first before your monthly balance.</p>
+                <p>Buy extra credits anytime. They are used before your monthly balance, oldest purchase first, and expire 12 months after purchase.</p>
               </div>
             </div>
 
@@ -99,9 +107,21 @@ export function CreditsPage() {
         </Card>
       </div>
 
+      {/* Usage analytics */}
+      <CreditUsageCard />
+
       {/* Top-up packs */}
       <TopUpPacksGrid onPurchase={purchaseTopUp} purchaseLoading={topUpLoading} />
 
+      {/* Low-balance alerts and auto top-up */}
+      <LowBalanceSettingsCard />
+
+      {/* Transfers and gift codes */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <CreditTransferCard balance={balance} onTransfer={transferCredits} transferLoading={transferLoading} />
+        <GiftCodesCard onRedeem={redeemGiftCode} redeemLoading={redeemLoading} />
+      </div>
+
       {/* Transaction history */}
       <Card>
         <CardHeader>
@@ -24,7 +24,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@bfeai/ui';
-import { User, Building2, Briefcase, Camera, KeyRound, Trash2, Download } from 'lucide-react';
+import { User, Building2, Briefcase, Camera, KeyRound, ShieldCheck, Fingerprint, MonitorSmartphone, Trash2, Download } from 'lucide-react';
 
 const profileSchema = z.object({
   fullName: z.string().min(2, 'Full name must be at least 2 characters').max(100),
@@ -474,13 +474,31 @@ export default function SettingsPageClient() {
             </div>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="flex flex-col gap-3">
           <Link href="/settings/password">
             <Button variant="outline" className="w-full gap-2">
               <KeyRound className="h-4 w-4" />
               Change Password
             </Button>
           </Link>
+          <Link href="/settings/two-factor">
+            <Button variant="outline" className="w-full gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Two-Factor Authentication
+            </Button>
+          </Link>
+          <Link href="/settings/passkeys">
+            <Button variant="outline" className="w-full gap-2">
+              <Fingerprint className="h-4 w-4" />
+              Passkeys
+            </Button>
+          </Link>
+          <Link href="/settings/sessions">
+            <Button variant="outline" className="w-full gap-2">
+              <MonitorSmartphone className="h-4 w-4" />
+              Active Sessions
+            </Button>
+          </Link>
         </CardContent>
       </Card>
 
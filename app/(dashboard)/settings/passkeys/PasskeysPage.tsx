@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import Link from 'next/link';
+import { startRegistration, browserSupportsWebAuthn } from '@simplewebauthn/browser';
+
+import {
+  Button,
+  Input,
+  Label,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from '@bfeai/ui';
+import { Fingerprint, ArrowLeft, Pencil, Trash2, Plus } from 'lucide-react';
+
+type Passkey = {
+  id: string;
+  label: string;
+  deviceType: string;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/** A starting name for a new passkey, e.g. "Chrome on macOS" */
+const suggestLabel = () => {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+};
+
+export default function PasskeysPageClient() {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [newLabel, setNewLabel] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setSupported(browserSupportsWebAuthn());
+    setNewLabel(suggestLabel());
+    fetchPasskeys();
+  }, []);
+
+  const fetchPasskeys = async () => {
+    try {
+      const response = await fetch('/api/auth/passkeys');
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to load passkeys');
+        return;
+      }
+
+      setPasskeys(result.passkeys);
+    } catch (error) {
+      console.error('Passkeys fetch error:', error);
+      toast.error('Failed to load passkeys');
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkeys', { method: 'POST' });
+      const options = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        toast.error(options.error || 'Failed to start passkey registration');
+        return;
+      }
+
+      let attestation;
+      try {
+        attestation = await startRegistration({ optionsJSON: options });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'InvalidStateError') {
+          toast.error('This device already has a passkey for your account');
+        }
+        return;
+      }
+
+      const response = await fetch('/api/auth/passkeys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: attestation, label: newLabel.trim() }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to add passkey');
+        return;
+      }
+
+      toast.success('Passkey added');
+      setPasskeys(prev => [...(prev ?? []), result.passkey]);
+    } catch (error) {
+      console.error('Passkey registration error:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const label = editingLabel.trim();
+    if (!label) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/auth/passkeys/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to rename passkey');
+        return;
+      }
+
+      setPasskeys(prev => prev?.map(passkey => passkey.id === id ? { ...passkey, label } : passkey) ?? null);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Passkey rename error:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (!window.confirm(`Remove "${passkey.label}"? You won't be able to sign in with it anymore.`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/auth/passkeys/${passkey.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to remove passkey');
+        return;
+      }
+
+      toast.success('Passkey removed');
+      setPasskeys(prev => prev?.filter(item => item.id !== passkey.id) ?? null);
+    } catch (error) {
+      console.error('Passkey removal error:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      <Link href="/settings" className="inline-flex items-center gap-2 text-sm text-foreground-secondary hover:text-brand-indigo transition-colors">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Settings
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-brand-indigo/10 text-brand-indigo">
+              <Fingerprint className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Passkeys</CardTitle>
+              <CardDescription>
+                Sign in with your fingerprint, face or device PIN instead of a password
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!passkeys ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : passkeys.length === 0 ? (
+            <p className="text-sm text-foreground-secondary">You haven&apos;t added any passkeys yet.</p>
+          ) : (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {passkeys.map((passkey) => (
+                <li key={passkey.id} className="flex items-center gap-3 p-3">
+                  {editingId === passkey.id ? (
+                    <form
+                      className="flex flex-1 gap-2"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        handleRename(passkey.id);
+                      }}
+                    >
+                      <Input
+                        aria-label="Passkey name"
+                        value={editingLabel}
+                        maxLength={64}
+                        autoFocus
+                        onChange={(event) => setEditingLabel(event.target.value)}
+                        disabled={isSubmitting}
+                      />
+                      <Button type="submit" size="sm" disabled={isSubmitting || !editingLabel.trim()}>
+                        Save
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{passkey.label}</p>
+                        <p className="text-xs text-foreground-secondary">
+                          Added {formatDate(passkey.createdAt)}
+                          {' · '}
+                          {passkey.lastUsedAt ? `Last used ${formatDate(passkey.lastUsedAt)}` : 'Never used'}
+                          {passkey.backedUp && ' · Synced'}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        aria-label={`Rename ${passkey.label}`}
+                        onClick={() => {
+                          setEditingId(passkey.id);
+                          setEditingLabel(passkey.label);
+                        }}
+                        disabled={isSubmitting}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="text-error hover:text-error"
+                        aria-label={`Remove ${passkey.label}`}
+                        onClick={() => handleRemove(passkey)}
+                        disabled={isSubmitting}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {supported ? (
+            <form onSubmit={handleAdd} className="space-y-2 border-t border-border pt-4">
+              <Label htmlFor="passkey-label">Add a passkey</Label>
+              <div className="flex gap-3">
+                <Input
+                  id="passkey-label"
+                  placeholder="e.g. MacBook Touch ID"
+                  value={newLabel}
+                  maxLength={64}
+                  onChange={(event) => setNewLabel(event.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="submit"
+                  className="gap-2 bg-brand-indigo text-white hover:bg-brand-indigo/90"
+                  disabled={isSubmitting || !newLabel.trim()}
+                >
+                  <Plus className="h-4 w-4" />
+                  {isSubmitting ? 'Adding...' : 'Add'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-foreground-secondary">
+              This browser doesn&apos;t support passkeys.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
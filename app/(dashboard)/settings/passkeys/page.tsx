@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+import PasskeysPageClient from './PasskeysPage';
+
+export const metadata: Metadata = { title: 'Passkeys' };
+
+export default function Page() {
+  return <PasskeysPageClient />;
+}
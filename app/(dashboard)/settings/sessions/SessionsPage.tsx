@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from '@bfeai/ui';
+import { MonitorSmartphone, ArrowLeft, LogOut } from 'lucide-react';
+
+type Session = {
+  sessionId: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActive: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export default function SessionsPageClient() {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to load sessions');
+        return;
+      }
+
+      setSessions(result.sessions);
+    } catch (error) {
+      console.error('Sessions fetch error:', error);
+      toast.error('Failed to load sessions');
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    if (!window.confirm(`Sign out ${session.device}?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.sessionId}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to sign out session');
+        return;
+      }
+
+      toast.success('Session signed out');
+      setSessions(prev => prev?.filter(item => item.sessionId !== session.sessionId) ?? null);
+    } catch (error) {
+      console.error('Session revoke error:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm('Sign out of every other device and browser?')) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to sign out other sessions');
+        return;
+      }
+
+      toast.success(result.revoked === 1 ? 'Signed out 1 other session' : `Signed out ${result.revoked} other sessions`);
+      setSessions(prev => prev?.filter(item => item.current) ?? null);
+    } catch (error) {
+      console.error('Sessions revoke error:', error);
+      toast.error('An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const otherSessions = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      <Link href="/settings" className="inline-flex items-center gap-2 text-sm text-foreground-secondary hover:text-brand-indigo transition-colors">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Settings
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-brand-indigo/10 text-brand-indigo">
+              <MonitorSmartphone className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Active Sessions</CardTitle>
+              <CardDescription>
+                Devices and browsers signed in to your BFEAI account
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!sessions ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-foreground-secondary">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y divide-border rounded-lg border border-border">
+              {sessions.map((session) => (
+                <li key={session.sessionId} className="flex items-center gap-3 p-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="flex items-center gap-2 truncate text-sm font-medium">
+                      {session.device}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-xs text-foreground-secondary">
+                      {session.ipAddress && session.ipAddress !== 'unknown' ? `${session.ipAddress} · ` : ''}
+                      {session.current ? 'Active now' : `Last active ${formatDateTime(session.lastActive)}`}
+                      {' · '}
+                      Signed in {formatDateTime(session.createdAt)}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-error hover:text-error"
+                      aria-label={`Sign out ${session.device}`}
+                      onClick={() => handleRevoke(session)}
+                      disabled={isSubmitting}
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {otherSessions.length > 0 && (
+            <div className="border-t border-border pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full gap-2"
+                onClick={handleRevokeOthers}
+                disabled={isSubmitting}
+              >
+                <LogOut className="h-4 w-4" />
+                Sign out everywhere else
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+import SessionsPageClient from './SessionsPage';
+
+export const metadata: Metadata = { title: 'Active Sessions' };
+
+export default function Page() {
+  return <SessionsPageClient />;
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+import {
+  Button,
+  Input,
+  Label,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from '@bfeai/ui';
+import { ShieldCheck, ArrowLeft, Copy, Download, RefreshCw } from 'lucide-react';
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  qrCode: string;
+};
+
+function CodeInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^[0-9]*$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast.success('Recovery codes copied');
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'bfeai-recovery-codes.txt';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-foreground-secondary">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose access to your
+        authenticator app. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-background-secondary p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <Button type="button" variant="outline" className="flex-1 gap-2" onClick={handleCopy}>
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" className="flex-1 gap-2" onClick={handleDownload}>
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+      <Button
+        type="button"
+        className="w-full bg-brand-indigo text-white hover:bg-brand-indigo/90"
+        onClick={onDone}
+      >
+        I&apos;ve saved my recovery codes
+      </Button>
+    </div>
+  );
+}
+
+export default function TwoFactorPageClient() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [disableCode, setDisableCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor');
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to load two-factor settings');
+        return;
+      }
+
+      setStatus(result);
+    } catch (error) {
+      console.error('Two-factor status error:', error);
+      toast.error('Failed to load two-factor settings');
+    }
+  };
+
+  const request = async (url: string, method: 'POST' | 'DELETE', body?: Record<string, string>) => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error || 'Something went wrong');
+        return null;
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Two-factor request error:', error);
+      toast.error('An error occurred. Please try again.');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const result = await request('/api/auth/two-factor', 'POST');
+    if (result) {
+      setEnrollment({ secret: result.secret, qrCode: result.qrCode });
+      setCode('');
+    }
+  };
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = await request('/api/auth/two-factor', 'POST', { code });
+    setCode('');
+    if (result) {
+      toast.success('Two-factor authentication enabled');
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes);
+    }
+  };
+
+  const handleRegenerate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = await request('/api/auth/two-factor/recovery-codes', 'POST', { code });
+    setCode('');
+    if (result) {
+      toast.success('New recovery codes generated');
+      setRecoveryCodes(result.recoveryCodes);
+    }
+  };
+
+  const handleDisable = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = await request('/api/auth/two-factor', 'DELETE', { code: disableCode });
+    setDisableCode('');
+    if (result) {
+      toast.success('Two-factor authentication disabled');
+      fetchStatus();
+    }
+  };
+
+  const handleRecoveryCodesSaved = () => {
+    setRecoveryCodes(null);
+    fetchStatus();
+  };
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      <Link href="/settings" className="inline-flex items-center gap-2 text-sm text-foreground-secondary hover:text-brand-indigo transition-colors">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Settings
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-success-light text-success">
+              <ShieldCheck className="h-5 w-5" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Require a code from an authenticator app when you sign in
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!status ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-48" />
+              <Skeleton className="h-9 w-full" />
+            </div>
+          ) : recoveryCodes ? (
+            <RecoveryCodesList codes={recoveryCodes} onDone={handleRecoveryCodesSaved} />
+          ) : enrollment ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <p className="text-sm text-foreground-secondary">
+                Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+                then enter the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center">
+                <img
+                  src={enrollment.qrCode}
+                  alt="Two-factor authentication QR code"
+                  className="h-48 w-48 rounded-lg border border-border bg-white p-2"
+                />
+              </div>
+              <div className="space-y-1 text-center">
+                <p className="text-xs text-foreground-secondary">Can&apos;t scan it? Enter this key instead:</p>
+                <code className="break-all text-sm font-mono">{enrollment.secret}</code>
+              </div>
+              <div className="flex justify-center">
+                <CodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setEnrollment(null)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1 bg-brand-indigo text-white hover:bg-brand-indigo/90"
+                  disabled={isSubmitting || code.length !== 6}
+                >
+                  {isSubmitting ? 'Verifying...' : 'Verify and Enable'}
+                </Button>
+              </div>
+            </form>
+          ) : status.enabled ? (
+            <>
+              <p className="text-sm text-foreground-secondary">
+                Two-factor authentication is <span className="font-medium text-success">on</span>.
+                You have {status.recoveryCodesRemaining} unused recovery code
+                {status.recoveryCodesRemaining === 1 ? '' : 's'}.
+              </p>
+
+              <form onSubmit={handleRegenerate} className="space-y-3 border-t border-border pt-4">
+                <Label>Generate new recovery codes</Label>
+                <p className="text-xs text-foreground-secondary">
+                  Enter a code from your authenticator app. Your old recovery codes will stop working.
+                </p>
+                <div className="flex flex-wrap items-center gap-3">
+                  <CodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    className="gap-2"
+                    disabled={isSubmitting || code.length !== 6}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    Regenerate
+                  </Button>
+                </div>
+              </form>
+
+              <form onSubmit={handleDisable} className="space-y-3 border-t border-border pt-4">
+                <Label htmlFor="disable-code">Turn off two-factor authentication</Label>
+                <p className="text-xs text-foreground-secondary">
+                  Enter a code from your authenticator app or a recovery code.
+                </p>
+                <div className="flex gap-3">
+                  <Input
+                    id="disable-code"
+                    placeholder="123456"
+                    autoComplete="off"
+                    value={disableCode}
+                    onChange={(event) => setDisableCode(event.target.value)}
+                    disabled={isSubmitting}
+                  />
+                  <Button
+                    type="submit"
+                    variant="destructive"
+                    disabled={isSubmitting || !disableCode.trim()}
+                  >
+                    Turn Off
+                  </Button>
+                </div>
+              </form>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-foreground-secondary">
+                Two-factor authentication is off. Turn it on to protect your account even if your password is stolen.
+              </p>
+              <Button
+                className="w-full bg-brand-indigo text-white hover:bg-brand-indigo/90 gap-2"
+                onClick={handleStart}
+                disabled={isSubmitting}
+              >
+                <ShieldCheck className="h-4 w-4" />
+                {isSubmitting ? 'Setting up...' : 'Set Up Two-Factor Authentication'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
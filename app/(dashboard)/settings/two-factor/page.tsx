@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+import TwoFactorPageClient from './TwoFactorPage';
+
+export const metadata: Metadata = { title: 'Two-Factor Authentication' };
+
+export default function Page() {
+  return <TwoFactorPageClient />;
+}
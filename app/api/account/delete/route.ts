@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { z } from 'zod';
 import Stripe from 'stripe';
@@ -161,7 +161,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify JWT token
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     const body = await request.json();
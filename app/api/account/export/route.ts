@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { checkRateLimit } from '@/lib/security/rate-limiter';
 
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     // Rate limit: 1 export per hour per user
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
+import { TwoFactorService } from '@/lib/auth/two-factor';
 
 async function logSecurityEvent(
   eventType: string,
@@ -190,13 +191,6 @@ export async function GET(
       { provider, email: user.email }
     );
 
-    // Generate JWT for SSO across subdomains
-    const token = JWTService.generateSSOToken(
-      user.id,
-      user.email!,
-      'user'
-    );
-
     // Determine the final redirect URL
     let finalRedirect: string;
     if (redirect.startsWith('http://') || redirect.startsWith('https://')) {
@@ -207,12 +201,6 @@ export async function GET(
       finalRedirect = new URL(redirect, appUrl).toString();
     }
 
-    console.log('[OAuth] Token generated, finalRedirect:', {
-      tokenLength: token?.length,
-      originalRedirect: redirect,
-      finalRedirect,
-    });
-
     // Clear the oauth_redirect cookie
     const isProduction = process.env.NODE_ENV === 'production';
     const cookieStore = await cookies();
@@ -228,6 +216,47 @@ export async function GET(
       console.error('[OAuth] Failed to clear oauth_redirect cookie:', clearError);
     }
 
+    // Accounts with 2FA finish on the login page's code step, which issues the session
+    if (await TwoFactorService.isEnabled(user.id)) {
+      await supabase.auth.signOut({ scope: 'local' });
+
+      await logSecurityEvent(
+        'TWO_FACTOR_CHALLENGE',
+        'LOW',
+        user.id,
+        request,
+        { provider, email: user.email }
+      );
+
+      const challengeUrl = new URL('/login', appUrl);
+      challengeUrl.searchParams.set(
+        'two_factor',
+        TwoFactorService.createChallengeToken({
+          userId: user.id,
+          email: user.email!,
+          role: 'user',
+          rememberMe: false,
+        })
+      );
+      challengeUrl.searchParams.set('redirect', redirect);
+
+      return NextResponse.redirect(challengeUrl.toString());
+    }
+
+    // Generate JWT for SSO across subdomains, registered as an active session
+    const token = await SessionManager.createSession(
+      user.id,
+      user.email!,
+      'user',
+      request
+    );
+
+    console.log('[OAuth] Token generated, finalRedirect:', {
+      tokenLength: token?.length,
+      originalRedirect: redirect,
+      finalRedirect,
+    });
+
     // Instead of setting the cookie on a redirect response (which may be stripped by Netlify),
     // redirect to an intermediate page that will set the cookie via a POST request and then
     // redirect to the final destination.
@@ -4,7 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createAdminClient } from '@/lib/supabase/admin';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import crypto from 'crypto';
 
 // Valid client IDs for BFEAI apps
@@ -66,7 +66,7 @@ export async function POST(request: NextRequest) {
     // 2. Verify the session token
     let payload;
     try {
-      payload = JWTService.verifySSOToken(sessionToken);
+      payload = await SessionManager.verifySession(sessionToken);
     } catch (error) {
       console.error('[GenerateCode] Token verification failed:', error);
       return NextResponse.json(
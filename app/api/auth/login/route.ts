@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
+import { TwoFactorService } from '@/lib/auth/two-factor';
 import { checkRateLimit, getClientIp } from '@/lib/security/rate-limiter';
 import {
   isAccountLocked,
   getLockoutTimeRemaining,
   recordFailedAttempt,
   clearFailedAttempts,
+  getFailedAttemptCount,
+  countFailedAttempt,
 } from '@/lib/security/account-lockout';
 import { verifyRecaptcha, isRecaptchaEnabled } from '@/lib/security/recaptcha';
 
 const USE_MOCK_AUTH = process.env.NEXT_PUBLIC_USE_MOCK_AUTH === 'true';
 
+// Wrong codes allowed on one challenge before the password must be entered again
+const MAX_CHALLENGE_ATTEMPTS = 3;
+
 async function logSecurityEvent(
   eventType: string,
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
@@ -42,6 +48,204 @@ async function logSecurityEvent(
   }
 }
 
+/**
+ * Create the session and set the domain-wide session cookie
+ */
+async function issueSession(
+  request: NextRequest,
+  userId: string,
+  userEmail: string,
+  role: string,
+  rememberMe: boolean
+) {
+  // Create the SSO token and its session record
+  const token = await SessionManager.createSession(userId, userEmail, role, request);
+
+  // Set domain-wide cookie for SSO
+  const cookieStore = await cookies();
+  // For SSO to work properly, default to 7 days. Extended to 30 days with "Remember Me"
+  const maxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days if remember me, otherwise 7 days
+
+  cookieStore.set('bfeai_session', token, {
+    domain: process.env.NODE_ENV === 'production' ? '.bfeai.com' : 'localhost',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge,
+    path: '/',
+  });
+
+  // Return success with user info (frontend handles redirect)
+  return NextResponse.json({
+    success: true,
+    user: {
+      id: userId,
+      email: userEmail,
+      role,
+    },
+  });
+}
+
+/**
+ * Second step of a two-factor login: exchange the challenge token from the
+ * password step plus an authenticator or recovery code for the session
+ */
+async function completeTwoFactorLogin(
+  request: NextRequest,
+  clientIp: string,
+  challengeToken: string,
+  code: unknown
+) {
+  const challenge = TwoFactorService.verifyChallengeToken(challengeToken);
+
+  if (!challenge) {
+    return NextResponse.json(
+      {
+        error: 'Sign-in expired',
+        message: 'Please sign in again',
+      },
+      { status: 401 }
+    );
+  }
+
+  if (typeof code !== 'string' || !code.trim()) {
+    return NextResponse.json(
+      { error: 'Verification code is required' },
+      { status: 400 }
+    );
+  }
+
+  // Failed codes count towards the same lockout as failed passwords, and
+  // towards a per-user lockout so switching IPs doesn't buy fresh attempts
+  const lockoutKey = `${clientIp}:${challenge.email}`;
+  const userLockoutKey = `2fa:${challenge.userId}`;
+  const challengeKey = `2fa-challenge:${challenge.challengeId}`;
+  const lockoutContext = {
+    ip: clientIp,
+    userAgent: request.headers.get('user-agent') || undefined,
+    email: challenge.email,
+    userId: challenge.userId,
+  };
+
+  if ((await getFailedAttemptCount(challengeKey)) >= MAX_CHALLENGE_ATTEMPTS) {
+    return NextResponse.json(
+      {
+        error: 'Sign-in expired',
+        message: 'Too many incorrect codes. Please sign in again',
+      },
+      { status: 401 }
+    );
+  }
+
+  const lockedKey =
+    (await isAccountLocked(userLockoutKey, lockoutContext)) ? userLockoutKey :
+    (await isAccountLocked(lockoutKey, lockoutContext)) ? lockoutKey :
+    null;
+  if (lockedKey) {
+    const timeRemaining = await getLockoutTimeRemaining(lockedKey);
+
+    await logSecurityEvent(
+      'ACCOUNT_LOCKED_ATTEMPT',
+      'HIGH',
+      challenge.userId,
+      request,
+      {
+        email: challenge.email,
+        ip: clientIp,
+        timeRemaining,
+      }
+    );
+
+    return NextResponse.json(
+      {
+        error: 'Account temporarily locked',
+        message: `Too many failed login attempts. Please try again in ${Math.ceil(timeRemaining / 60)} minutes.`,
+        lockedUntil: Date.now() + (timeRemaining * 1000),
+      },
+      { status: 423 }
+    );
+  }
+
+  const method = await TwoFactorService.verify(challenge.userId, code);
+
+  if (!method) {
+    const [ipResult, userResult] = await Promise.all([
+      recordFailedAttempt(lockoutKey, lockoutContext),
+      recordFailedAttempt(userLockoutKey, lockoutContext),
+    ]);
+    const lockoutResult = userResult.isLocked || userResult.attemptsRemaining < ipResult.attemptsRemaining
+      ? userResult
+      : ipResult;
+    const challengeAttempts = await countFailedAttempt(challengeKey);
+
+    await logSecurityEvent(
+      'TWO_FACTOR_FAILED',
+      'MEDIUM',
+      challenge.userId,
+      request,
+      {
+        email: challenge.email,
+        attemptsRemaining: lockoutResult.attemptsRemaining,
+        isLocked: lockoutResult.isLocked,
+      }
+    );
+
+    if (lockoutResult.isLocked) {
+      return NextResponse.json(
+        {
+          error: 'Account locked',
+          message: `Too many failed attempts. Account is locked for ${Math.ceil((lockoutResult.lockoutTimeRemaining || 0) / 60)} minutes.`,
+          lockedUntil: Date.now() + ((lockoutResult.lockoutTimeRemaining || 0) * 1000),
+        },
+        { status: 423 }
+      );
+    }
+
+    if (challengeAttempts >= MAX_CHALLENGE_ATTEMPTS) {
+      return NextResponse.json(
+        {
+          error: 'Sign-in expired',
+          message: 'Too many incorrect codes. Please sign in again',
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Invalid verification code',
+        attemptsRemaining: Math.min(lockoutResult.attemptsRemaining, MAX_CHALLENGE_ATTEMPTS - challengeAttempts),
+      },
+      { status: 401 }
+    );
+  }
+
+  await Promise.all([
+    clearFailedAttempts(lockoutKey),
+    clearFailedAttempts(userLockoutKey),
+  ]);
+
+  await logSecurityEvent(
+    'LOGIN_SUCCESS',
+    'LOW',
+    challenge.userId,
+    request,
+    { email: challenge.email, twoFactorMethod: method }
+  );
+
+  if (method === 'recovery_code') {
+    await logSecurityEvent(
+      'TWO_FACTOR_RECOVERY_CODE_USED',
+      'MEDIUM',
+      challenge.userId,
+      request,
+      { recoveryCodesRemaining: await TwoFactorService.countRecoveryCodes(challenge.userId) }
+    );
+  }
+
+  return issueSession(request, challenge.userId, challenge.email, challenge.role, challenge.rememberMe);
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Check rate limit (5 attempts per 15 minutes per IP)
@@ -83,7 +287,11 @@ export async function POST(request: NextRequest) {
 
     // Parse JSON body
     const body = await request.json();
-    const { email, password, rememberMe, recaptchaToken } = body;
+    const { email, password, rememberMe, recaptchaToken, challengeToken, code } = body;
+
+    if (challengeToken) {
+      return completeTwoFactorLogin(request, clientIp, challengeToken, code);
+    }
 
     if (!email || !password) {
       return NextResponse.json(
@@ -120,8 +328,13 @@ export async function POST(request: NextRequest) {
 
     // Check if account is locked (brute force protection)
     const lockoutKey = `${clientIp}:${email}`;
-    if (isAccountLocked(lockoutKey)) {
-      const timeRemaining = getLockoutTimeRemaining(lockoutKey);
+    const lockoutContext = {
+      ip: clientIp,
+      userAgent: request.headers.get('user-agent') || undefined,
+      email,
+    };
+    if (await isAccountLocked(lockoutKey, lockoutContext)) {
+      const timeRemaining = await getLockoutTimeRemaining(lockoutKey);
 
       await logSecurityEvent(
         'ACCOUNT_LOCKED_ATTEMPT',
@@ -179,7 +392,7 @@ export async function POST(request: NextRequest) {
         console.error('Login error:', error);
 
         // Record failed attempt and check if account should be locked
-        const lockoutResult = recordFailedAttempt(lockoutKey);
+        const lockoutResult = await recordFailedAttempt(lockoutKey, lockoutContext);
 
         // Log failed login attempt
         await logSecurityEvent(
@@ -237,6 +450,30 @@ export async function POST(request: NextRequest) {
       // Get user role from metadata if available
       role = data.user.user_metadata?.role || 'user';
 
+      // With 2FA on, the session is only issued after the second step, so
+      // drop the Supabase session the password sign-in just created
+      if (await TwoFactorService.isEnabled(userId)) {
+        await supabase.auth.signOut({ scope: 'local' });
+
+        await logSecurityEvent(
+          'TWO_FACTOR_CHALLENGE',
+          'LOW',
+          userId,
+          request,
+          { email: userEmail }
+        );
+
+        return NextResponse.json({
+          twoFactorRequired: true,
+          challengeToken: TwoFactorService.createChallengeToken({
+            userId,
+            email: userEmail,
+            role,
+            rememberMe: Boolean(rememberMe),
+          }),
+        });
+      }
+
       // Log successful login
       await logSecurityEvent(
         'LOGIN_SUCCESS',
@@ -248,34 +485,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Clear failed attempts on successful login
-    clearFailedAttempts(lockoutKey);
-
-    // Create JWT token for SSO using centralized service
-    const token = JWTService.generateSSOToken(userId, userEmail, role);
-
-    // Set domain-wide cookie for SSO
-    const cookieStore = await cookies();
-    // For SSO to work properly, default to 7 days. Extended to 30 days with "Remember Me"
-    const maxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days if remember me, otherwise 7 days
-
-    cookieStore.set('bfeai_session', token, {
-      domain: process.env.NODE_ENV === 'production' ? '.bfeai.com' : 'localhost',
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge,
-      path: '/',
-    });
+    await clearFailedAttempts(lockoutKey);
 
-    // Return success with user info (frontend handles redirect)
-    return NextResponse.json({
-      success: true,
-      user: {
-        id: userId,
-        email: userEmail,
-        role,
-      },
-    });
+    return issueSession(request, userId, userEmail, role, Boolean(rememberMe));
   } catch (error) {
     console.error('Login error:', error);
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
+import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 
 /**
  * Internal helper to log security events
@@ -35,11 +37,28 @@ async function logSecurityEvent(
   }
 }
 
+/**
+ * Revoke the session behind the SSO cookie, so a copy of the token
+ * can't be used after logout
+ */
+async function revokeCurrentSession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('bfeai_session')?.value;
+  if (!token) return;
+
+  try {
+    const payload = JWTService.verifySSOToken(token);
+    await SessionManager.revokeSession(payload.userId, payload.jti);
+  } catch (error) {
+    console.error('[Logout] Failed to revoke session:', error);
+  }
+}
+
 /**
  * POST /api/auth/logout
  *
  * Logs out the current user by:
- * 1. Signing out from Supabase
+ * 1. Signing out from Supabase and revoking the SSO session
  * 2. Clearing the JWT SSO cookie (across all *.bfeai.com subdomains)
  * 3. Logging the security event
  */
@@ -53,6 +72,7 @@ export async function POST(request: NextRequest) {
 
     // Sign out from Supabase (invalidates Supabase session)
     await supabase.auth.signOut();
+    await revokeCurrentSession();
 
     // Log successful logout
     await logSecurityEvent(
@@ -152,6 +172,7 @@ export async function GET(request: NextRequest) {
 
     // Sign out from Supabase (invalidates Supabase session)
     await supabase.auth.signOut();
+    await revokeCurrentSession();
 
     // Log successful logout
     await logSecurityEvent(
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager, SessionExpiredError } from '@/lib/auth/session';
+import { CookieService } from '@/lib/auth/cookies';
 import { createAdminClient } from '@/lib/supabase/admin';
 
 /**
@@ -9,6 +10,7 @@ import { createAdminClient } from '@/lib/supabase/admin';
  * Returns the currently authenticated user's info including profile data.
  * Used by the client-side AuthProvider to populate user context,
  * which enables credit balance queries and other auth-dependent hooks.
+ * Counts as activity for the session's idle timeout; an idle session gets a 401.
  */
 export async function GET() {
   try {
@@ -21,8 +23,11 @@ export async function GET() {
 
     let payload;
     try {
-      payload = JWTService.verifySSOToken(sessionCookie.value);
-    } catch {
+      payload = await SessionManager.verifySession(sessionCookie.value);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        return CookieService.expiredSessionResponse(error);
+      }
       return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
     }
 
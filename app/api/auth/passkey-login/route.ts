@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+import { PasskeyService } from '@/lib/auth/passkeys';
+import { checkRateLimit, getClientIp } from '@/lib/security/rate-limiter';
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+/**
+ * POST /api/auth/passkey-login
+ * Without a body: authentication options for navigator.credentials.get().
+ * With { response, rememberMe }: verify the assertion and sign the user in.
+ *
+ * Passkeys require user verification (biometric or device PIN), so they
+ * already prove two factors and skip the TOTP step.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const clientIp = getClientIp(request);
+
+    // Assertions share the password login limit (5 attempts per 15 minutes per IP).
+    // Options have their own, so fetching them doesn't use up sign-in attempts.
+    const rateLimit = await checkRateLimit(body?.response ? 'login' : 'passkeyOptions', clientIp);
+
+    if (!rateLimit.success) {
+      await logSecurityEvent(
+        'RATE_LIMIT_EXCEEDED',
+        'MEDIUM',
+        null,
+        request,
+        {
+          endpoint: body?.response ? 'passkey-login' : 'passkey-login-options',
+          ip: clientIp,
+          remaining: rateLimit.remaining,
+          reset: rateLimit.reset,
+        }
+      );
+
+      return NextResponse.json(
+        {
+          error: 'Too many login attempts',
+          message: 'Please try again later',
+          retryAfter: Math.ceil((rateLimit.reset.getTime() - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': Math.ceil((rateLimit.reset.getTime() - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    if (!body?.response) {
+      const options = await PasskeyService.generateAuthentication();
+      return NextResponse.json(options);
+    }
+
+    const passkeyUser = await PasskeyService.verifyAuthentication(body.response);
+
+    if (!passkeyUser) {
+      await logSecurityEvent(
+        'PASSKEY_LOGIN_FAILED',
+        'MEDIUM',
+        null,
+        request,
+        { credentialId: typeof body.response.id === 'string' ? body.response.id : null }
+      );
+
+      return NextResponse.json(
+        { error: 'Passkey sign-in failed' },
+        { status: 401 }
+      );
+    }
+
+    const { userId, email, role, passkeyId } = passkeyUser;
+
+    await logSecurityEvent(
+      'LOGIN_SUCCESS',
+      'LOW',
+      userId,
+      request,
+      { email, method: 'passkey', passkeyId }
+    );
+
+    const token = await SessionManager.createSession(userId, email, role, request);
+
+    // Set domain-wide cookie for SSO, as for password login
+    const cookieStore = await cookies();
+    const maxAge = body.rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60;
+
+    cookieStore.set('bfeai_session', token, {
+      domain: process.env.NODE_ENV === 'production' ? '.bfeai.com' : 'localhost',
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge,
+      path: '/',
+    });
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: userId,
+        email,
+        role,
+      },
+    });
+  } catch (error) {
+    console.error('Passkey login error:', error);
+
+    await logSecurityEvent(
+      'LOGIN_ERROR',
+      'HIGH',
+      null,
+      request,
+      { method: 'passkey', error: error instanceof Error ? error.message : 'Unknown error' }
+    );
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+import { PasskeyService, MAX_PASSKEY_LABEL_LENGTH } from '@/lib/auth/passkeys';
+import { z } from 'zod';
+
+const renameSchema = z.object({
+  label: z.string().trim().min(1, 'Name is required').max(MAX_PASSKEY_LABEL_LENGTH),
+});
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('bfeai_session');
+
+  if (!sessionCookie?.value) {
+    return null;
+  }
+
+  try {
+    return await SessionManager.verifySession(sessionCookie.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PATCH /api/auth/passkeys/:id
+ * Rename a passkey
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const validation = renameSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await PasskeyService.rename(session.userId, id, validation.data.label))) {
+      return NextResponse.json({ error: 'Passkey not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Rename passkey error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/passkeys/:id
+ * Remove a passkey; it can no longer be used to sign in
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await PasskeyService.remove(session.userId, id))) {
+      return NextResponse.json({ error: 'Passkey not found' }, { status: 404 });
+    }
+
+    await logSecurityEvent(
+      'PASSKEY_REMOVED',
+      'MEDIUM',
+      session.userId,
+      request,
+      { passkeyId: id }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove passkey error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+import { PasskeyService, MAX_PASSKEY_LABEL_LENGTH } from '@/lib/auth/passkeys';
+import { z } from 'zod';
+
+const registerSchema = z.object({
+  response: z.object({ id: z.string(), rawId: z.string(), type: z.literal('public-key') }).passthrough(),
+  label: z.string().trim().min(1, 'Name is required').max(MAX_PASSKEY_LABEL_LENGTH),
+});
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('bfeai_session');
+
+  if (!sessionCookie?.value) {
+    return null;
+  }
+
+  try {
+    return await SessionManager.verifySession(sessionCookie.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/auth/passkeys
+ * The signed-in user's passkeys
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const passkeys = await PasskeyService.list(session.userId);
+    return NextResponse.json({ passkeys });
+  } catch (error) {
+    console.error('List passkeys error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/passkeys
+ * Without a body: registration options for navigator.credentials.create().
+ * With { response, label }: verify the new credential and save it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (!body?.response) {
+      const options = await PasskeyService.generateRegistration(session.userId, session.email);
+      return NextResponse.json(options);
+    }
+
+    const validation = registerSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const passkey = await PasskeyService.verifyRegistration(
+      session.userId,
+      body.response,
+      validation.data.label
+    );
+
+    if (!passkey) {
+      await logSecurityEvent(
+        'PASSKEY_REGISTRATION_FAILED',
+        'MEDIUM',
+        session.userId,
+        request
+      );
+
+      return NextResponse.json(
+        { error: 'Passkey registration failed. Please try again.' },
+        { status: 400 }
+      );
+    }
+
+    await logSecurityEvent(
+      'PASSKEY_REGISTERED',
+      'MEDIUM',
+      session.userId,
+      request,
+      { passkeyId: passkey.id, label: passkey.label }
+    );
+
+    return NextResponse.json({ success: true, passkey });
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
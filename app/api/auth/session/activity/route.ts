@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager, SessionExpiredError } from '@/lib/auth/session';
+import { CookieService } from '@/lib/auth/cookies';
+
+/**
+ * POST /api/auth/session/activity
+ *
+ * Heartbeat from AuthProvider while the user is interacting with any BFEAI
+ * app. Records the activity against the session's idle timeout and returns
+ * the new idle expiry. A session that has already gone idle gets a 401 and
+ * its cookie is cleared.
+ */
+export async function POST() {
+  try {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('bfeai_session');
+
+    if (!sessionCookie?.value) {
+      return NextResponse.json({ authenticated: false, error: 'No session cookie found' }, { status: 401 });
+    }
+
+    try {
+      const { activity } = await SessionManager.checkSession(sessionCookie.value);
+
+      return NextResponse.json({
+        authenticated: true,
+        idleTimeoutMinutes: activity?.idleTimeoutMinutes ?? null,
+        idleExpiresAt: activity?.idleExpiresAt ?? null,
+        idleRemainingSeconds: activity?.idleRemainingSeconds ?? null,
+      });
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError)) {
+        return NextResponse.json({ authenticated: false, error: 'Invalid session token' }, { status: 401 });
+      }
+
+      return CookieService.expiredSessionResponse(error);
+    }
+  } catch (error) {
+    console.error('Session activity error:', error);
+    return NextResponse.json({ authenticated: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager, SessionExpiredError } from '@/lib/auth/session';
+import { CookieService } from '@/lib/auth/cookies';
 
 /**
  * GET /api/auth/session
@@ -9,6 +10,11 @@ import { JWTService } from '@/lib/auth/jwt';
  * This endpoint is used by:
  * 1. This app to check authentication status
  * 2. Other apps in the BFEAI ecosystem to verify SSO authentication
+ * 3. AuthProvider's idle-timeout watcher, which reads idleExpiresAt
+ *
+ * Checking doesn't count as activity (see /api/auth/session/activity), so
+ * polling it won't keep an idle session alive. A session idle for longer than
+ * the user's session_timeout_minutes is expired here.
  *
  * Returns 200 with user data if authenticated, 401 if not authenticated
  */
@@ -29,7 +35,7 @@ export async function GET(request: NextRequest) {
 
     // Verify JWT token
     try {
-      const payload = JWTService.verifySSOToken(sessionCookie.value);
+      const { payload, activity } = await SessionManager.checkSession(sessionCookie.value, false);
 
       // Check if token is expired
       if (payload.exp && payload.exp * 1000 < Date.now()) {
@@ -63,8 +69,15 @@ export async function GET(request: NextRequest) {
         authenticated: true,
         user: userData,
         expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : null,
+        idleTimeoutMinutes: activity?.idleTimeoutMinutes ?? null,
+        idleExpiresAt: activity?.idleExpiresAt ?? null,
+        idleRemainingSeconds: activity?.idleRemainingSeconds ?? null,
       });
     } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        return CookieService.expiredSessionResponse(error);
+      }
+
       console.error('JWT verification failed:', error);
 
       return NextResponse.json(
@@ -111,7 +124,7 @@ export async function POST(request: NextRequest) {
 
     // Verify JWT token
     try {
-      const payload = JWTService.verifySSOToken(token);
+      const { payload, activity } = await SessionManager.checkSession(token, false);
 
       // Check if token is expired
       if (payload.exp && payload.exp * 1000 < Date.now()) {
@@ -134,8 +147,22 @@ export async function POST(request: NextRequest) {
         authenticated: true,
         user: userData,
         expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : null,
+        idleTimeoutMinutes: activity?.idleTimeoutMinutes ?? null,
+        idleExpiresAt: activity?.idleExpiresAt ?? null,
+        idleRemainingSeconds: activity?.idleRemainingSeconds ?? null,
       });
     } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        return NextResponse.json(
+          {
+            authenticated: false,
+            error: error.message,
+            reason: error.reason,
+          },
+          { status: 401 }
+        );
+      }
+
       console.error('JWT verification failed:', error);
 
       return NextResponse.json(
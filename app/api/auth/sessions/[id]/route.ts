@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('bfeai_session');
+
+  if (!sessionCookie?.value) {
+    return null;
+  }
+
+  try {
+    return await SessionManager.verifySession(sessionCookie.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign out one of the user's other sessions. Tokens for it are rejected from then on.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (id === session.jti) {
+      return NextResponse.json(
+        { error: 'Use sign out to end the current session' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await SessionManager.revokeSession(session.userId, id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await logSecurityEvent(
+      'SESSION_REVOKED',
+      'MEDIUM',
+      session.userId,
+      request,
+      { sessionId: id }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
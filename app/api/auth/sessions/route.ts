@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('bfeai_session');
+
+  if (!sessionCookie?.value) {
+    return null;
+  }
+
+  try {
+    return await SessionManager.verifySession(sessionCookie.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/auth/sessions
+ * The signed-in user's active sessions, with the one making the request marked current
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const sessions = await SessionManager.getActiveSessions(session.userId, session.jti);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out everywhere else: revoke every session except the current one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const revoked = await SessionManager.revokeOtherSessions(session.userId, session.jti);
+
+    await logSecurityEvent(
+      'OTHER_SESSIONS_REVOKED',
+      'MEDIUM',
+      session.userId,
+      request,
+      { revoked }
+    );
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 
 /**
  * POST /api/auth/set-sso-cookie
@@ -27,7 +27,7 @@ export async function POST(request: NextRequest) {
 
     // Verify the token is valid before setting it as a cookie
     try {
-      const payload = JWTService.verifySSOToken(token);
+      const payload = await SessionManager.verifySession(token);
       if (!payload) {
         return NextResponse.json(
           { error: 'Invalid token' },
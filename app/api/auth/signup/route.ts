@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import { checkRateLimit, getClientIp } from '@/lib/security/rate-limiter';
 import { verifyRecaptcha, isRecaptchaEnabled } from '@/lib/security/recaptcha';
 
@@ -213,8 +213,8 @@ export async function POST(request: NextRequest) {
       { email: userEmail, has_company: !!company, age_confirmed: true, age_confirmed_at: new Date().toISOString() }
     );
 
-    // Auto-login: Create JWT token and set cookie
-    const token = JWTService.generateSSOToken(userId, userEmail, 'user');
+    // Auto-login: Create the session token and set cookie
+    const token = await SessionManager.createSession(userId, userEmail, 'user', request);
 
     const cookieStore = await cookies();
     cookieStore.set('bfeai_session', token, {
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+import { TwoFactorService } from '@/lib/auth/two-factor';
+import { z } from 'zod';
+
+const regenerateSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter a code from your authenticator app'),
+});
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Replace the recovery codes with a new set. Requires a current
+ * authenticator code; the old codes stop working immediately.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionCookie = cookieStore.get('bfeai_session');
+
+    if (!sessionCookie?.value) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const payload = await SessionManager.verifySession(sessionCookie.value);
+    const userId = payload.userId;
+
+    const validation = regenerateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await TwoFactorService.isEnabled(userId))) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (!(await TwoFactorService.verify(userId, validation.data.code))) {
+      await logSecurityEvent(
+        'TWO_FACTOR_FAILED',
+        'MEDIUM',
+        userId,
+        request,
+        { action: 'regenerate_recovery_codes' }
+      );
+
+      return NextResponse.json(
+        { error: 'Enter a code from your authenticator app' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(userId);
+
+    await logSecurityEvent(
+      'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+      'MEDIUM',
+      userId,
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
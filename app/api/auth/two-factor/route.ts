@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionManager } from '@/lib/auth/session';
+import { TwoFactorService } from '@/lib/auth/two-factor';
+import { z } from 'zod';
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Verification code is required').max(32),
+});
+
+async function logSecurityEvent(
+  eventType: string,
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
+  userId: string | null,
+  request: NextRequest,
+  details?: Record<string, any>
+) {
+  try {
+    const { createClient } = await import('@/lib/supabase/server');
+    const supabase = await createClient();
+
+    const ip = request.headers.get('x-forwarded-for') ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity,
+      user_id: userId,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || 'unknown',
+      details,
+    });
+  } catch (error) {
+    console.error('Failed to log security event:', error);
+  }
+}
+
+async function getSession() {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get('bfeai_session');
+
+  if (!sessionCookie?.value) {
+    return null;
+  }
+
+  try {
+    return await SessionManager.verifySession(sessionCookie.value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/auth/two-factor
+ * Whether 2FA is on and how many recovery codes are left
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const enabled = await TwoFactorService.isEnabled(session.userId);
+
+    return NextResponse.json({
+      enabled,
+      recoveryCodesRemaining: enabled ? await TwoFactorService.countRecoveryCodes(session.userId) : 0,
+    });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/two-factor
+ * Without a body: start enrollment and return the QR code.
+ * With { code }: confirm the first code, turn 2FA on and return the recovery codes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    if (await TwoFactorService.isEnabled(session.userId)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (!body?.code) {
+      const enrollment = await TwoFactorService.beginEnrollment(session.userId, session.email);
+      return NextResponse.json(enrollment);
+    }
+
+    const validation = codeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await TwoFactorService.completeEnrollment(session.userId, validation.data.code);
+
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await logSecurityEvent(
+      'TWO_FACTOR_ENABLED',
+      'MEDIUM',
+      session.userId,
+      request,
+      { email: session.email }
+    );
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('Two-factor enrollment error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/two-factor
+ * Turn 2FA off. Requires a current authenticator or recovery code.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const validation = codeSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (!(await TwoFactorService.isEnabled(session.userId))) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (!(await TwoFactorService.verify(session.userId, validation.data.code))) {
+      await logSecurityEvent(
+        'TWO_FACTOR_FAILED',
+        'MEDIUM',
+        session.userId,
+        request,
+        { action: 'disable' }
+      );
+
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await TwoFactorService.disable(session.userId);
+
+    await logSecurityEvent(
+      'TWO_FACTOR_DISABLED',
+      'HIGH',
+      session.userId,
+      request,
+      { email: session.email }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import { createAdminClient } from '@/lib/supabase/admin';
 
 /**
@@ -16,7 +16,7 @@ export async function GET() {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     const supabase = createAdminClient();
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import {
   validateAvatarFile,
   generateAvatarPath,
@@ -54,7 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify JWT token
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     // Parse multipart form data
@@ -192,7 +192,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Verify JWT token
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     const { createClient } = await import('@/lib/supabase/server');
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { JWTService } from '@/lib/auth/jwt';
+import { SessionManager } from '@/lib/auth/session';
 import { createAdminClient } from '@/lib/supabase/admin';
 
 /**
@@ -20,7 +20,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify JWT token
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     const { createClient } = await import('@/lib/supabase/server');
@@ -87,7 +87,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Verify JWT token
-    const payload = JWTService.verifySSOToken(sessionCookie.value);
+    const payload = await SessionManager.verifySession(sessionCookie.value);
     const userId = payload.userId;
 
     const body = await request.json();
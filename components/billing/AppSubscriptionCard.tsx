@@ -1,11 +1,14 @@
 import { format } from "date-fns";
 import {
   Search,
+  Eye,
   ExternalLink,
   Calendar,
   Coins,
   AlertCircle,
   Pause,
+  ArrowUpDown,
+  CalendarClock,
 } from "lucide-react";
 import {
   Card,
@@ -17,8 +20,15 @@ import {
   Badge,
   Button,
 } from "@bfeai/ui";
+import { APP_CATALOG, type AppKey } from "@/config/apps";
+import { ALL_SUBSCRIPTIONS } from "@/config/plans";
 import type { SubscriptionSummary } from "@/services/BillingService";
 
+const APP_ICONS: Record<AppKey, typeof Search> = {
+  keywords: Search,
+  labs: Eye,
+};
+
 const STATUS_CONFIG: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
   active: { label: "Active", variant: "default" },
   trialing: { label: "Trial", variant: "secondary" },
@@ -29,34 +39,52 @@ const STATUS_CONFIG: Record<string, { label: string; variant: "default" | "secon
 };
 
 type AppSubscriptionCardProps = {
+  appKey?: AppKey;
   subscription: SubscriptionSummary | null;
   isLoading?: boolean;
-  onSubscribe: () => void;
+  onSubscribe?: () => void;
   onStartTrial?: () => void;
   onManage: () => void;
   onCancel: () => void;
+  /** Undo a pending cancellation, shown while cancelAtPeriodEnd is set */
+  onKeep?: () => void;
+  /** Shown for active subscriptions of apps with more than one tier */
+  onChangePlan?: () => void;
+  /** Monthly ↔ yearly switch, shown for active subscriptions */
+  onChangeBillingPeriod?: () => void;
   subscribeLoading?: boolean;
   trialLoading?: boolean;
   manageLoading?: boolean;
+  keepLoading?: boolean;
 };
 
 export const AppSubscriptionCard = ({
+  appKey = "keywords",
   subscription,
   isLoading,
   onSubscribe,
   onStartTrial,
   onManage,
   onCancel,
+  onKeep,
+  onChangePlan,
+  onChangeBillingPeriod,
   subscribeLoading,
   trialLoading,
   manageLoading,
+  keepLoading,
 }: AppSubscriptionCardProps) => {
+  const app = APP_CATALOG[appKey];
+  const AppIcon = APP_ICONS[appKey];
+  const basePlan = ALL_SUBSCRIPTIONS.find((plan) => plan.appKey === appKey);
+  const hasOtherTiers = ALL_SUBSCRIPTIONS.filter((plan) => plan.appKey === appKey).length > 1;
+
   if (isLoading) {
     return (
       <Card className="lg:col-span-2">
         <CardHeader>
           <CardDescription>App subscription</CardDescription>
-          <CardTitle className="text-2xl">Keywords</CardTitle>
+          <CardTitle className="text-2xl">{app.shortName}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="h-32 animate-pulse rounded-xl bg-muted" />
@@ -76,12 +104,12 @@ export const AppSubscriptionCard = ({
     <Card className="lg:col-span-2">
       <CardHeader className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
         <div className="flex items-center gap-3">
-          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-gradient-to-br from-brand-indigo to-brand-purple text-white shadow-lg">
-            <Search className="h-6 w-6" />
+          <div className={`flex h-12 w-12 items-center justify-center rounded-xl bg-gradient-to-br ${app.gradient} text-white shadow-lg`}>
+            <AppIcon className="h-6 w-6" />
           </div>
           <div>
             <CardDescription>App subscription</CardDescription>
-            <CardTitle className="text-2xl">Keywords Discovery Tool</CardTitle>
+            <CardTitle className="text-2xl">{app.name}</CardTitle>
           </div>
         </div>
         {statusConfig && (
@@ -99,7 +127,9 @@ export const AppSubscriptionCard = ({
               <span className="text-3xl font-semibold text-foreground">
                 {formatAmount(subscription.amount, subscription.currency)}
               </span>
-              <span className="text-sm text-muted-foreground">/ month</span>
+              <span className="text-sm text-muted-foreground">
+                / {subscription.billingPeriod === "yearly" ? "year" : "month"}
+              </span>
             </div>
 
             {/* Details grid */}
@@ -120,7 +150,9 @@ export const AppSubscriptionCard = ({
                   <Coins className="h-3.5 w-3.5" />
                   Monthly credits
                 </div>
-                <p className="mt-1 text-sm font-medium text-foreground">300</p>
+                <p className="mt-1 text-sm font-medium text-foreground">
+                  {subscription.monthlyCredits.toLocaleString()}
+                </p>
               </div>
             </div>
 
@@ -163,10 +195,11 @@ export const AppSubscriptionCard = ({
           </>
         ) : (
           <div className="rounded-xl border border-dashed border-border p-6 text-center">
-            <Search className="mx-auto h-10 w-10 text-muted-foreground/50" />
+            <AppIcon className="mx-auto h-10 w-10 text-muted-foreground/50" />
             <p className="mt-3 font-medium text-foreground">No active subscription</p>
             <p className="mt-1 text-sm text-muted-foreground">
-              Subscribe to Keywords for $29/mo and get 300 credits monthly to power your SEO research.
+              Subscribe to {app.shortName} for ${basePlan?.monthlyPrice ?? 29}/mo and get{" "}
+              {(basePlan?.monthlyCredits ?? 300).toLocaleString()} credits monthly.
             </p>
           </div>
         )}
@@ -176,9 +209,9 @@ export const AppSubscriptionCard = ({
         {subscription ? (
           <>
             <Button className="gap-2" asChild>
-              <a href="https://keywords.bfeai.com" target="_blank" rel="noopener noreferrer">
+              <a href={app.url} target="_blank" rel="noopener noreferrer">
                 <ExternalLink className="h-4 w-4" />
-                Launch Keywords
+                Launch {app.shortName}
               </a>
             </Button>
             <Button
@@ -188,6 +221,23 @@ export const AppSubscriptionCard = ({
             >
               {manageLoading ? "Opening..." : "Manage Billing"}
             </Button>
+            {onKeep && subscription.cancelAtPeriodEnd && (
+              <Button variant="outline" onClick={onKeep} disabled={keepLoading}>
+                {keepLoading ? "Keeping..." : "Keep my subscription"}
+              </Button>
+            )}
+            {onChangePlan && hasOtherTiers && !subscription.cancelAtPeriodEnd && subscription.status === "active" && !subscription.isPaused && (
+              <Button variant="outline" className="gap-2" onClick={onChangePlan}>
+                <ArrowUpDown className="h-4 w-4" />
+                Change plan
+              </Button>
+            )}
+            {onChangeBillingPeriod && !subscription.cancelAtPeriodEnd && subscription.status === "active" && !subscription.isPaused && (
+              <Button variant="outline" className="gap-2" onClick={onChangeBillingPeriod}>
+                <CalendarClock className="h-4 w-4" />
+                {subscription.billingPeriod === "yearly" ? "Switch to monthly" : "Switch to yearly"}
+              </Button>
+            )}
             {!subscription.cancelAtPeriodEnd && subscription.status === "active" && (
               <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={onCancel}>
                 Cancel
@@ -196,13 +246,17 @@ export const AppSubscriptionCard = ({
           </>
         ) : (
           <>
-            <Button
-              className="gap-2"
-              onClick={onSubscribe}
-              disabled={subscribeLoading}
-            >
-              {subscribeLoading ? "Redirecting..." : "Subscribe to Keywords - $29/mo"}
-            </Button>
+            {onSubscribe && (
+              <Button
+                className="gap-2"
+                onClick={onSubscribe}
+                disabled={subscribeLoading}
+              >
+                {subscribeLoading
+                  ? "Redirecting..."
+                  : `Subscribe to ${app.shortName} - $${basePlan?.monthlyPrice ?? 29}/mo`}
+              </Button>
+            )}
             {onStartTrial && (
               <Button
                 variant="outline"
@@ -73,22 +73,26 @@ const getOfferDisplay = (
   switch (offer.offerType) {
     case "discount_3mo": {
       const pct = (offer.offerDetails.percent_off as number) ?? 20;
+      const months = (offer.offerDetails.duration_months as number) ?? 3;
       const discounted = amount * (1 - pct / 100);
       return {
         icon: Percent,
-        title: `${pct}% off for 3 months`,
-        description: `Your price drops from ${fmt(amount)}/mo to ${fmt(discounted)}/mo for the next 3 months, then returns to the regular price.`,
+        title: `${pct}% off for ${months} months`,
+        description: `Your price drops from ${fmt(amount)}/mo to ${fmt(discounted)}/mo for the next ${months} months, then returns to the regular price.`,
         ctaLabel: "Apply discount",
         gradient: "from-green-500/10 to-emerald-500/10",
       };
     }
     case "discount_1mo": {
       const pct = (offer.offerDetails.percent_off as number) ?? 25;
+      const months = (offer.offerDetails.duration_months as number) ?? 1;
       const discounted = amount * (1 - pct / 100);
       return {
         icon: Percent,
-        title: `${pct}% off next month`,
-        description: `Get your next month for just ${fmt(discounted)} instead of ${fmt(amount)}, then return to the regular price.`,
+        title: months === 1 ? `${pct}% off next month` : `${pct}% off for ${months} months`,
+        description: months === 1
+          ? `Get your next month for just ${fmt(discounted)} instead of ${fmt(amount)}, then return to the regular price.`
+          : `Your price drops from ${fmt(amount)}/mo to ${fmt(discounted)}/mo for the next ${months} months, then returns to the regular price.`,
         ctaLabel: "Apply discount",
         gradient: "from-blue-500/10 to-indigo-500/10",
       };
@@ -149,7 +153,7 @@ export const CancellationDialog = ({
     isLoading,
     error,
     reset,
-  } = useCancellation();
+  } = useCancellation(subscription?.id ?? null);
 
   const handleClose = () => {
     onOpenChange(false);
@@ -214,7 +218,7 @@ export const CancellationDialog = ({
               <DialogTitle>We&apos;re sorry to see you go</DialogTitle>
               <DialogDescription>
                 Help us improve &mdash; what&apos;s your primary reason for
-                cancelling?
+                cancelling {subscription.planName}?
               </DialogDescription>
             </DialogHeader>
 
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight, Coins, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Alert,
+  AlertDescription,
+} from "@bfeai/ui";
+import { toast } from "@bfeai/ui";
+import { useBilling } from "@/hooks/useBilling";
+import type {
+  BillingPeriod,
+  BillingPeriodChangePreview,
+  SubscriptionSummary,
+} from "@/services/BillingService";
+
+const PERIOD_LABELS: Record<BillingPeriod, { adjective: string; unit: string }> = {
+  monthly: { adjective: "Monthly", unit: "month" },
+  yearly: { adjective: "Yearly", unit: "year" },
+};
+
+type ChangeBillingPeriodDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subscription: SubscriptionSummary | null;
+};
+
+/**
+ * Switch a subscription between monthly and yearly billing after reviewing
+ * Stripe's proration preview.
+ */
+export const ChangeBillingPeriodDialog = ({ open, onOpenChange, subscription }: ChangeBillingPeriodDialogProps) => {
+  const { previewBillingPeriodChange, changeBillingPeriod, changeBillingPeriodLoading } = useBilling();
+  const [preview, setPreview] = useState<BillingPeriodChangePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const targetPeriod: BillingPeriod = subscription?.billingPeriod === "yearly" ? "monthly" : "yearly";
+
+  useEffect(() => {
+    if (!open || !subscription) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+
+    previewBillingPeriodChange(subscription.id, targetPeriod)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : "Unable to preview this change.");
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, subscription, targetPeriod, previewBillingPeriodChange]);
+
+  const fmt = (amount: number, currency: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const handleConfirm = async () => {
+    if (!subscription || !preview) return;
+    try {
+      await changeBillingPeriod({
+        subscriptionId: subscription.id,
+        billingPeriod: targetPeriod,
+        prorationDate: preview.preview.prorationDate,
+      });
+      toast({
+        title: `Switched to ${PERIOD_LABELS[targetPeriod].adjective.toLowerCase()} billing`,
+        description: "Your new billing period starts today.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Billing period switch failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const credit = preview ? Math.abs(Math.min(preview.preview.prorationAmount, 0)) : 0;
+  const leftover = preview ? Math.max(credit - preview.newAmount, 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Switch to {PERIOD_LABELS[targetPeriod].adjective.toLowerCase()} billing</DialogTitle>
+          <DialogDescription>
+            Your new billing period starts today. Unused time on your current period is credited.
+          </DialogDescription>
+        </DialogHeader>
+
+        {previewLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Calculating proration...
+          </div>
+        )}
+
+        {previewError && (
+          <Alert variant="destructive">
+            <AlertDescription>{previewError}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-3 rounded-xl border border-border bg-muted/50 p-4 text-sm">
+            <div className="flex items-center gap-2 font-medium text-foreground">
+              {fmt(preview.currentAmount, preview.preview.currency)} / {PERIOD_LABELS[preview.currentPeriod].unit}
+              <ArrowRight className="h-4 w-4" />
+              {fmt(preview.newAmount, preview.preview.currency)} / {PERIOD_LABELS[preview.newPeriod].unit}
+            </div>
+
+            <p className="text-muted-foreground">
+              {credit > 0 && (
+                <>
+                  Unused time is worth{" "}
+                  <span className="font-semibold text-foreground">{fmt(credit, preview.preview.currency)}</span>.{" "}
+                </>
+              )}
+              You'll be charged{" "}
+              <span className="font-semibold text-foreground">
+                {fmt(preview.preview.chargeNow, preview.preview.currency)}
+              </span>{" "}
+              today
+              {leftover > 0 && (
+                <>
+                  {" "}and the remaining {fmt(leftover, preview.preview.currency)} goes toward your next invoices
+                </>
+              )}
+              .
+            </p>
+
+            {preview.preview.invoiceDate && (
+              <p className="text-muted-foreground">
+                Renews on {format(new Date(preview.preview.invoiceDate), "MMMM d, yyyy")}.
+              </p>
+            )}
+
+            <div className="flex items-start gap-2 text-muted-foreground">
+              <Coins className="mt-0.5 h-4 w-4 shrink-0" />
+              <p>
+                {preview.newPeriod === "yearly"
+                  ? `This month's credits stay. You keep getting ${subscription?.monthlyCredits.toLocaleString() ?? ""} credits every month, counted from today.`
+                  : `This month's credits stay. From your first monthly renewal you get ${subscription?.monthlyCredits.toLocaleString() ?? ""} credits with each payment.`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep {PERIOD_LABELS[subscription?.billingPeriod ?? "monthly"].adjective.toLowerCase()} billing
+          </Button>
+          <Button
+            disabled={!preview || previewLoading || changeBillingPeriodLoading}
+            onClick={() => void handleConfirm()}
+          >
+            {changeBillingPeriodLoading ? "Switching..." : "Confirm switch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
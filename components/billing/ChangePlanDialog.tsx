@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight, Coins, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  RadioGroup,
+  RadioGroupItem,
+  Label,
+  Alert,
+  AlertDescription,
+} from "@bfeai/ui";
+import { toast } from "@bfeai/ui";
+import { ALL_SUBSCRIPTIONS } from "@/config/plans";
+import { useBilling } from "@/hooks/useBilling";
+import type { PlanChangePreview, SubscriptionSummary } from "@/services/BillingService";
+
+const TIER_LABELS: Record<string, string> = {
+  standard: "Standard",
+  base_tracker: "Base Tracker",
+  aeo_consultant: "AEO Consultant",
+};
+
+type ChangePlanDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subscription: SubscriptionSummary | null;
+};
+
+/**
+ * Pick another tier of the same app, review Stripe's proration preview, then confirm.
+ */
+export const ChangePlanDialog = ({ open, onOpenChange, subscription }: ChangePlanDialogProps) => {
+  const { previewPlanChange, changePlan, changePlanLoading } = useBilling();
+  const [tier, setTier] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const otherTiers = ALL_SUBSCRIPTIONS.filter(
+    (plan) => plan.appKey === subscription?.appKey && plan.tier !== subscription?.tier
+  );
+
+  useEffect(() => {
+    if (!open) {
+      setTier(null);
+      setPreview(null);
+      setPreviewError(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !subscription || !tier) return;
+
+    let cancelled = false;
+    setPreview(null);
+    setPreviewError(null);
+    setPreviewLoading(true);
+
+    previewPlanChange(subscription.id, tier)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : "Unable to preview this change.");
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, subscription, tier, previewPlanChange]);
+
+  const fmt = (amount: number, currency: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const handleConfirm = async () => {
+    if (!subscription || !tier || !preview) return;
+    try {
+      const result = await changePlan({
+        subscriptionId: subscription.id,
+        tier,
+        prorationDate: preview.preview.prorationDate,
+      });
+      toast({
+        title: `Switched to ${TIER_LABELS[tier] ?? tier}`,
+        description: result.allocated > 0
+          ? `${result.allocated.toLocaleString()} bonus credits were added for the rest of this period.`
+          : "Your new plan is active.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Plan change failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change plan</DialogTitle>
+          <DialogDescription>
+            Currently on {TIER_LABELS[subscription?.tier ?? ""] ?? subscription?.tier ?? "your plan"}.
+            Choose a new plan to see what you'll pay.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={tier ?? ""} onValueChange={setTier} className="space-y-2">
+          {otherTiers.map((plan) => (
+            <Label
+              key={plan.tier}
+              htmlFor={`tier-${plan.tier}`}
+              className="flex cursor-pointer items-center gap-3 rounded-xl border border-border p-3 hover:bg-muted/50"
+            >
+              <RadioGroupItem id={`tier-${plan.tier}`} value={plan.tier} />
+              <div className="flex-1">
+                <p className="font-medium text-foreground">{TIER_LABELS[plan.tier] ?? plan.tier}</p>
+                <p className="text-xs text-muted-foreground">
+                  ${plan.monthlyPrice}/mo · {plan.monthlyCredits.toLocaleString()} credits/mo · caps at{" "}
+                  {plan.creditCap.toLocaleString()}
+                </p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {previewLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Calculating proration...
+          </div>
+        )}
+
+        {previewError && (
+          <Alert variant="destructive">
+            <AlertDescription>{previewError}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-3 rounded-xl border border-border bg-muted/50 p-4 text-sm">
+            <div className="flex items-center gap-2 font-medium text-foreground">
+              {TIER_LABELS[preview.currentPlan.tier] ?? preview.currentPlan.tier}
+              <ArrowRight className="h-4 w-4" />
+              {TIER_LABELS[preview.newPlan.tier] ?? preview.newPlan.tier}
+            </div>
+
+            {preview.isUpgrade ? (
+              <p className="text-muted-foreground">
+                You'll be charged{" "}
+                <span className="font-semibold text-foreground">
+                  {fmt(preview.preview.chargeNow, preview.preview.currency)}
+                </span>{" "}
+                now for the rest of this billing period.
+              </p>
+            ) : (
+              <p className="text-muted-foreground">
+                Unused time on your current plan becomes a{" "}
+                <span className="font-semibold text-foreground">
+                  {fmt(Math.abs(preview.preview.prorationAmount), preview.preview.currency)}
+                </span>{" "}
+                credit on your next invoice
+                {preview.preview.invoiceDate
+                  ? ` (${format(new Date(preview.preview.invoiceDate), "MMMM d, yyyy")}, ${fmt(preview.preview.invoiceTotal, preview.preview.currency)} total)`
+                  : ""}
+                .
+              </p>
+            )}
+
+            <div className="flex items-start gap-2 text-muted-foreground">
+              <Coins className="mt-0.5 h-4 w-4 shrink-0" />
+              <p>
+                {preview.isUpgrade
+                  ? `${preview.bonusCredits.toLocaleString()} extra credits now for the rest of this period, then ${preview.newPlan.monthlyCredits.toLocaleString()} credits each month.`
+                  : `You keep your current credits. From your next allocation you get ${preview.newPlan.monthlyCredits.toLocaleString()} credits a month, capped at ${preview.newPlan.creditCap.toLocaleString()}.`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep current plan
+          </Button>
+          <Button
+            disabled={!preview || previewLoading || changePlanLoading}
+            onClick={() => void handleConfirm()}
+          >
+            {changePlanLoading ? "Switching..." : "Confirm change"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
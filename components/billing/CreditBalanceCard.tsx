@@ -1,4 +1,5 @@
-import { Coins, TrendingUp, ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+import { Coins, TrendingUp, ArrowRight, Clock } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -78,9 +79,24 @@ export const CreditBalanceCard = ({
         {/* Total balance */}
         <div className="flex items-baseline gap-2">
           <span className="text-3xl font-bold text-foreground">
-            {balance.total.toLocaleString()}
+            {balance.available.toLocaleString()}
           </span>
           <span className="text-sm text-muted-foreground">credits available</span>
+          {balance.held > 0 && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="outline" className="ml-auto">
+                    {balance.held.toLocaleString()} on hold
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Reserved for scans and reports still running.</p>
+                  <p>Unused credits return to your balance when they finish.</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
         </div>
 
         {/* Pool breakdown */}
@@ -133,12 +149,22 @@ export const CreditBalanceCard = ({
               </TooltipTrigger>
               <TooltipContent>
                 <p>Credits from top-up purchases. No cap.</p>
-                <p>These are used after trial credits.</p>
+                <p>These are used after trial credits, oldest purchase first.</p>
+                <p>Purchased packs expire 12 months after purchase.</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
         </div>
 
+        {/* Next top-up expiry */}
+        {balance.nextExpiring && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {balance.nextExpiring.amount.toLocaleString()} top-up credits expire on{" "}
+            {format(new Date(balance.nextExpiring.expiresAt), "MMM d, yyyy")}
+          </p>
+        )}
+
         {/* Subscription cap progress */}
         <div className="space-y-1.5">
           <div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -8,6 +8,7 @@ import {
   TableHeader,
   TableRow,
   Button,
+  Badge,
 } from "@bfeai/ui";
 import type { CreditTransaction } from "@/services/BillingService";
 
@@ -18,8 +19,18 @@ const TYPE_LABELS: Record<string, string> = {
   admin_adjustment: "Adjustment",
   refund: "Refund",
   expiry: "Expired",
+  topup_expired: "Top-up expired",
   retention_bonus: "Bonus",
   trial_allocation: "Trial credits",
+  transfer_out: "Transfer sent",
+  transfer_in: "Transfer received",
+  gift_redemption: "Gift redeemed",
+};
+
+/** Types rendered as a badge instead of plain text, so manual corrections stand out. */
+const TYPE_BADGE_CLASSES: Record<string, string> = {
+  refund: "border-green-200 bg-green-50 text-green-700 dark:border-green-800 dark:bg-green-950/30 dark:text-green-400",
+  admin_adjustment: "border-blue-200 bg-blue-50 text-blue-700 dark:border-blue-800 dark:bg-blue-950/30 dark:text-blue-400",
 };
 
 /** Make raw operation descriptions human-readable. */
@@ -126,11 +137,20 @@ export const CreditHistoryTable = ({
                     {format(new Date(txn.created_at), "MMM d, yyyy")}
                   </TableCell>
                   <TableCell>
-                    <span className="text-sm">
-                      {TYPE_LABELS[txn.type] ?? txn.type}
-                    </span>
+                    {TYPE_BADGE_CLASSES[txn.type] ? (
+                      <Badge variant="outline" className={TYPE_BADGE_CLASSES[txn.type]}>
+                        {TYPE_LABELS[txn.type] ?? txn.type}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm">
+                        {TYPE_LABELS[txn.type] ?? txn.type}
+                      </span>
+                    )}
                   </TableCell>
-                  <TableCell className="max-w-[280px] truncate text-sm text-muted-foreground">
+                  <TableCell
+                    className="max-w-[280px] truncate text-sm text-muted-foreground"
+                    title={txn.reason ?? undefined}
+                  >
                     {friendlyDescription(txn.description, txn.app_key)}
                   </TableCell>
                   <TableCell className="text-right">
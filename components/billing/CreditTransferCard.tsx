@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Send } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  toast,
+} from "@bfeai/ui";
+import type { CreditBalance } from "@/services/BillingService";
+
+type CreditTransferCardProps = {
+  balance: CreditBalance | null;
+  onTransfer: (email: string, amount: number, note?: string) => Promise<unknown>;
+  transferLoading?: boolean;
+};
+
+/**
+ * Send top-up credits to another BFEAI account by email, e.g. an agency
+ * funding a client account. Monthly subscription credits can't be transferred.
+ */
+export const CreditTransferCard = ({ balance, onTransfer, transferLoading }: CreditTransferCardProps) => {
+  const [email, setEmail] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const transferable = balance ? Math.max(Math.min(balance.topupBalance, balance.available), 0) : 0;
+  const amountValue = Number(amount);
+  const amountValid = Number.isInteger(amountValue) && amountValue >= 1 && amountValue <= transferable;
+
+  const handleTransfer = async () => {
+    try {
+      await onTransfer(email.trim(), amountValue, note.trim() || undefined);
+      toast({ title: `Sent ${amountValue.toLocaleString()} credits to ${email.trim()}` });
+      setEmail("");
+      setAmount("");
+      setNote("");
+    } catch (error) {
+      toast({
+        title: "Transfer failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle>Transfer credits</CardTitle>
+          <CardDescription>
+            Send top-up credits to anyone by email. They keep their original expiry date. Without a BFEAI
+            account, the recipient gets a gift code to redeem after signing up.
+          </CardDescription>
+        </div>
+        <Send className="h-5 w-5 text-brand-indigo" />
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="transfer-email">Recipient email</Label>
+            <Input
+              id="transfer-email"
+              type="email"
+              placeholder="client@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="transfer-amount">Credits</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              min={1}
+              max={transferable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {transferable.toLocaleString()} top-up credits available to transfer
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="transfer-note">Note (optional)</Label>
+          <Textarea
+            id="transfer-note"
+            rows={2}
+            maxLength={500}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          disabled={transferLoading || !email.trim() || !amountValid}
+          onClick={() => void handleTransfer()}
+        >
+          {transferLoading ? "Sending..." : "Send Credits"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
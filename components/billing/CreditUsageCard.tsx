@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { BarChart3 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+  type ChartConfig,
+} from "@bfeai/ui";
+import { useCreditUsageAnalytics } from "@/hooks/useCredits";
+import type { UsageBreakdownEntry, UsageBucket } from "@/services/BillingService";
+
+const APP_CHART_CONFIG: ChartConfig = {
+  keywords: { label: "Keywords", color: "var(--brand-indigo)" },
+  labs: { label: "LABS", color: "var(--brand-teal)" },
+  unknown: { label: "Other", color: "var(--brand-purple)" },
+};
+
+const POOL_LABELS: Record<string, string> = {
+  subscription: "Subscription",
+  topup: "Top-up",
+  trial: "Trial",
+};
+
+const BUCKET_TICK_FORMAT: Record<UsageBucket, string> = {
+  day: "MMM d",
+  week: "MMM d",
+  month: "MMM yyyy",
+};
+
+const BUCKET_RANGE_LABEL: Record<UsageBucket, string> = {
+  day: "Last 30 days",
+  week: "Last 12 weeks",
+  month: "Last 12 months",
+};
+
+const operationLabel = (operation: string) => {
+  const clean = operation.replace(/_/g, " ");
+  return clean.charAt(0).toUpperCase() + clean.slice(1);
+};
+
+const BreakdownList = ({
+  title,
+  entries,
+  labelFor,
+  total,
+}: {
+  title: string;
+  entries: UsageBreakdownEntry[];
+  labelFor: (key: string) => string;
+  total: number;
+}) => (
+  <div className="space-y-2">
+    <p className="text-xs font-medium text-muted-foreground">{title}</p>
+    {entries.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No usage</p>
+    ) : (
+      entries.slice(0, 5).map((entry) => (
+        <div key={entry.key} className="flex items-center justify-between text-sm">
+          <span className="truncate text-foreground">{labelFor(entry.key)}</span>
+          <span className="shrink-0 text-muted-foreground">
+            {entry.credits.toLocaleString()}
+            {total > 0 && ` (${Math.round((entry.credits / total) * 100)}%)`}
+          </span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+/**
+ * Net credit usage by app over time, top operations, pool split and a
+ * projection of when the balance runs out at the current burn rate.
+ */
+export const CreditUsageCard = () => {
+  const [bucket, setBucket] = useState<UsageBucket>("day");
+  const { analytics, isLoading } = useCreditUsageAnalytics(bucket);
+
+  const chartData = (analytics?.series ?? []).map((point) => ({
+    label: format(new Date(point.bucketStart), BUCKET_TICK_FORMAT[bucket]),
+    keywords: point.apps.keywords ?? 0,
+    labs: point.apps.labs ?? 0,
+    unknown: point.apps.unknown ?? 0,
+  }));
+  const projection = analytics?.projection;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 pb-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-brand-indigo" />
+            Usage
+          </CardTitle>
+          <CardDescription>Where your credits go. {BUCKET_RANGE_LABEL[bucket]}.</CardDescription>
+        </div>
+        <Tabs value={bucket} onValueChange={(value) => setBucket(value as UsageBucket)}>
+          <TabsList>
+            <TabsTrigger value="day">Daily</TabsTrigger>
+            <TabsTrigger value="week">Weekly</TabsTrigger>
+            <TabsTrigger value="month">Monthly</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {isLoading || !analytics ? (
+          <div className="h-64 animate-pulse rounded-xl bg-muted" />
+        ) : (
+          <>
+            <ChartContainer config={APP_CHART_CONFIG} className="aspect-auto h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="keywords" stackId="usage" fill="var(--color-keywords)" />
+                <Bar dataKey="labs" stackId="usage" fill="var(--color-labs)" />
+                <Bar dataKey="unknown" stackId="usage" fill="var(--color-unknown)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+
+            <div className="grid gap-6 sm:grid-cols-3">
+              <BreakdownList
+                title="Top operations"
+                entries={analytics.byOperation}
+                labelFor={operationLabel}
+                total={analytics.totals.credits}
+              />
+              <BreakdownList
+                title="By app"
+                entries={analytics.byApp}
+                labelFor={(key) => String(APP_CHART_CONFIG[key]?.label ?? key)}
+                total={analytics.totals.credits}
+              />
+              <BreakdownList
+                title="By pool"
+                entries={analytics.byPool}
+                labelFor={(key) => POOL_LABELS[key] ?? key}
+                total={analytics.totals.credits}
+              />
+            </div>
+
+            {projection && (
+              <div className="rounded-xl border border-border bg-muted/50 p-3 text-sm">
+                {projection.runOutDate && projection.daysRemaining !== null ? (
+                  <p className="text-foreground">
+                    At your current rate of{" "}
+                    <span className="font-semibold">{projection.burnRatePerDay.toLocaleString()} credits/day</span>,
+                    your {projection.available.toLocaleString()} available credits last about{" "}
+                    <span className="font-semibold">{projection.daysRemaining.toLocaleString()} days</span> (until{" "}
+                    {format(new Date(projection.runOutDate), "MMM d, yyyy")}).
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">No credits used in the last 30 days.</p>
+                )}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Based on the last 30 days. Monthly allocations and top-ups are not included.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Gift } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Badge,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  toast,
+} from "@bfeai/ui";
+import { useGiftCodes } from "@/hooks/useCredits";
+import { TOPUP_PACKS } from "@/components/billing/TopUpPacksGrid";
+
+type GiftCodesCardProps = {
+  onRedeem: (code: string) => Promise<{ allocated: number }>;
+  redeemLoading?: boolean;
+};
+
+/**
+ * Redeem a gift code into the top-up balance, or buy one for someone else.
+ */
+export const GiftCodesCard = ({ onRedeem, redeemLoading }: GiftCodesCardProps) => {
+  const { giftCodes, purchaseGiftCode, purchaseLoading } = useGiftCodes();
+
+  const [code, setCode] = useState("");
+  const [pack, setPack] = useState("builder");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleRedeem = async () => {
+    try {
+      const { allocated } = await onRedeem(code.trim());
+      toast({ title: `Gift redeemed: ${allocated.toLocaleString()} credits added` });
+      setCode("");
+    } catch (error) {
+      toast({
+        title: "Could not redeem gift code",
+        description: error instanceof Error ? error.message : "Please check the code and try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurchase = async () => {
+    try {
+      const url = await purchaseGiftCode(pack, recipientEmail.trim() || undefined, message.trim() || undefined);
+      window.location.href = url;
+    } catch (error) {
+      toast({
+        title: "Purchase failed",
+        description: error instanceof Error ? error.message : "Unable to start checkout. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle>Gift codes</CardTitle>
+          <CardDescription>Redeem a gift code, or buy credits for someone else.</CardDescription>
+        </div>
+        <Gift className="h-5 w-5 text-brand-indigo" />
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleRedeem();
+          }}
+        >
+          <div className="flex-1 space-y-1.5">
+            <Label htmlFor="gift-code">Gift code</Label>
+            <Input
+              id="gift-code"
+              placeholder="GIFT-XXXX-XXXX-XXXX"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={redeemLoading || !code.trim()}>
+            {redeemLoading ? "Redeeming..." : "Redeem"}
+          </Button>
+        </form>
+
+        <div className="space-y-3 rounded-xl border border-border bg-muted/50 p-3">
+          <p className="text-sm font-semibold text-foreground">Buy a gift</p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="gift-pack" className="text-xs">Pack</Label>
+              <Select value={pack} onValueChange={setPack}>
+                <SelectTrigger id="gift-pack">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOPUP_PACKS.map((p) => (
+                    <SelectItem key={p.key} value={p.key}>
+                      {p.name}: {p.credits.toLocaleString()} credits for ${p.price}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="gift-recipient" className="text-xs">Recipient email (optional)</Label>
+              <Input
+                id="gift-recipient"
+                type="email"
+                placeholder="Leave empty to get the code yourself"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="gift-message" className="text-xs">Message (optional)</Label>
+            <Textarea
+              id="gift-message"
+              rows={2}
+              maxLength={500}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+          <Button className="w-full" disabled={purchaseLoading} onClick={() => void handlePurchase()}>
+            {purchaseLoading ? "Redirecting..." : "Buy Gift Code"}
+          </Button>
+        </div>
+
+        {giftCodes.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold text-foreground">Gift codes you bought</p>
+            <ul className="divide-y divide-border rounded-xl border border-border text-sm">
+              {giftCodes.map((gift) => (
+                <li key={gift.id} className="flex items-center justify-between gap-3 p-3">
+                  <div>
+                    <p className="font-mono font-medium text-foreground">{gift.code}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {gift.credits.toLocaleString()} credits
+                      {gift.recipientEmail ? ` · sent to ${gift.recipientEmail}` : ""}
+                      {` · ${format(new Date(gift.createdAt), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{gift.redeemedAt ? "Redeemed" : "Unused"}</Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
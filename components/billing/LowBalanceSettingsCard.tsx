@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { BellRing } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Input,
+  Label,
+  Switch,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  toast,
+} from "@bfeai/ui";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { TOPUP_PACKS } from "@/components/billing/TopUpPacksGrid";
+
+const MONTHLY_LIMIT_OPTIONS = [1, 2, 3, 5, 10];
+
+/**
+ * Low-balance alert threshold and opt-in auto top-up, stored in user_settings.
+ */
+export const LowBalanceSettingsCard = () => {
+  const { settings, isLoading, updateSetting, updating } = useUserSettings();
+
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
+  const [threshold, setThreshold] = useState("50");
+  const [autoTopUp, setAutoTopUp] = useState(false);
+  const [pack, setPack] = useState("builder");
+  const [monthlyLimit, setMonthlyLimit] = useState(2);
+
+  useEffect(() => {
+    if (!settings) return;
+    setAlertsEnabled(settings.low_balance_threshold !== null);
+    setThreshold(String(settings.low_balance_threshold ?? 50));
+    setAutoTopUp(settings.auto_topup_enabled);
+    setPack(settings.auto_topup_pack ?? "builder");
+    setMonthlyLimit(settings.auto_topup_max_per_month);
+  }, [settings]);
+
+  const thresholdValue = Number(threshold);
+  const thresholdValid = Number.isInteger(thresholdValue) && thresholdValue >= 1 && thresholdValue <= 100000;
+  const selectedPack = TOPUP_PACKS.find((p) => p.key === pack);
+
+  const handleSave = async () => {
+    try {
+      await updateSetting({
+        low_balance_threshold: alertsEnabled ? thresholdValue : null,
+        auto_topup_enabled: alertsEnabled && autoTopUp,
+        auto_topup_pack: pack,
+        auto_topup_max_per_month: monthlyLimit,
+      });
+      toast({ title: "Low-balance settings saved" });
+    } catch (error) {
+      toast({
+        title: "Could not save settings",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle>Low-balance alerts</CardTitle>
+          <CardDescription>Get an email, or top up automatically, before you run out.</CardDescription>
+        </div>
+        <BellRing className="h-5 w-5 text-brand-indigo" />
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded-xl bg-muted" />
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="low-balance-alerts">Email me when my balance drops below</Label>
+              <Switch
+                id="low-balance-alerts"
+                checked={alertsEnabled}
+                onCheckedChange={setAlertsEnabled}
+              />
+            </div>
+
+            {alertsEnabled && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="low-balance-threshold"
+                    type="number"
+                    min={1}
+                    className="w-32"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">credits</span>
+                </div>
+
+                <div className="space-y-3 rounded-xl border border-border bg-muted/50 p-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="auto-topup">Auto top-up</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Charge my saved card for a pack instead of emailing me.
+                      </p>
+                    </div>
+                    <Switch id="auto-topup" checked={autoTopUp} onCheckedChange={setAutoTopUp} />
+                  </div>
+
+                  {autoTopUp && (
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="space-y-1.5">
+                        <Label htmlFor="auto-topup-pack" className="text-xs">Pack</Label>
+                        <Select value={pack} onValueChange={setPack}>
+                          <SelectTrigger id="auto-topup-pack">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TOPUP_PACKS.map((p) => (
+                              <SelectItem key={p.key} value={p.key}>
+                                {p.name}: {p.credits.toLocaleString()} credits for ${p.price}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="auto-topup-limit" className="text-xs">At most, per month</Label>
+                        <Select value={String(monthlyLimit)} onValueChange={(v) => setMonthlyLimit(Number(v))}>
+                          <SelectTrigger id="auto-topup-limit">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MONTHLY_LIMIT_OPTIONS.map((n) => (
+                              <SelectItem key={n} value={String(n)}>
+                                {n} top-up{n === 1 ? "" : "s"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {selectedPack && (
+                        <p className="text-xs text-muted-foreground sm:col-span-2">
+                          Up to ${(selectedPack.price * monthlyLimit).toLocaleString()} per month. If the limit is
+                          reached or the charge fails, we email you instead.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <Button
+              className="w-full"
+              disabled={updating || (alertsEnabled && !thresholdValid)}
+              onClick={() => void handleSave()}
+            >
+              {updating ? "Saving..." : "Save"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,58 @@
+import { AlertCircle, CreditCard } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@bfeai/ui";
+import { useDunning } from "@/hooks/useDunning";
+import { APP_CATALOG, type AppKey } from "@/config/apps";
+
+/** Opens the Stripe portal on the payment method form (see billing/portal) */
+const UPDATE_PAYMENT_HREF = "/billing/portal?flow=payment_method_update";
+
+/**
+ * Dashboard-wide banner shown while a subscription payment is past due.
+ * Links straight to the portal's payment method form.
+ */
+export function PastDueBanner() {
+  const { cases, restricted } = useDunning();
+
+  if (cases.length === 0) return null;
+
+  const apps = cases
+    .map((c) => APP_CATALOG[c.appKey as AppKey]?.shortName ?? c.appKey)
+    .join(" and ");
+  const actionRequired = cases.every((c) => c.actionRequired);
+  const restrictAt = cases.reduce(
+    (earliest, c) => (c.restrictAt < earliest ? c.restrictAt : earliest),
+    cases[0].restrictAt
+  );
+
+  return (
+    <div
+      role="alert"
+      className={
+        restricted
+          ? "mb-4 flex flex-col gap-3 rounded-xl border border-red-200 bg-red-50 p-4 sm:flex-row sm:items-center dark:border-red-900/50 dark:bg-red-900/20"
+          : "mb-4 flex flex-col gap-3 rounded-xl border border-amber-200 bg-amber-50 p-4 sm:flex-row sm:items-center dark:border-amber-900/50 dark:bg-amber-900/20"
+      }
+    >
+      <AlertCircle className={restricted ? "h-5 w-5 shrink-0 text-red-600" : "h-5 w-5 shrink-0 text-amber-600"} />
+      <div className="flex-1 text-sm">
+        <p className={restricted ? "font-medium text-red-900 dark:text-red-200" : "font-medium text-amber-900 dark:text-amber-200"}>
+          {actionRequired
+            ? `Your ${apps} payment needs confirmation`
+            : `Your ${apps} payment didn't go through`}
+        </p>
+        <p className={restricted ? "text-red-700 dark:text-red-300" : "text-amber-700 dark:text-amber-300"}>
+          {restricted
+            ? "Credit usage is paused until the payment succeeds. Everything is restored automatically once it does."
+            : `Update your payment method by ${format(new Date(restrictAt), "MMMM d")} to keep using credits without interruption.`}
+        </p>
+      </div>
+      <Button className="gap-2" asChild size="sm" variant={restricted ? "destructive" : "default"}>
+        <a href={UPDATE_PAYMENT_HREF}>
+          <CreditCard className="h-4 w-4" />
+          Update payment method
+        </a>
+      </Button>
+    </div>
+  );
+}
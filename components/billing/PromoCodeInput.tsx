@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { Button, Input } from "@bfeai/ui";
+import { toast } from "@bfeai/ui";
+import { BillingService, type PromoCodeKind, type PromoCodeQuote } from "@/services/BillingService";
+
+type PromoCodeInputProps = {
+  kind: PromoCodeKind;
+  quote: PromoCodeQuote | null;
+  onChange: (quote: PromoCodeQuote | null) => void;
+};
+
+/**
+ * Enter a promo code and preview it. The code is validated against the
+ * current prices; the parent shows the discounted prices from `quote` and
+ * passes `quote.code` on to checkout.
+ */
+export const PromoCodeInput = ({ kind, quote, onChange }: PromoCodeInputProps) => {
+  const [code, setCode] = useState("");
+  const [validating, setValidating] = useState(false);
+
+  const handleApply = async () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    setValidating(true);
+    try {
+      onChange(await BillingService.validatePromoCode(trimmed, kind));
+      setCode("");
+    } catch (error) {
+      toast({
+        title: "Promo code not applied",
+        description: error instanceof Error ? error.message : "Please check the code and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  if (quote) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Tag className="h-4 w-4 text-green-600" />
+        <span className="font-medium text-foreground">{quote.code}</span>
+        <span className="text-muted-foreground">{quote.description}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => onChange(null)}
+        >
+          <X className="h-3 w-3" />
+          Remove
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleApply();
+      }}
+    >
+      <Input
+        aria-label="Promo code"
+        placeholder="Promo code"
+        className="w-48"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+      />
+      <Button type="submit" variant="outline" disabled={validating || !code.trim()}>
+        {validating ? "Checking..." : "Apply"}
+      </Button>
+    </form>
+  );
+};
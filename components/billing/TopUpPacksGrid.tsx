@@ -10,6 +10,8 @@ import {
   Button,
 } from "@bfeai/ui";
 import { toast } from "@bfeai/ui";
+import type { PromoCodeQuote } from "@/services/BillingService";
+import { PromoCodeInput } from "@/components/billing/PromoCodeInput";
 
 type TopUpPack = {
   key: string;
@@ -19,7 +21,7 @@ type TopUpPack = {
   bestValue?: boolean;
 };
 
-const TOPUP_PACKS: TopUpPack[] = [
+export const TOPUP_PACKS: TopUpPack[] = [
   { key: "starter", name: "Starter Boost", credits: 75, price: 9 },
   { key: "builder", name: "Builder Pack", credits: 270, price: 29 },
   { key: "power", name: "Power Pack", credits: 980, price: 99, bestValue: true },
@@ -28,7 +30,7 @@ const TOPUP_PACKS: TopUpPack[] = [
 ];
 
 type TopUpPacksGridProps = {
-  onPurchase: (packKey: string) => Promise<string>;
+  onPurchase: (packKey: string, promoCode?: string) => Promise<string>;
   purchaseLoading?: boolean;
 };
 
@@ -37,11 +39,13 @@ export const TopUpPacksGrid = ({
   purchaseLoading,
 }: TopUpPacksGridProps) => {
   const [purchasingKey, setPurchasingKey] = useState<string | null>(null);
+  const [promo, setPromo] = useState<PromoCodeQuote | null>(null);
 
   const handlePurchase = async (pack: TopUpPack) => {
     setPurchasingKey(pack.key);
     try {
-      const url = await onPurchase(pack.key);
+      // Only send the code for packs it discounts
+      const url = await onPurchase(pack.key, promo?.prices[pack.key] ? promo.code : undefined);
       window.location.href = url;
     } catch (error) {
       toast({
@@ -61,12 +65,15 @@ export const TopUpPacksGrid = ({
         <h3 className="text-lg font-semibold text-foreground">Top-Up Credit Packs</h3>
       </div>
       <p className="text-sm text-muted-foreground">
-        Need more credits? Purchase a one-time top-up pack. Credits never expire and are used before your subscription credits.
+        Need more credits? Purchase a one-time top-up pack. Credits are used before your subscription credits and expire 12 months after purchase.
       </p>
 
+      <PromoCodeInput kind="topup" quote={promo} onChange={setPromo} />
+
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
         {TOPUP_PACKS.map((pack) => {
           const isLoading = purchaseLoading && purchasingKey === pack.key;
+          const discounted = promo?.prices[pack.key];
           return (
             <Card
               key={pack.key}
@@ -88,7 +95,14 @@ export const TopUpPacksGrid = ({
               <CardHeader className={`pb-2 ${pack.bestValue ? "pt-5" : ""}`}>
                 <CardDescription className="text-xs">{pack.name}</CardDescription>
                 <CardTitle className="flex items-baseline gap-1">
-                  <span className="text-2xl">${pack.price}</span>
+                  {discounted ? (
+                    <>
+                      <span className="text-2xl">${discounted.discounted}</span>
+                      <span className="text-sm text-muted-foreground line-through">${pack.price}</span>
+                    </>
+                  ) : (
+                    <span className="text-2xl">${pack.price}</span>
+                  )}
                 </CardTitle>
               </CardHeader>
 
@@ -12,6 +12,7 @@ import {
 } from '@bfeai/ui';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { BugReportWidget } from '@/components/bug-report/BugReportWidget';
+import { PastDueBanner } from '@/components/billing/PastDueBanner';
 import { useCredits } from '@/hooks/use-credits';
 
 interface UserData {
@@ -79,6 +80,8 @@ function DashboardContent({
         {/* Page Content */}
         <div className="flex-1 p-4 md:p-6 lg:p-8">
           <div className="mx-auto max-w-5xl">
+            <PastDueBanner />
+
             {/* Page Children */}
             <div className="rounded-lg border border-border bg-card p-6 shadow-sm">
               {children}
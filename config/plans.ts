@@ -31,6 +31,9 @@ export const TOPUP_PACK_ORDER: TopUpPackKey[] = ["starter", "builder", "power",
 /** The pack with the best value for the "Best Value" badge */
 export const BEST_VALUE_PACK: TopUpPackKey = "power";
 
+/** Purchased top-up credits expire this many months after purchase */
+export const TOPUP_EXPIRY_MONTHS = 12;
+
 /** Keywords subscription: $29/mo, 300 credits, caps at 900 */
 export const KEYWORDS_SUBSCRIPTION = {
   appKey: "keywords",
@@ -4,6 +4,7 @@ import {
   BillingService,
   type SubscriptionResponse,
   type BillingInvoice,
+  type BillingPeriod,
 } from "@/services/BillingService";
 
 const subscriptionKey = (userId: string | undefined) =>
@@ -48,7 +49,8 @@ export const useBilling = () => {
   });
 
   const checkoutMutation = useMutation({
-    mutationFn: (appKey?: string) => BillingService.createCheckout(appKey),
+    mutationFn: ({ appKey, promoCode }: { appKey?: string; promoCode?: string }) =>
+      BillingService.createCheckout(appKey, promoCode),
     onSuccess: invalidate,
   });
 
@@ -57,6 +59,23 @@ export const useBilling = () => {
     onSuccess: invalidate,
   });
 
+  const changePlanMutation = useMutation({
+    mutationFn: ({ subscriptionId, tier, prorationDate }: { subscriptionId: string; tier: string; prorationDate: number }) =>
+      BillingService.changePlan(subscriptionId, tier, prorationDate),
+    onSuccess: invalidate,
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: (subscriptionId: string) => BillingService.reactivateSubscription(subscriptionId),
+    onSuccess: invalidate,
+  });
+
+  const changeBillingPeriodMutation = useMutation({
+    mutationFn: ({ subscriptionId, billingPeriod, prorationDate }: { subscriptionId: string; billingPeriod: BillingPeriod; prorationDate: number }) =>
+      BillingService.changeBillingPeriod(subscriptionId, billingPeriod, prorationDate),
+    onSuccess: invalidate,
+  });
+
   const subscriptions = subscriptionQuery.data?.subscriptions ?? [];
 
   const getSubscription = (appKey: string) =>
@@ -88,8 +107,8 @@ export const useBilling = () => {
     portalSessionLoading: portalSessionMutation.isPending,
 
     // Checkout (subscribe to an app)
-    createCheckout: async (appKey?: string) => {
-      const { url } = await checkoutMutation.mutateAsync(appKey);
+    createCheckout: async (appKey?: string, promoCode?: string) => {
+      const { url } = await checkoutMutation.mutateAsync({ appKey, promoCode });
       return url;
     },
     checkoutLoading: checkoutMutation.isPending,
@@ -100,5 +119,19 @@ export const useBilling = () => {
       return url;
     },
     trialCheckoutLoading: trialCheckoutMutation.isPending,
+
+    // Undo a pending cancellation
+    reactivateSubscription: reactivateMutation.mutateAsync,
+    reactivateLoading: reactivateMutation.isPending,
+
+    // Plan change (tier switch within an app)
+    previewPlanChange: BillingService.previewPlanChange,
+    changePlan: changePlanMutation.mutateAsync,
+    changePlanLoading: changePlanMutation.isPending,
+
+    // Billing period switch (monthly ↔ yearly)
+    previewBillingPeriodChange: BillingService.previewBillingPeriodChange,
+    changeBillingPeriod: changeBillingPeriodMutation.mutateAsync,
+    changeBillingPeriodLoading: changeBillingPeriodMutation.isPending,
   };
 };
@@ -23,8 +23,10 @@ export type RetentionOffer = {
  *  2. offer   – API may return a retention offer (skipped for "other" or if used before)
  *  3. confirm – User confirms cancellation (after declining offer, or no offer available)
  *  4. success – Cancellation confirmed
+ *
+ * Every step acts on `subscriptionId` only.
  */
-export const useCancellation = () => {
+export const useCancellation = (subscriptionId: string | null) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
@@ -33,6 +35,11 @@ export const useCancellation = () => {
   const [offerMessage, setOfferMessage] = useState<string | null>(null);
   const [cancelMessage, setCancelMessage] = useState<string | null>(null);
 
+  const requireSubscriptionId = () => {
+    if (!subscriptionId) throw new Error("No subscription selected");
+    return subscriptionId;
+  };
+
   const invalidateBilling = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: ["subscription"] });
     queryClient.invalidateQueries({ queryKey: ["credits"] });
@@ -42,7 +49,10 @@ export const useCancellation = () => {
   // Step 1: Submit reason + feedback. May return an offer or go straight to cancelled.
   const submitReasonMutation = useMutation({
     mutationFn: (data: { reason: string; feedback?: string }) =>
-      BillingService.cancelSubscription(data),
+      BillingService.cancelSubscription({
+        ...data,
+        subscriptionId: requireSubscriptionId(),
+      }),
     onSuccess: (response: CancelResponse) => {
       if (response.action === "offer") {
         const offerResp = response as CancelOfferResponse;
@@ -65,8 +75,9 @@ export const useCancellation = () => {
     mutationFn: (data: { reason: string; feedback?: string }) =>
       BillingService.cancelSubscription({
         ...data,
+        subscriptionId: requireSubscriptionId(),
         acceptOffer: true,
-        offerType: offer?.offerType,
+        offerId: offer?.offerId,
       }),
     onSuccess: (response: CancelResponse) => {
       if (response.action === "offer_accepted") {
@@ -87,7 +98,9 @@ export const useCancellation = () => {
     mutationFn: (data: { reason: string; feedback?: string }) =>
       BillingService.cancelSubscription({
         ...data,
+        subscriptionId: requireSubscriptionId(),
         acceptOffer: false,
+        offerId: offer?.offerId,
       }),
     onSuccess: (response: CancelResponse) => {
       if (response.action === "cancelled") {
@@ -4,6 +4,9 @@ import {
   BillingService,
   type CreditBalance,
   type CreditHistoryResponse,
+  type CreditUsageAnalytics,
+  type GiftCode,
+  type UsageBucket,
 } from "@/services/BillingService";
 
 const balanceKey = (userId: string | undefined) =>
@@ -33,7 +36,19 @@ export const useCredits = (historyLimit = 50, historyOffset = 0) => {
   });
 
   const topUpMutation = useMutation({
-    mutationFn: (packKey: string) => BillingService.purchaseTopUp(packKey),
+    mutationFn: ({ packKey, promoCode }: { packKey: string; promoCode?: string }) =>
+      BillingService.purchaseTopUp(packKey, promoCode),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: ({ email, amount, note }: { email: string; amount: number; note?: string }) =>
+      BillingService.transferCredits(email, amount, note),
+    onSuccess: () => invalidate(),
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: (code: string) => BillingService.redeemGiftCode(code),
+    onSuccess: () => invalidate(),
   });
 
   const invalidate = () => {
@@ -57,14 +72,82 @@ export const useCredits = (historyLimit = 50, historyOffset = 0) => {
     historyLoading: historyQuery.isLoading,
 
     // Top-up purchase
-    purchaseTopUp: async (packKey: string) => {
-      const { url } = await topUpMutation.mutateAsync(packKey);
+    purchaseTopUp: async (packKey: string, promoCode?: string) => {
+      const { url } = await topUpMutation.mutateAsync({ packKey, promoCode });
       return url;
     },
     topUpLoading: topUpMutation.isPending,
 
+    // Transfers and gift codes
+    transferCredits: (email: string, amount: number, note?: string) =>
+      transferMutation.mutateAsync({ email, amount, note }),
+    transferLoading: transferMutation.isPending,
+    redeemGiftCode: redeemMutation.mutateAsync,
+    redeemLoading: redeemMutation.isPending,
+
     // Utilities
     invalidate,
     refetch: balanceQuery.refetch,
   };
 };
+
+/**
+ * Hook for gift codes: the ones the user has bought, and buying another.
+ */
+export const useGiftCodes = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const giftCodesQuery = useQuery<{ giftCodes: GiftCode[] }>({
+    queryKey: ["gift-codes", userId],
+    enabled: Boolean(userId),
+    queryFn: BillingService.getGiftCodes,
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: ({ packKey, recipientEmail, message }: { packKey: string; recipientEmail?: string; message?: string }) =>
+      BillingService.purchaseGiftCode(packKey, recipientEmail, message),
+  });
+
+  return {
+    giftCodes: giftCodesQuery.data?.giftCodes ?? [],
+    isLoading: giftCodesQuery.isLoading,
+    purchaseGiftCode: async (packKey: string, recipientEmail?: string, message?: string) => {
+      const { url } = await purchaseMutation.mutateAsync({ packKey, recipientEmail, message });
+      return url;
+    },
+    purchaseLoading: purchaseMutation.isPending,
+  };
+};
+
+/** Range shown for each bucket size: 30 days, 12 weeks or 12 months back from today */
+const USAGE_RANGE_DAYS: Record<UsageBucket, number> = {
+  day: 30,
+  week: 12 * 7,
+  month: 365,
+};
+
+/**
+ * Hook for credit usage analytics (net spend by app, operation and pool, plus
+ * the run-out projection) over a range that matches the bucket size.
+ */
+export const useCreditUsageAnalytics = (bucket: UsageBucket) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const query = useQuery<CreditUsageAnalytics>({
+    queryKey: ["credits-usage", userId, bucket],
+    enabled: Boolean(userId),
+    queryFn: () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - USAGE_RANGE_DAYS[bucket] * 24 * 60 * 60 * 1000);
+      return BillingService.getUsageAnalytics(bucket, from.toISOString(), to.toISOString());
+    },
+  });
+
+  return {
+    analytics: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+};
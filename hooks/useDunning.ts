@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/lib/bfeai-auth";
+import { BillingService, type DunningCaseSummary } from "@/services/BillingService";
+
+const dunningKey = (userId: string | undefined) =>
+  ["dunning", userId] as const;
+
+/**
+ * Hook for the user's past-due subscriptions (empty when payments are fine).
+ * Cases are resolved by Stripe webhooks, so the status is refetched on focus.
+ */
+export const useDunning = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const dunningQuery = useQuery<{ cases: DunningCaseSummary[] }>({
+    queryKey: dunningKey(userId),
+    enabled: Boolean(userId),
+    queryFn: BillingService.getDunningStatus,
+    refetchOnWindowFocus: true,
+  });
+
+  const cases = dunningQuery.data?.cases ?? [];
+
+  return {
+    cases,
+    /** Credit usage is paused for at least one case */
+    restricted: cases.some((c) => c.restricted),
+    isLoading: dunningQuery.isLoading,
+  };
+};
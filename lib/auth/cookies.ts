@@ -1,6 +1,8 @@
 // Cookie management for SSO
 
 import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import type { SessionExpiredError } from "./session-check";
 
 const COOKIE_NAME = "bfeai_session";
 const COOKIE_DOMAIN = ".bfeai.com";
@@ -49,6 +51,27 @@ export class CookieService {
     });
   }
 
+  /**
+   * 401 for a revoked or idle session, with the session cookie cleared.
+   * Otherwise middleware would keep treating the browser as signed in and
+   * bounce it away from the login page.
+   */
+  static expiredSessionResponse(error: SessionExpiredError): NextResponse {
+    const response = NextResponse.json(
+      { authenticated: false, error: error.message, reason: error.reason },
+      { status: 401 }
+    );
+    response.cookies.set(COOKIE_NAME, "", {
+      domain: process.env.NODE_ENV === "production" ? COOKIE_DOMAIN : "localhost",
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: 0,
+      path: "/",
+    });
+    return response;
+  }
+
   /**
    * Set refresh token cookie (httpOnly, more secure)
    */
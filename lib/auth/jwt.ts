@@ -10,9 +10,13 @@ export interface JWTPayload {
   exp: number;
   iat: number;
   jti: string;
+  /** SSO token format version; set on every token that has a user_sessions row */
+  ver?: number;
   fingerprint?: string;
 }
 
+const SSO_TOKEN_VERSION = 2;
+
 export class JWTService {
   private static readonly ACCESS_TOKEN_EXPIRY = "15m" as const;
   private static readonly REFRESH_TOKEN_EXPIRY = "7d" as const;
@@ -20,9 +24,15 @@ export class JWTService {
 
   /**
    * Generate SSO token for .bfeai.com domain
-   * This token will be stored in a cookie and used across all subdomains
+   * This token will be stored in a cookie and used across all subdomains.
+   * jti is the session_id of the user_sessions row the token belongs to (see SessionManager.createSession)
    */
-  static generateSSOToken(userId: string, email: string, role: string = "user"): string {
+  static generateSSOToken(
+    userId: string,
+    email: string,
+    role: string,
+    jti: string
+  ): string {
     if (!process.env.JWT_SECRET) {
       throw new Error("JWT_SECRET is not configured");
     }
@@ -31,7 +41,8 @@ export class JWTService {
       userId,
       email,
       role,
-      jti: crypto.randomBytes(16).toString("hex"),
+      jti,
+      ver: SSO_TOKEN_VERSION,
     };
 
     const options: SignOptions = {
@@ -0,0 +1,321 @@
+// WebAuthn passkeys: registration, sign-in and management
+
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticatorTransportFuture,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { createAdminClient } from "../supabase/admin";
+
+const RP_NAME = "BFEAI";
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_PASSKEY_LABEL_LENGTH = 64;
+
+type ChallengeType = "registration" | "authentication";
+
+export interface Passkey {
+  id: string;
+  label: string;
+  deviceType: string;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface PasskeyUser {
+  userId: string;
+  email: string;
+  role: string;
+  passkeyId: string;
+}
+
+type PasskeyRow = {
+  id: string;
+  label: string;
+  device_type: string;
+  backed_up: boolean;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+const toPasskey = (row: PasskeyRow): Passkey => ({
+  id: row.id,
+  label: row.label,
+  deviceType: row.device_type,
+  backedUp: row.backed_up,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at,
+});
+
+export class PasskeyService {
+  /**
+   * Relying party the passkeys are bound to.
+   * WEBAUTHN_RP_ID can widen the scope to the parent domain (bfeai.com) so the
+   * same passkeys work on every subdomain; it defaults to the app's own host.
+   */
+  static getRelyingParty(): { rpID: string; origin: string } {
+    const origin = new URL(process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").origin;
+    return {
+      rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+      origin,
+    };
+  }
+
+  /**
+   * The user's passkeys, oldest first
+   */
+  static async list(userId: string): Promise<Passkey[]> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from("user_passkeys")
+      .select("id, label, device_type, backed_up, created_at, last_used_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(toPasskey);
+  }
+
+  /**
+   * Options for navigator.credentials.create(). Passkeys the user already
+   * has are excluded so the same authenticator isn't registered twice.
+   */
+  static async generateRegistration(
+    userId: string,
+    email: string
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const supabase = createAdminClient();
+    const { data: existing } = await supabase
+      .from("user_passkeys")
+      .select("credential_id, transports")
+      .eq("user_id", userId);
+
+    const { rpID } = this.getRelyingParty();
+    const options = await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID,
+      userName: email,
+      userID: new TextEncoder().encode(userId),
+      attestationType: "none",
+      excludeCredentials: (existing || []).map((passkey) => ({
+        id: passkey.credential_id,
+        transports: passkey.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "required",
+      },
+    });
+
+    await this.storeChallenge(options.challenge, "registration", userId);
+    return options;
+  }
+
+  /**
+   * Verify the browser's registration response and save the passkey.
+   * Returns null if the challenge is unknown or expired or the response doesn't verify.
+   */
+  static async verifyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    label: string
+  ): Promise<Passkey | null> {
+    const { rpID, origin } = this.getRelyingParty();
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: (challenge) => this.consumeChallenge(challenge, "registration", userId),
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      console.error("[Passkeys] Registration verification failed:", error);
+      return null;
+    }
+
+    if (!verification.verified) return null;
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from("user_passkeys")
+      .insert({
+        user_id: userId,
+        credential_id: credential.id,
+        public_key: Buffer.from(credential.publicKey).toString("base64url"),
+        counter: credential.counter,
+        transports: credential.transports ?? response.response.transports ?? [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        label,
+      })
+      .select("id, label, device_type, backed_up, created_at, last_used_at")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save passkey: ${error.message}`);
+    }
+
+    return toPasskey(data);
+  }
+
+  /**
+   * Options for navigator.credentials.get(). No allowCredentials: passkeys
+   * are discoverable, so the browser offers every passkey it has for the site.
+   */
+  static async generateAuthentication(): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const { rpID } = this.getRelyingParty();
+    const options = await generateAuthenticationOptions({
+      rpID,
+      userVerification: "required",
+    });
+
+    await this.storeChallenge(options.challenge, "authentication", null);
+    return options;
+  }
+
+  /**
+   * Verify a sign-in assertion. Returns the user it belongs to, or null if the
+   * passkey is unknown, the challenge was already used or the signature is invalid.
+   */
+  static async verifyAuthentication(response: AuthenticationResponseJSON): Promise<PasskeyUser | null> {
+    const supabase = createAdminClient();
+    const { data: passkey } = await supabase
+      .from("user_passkeys")
+      .select("id, user_id, credential_id, public_key, counter, transports")
+      .eq("credential_id", response.id)
+      .maybeSingle();
+
+    if (!passkey) return null;
+
+    const { rpID, origin } = this.getRelyingParty();
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: (challenge) => this.consumeChallenge(challenge, "authentication", null),
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: true,
+        credential: {
+          id: passkey.credential_id,
+          publicKey: new Uint8Array(Buffer.from(passkey.public_key, "base64url")),
+          counter: Number(passkey.counter),
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        },
+      });
+    } catch (error) {
+      console.error("[Passkeys] Authentication verification failed:", error);
+      return null;
+    }
+
+    if (!verification.verified) return null;
+
+    await supabase
+      .from("user_passkeys")
+      .update({
+        counter: verification.authenticationInfo.newCounter,
+        last_used_at: new Date().toISOString(),
+      })
+      .eq("id", passkey.id);
+
+    const { data: { user } } = await supabase.auth.admin.getUserById(passkey.user_id);
+    if (!user?.email) return null;
+
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.user_metadata?.role || "user",
+      passkeyId: passkey.id,
+    };
+  }
+
+  /**
+   * Rename a passkey. Returns false if it doesn't belong to the user.
+   */
+  static async rename(userId: string, passkeyId: string, label: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from("user_passkeys")
+      .update({ label })
+      .eq("id", passkeyId)
+      .eq("user_id", userId)
+      .select("id");
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Delete a passkey. Returns false if it doesn't belong to the user.
+   */
+  static async remove(userId: string, passkeyId: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from("user_passkeys")
+      .delete()
+      .eq("id", passkeyId)
+      .eq("user_id", userId)
+      .select("id");
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  private static async storeChallenge(
+    challenge: string,
+    type: ChallengeType,
+    userId: string | null
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    // Opportunistic cleanup; challenges are only useful for a few minutes
+    await supabase
+      .from("webauthn_challenges")
+      .delete()
+      .lt("expires_at", new Date().toISOString());
+
+    const { error } = await supabase.from("webauthn_challenges").insert({
+      challenge,
+      type,
+      user_id: userId,
+      expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to store WebAuthn challenge: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete the challenge and report whether it was valid, so each one is
+   * accepted at most once
+   */
+  private static async consumeChallenge(
+    challenge: string,
+    type: ChallengeType,
+    userId: string | null
+  ): Promise<boolean> {
+    const supabase = createAdminClient();
+    let query = supabase
+      .from("webauthn_challenges")
+      .delete()
+      .eq("challenge", challenge)
+      .eq("type", type)
+      .gt("expires_at", new Date().toISOString());
+    query = userId ? query.eq("user_id", userId) : query.is("user_id", null);
+
+    const { data } = await query.select("id");
+    return (data?.length ?? 0) > 0;
+  }
+}
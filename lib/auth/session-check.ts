@@ -0,0 +1,87 @@
+// Session liveness check shared by the Next routes and the Netlify functions
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { JWTPayload } from "./jwt";
+
+// last_active is only written when it's older than this, so busy pages don't write on every request
+export const LAST_ACTIVE_RESOLUTION_SECONDS = 60;
+
+/** Idle-timeout state of a session, from user_sessions.last_active and the user's settings */
+export interface SessionActivity {
+  lastActive: string;
+  /** user_settings.session_timeout_minutes, or null when there's no idle timeout */
+  idleTimeoutMinutes: number | null;
+  idleExpiresAt: string | null;
+  /** Seconds until idleExpiresAt by the server's clock, so clients don't depend on their own */
+  idleRemainingSeconds: number | null;
+}
+
+/**
+ * Thrown when a validly signed token's session has been revoked or has gone idle
+ */
+export class SessionExpiredError extends Error {
+  constructor(public readonly reason: "revoked" | "idle") {
+    super(reason === "idle" ? "Session expired due to inactivity" : "Session has been revoked");
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * Check a verified SSO token's session is still live: not revoked and not
+ * idle for longer than the user's session_timeout_minutes. Unless touch is
+ * false the request counts as activity and moves last_active forward.
+ *
+ * Throws SessionExpiredError for a revoked or idle session, and for a token
+ * from createSession (one with a ver claim) whose row is missing. Returns
+ * null when there's no activity to report: a pre-registry token, or a
+ * database error (the signed token is trusted then, like the rate limiter
+ * failing open).
+ */
+export async function checkSessionStatus(
+  supabase: SupabaseClient,
+  payload: JWTPayload,
+  touch: boolean
+): Promise<SessionActivity | null> {
+  let status: { session_status: string; session_last_active: string | null; timeout_minutes: number | null };
+  try {
+    const { data, error } = await supabase
+      .rpc("check_user_session", {
+        p_session_id: payload.jti,
+        p_touch: touch,
+        p_touch_interval_seconds: LAST_ACTIVE_RESOLUTION_SECONDS,
+      })
+      .single();
+
+    if (error) throw error;
+    status = data as typeof status;
+  } catch (error) {
+    console.error("[Session] Error checking session:", error);
+    return null;
+  }
+
+  switch (status.session_status) {
+    case "revoked":
+      throw new SessionExpiredError("revoked");
+    case "idle":
+      throw new SessionExpiredError("idle");
+    case "unknown":
+      // Tokens issued before the registry existed have no row and stay valid until they expire
+      if (payload.ver !== undefined) {
+        throw new SessionExpiredError("revoked");
+      }
+      return null;
+  }
+
+  const lastActive = status.session_last_active!;
+  const idleTimeoutMinutes = status.timeout_minutes;
+  const idleExpiresAt = idleTimeoutMinutes
+    ? new Date(lastActive).getTime() + idleTimeoutMinutes * 60 * 1000
+    : null;
+
+  return {
+    lastActive,
+    idleTimeoutMinutes,
+    idleExpiresAt: idleExpiresAt ? new Date(idleExpiresAt).toISOString() : null,
+    idleRemainingSeconds: idleExpiresAt ? Math.max(0, Math.floor((idleExpiresAt - Date.now()) / 1000)) : null,
+  };
+}
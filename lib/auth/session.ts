@@ -1,17 +1,60 @@
 // Session management utilities
 
 import crypto from "crypto";
-import { JWTService } from "./jwt";
+import { JWTService, type JWTPayload } from "./jwt";
 import { CookieService } from "./cookies";
+import { checkSessionStatus, type SessionActivity } from "./session-check";
 import { createAdminClient } from "../supabase/admin";
+import { getClientIp } from "../security/rate-limiter";
+
+export { SessionExpiredError, type SessionActivity } from "./session-check";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Matches the SSO token expiry
 
 export interface SessionInfo {
-  userId: string;
-  email: string;
-  role: string;
   sessionId: string;
-  createdAt: Date;
-  expiresAt: Date;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActive: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+type SessionRow = {
+  session_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_active: string;
+  expires_at: string;
+};
+
+/**
+ * Short description of the browser and OS in a user agent, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\/|FxiOS/.test(userAgent) ? "Firefox" :
+    /Chrome\/|CriOS/.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
 }
 
 export class SessionManager {
@@ -32,29 +75,68 @@ export class SessionManager {
 
   /**
    * Create new session for user
-   * Returns SSO token to be set in cookie
+   * Returns SSO token to be set in cookie. The token's jti is the session_id
+   * of its user_sessions row, which records the device and IP from req.
    */
   static async createSession(
     userId: string,
     email: string,
-    role: string = "user"
+    role: string = "user",
+    req?: Request
   ): Promise<string> {
-    // Generate SSO token
-    const token = JWTService.generateSSOToken(userId, email, role);
+    const sessionId = crypto.randomBytes(16).toString("hex");
+    const token = JWTService.generateSSOToken(userId, email, role, sessionId);
 
-    // Store session in database for tracking
+    const now = new Date();
     const supabase = createAdminClient();
-    await supabase.from("user_sessions").insert({
+    const { error } = await supabase.from("user_sessions").insert({
       user_id: userId,
-      session_id: crypto.randomBytes(16).toString("hex"),
-      created_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      last_active: new Date().toISOString(),
+      session_id: sessionId,
+      user_agent: req?.headers.get("user-agent") || null,
+      ip_address: req ? getClientIp(req) : null,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+      last_active: now.toISOString(),
     });
 
+    if (error) {
+      // checkSession rejects a token without its row, so don't hand one out
+      console.error("[Session] Failed to record session:", error);
+      throw new Error("Failed to record session");
+    }
+
     return token;
   }
 
+  /**
+   * Verify an SSO token and check its session is still live: not revoked and
+   * not idle for longer than the user's session_timeout_minutes. Unless touch
+   * is false the request counts as activity and moves last_active forward.
+   * Throws SessionExpiredError for a revoked or idle session (see checkSessionStatus).
+   */
+  static async checkSession(
+    token: string,
+    touch: boolean = true
+  ): Promise<{ payload: JWTPayload; activity: SessionActivity | null }> {
+    const payload = JWTService.verifySSOToken(token);
+    if (!payload.jti) {
+      throw new Error("Invalid or expired token");
+    }
+
+    const activity = await checkSessionStatus(createAdminClient(), payload, touch);
+    return { payload, activity };
+  }
+
+  /**
+   * Verify an SSO token and check its session is still live (see checkSession).
+   * Use this instead of JWTService.verifySSOToken wherever a request is
+   * authenticated. Throws if the token is invalid, expired, revoked or idle.
+   */
+  static async verifySession(token: string): Promise<JWTPayload> {
+    const { payload } = await this.checkSession(token);
+    return payload;
+  }
+
   /**
    * Validate existing session
    * Returns user info if valid, null if invalid
@@ -69,15 +151,7 @@ export class SessionManager {
       const token = await CookieService.getSessionCookie();
       if (!token) return null;
 
-      // Verify token
-      const payload = JWTService.verifySSOToken(token);
-
-      // Update last active timestamp
-      const supabase = createAdminClient();
-      await supabase
-        .from("user_sessions")
-        .update({ last_active: new Date().toISOString() })
-        .eq("user_id", payload.userId);
+      const payload = await this.verifySession(token);
 
       return {
         userId: payload.userId,
@@ -92,54 +166,78 @@ export class SessionManager {
   /**
    * Destroy session (logout)
    */
-  static async destroySession(userId?: string): Promise<void> {
+  static async destroySession(userId?: string, sessionId?: string): Promise<void> {
     // Clear cookies
     await CookieService.clearSessionCookie();
     await CookieService.clearRefreshTokenCookie();
 
-    // Remove from database if userId provided
-    if (userId) {
-      const supabase = createAdminClient();
-      await supabase
-        .from("user_sessions")
-        .delete()
-        .eq("user_id", userId);
+    if (userId && sessionId) {
+      await this.revokeSession(userId, sessionId);
     }
   }
 
   /**
-   * Get all active sessions for a user
+   * The user's signed-in sessions, most recently active first.
+   * currentSessionId (the caller's own jti) is flagged as current.
    */
-  static async getActiveSessions(userId: string): Promise<SessionInfo[]> {
+  static async getActiveSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
     const supabase = createAdminClient();
     const { data, error } = await supabase
       .from("user_sessions")
-      .select("*")
+      .select("session_id, user_agent, ip_address, created_at, last_active, expires_at")
       .eq("user_id", userId)
+      .is("revoked_at", null)
       .gt("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false });
+      .order("last_active", { ascending: false });
 
     if (error) throw error;
 
-    return (data || []).map((session) => ({
-      userId: session.user_id,
-      email: session.email || "",
-      role: session.role || "user",
+    return ((data || []) as SessionRow[]).map((session) => ({
       sessionId: session.session_id,
-      createdAt: new Date(session.created_at),
-      expiresAt: new Date(session.expires_at),
+      device: describeDevice(session.user_agent),
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastActive: session.last_active,
+      expiresAt: session.expires_at,
+      current: session.session_id === currentSessionId,
     }));
   }
 
   /**
-   * Invalidate specific session
+   * Revoke one of the user's sessions. Returns false if it doesn't belong to
+   * the user or was already revoked.
    */
-  static async invalidateSession(sessionId: string): Promise<void> {
+  static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
     const supabase = createAdminClient();
-    await supabase
+    const { data } = await supabase
       .from("user_sessions")
-      .delete()
-      .eq("session_id", sessionId);
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .select("session_id");
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Revoke every session of the user except currentSessionId ("sign out everywhere else").
+   * Returns how many sessions were revoked.
+   */
+  static async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from("user_sessions")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .neq("session_id", currentSessionId)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .select("session_id");
+
+    if (error) throw error;
+
+    return data?.length ?? 0;
   }
 
   /**
@@ -0,0 +1,133 @@
+// Time-based one-time passwords (RFC 6238) for two-factor authentication
+// Compatible with Google Authenticator, 1Password, Authy, etc.
+
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+const ISSUER = "BFEAI";
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding (the format authenticator apps expect)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new 160-bit TOTP secret, base32 encoded
+ */
+export function generateTOTPSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Time step (30-second window number) for a timestamp
+ */
+export function getTimeStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / PERIOD_SECONDS);
+}
+
+/**
+ * Generate the code for a secret at a given time step (HOTP with the step as counter)
+ */
+export function generateTOTP(secret: string, step: number = getTimeStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+/**
+ * Verify a code, allowing one step of clock drift either way.
+ * Returns the matching time step (for replay protection) or null.
+ */
+export function verifyTOTP(
+  secret: string,
+  code: string,
+  timestampMs: number = Date.now(),
+  window: number = 1
+): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const current = getTimeStep(timestampMs);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = generateTOTP(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URI for the enrollment QR code
+ */
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,291 @@
+// TOTP two-factor authentication: enrollment, verification and recovery codes
+
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import QRCode from "qrcode";
+import { createAdminClient } from "../supabase/admin";
+import { encryptSecret, decryptSecret } from "../security/encryption";
+import { generateTOTPSecret, verifyTOTP, buildOtpauthUrl } from "./totp";
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_AUDIENCE = "accounts.bfeai.com/2fa";
+const CHALLENGE_EXPIRY = "5m" as const;
+
+export interface TwoFactorEnrollment {
+  /** Base32 secret, for manual entry when the QR code can't be scanned */
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the otpauth:// QR code */
+  qrCode: string;
+}
+
+export interface TwoFactorChallenge {
+  userId: string;
+  email: string;
+  role: string;
+  rememberMe: boolean;
+}
+
+/** A verified challenge token; challengeId (the token's jti) tells its attempts apart */
+export interface VerifiedTwoFactorChallenge extends TwoFactorChallenge {
+  challengeId: string;
+}
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+export class TwoFactorService {
+  /**
+   * Whether the user must pass a second step at login
+   */
+  static async isEnabled(userId: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from("user_settings")
+      .select("two_factor_enabled")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    return data?.two_factor_enabled === true;
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret.
+   * Nothing is enforced until the first code is confirmed with completeEnrollment.
+   */
+  static async beginEnrollment(userId: string, email: string): Promise<TwoFactorEnrollment> {
+    const secret = generateTOTPSecret();
+    const otpauthUrl = buildOtpauthUrl(secret, email);
+
+    const supabase = createAdminClient();
+    const { error } = await supabase.from("user_two_factor").upsert({
+      user_id: userId,
+      secret_encrypted: encryptSecret(secret),
+      enabled_at: null,
+      last_used_step: null,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to start two-factor enrollment: ${error.message}`);
+    }
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 }),
+    };
+  }
+
+  /**
+   * Confirm the first code from the authenticator app and turn 2FA on.
+   * Returns the one-time recovery codes (shown to the user once), or null if
+   * there is no pending enrollment or the code is wrong.
+   */
+  static async completeEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const supabase = createAdminClient();
+    const { data: pending } = await supabase
+      .from("user_two_factor")
+      .select("secret_encrypted")
+      .eq("user_id", userId)
+      .is("enabled_at", null)
+      .maybeSingle();
+
+    if (!pending) return null;
+
+    const step = verifyTOTP(decryptSecret(pending.secret_encrypted), code.trim());
+    if (step === null) return null;
+
+    const now = new Date().toISOString();
+    const { error: enableError } = await supabase
+      .from("user_two_factor")
+      .update({ enabled_at: now, last_used_step: step, updated_at: now })
+      .eq("user_id", userId);
+
+    if (enableError) {
+      throw new Error(`Failed to enable two-factor authentication: ${enableError.message}`);
+    }
+
+    const { error: settingsError } = await supabase
+      .from("user_settings")
+      .upsert({ user_id: userId, two_factor_enabled: true, updated_at: now });
+
+    if (settingsError) {
+      throw new Error(`Failed to enable two-factor authentication: ${settingsError.message}`);
+    }
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a second-step code: a 6-digit TOTP code or an unused recovery code.
+   * Each TOTP code and each recovery code is accepted at most once.
+   */
+  static async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const normalized = code.trim();
+
+    if (/^\d{6}$/.test(normalized)) {
+      return (await this.verifyTOTPCode(userId, normalized)) ? "totp" : null;
+    }
+
+    return (await this.consumeRecoveryCode(userId, normalized)) ? "recovery_code" : null;
+  }
+
+  /**
+   * Turn 2FA off and delete the secret and recovery codes
+   */
+  static async disable(userId: string): Promise<void> {
+    const supabase = createAdminClient();
+    const results = await Promise.all([
+      supabase.from("user_recovery_codes").delete().eq("user_id", userId),
+      supabase.from("user_two_factor").delete().eq("user_id", userId),
+      supabase
+        .from("user_settings")
+        .update({ two_factor_enabled: false, updated_at: new Date().toISOString() })
+        .eq("user_id", userId),
+    ]);
+
+    const failed = results.find(({ error }) => error);
+    if (failed?.error) {
+      throw new Error(`Failed to disable two-factor authentication: ${failed.error.message}`);
+    }
+  }
+
+  /**
+   * Replace all recovery codes with a new set. Returns the plaintext codes;
+   * only their hashes are stored.
+   */
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString("hex");
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    const supabase = createAdminClient();
+    const { error: deleteError } = await supabase.from("user_recovery_codes").delete().eq("user_id", userId);
+
+    if (deleteError) {
+      throw new Error(`Failed to replace recovery codes: ${deleteError.message}`);
+    }
+
+    const { error } = await supabase.from("user_recovery_codes").insert(
+      codes.map((recoveryCode) => ({
+        user_id: userId,
+        code_hash: this.hashRecoveryCode(recoveryCode),
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to store recovery codes: ${error.message}`);
+    }
+
+    return codes;
+  }
+
+  /**
+   * Number of recovery codes the user has not used yet
+   */
+  static async countRecoveryCodes(userId: string): Promise<number> {
+    const supabase = createAdminClient();
+    const { count } = await supabase
+      .from("user_recovery_codes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("used_at", null);
+
+    return count ?? 0;
+  }
+
+  /**
+   * Short-lived token proving the password step passed, exchanged for the
+   * SSO session once the second step succeeds. Its audience keeps it from
+   * being accepted as an SSO token.
+   */
+  static createChallengeToken(challenge: TwoFactorChallenge): string {
+    if (!process.env.JWT_SECRET) {
+      throw new Error("JWT_SECRET is not configured");
+    }
+
+    const options: SignOptions = {
+      expiresIn: CHALLENGE_EXPIRY,
+      issuer: "accounts.bfeai.com",
+      audience: CHALLENGE_AUDIENCE,
+      jwtid: crypto.randomBytes(16).toString("hex"),
+    };
+
+    return jwt.sign({ ...challenge }, process.env.JWT_SECRET, options);
+  }
+
+  /**
+   * Verify a challenge token. Returns null if it is invalid or expired.
+   */
+  static verifyChallengeToken(token: string): VerifiedTwoFactorChallenge | null {
+    if (!process.env.JWT_SECRET) {
+      throw new Error("JWT_SECRET is not configured");
+    }
+
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET, {
+        issuer: "accounts.bfeai.com",
+        audience: CHALLENGE_AUDIENCE,
+      }) as TwoFactorChallenge & { jti?: string };
+
+      if (!decoded.jti) return null;
+
+      return {
+        challengeId: decoded.jti,
+        userId: decoded.userId,
+        email: decoded.email,
+        role: decoded.role,
+        rememberMe: decoded.rememberMe === true,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private static async verifyTOTPCode(userId: string, code: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const { data: row } = await supabase
+      .from("user_two_factor")
+      .select("secret_encrypted, last_used_step")
+      .eq("user_id", userId)
+      .not("enabled_at", "is", null)
+      .maybeSingle();
+
+    if (!row) return false;
+
+    const step = verifyTOTP(decryptSecret(row.secret_encrypted), code);
+    if (step === null) return false;
+
+    // Claim the step so the same code can't be replayed within its window
+    let claim = supabase
+      .from("user_two_factor")
+      .update({ last_used_step: step, updated_at: new Date().toISOString() })
+      .eq("user_id", userId);
+    claim = row.last_used_step === null
+      ? claim.is("last_used_step", null)
+      : claim.eq("last_used_step", row.last_used_step).lt("last_used_step", step);
+
+    const { data: claimed } = await claim.select("user_id");
+    return (claimed?.length ?? 0) > 0;
+  }
+
+  private static async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const { data: used } = await supabase
+      .from("user_recovery_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("code_hash", this.hashRecoveryCode(code))
+      .is("used_at", null)
+      .select("id");
+
+    return (used?.length ?? 0) > 0;
+  }
+
+  /** Recovery codes are random, so an unsalted hash is enough; case and dashes are ignored */
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+}
@@ -10,6 +10,7 @@ import {
   getAccountsUrl,
 } from './authHelpers';
 
+import { IdleTimeoutWarning } from './IdleTimeoutWarning';
 import type { AuthState, AuthContextValue, BFEAIUser } from './types';
 
 // Create the context
@@ -154,5 +155,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     checkSubscription,
   };
 
-  return <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+      {/* Watches the user's session_timeout_minutes; separate so its countdown doesn't re-render consumers */}
+      {authState.user && <IdleTimeoutWarning onSignOut={logout} />}
+    </AuthContext.Provider>
+  );
 }
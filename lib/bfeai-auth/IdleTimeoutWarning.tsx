@@ -0,0 +1,180 @@
+// Idle-timeout watcher: reports activity, warns before the session times out, then signs out
+
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@bfeai/ui';
+
+import { getAccountsApiUrl, getAccountsUrl } from './authHelpers';
+
+// How often activity is reported (and the expiry re-synced when there was none)
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// How long before the timeout the warning appears
+const WARNING_BEFORE_MS = 2 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+
+interface IdleStatus {
+  authenticated: boolean;
+  idleRemainingSeconds: number | null;
+}
+
+/**
+ * Send the user to accounts login, coming back here afterwards.
+ * reason lets the login page explain why ("idle" or "revoked").
+ */
+function redirectToLoginAfterTimeout(reason?: string) {
+  const loginUrl = new URL('/login', getAccountsUrl());
+  loginUrl.searchParams.set('redirect', window.location.href);
+  if (reason) {
+    loginUrl.searchParams.set('reason', reason);
+  }
+  window.location.href = loginUrl.toString();
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Enforces the user's session_timeout_minutes on the client.
+ *
+ * The server owns the activity clock (user_sessions.last_active), shared by
+ * every tab and every *.bfeai.com app, so this only reports interaction and
+ * asks accounts when the session will go idle. Activity in another app
+ * pushes the expiry back here too. Rendered by AuthProvider once signed in.
+ */
+export function IdleTimeoutWarning({ onSignOut }: { onSignOut: () => void }) {
+  const [idleExpiresAt, setIdleExpiresAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastInteractionRef = useRef(Date.now());
+  const lastReportRef = useRef(Date.now());
+  const checkingRef = useRef(false);
+
+  /**
+   * Ask accounts for the session's idle expiry. With report, the call also
+   * records activity. Signs out if the session is gone.
+   */
+  const sync = useCallback(async (report: boolean) => {
+    try {
+      const response = report
+        ? await fetch(getAccountsApiUrl('/auth/session/activity'), { method: 'POST', credentials: 'include' })
+        : await fetch(getAccountsApiUrl('/auth/session'), { credentials: 'include' });
+
+      if (response.status === 401) {
+        const { reason } = await response.json().catch(() => ({}));
+        redirectToLoginAfterTimeout(reason);
+        return;
+      }
+      if (!response.ok) return;
+
+      const status = (await response.json()) as IdleStatus;
+      if (report) {
+        lastReportRef.current = Date.now();
+      }
+      // Relative to now, so a skewed local clock doesn't matter
+      setIdleExpiresAt(
+        status.idleRemainingSeconds === null ? null : Date.now() + status.idleRemainingSeconds * 1000
+      );
+    } catch (error) {
+      // Network hiccup: keep the last known expiry and try again on the next beat
+      console.error('[IdleTimeout] Failed to sync session activity:', error);
+    }
+  }, []);
+
+  // Track interaction locally; it's reported on the next heartbeat
+  useEffect(() => {
+    const onActivity = () => {
+      lastInteractionRef.current = Date.now();
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, onActivity, { passive: true });
+    }
+    return () => {
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, onActivity);
+      }
+    };
+  }, []);
+
+  // Heartbeat
+  useEffect(() => {
+    sync(false);
+
+    const interval = window.setInterval(() => {
+      sync(lastInteractionRef.current > lastReportRef.current);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => window.clearInterval(interval);
+  }, [sync]);
+
+  // Countdown to the warning and the timeout
+  useEffect(() => {
+    if (!idleExpiresAt) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const tick = async () => {
+      const remaining = idleExpiresAt - Date.now();
+
+      if (remaining > WARNING_BEFORE_MS) {
+        setSecondsLeft(null);
+        return;
+      }
+
+      if (remaining > 0) {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+        return;
+      }
+
+      // Time's up here, but the user may have been active in another tab or
+      // app. Checking also expires the session server-side if it is idle.
+      if (checkingRef.current) return;
+      checkingRef.current = true;
+      await sync(false);
+      checkingRef.current = false;
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [idleExpiresAt, sync]);
+
+  const staySignedIn = () => {
+    lastInteractionRef.current = Date.now();
+    sync(true);
+  };
+
+  return (
+    <Dialog open={secondsLeft !== null} onOpenChange={(open) => !open && staySignedIn()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Are you still there?</DialogTitle>
+          <DialogDescription>
+            For your security, you&apos;ll be signed out in{' '}
+            <span className="font-semibold tabular-nums">{formatCountdown(secondsLeft ?? 0)}</span>{' '}
+            because of inactivity.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="flex flex-col gap-3 sm:flex-row">
+          <Button variant="outline" className="w-full" onClick={onSignOut}>
+            Sign out
+          </Button>
+          <Button className="w-full" onClick={staySignedIn}>
+            Stay signed in
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
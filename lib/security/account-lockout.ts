@@ -1,85 +1,167 @@
 /**
  * Account Lockout Protection
  * Prevents brute force attacks by locking accounts after failed login attempts
+ *
+ * State lives in a shared LockoutStore (Upstash Redis or the Supabase
+ * database) so every serverless instance sees the same counts. Locks and
+ * unlocks are recorded in security_events.
  */
 
-interface FailedAttempt {
-  count: number;
-  lastAttempt: number;
-  lockedUntil?: number;
-}
-
-// In-memory store for failed attempts (use Redis in production)
-const failedAttempts = new Map<string, FailedAttempt>();
+import { createAdminClient } from '../supabase/admin';
+import { getRedisClient } from './rate-limiter';
+import {
+  MemoryLockoutStore,
+  SupabaseLockoutStore,
+  UpstashLockoutStore,
+  type LockoutStore,
+} from './lockout-store';
 
 // Configuration
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MS = 30 * 60 * 1000; // 30 minutes
 const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
 
+/** Request details recorded with lockout security events */
+export interface LockoutContext {
+  ip?: string;
+  userAgent?: string;
+  email?: string;
+  userId?: string | null;
+}
+
+let store: LockoutStore | null = null;
+
+function createDefaultStore(): LockoutStore {
+  const redis = getRedisClient();
+  if (redis) {
+    return new UpstashLockoutStore(redis);
+  }
+
+  if (process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return new SupabaseLockoutStore();
+  }
+
+  console.warn('⚠️  Account lockout is per-instance: neither Upstash Redis nor Supabase is configured');
+  return new MemoryLockoutStore();
+}
+
 /**
- * Check if an account is locked
+ * The active store: Upstash Redis when configured, otherwise Supabase
+ */
+export function getLockoutStore(): LockoutStore {
+  if (!store) {
+    store = createDefaultStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the store (tests use a MemoryLockoutStore)
  */
-export function isAccountLocked(identifier: string): boolean {
-  const attempt = failedAttempts.get(identifier);
+export function setLockoutStore(next: LockoutStore): void {
+  store = next;
+}
 
-  if (!attempt || !attempt.lockedUntil) {
-    return false;
+async function logLockoutEvent(
+  eventType: 'ACCOUNT_LOCKED' | 'ACCOUNT_UNLOCKED',
+  identifier: string,
+  context: LockoutContext | undefined,
+  details: Record<string, unknown>
+) {
+  try {
+    const supabase = createAdminClient();
+    await supabase.from('security_events').insert({
+      event_type: eventType,
+      severity: eventType === 'ACCOUNT_LOCKED' ? 'HIGH' : 'LOW',
+      user_id: context?.userId ?? null,
+      ip_address: context?.ip || 'unknown',
+      user_agent: context?.userAgent || 'unknown',
+      details: { identifier, email: context?.email, ...details },
+    });
+  } catch (error) {
+    console.error('Failed to log lockout event:', error);
   }
+}
+
+/**
+ * Check if an account is locked
+ * An expired lock is cleared (and the unlock recorded) the first time it's checked
+ */
+export async function isAccountLocked(identifier: string, context?: LockoutContext): Promise<boolean> {
+  try {
+    const record = await getLockoutStore().get(identifier);
+
+    if (!record?.lockedUntil) {
+      return false;
+    }
 
-  // Check if lockout period has expired
-  if (Date.now() > attempt.lockedUntil) {
-    // Reset after lockout expires
-    failedAttempts.delete(identifier);
+    if (Date.now() > record.lockedUntil) {
+      await getLockoutStore().clear(identifier);
+      await logLockoutEvent('ACCOUNT_UNLOCKED', identifier, context, {
+        reason: 'expired',
+        lockedUntil: new Date(record.lockedUntil).toISOString(),
+      });
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[Lockout] Error checking lockout:', error);
+    // On error, allow the attempt (fail open, like the rate limiter)
     return false;
   }
-
-  return true;
 }
 
 /**
  * Get time remaining until account unlock (in seconds)
  */
-export function getLockoutTimeRemaining(identifier: string): number {
-  const attempt = failedAttempts.get(identifier);
+export async function getLockoutTimeRemaining(identifier: string): Promise<number> {
+  try {
+    const record = await getLockoutStore().get(identifier);
 
-  if (!attempt || !attempt.lockedUntil) {
+    if (!record?.lockedUntil) {
+      return 0;
+    }
+
+    const remaining = Math.max(0, record.lockedUntil - Date.now());
+    return Math.ceil(remaining / 1000);
+  } catch (error) {
+    console.error('[Lockout] Error reading lockout:', error);
     return 0;
   }
-
-  const remaining = Math.max(0, attempt.lockedUntil - Date.now());
-  return Math.ceil(remaining / 1000);
 }
 
 /**
  * Record a failed login attempt
  * Returns whether the account is now locked
  */
-export function recordFailedAttempt(identifier: string): {
+export async function recordFailedAttempt(identifier: string, context?: LockoutContext): Promise<{
   isLocked: boolean;
   attemptsRemaining: number;
   lockoutTimeRemaining?: number;
-} {
-  const now = Date.now();
-  const existing = failedAttempts.get(identifier);
-
-  // Reset if outside the attempt window
-  if (existing && now - existing.lastAttempt > ATTEMPT_WINDOW_MS) {
-    failedAttempts.delete(identifier);
+}> {
+  let count: number;
+  try {
+    count = await getLockoutStore().increment(identifier, ATTEMPT_WINDOW_MS);
+  } catch (error) {
+    console.error('[Lockout] Error recording failed attempt:', error);
+    return { isLocked: false, attemptsRemaining: MAX_FAILED_ATTEMPTS };
   }
 
-  const current = failedAttempts.get(identifier) || {
-    count: 0,
-    lastAttempt: now,
-  };
+  // Lock account if max attempts exceeded
+  if (count >= MAX_FAILED_ATTEMPTS) {
+    const lockedUntil = Date.now() + LOCKOUT_DURATION_MS;
 
-  current.count += 1;
-  current.lastAttempt = now;
+    try {
+      await getLockoutStore().lock(identifier, lockedUntil);
+    } catch (error) {
+      console.error('[Lockout] Error locking account:', error);
+    }
 
-  // Lock account if max attempts exceeded
-  if (current.count >= MAX_FAILED_ATTEMPTS) {
-    current.lockedUntil = now + LOCKOUT_DURATION_MS;
-    failedAttempts.set(identifier, current);
+    await logLockoutEvent('ACCOUNT_LOCKED', identifier, context, {
+      failedAttempts: count,
+      lockedUntil: new Date(lockedUntil).toISOString(),
+    });
 
     return {
       isLocked: true,
@@ -88,50 +170,41 @@ export function recordFailedAttempt(identifier: string): {
     };
   }
 
-  failedAttempts.set(identifier, current);
-
   return {
     isLocked: false,
-    attemptsRemaining: MAX_FAILED_ATTEMPTS - current.count,
+    attemptsRemaining: MAX_FAILED_ATTEMPTS - count,
   };
 }
 
 /**
- * Clear failed attempts for an identifier (on successful login)
+ * Count a failed attempt without ever locking (e.g. wrong codes on one 2FA
+ * challenge, which the caller retires after a few). Returns the count in the
+ * current window, or 0 if the store is unavailable.
  */
-export function clearFailedAttempts(identifier: string): void {
-  failedAttempts.delete(identifier);
+export async function countFailedAttempt(identifier: string): Promise<number> {
+  try {
+    return await getLockoutStore().increment(identifier, ATTEMPT_WINDOW_MS);
+  } catch (error) {
+    console.error('[Lockout] Error counting failed attempt:', error);
+    return 0;
+  }
 }
 
 /**
- * Get failed attempt count for an identifier
+ * Clear failed attempts for an identifier (on successful login)
  */
-export function getFailedAttemptCount(identifier: string): number {
-  const attempt = failedAttempts.get(identifier);
-  return attempt?.count || 0;
+export async function clearFailedAttempts(identifier: string): Promise<void> {
+  try {
+    await getLockoutStore().clear(identifier);
+  } catch (error) {
+    console.error('[Lockout] Error clearing failed attempts:', error);
+  }
 }
 
 /**
- * Clean up expired entries (call periodically)
+ * Get failed attempt count for an identifier
  */
-export function cleanupExpiredEntries(): void {
-  const now = Date.now();
-
-  for (const [key, attempt] of failedAttempts.entries()) {
-    // Remove if lockout has expired
-    if (attempt.lockedUntil && now > attempt.lockedUntil) {
-      failedAttempts.delete(key);
-      continue;
-    }
-
-    // Remove if last attempt was too long ago
-    if (now - attempt.lastAttempt > ATTEMPT_WINDOW_MS) {
-      failedAttempts.delete(key);
-    }
-  }
-}
-
-// Run cleanup every 5 minutes
-if (typeof setInterval !== 'undefined') {
-  setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
+export async function getFailedAttemptCount(identifier: string): Promise<number> {
+  const record = await getLockoutStore().get(identifier);
+  return record?.count || 0;
 }
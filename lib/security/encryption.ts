@@ -0,0 +1,42 @@
+/**
+ * Symmetric encryption for secrets stored in the database
+ * AES-256-GCM keyed by ENCRYPTION_KEY (64 hex chars)
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+function getKey(): Buffer {
+  const hex = process.env.ENCRYPTION_KEY;
+  if (!hex || !/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('ENCRYPTION_KEY must be 64 hex characters');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Encrypt a string. Returns "iv:authTag:ciphertext" (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * Throws if the value was tampered with or the key is wrong
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, ciphertext] = encrypted.split(':').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
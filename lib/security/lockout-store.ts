@@ -0,0 +1,162 @@
+/**
+ * Storage backends for account lockout state
+ * Upstash Redis or the Supabase database in production, memory for tests and local dev
+ */
+
+import type { Redis } from '@upstash/redis';
+import { createAdminClient } from '../supabase/admin';
+
+export interface LockoutRecord {
+  /** Failed attempts in the current window */
+  count: number;
+  /** Epoch ms the lock ends, or null if not locked */
+  lockedUntil: number | null;
+}
+
+export interface LockoutStore {
+  get(identifier: string): Promise<LockoutRecord | null>;
+  /**
+   * Count a failed attempt and return the new count.
+   * Starts over at 1 if the previous failure was more than windowMs ago.
+   */
+  increment(identifier: string, windowMs: number): Promise<number>;
+  lock(identifier: string, lockedUntil: number): Promise<void>;
+  clear(identifier: string): Promise<void>;
+}
+
+// Keep lock records around after they expire so the next attempt can record the unlock
+const LOCK_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-process store. Not shared between serverless instances, so only for tests and local dev.
+ */
+export class MemoryLockoutStore implements LockoutStore {
+  private records = new Map<string, LockoutRecord & { lastAttempt: number }>();
+
+  async get(identifier: string): Promise<LockoutRecord | null> {
+    const record = this.records.get(identifier);
+    return record ? { count: record.count, lockedUntil: record.lockedUntil } : null;
+  }
+
+  async increment(identifier: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    const existing = this.records.get(identifier);
+    const record = existing && now - existing.lastAttempt <= windowMs
+      ? existing
+      : { count: 0, lockedUntil: null, lastAttempt: now };
+
+    record.count += 1;
+    record.lastAttempt = now;
+    this.records.set(identifier, record);
+    return record.count;
+  }
+
+  async lock(identifier: string, lockedUntil: number): Promise<void> {
+    const record = this.records.get(identifier) ?? { count: 0, lockedUntil: null, lastAttempt: Date.now() };
+    record.lockedUntil = lockedUntil;
+    this.records.set(identifier, record);
+  }
+
+  async clear(identifier: string): Promise<void> {
+    this.records.delete(identifier);
+  }
+}
+
+/**
+ * Upstash Redis store. The attempt counter expires windowMs after the last
+ * failure, which gives the same sliding window as the other stores.
+ */
+export class UpstashLockoutStore implements LockoutStore {
+  constructor(private redis: Redis) {}
+
+  private attemptsKey(identifier: string) {
+    return `lockout:attempts:${identifier}`;
+  }
+
+  private lockKey(identifier: string) {
+    return `lockout:locked:${identifier}`;
+  }
+
+  async get(identifier: string): Promise<LockoutRecord | null> {
+    const [count, lockedUntil] = await this.redis.mget<[number | null, number | null]>(
+      this.attemptsKey(identifier),
+      this.lockKey(identifier)
+    );
+
+    if (count === null && lockedUntil === null) return null;
+    return { count: Number(count ?? 0), lockedUntil: lockedUntil === null ? null : Number(lockedUntil) };
+  }
+
+  async increment(identifier: string, windowMs: number): Promise<number> {
+    const key = this.attemptsKey(identifier);
+    const [count] = await this.redis
+      .multi()
+      .incr(key)
+      .pexpire(key, windowMs)
+      .exec<[number, number]>();
+    return count;
+  }
+
+  async lock(identifier: string, lockedUntil: number): Promise<void> {
+    await this.redis.set(this.lockKey(identifier), lockedUntil, {
+      px: Math.max(lockedUntil - Date.now(), 0) + LOCK_RETENTION_MS,
+    });
+  }
+
+  async clear(identifier: string): Promise<void> {
+    await this.redis.del(this.attemptsKey(identifier), this.lockKey(identifier));
+  }
+}
+
+/**
+ * Supabase store backed by the account_lockouts table
+ */
+export class SupabaseLockoutStore implements LockoutStore {
+  async get(identifier: string): Promise<LockoutRecord | null> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('account_lockouts')
+      .select('failed_count, locked_until')
+      .eq('identifier', identifier)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      count: data.failed_count,
+      lockedUntil: data.locked_until ? new Date(data.locked_until).getTime() : null,
+    };
+  }
+
+  async increment(identifier: string, windowMs: number): Promise<number> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('record_failed_login_attempt', {
+      p_identifier: identifier,
+      p_window_seconds: Math.ceil(windowMs / 1000),
+    });
+
+    if (error) throw error;
+    return data as number;
+  }
+
+  async lock(identifier: string, lockedUntil: number): Promise<void> {
+    const supabase = createAdminClient();
+    const { error } = await supabase
+      .from('account_lockouts')
+      .update({ locked_until: new Date(lockedUntil).toISOString() })
+      .eq('identifier', identifier);
+
+    if (error) throw error;
+  }
+
+  async clear(identifier: string): Promise<void> {
+    const supabase = createAdminClient();
+    const { error } = await supabase
+      .from('account_lockouts')
+      .delete()
+      .eq('identifier', identifier);
+
+    if (error) throw error;
+  }
+}
@@ -24,6 +24,13 @@ if (isUpstashConfigured) {
   console.warn('   Set UPSTASH_REDIS_URL and UPSTASH_REDIS_TOKEN to enable');
 }
 
+/**
+ * Shared Upstash Redis client, or null when Upstash isn't configured
+ */
+export function getRedisClient(): Redis | null {
+  return redis;
+}
+
 // Rate limiters for different endpoints
 export const rateLimiters = {
   // Login: 5 attempts per 15 minutes per IP
@@ -46,6 +53,16 @@ export const rateLimiters = {
       })
     : null,
 
+  // Passkey sign-in options: 20 per 15 minutes per IP (each one stores a challenge)
+  passkeyOptions: redis
+    ? new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(20, "15 m"),
+        analytics: true,
+        prefix: "ratelimit:passkey-options",
+      })
+    : null,
+
   // Password reset: 10 attempts per hour per IP
   passwordReset: redis
     ? new Ratelimit({
@@ -75,6 +92,16 @@ export const rateLimiters = {
         prefix: "ratelimit:data-export",
       })
     : null,
+
+  // Credit transfers: 10 per hour per user ID
+  creditTransfer: redis
+    ? new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(10, "1 h"),
+        analytics: true,
+        prefix: "ratelimit:credit-transfer",
+      })
+    : null,
 };
 
 /**
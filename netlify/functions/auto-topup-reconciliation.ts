@@ -0,0 +1,35 @@
+import { schedule } from "@netlify/functions";
+import { reconcileAutoTopUps } from "./utils/low-balance";
+
+/**
+ * Scheduled function that runs every 15 minutes to settle auto top-up charges
+ * a low-balance run left unfinished.
+ *
+ * A charge stuck pending blocks every later auto top-up for its user, and a
+ * payment that went through without its credits leaves a paid user short.
+ * See reconcileAutoTopUps in utils/low-balance.ts.
+ */
+const handler = schedule("*/15 * * * *", async () => {
+  console.log("[auto-topup-reconciliation] Starting reconciliation run");
+
+  try {
+    const summary = await reconcileAutoTopUps();
+
+    console.log(
+      `[auto-topup-reconciliation] Credited ${summary.credited}, failed ${summary.failed}, errors ${summary.errors}`
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Auto top-up reconciliation completed", ...summary }),
+    };
+  } catch (error) {
+    console.error("[auto-topup-reconciliation] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Reconciliation failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
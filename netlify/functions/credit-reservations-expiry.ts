@@ -0,0 +1,40 @@
+import { schedule } from "@netlify/functions";
+import { supabaseAdmin } from "./utils/supabase-admin";
+
+/**
+ * Scheduled function that runs every 15 minutes to expire stale credit holds.
+ *
+ * Holds already stop counting against the available balance once expires_at
+ * passes; this marks them as expired so they no longer show up as "held"
+ * and can't be captured late.
+ */
+const handler = schedule("*/15 * * * *", async () => {
+  console.log("[credit-reservations-expiry] Starting expiry run");
+
+  try {
+    const { data: expired, error } = await supabaseAdmin.rpc("expire_credit_reservations");
+
+    if (error) {
+      console.error("[credit-reservations-expiry] Failed to expire reservations:", error);
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ error: "Expiry failed", details: error.message }),
+      };
+    }
+
+    console.log(`[credit-reservations-expiry] Expired ${expired ?? 0} reservation(s)`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Reservation expiry completed", expired: expired ?? 0 }),
+    };
+  } catch (error) {
+    console.error("[credit-reservations-expiry] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Expiry failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
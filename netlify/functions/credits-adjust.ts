@@ -0,0 +1,44 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAdmin } from "./utils/supabase-admin";
+import { adjustCredits, type AdjustmentPool } from "./utils/credits";
+
+const ADJUSTMENT_POOLS: AdjustmentPool[] = ["subscription", "topup"];
+
+/**
+ * Admin-only credit adjustment. Positive amounts add credits, negative amounts remove them.
+ * The admin's user id is recorded as the actor alongside the required reason.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAdmin(event);
+
+  let body: { userId?: string; amount?: number; pool?: AdjustmentPool; reason?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  const reason = body.reason?.trim();
+  if (!body.userId || !reason) {
+    throw new HttpError(400, "userId and reason are required");
+  }
+
+  if (!Number.isInteger(body.amount) || body.amount === 0) {
+    throw new HttpError(400, "amount must be a non-zero integer");
+  }
+
+  const pool = body.pool ?? "topup";
+  if (!ADJUSTMENT_POOLS.includes(pool)) {
+    throw new HttpError(400, `pool must be one of: ${ADJUSTMENT_POOLS.join(", ")}`);
+  }
+
+  const result = await adjustCredits(body.userId, body.amount as number, pool, reason, user.id);
+
+  console.log(`[credits-adjust] ${user.id} adjusted ${body.userId} by ${body.amount} (${pool}): ${reason}`);
+
+  return jsonResponse(200, result);
+});
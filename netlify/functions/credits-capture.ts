@@ -0,0 +1,34 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { captureReservation } from "./utils/credits";
+import { handleLowBalance } from "./utils/low-balance";
+
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  let body: { reservationId?: string; amount?: number };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.reservationId) {
+    throw new HttpError(400, "reservationId is required");
+  }
+
+  if (body.amount !== undefined && (!Number.isInteger(body.amount) || body.amount < 0)) {
+    throw new HttpError(400, "amount must be a non-negative integer");
+  }
+
+  const result = await captureReservation(user.id, body.reservationId, body.amount);
+
+  // Awaited (with a time cap): the function may be frozen once it responds
+  await handleLowBalance(user.id, result.newBalance);
+
+  return jsonResponse(200, result);
+});
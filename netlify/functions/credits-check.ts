@@ -9,7 +9,7 @@ export const handler = withErrorHandling(async (event) => {
 
   const { user } = await requireAuth(event);
 
-  let body: { appKey?: string; operation?: string };
+  let body: { appKey?: string; operation?: string; quantity?: number };
   try {
     body = event.body ? JSON.parse(event.body) : {};
   } catch {
@@ -20,7 +20,12 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "appKey and operation are required");
   }
 
-  const result = await checkCredits(user.id, body.appKey, body.operation);
+  const quantity = body.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new HttpError(400, "quantity must be a positive integer");
+  }
+
+  const result = await checkCredits(user.id, body.appKey, body.operation, quantity);
 
   return jsonResponse(200, result);
 });
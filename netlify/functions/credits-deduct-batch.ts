@@ -0,0 +1,53 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { deductCreditsBatch, MAX_BATCH_ITEMS, type BatchItem } from "./utils/credits";
+import { handleLowBalance } from "./utils/low-balance";
+
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  let body: { appKey?: string; items?: Partial<BatchItem>[]; referenceId?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.appKey || !Array.isArray(body.items) || body.items.length === 0) {
+    throw new HttpError(400, "appKey and a non-empty items array are required");
+  }
+
+  if (body.items.length > MAX_BATCH_ITEMS) {
+    throw new HttpError(400, `A batch can contain at most ${MAX_BATCH_ITEMS} items`);
+  }
+
+  const items: BatchItem[] = body.items.map((item, index) => {
+    const quantity = item.quantity ?? 1;
+    if (!item.operation || !Number.isInteger(quantity) || quantity <= 0) {
+      throw new HttpError(400, `items[${index}] needs an operation and a positive integer quantity`);
+    }
+    return { operation: item.operation, quantity };
+  });
+
+  // Retries are deduplicated by referenceId; the Idempotency-Key header is accepted as an alias
+  const idempotencyKey = event.headers["idempotency-key"] ?? event.headers["Idempotency-Key"];
+  if (body.referenceId && idempotencyKey && body.referenceId !== idempotencyKey) {
+    throw new HttpError(400, "referenceId and Idempotency-Key header must match");
+  }
+
+  const result = await deductCreditsBatch(
+    user.id,
+    body.appKey,
+    items,
+    body.referenceId ?? idempotencyKey
+  );
+
+  // Awaited (with a time cap): the function may be frozen once it responds
+  await handleLowBalance(user.id, result.newBalance);
+
+  return jsonResponse(200, result);
+});
@@ -1,6 +1,7 @@
 import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
 import { requireAuth } from "./utils/supabase-admin";
 import { deductCredits } from "./utils/credits";
+import { handleLowBalance } from "./utils/low-balance";
 
 export const handler = withErrorHandling(async (event) => {
   if (event.httpMethod !== "POST") {
@@ -9,7 +10,7 @@ export const handler = withErrorHandling(async (event) => {
 
   const { user } = await requireAuth(event);
 
-  let body: { appKey?: string; operation?: string; referenceId?: string };
+  let body: { appKey?: string; operation?: string; quantity?: number; referenceId?: string };
   try {
     body = event.body ? JSON.parse(event.body) : {};
   } catch {
@@ -20,7 +21,27 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "appKey and operation are required");
   }
 
-  const result = await deductCredits(user.id, body.appKey, body.operation, body.referenceId);
+  const quantity = body.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new HttpError(400, "quantity must be a positive integer");
+  }
+
+  // Retries are deduplicated by referenceId; the Idempotency-Key header is accepted as an alias
+  const idempotencyKey = event.headers["idempotency-key"] ?? event.headers["Idempotency-Key"];
+  if (body.referenceId && idempotencyKey && body.referenceId !== idempotencyKey) {
+    throw new HttpError(400, "referenceId and Idempotency-Key header must match");
+  }
+
+  const result = await deductCredits(
+    user.id,
+    body.appKey,
+    body.operation,
+    body.referenceId ?? idempotencyKey,
+    quantity
+  );
+
+  // Awaited (with a time cap): the function may be frozen once it responds
+  await handleLowBalance(user.id, result.newBalance);
 
   return jsonResponse(200, result);
 });
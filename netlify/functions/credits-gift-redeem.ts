@@ -0,0 +1,32 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { redeemGiftCode } from "./utils/credits";
+
+/**
+ * Redeem a gift code into the user's top-up pool.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  let body: { code?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  const code = typeof body.code === "string" ? body.code.trim() : "";
+  if (!code || code.length > 50) {
+    throw new HttpError(400, "code is required");
+  }
+
+  const result = await redeemGiftCode(user.id, code);
+
+  console.log(`[credits-gift-redeem] ${user.id} redeemed a ${result.allocated}-credit gift code`);
+
+  return jsonResponse(200, result);
+});
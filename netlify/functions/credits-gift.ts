@@ -0,0 +1,72 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { getOrCreateStripeCustomer, createGiftCheckoutSession, TOP_UP_PRICE_IDS } from "./utils/stripe";
+import { listGiftCodes, MAX_GIFT_MESSAGE_LENGTH } from "./utils/gift-codes";
+import { TOPUP_PACKS, type TopUpPackKey } from "../../config/plans";
+
+const SUCCESS_URL = process.env.NEXT_PUBLIC_PAYMENTS_URL
+  ? `${process.env.NEXT_PUBLIC_PAYMENTS_URL}/credits?gift=success`
+  : "https://payments.bfeai.com/credits?gift=success";
+const CANCEL_URL = process.env.NEXT_PUBLIC_PAYMENTS_URL
+  ? `${process.env.NEXT_PUBLIC_PAYMENTS_URL}/credits?gift=cancelled`
+  : "https://payments.bfeai.com/credits?gift=cancelled";
+
+/**
+ * GET: gift codes the user has bought.
+ * POST: start checkout for a gift code worth a top-up pack. The code is
+ * emailed to recipientEmail, or to the buyer when none is given.
+ */
+export const handler = withErrorHandling(async (event) => {
+  const { user } = await requireAuth(event);
+
+  if (event.httpMethod === "GET") {
+    return jsonResponse(200, { giftCodes: await listGiftCodes(user.id) });
+  }
+
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const email = user.email ?? "";
+  if (!email) {
+    throw new HttpError(400, "User email is required");
+  }
+
+  let body: { packKey?: string; recipientEmail?: string; message?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  const pack = TOPUP_PACKS[body.packKey as TopUpPackKey];
+  if (!pack) {
+    throw new HttpError(400, `Unknown pack: ${body.packKey}. Valid packs: ${Object.keys(TOPUP_PACKS).join(", ")}`);
+  }
+
+  const recipientEmail = typeof body.recipientEmail === "string" && body.recipientEmail.trim()
+    ? body.recipientEmail.trim().toLowerCase()
+    : null;
+  if (recipientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+    throw new HttpError(400, "recipientEmail must be a valid email address");
+  }
+
+  const message = typeof body.message === "string" && body.message.trim() ? body.message.trim() : null;
+  if (message && message.length > MAX_GIFT_MESSAGE_LENGTH) {
+    throw new HttpError(400, `message must be at most ${MAX_GIFT_MESSAGE_LENGTH} characters`);
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+
+  const session = await createGiftCheckoutSession(
+    customerId,
+    TOP_UP_PRICE_IDS[pack.key],
+    pack.credits,
+    pack.name,
+    SUCCESS_URL,
+    CANCEL_URL,
+    { recipientEmail, message }
+  );
+
+  return jsonResponse(200, { url: session.url });
+});
@@ -0,0 +1,40 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAdmin } from "./utils/supabase-admin";
+import { refundCredits } from "./utils/credits";
+
+/**
+ * Refund a usage deduction (e.g. a job that failed after charging).
+ *
+ * Admin only: users can't refund themselves, since there's no proof the
+ * operation failed and a self-refund would make every operation free. Apps
+ * that fail a job should reserve credits and release the reservation instead.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAdmin(event);
+
+  let body: { transactionId?: string; reason?: string; userId?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.transactionId || !body.userId) {
+    throw new HttpError(400, "transactionId and userId are required");
+  }
+
+  const result = await refundCredits(
+    body.userId,
+    body.transactionId,
+    user.id,
+    body.reason?.trim() || undefined
+  );
+
+  console.log(`[credits-refund] ${user.id} refunded ${result.refunded} credits to ${body.userId} (txn ${body.transactionId})`);
+
+  return jsonResponse(200, result);
+});
@@ -0,0 +1,26 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { releaseReservation } from "./utils/credits";
+
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  let body: { reservationId?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.reservationId) {
+    throw new HttpError(400, "reservationId is required");
+  }
+
+  const result = await releaseReservation(user.id, body.reservationId);
+
+  return jsonResponse(200, result);
+});
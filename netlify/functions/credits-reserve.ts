@@ -0,0 +1,57 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { quoteOperations, reserveCredits } from "./utils/credits";
+
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  let body: {
+    appKey?: string;
+    operation?: string;
+    quantity?: number;
+    estimatedCost?: number;
+    ttlSeconds?: number;
+    referenceId?: string;
+  };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.appKey || !body.operation) {
+    throw new HttpError(400, "appKey and operation are required");
+  }
+
+  const quantity = body.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new HttpError(400, "quantity must be a positive integer");
+  }
+
+  if (body.estimatedCost !== undefined && (!Number.isInteger(body.estimatedCost) || body.estimatedCost <= 0)) {
+    throw new HttpError(400, "estimatedCost must be a positive integer");
+  }
+
+  if (body.ttlSeconds !== undefined && (!Number.isInteger(body.ttlSeconds) || body.ttlSeconds <= 0)) {
+    throw new HttpError(400, "ttlSeconds must be a positive integer");
+  }
+
+  // Hold the priced cost of `quantity` units unless the app sends its own estimate
+  const amount = body.estimatedCost
+    ?? (await quoteOperations(user.id, body.appKey, [{ operation: body.operation, quantity }]))[0].cost;
+
+  const result = await reserveCredits(
+    user.id,
+    body.appKey,
+    body.operation,
+    amount,
+    body.ttlSeconds,
+    body.referenceId
+  );
+
+  return jsonResponse(200, result);
+});
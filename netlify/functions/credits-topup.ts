@@ -1,41 +1,8 @@
 import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
 import { requireAuth } from "./utils/supabase-admin";
-import { getOrCreateStripeCustomer, createTopUpCheckoutSession } from "./utils/stripe";
-import { getStripeEnv } from "../../lib/stripe-env";
-
-type TopUpPack = {
-  priceId: string;
-  credits: number;
-  name: string;
-};
-
-const TOP_UP_PACKS: Record<string, TopUpPack> = {
-  starter: {
-    priceId: getStripeEnv("STRIPE_PRICE_TOPUP_STARTER", "price_topup_starter"),
-    credits: 75,
-    name: "Starter Boost",
-  },
-  builder: {
-    priceId: getStripeEnv("STRIPE_PRICE_TOPUP_BUILDER", "price_topup_builder"),
-    credits: 270,
-    name: "Builder Pack",
-  },
-  power: {
-    priceId: getStripeEnv("STRIPE_PRICE_TOPUP_POWER", "price_topup_power"),
-    credits: 980,
-    name: "Power Pack",
-  },
-  pro: {
-    priceId: getStripeEnv("STRIPE_PRICE_TOPUP_PRO", "price_topup_pro"),
-    credits: 2500,
-    name: "Pro Pack",
-  },
-  max: {
-    priceId: getStripeEnv("STRIPE_PRICE_TOPUP_MAX", "price_topup_max"),
-    credits: 5250,
-    name: "Max Pack",
-  },
-};
+import { getOrCreateStripeCustomer, createTopUpCheckoutSession, TOP_UP_PRICE_IDS } from "./utils/stripe";
+import { normalizePromoCode, validatePromoCodeForPrice } from "./utils/promo-codes";
+import { TOPUP_PACKS, type TopUpPackKey } from "../../config/plans";
 
 const SUCCESS_URL = process.env.NEXT_PUBLIC_PAYMENTS_URL
   ? `${process.env.NEXT_PUBLIC_PAYMENTS_URL}/credits?topup=success`
@@ -56,7 +23,7 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "User email is required");
   }
 
-  let body: { packKey?: string };
+  let body: { packKey?: string; promoCode?: string };
   try {
     body = event.body ? JSON.parse(event.body) : {};
   } catch {
@@ -67,20 +34,32 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "packKey is required");
   }
 
-  const pack = TOP_UP_PACKS[body.packKey];
+  const pack = TOPUP_PACKS[body.packKey as TopUpPackKey];
   if (!pack) {
-    throw new HttpError(400, `Unknown pack: ${body.packKey}. Valid packs: ${Object.keys(TOP_UP_PACKS).join(", ")}`);
+    throw new HttpError(400, `Unknown pack: ${body.packKey}. Valid packs: ${Object.keys(TOPUP_PACKS).join(", ")}`);
+  }
+
+  const promoCodeInput = normalizePromoCode(body.promoCode);
+  if (body.promoCode !== undefined && !promoCodeInput) {
+    throw new HttpError(400, "promoCode must be a non-empty string");
   }
 
   const customerId = await getOrCreateStripeCustomer(user.id, email);
+  const priceId = TOP_UP_PRICE_IDS[pack.key];
+
+  // Validate before redirecting so a bad code is reported here, not on Stripe's page
+  const promoCode = promoCodeInput
+    ? await validatePromoCodeForPrice(promoCodeInput, customerId, priceId)
+    : undefined;
 
   const session = await createTopUpCheckoutSession(
     customerId,
-    pack.priceId,
+    priceId,
     pack.credits,
     pack.name,
     SUCCESS_URL,
-    CANCEL_URL
+    CANCEL_URL,
+    promoCode
   );
 
   return jsonResponse(200, { url: session.url });
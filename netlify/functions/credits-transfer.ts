@@ -0,0 +1,52 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { transferCredits, MAX_TRANSFER_NOTE_LENGTH } from "./utils/credits";
+import { handleLowBalance } from "./utils/low-balance";
+import { checkRateLimit } from "../../lib/security/rate-limiter";
+
+/**
+ * Transfer top-up credits to another BFEAI account by email, or as a gift code
+ * to an email with no account. The recipient is notified by email.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+
+  const rateLimit = await checkRateLimit("creditTransfer", user.id);
+  if (!rateLimit.success) {
+    throw new HttpError(429, "Too many transfers. Please try again later.", { retryAfter: rateLimit.reset.toISOString() });
+  }
+
+  let body: { email?: string; amount?: number; note?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new HttpError(400, "A valid recipient email is required");
+  }
+
+  if (!Number.isInteger(body.amount) || (body.amount as number) <= 0) {
+    throw new HttpError(400, "amount must be a positive integer");
+  }
+
+  const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : undefined;
+  if (note && note.length > MAX_TRANSFER_NOTE_LENGTH) {
+    throw new HttpError(400, `note must be at most ${MAX_TRANSFER_NOTE_LENGTH} characters`);
+  }
+
+  const result = await transferCredits(user.id, email, body.amount as number, note);
+
+  console.log(`[credits-transfer] ${user.id} transferred ${body.amount} credits (${result.referenceId})`);
+
+  // Awaited (with a time cap): the function may be frozen once it responds
+  await handleLowBalance(user.id, result.newBalance);
+
+  return jsonResponse(200, result);
+});
@@ -0,0 +1,50 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { getUsageAnalytics, type UsageBucket } from "./utils/credits";
+
+const BUCKETS: UsageBucket[] = ["day", "week", "month"];
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (value: string | undefined, name: string): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `${name} must be an ISO date`);
+  }
+  return date;
+};
+
+/**
+ * GET ?from=&to=&bucket=day|week|month
+ * Defaults to the last 30 days in daily buckets.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "GET") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const params = event.queryStringParameters ?? {};
+
+  const bucket = (params.bucket ?? "day") as UsageBucket;
+  if (!BUCKETS.includes(bucket)) {
+    throw new HttpError(400, "bucket must be day, week or month");
+  }
+
+  const to = parseDate(params.to, "to") ?? new Date();
+  const from = parseDate(params.from, "from") ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (from >= to) {
+    throw new HttpError(400, "from must be before to");
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new HttpError(400, `Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  const analytics = await getUsageAnalytics(user.id, from, to, bucket);
+
+  return jsonResponse(200, analytics);
+});
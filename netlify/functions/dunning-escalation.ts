@@ -0,0 +1,32 @@
+import { schedule } from "@netlify/functions";
+import { escalateDunningCases, getGracePeriodDays } from "./utils/dunning";
+
+/**
+ * Scheduled function that runs hourly to escalate past-due subscriptions.
+ *
+ * Sends the reminder and final notice emails as each open dunning case comes
+ * due, and pauses credit usage once the grace period (DUNNING_GRACE_PERIOD_DAYS)
+ * has passed. Cases are resolved by invoice.payment_succeeded in the webhook.
+ */
+const handler = schedule("0 * * * *", async () => {
+  console.log(`[dunning-escalation] Starting run (grace period: ${getGracePeriodDays()} days)`);
+
+  try {
+    const { emailed, restricted } = await escalateDunningCases();
+
+    console.log(`[dunning-escalation] Run complete. Emailed: ${emailed}, Restricted: ${restricted}`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Dunning escalation completed", emailed, restricted }),
+    };
+  } catch (error) {
+    console.error("[dunning-escalation] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Escalation failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
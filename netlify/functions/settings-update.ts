@@ -1,15 +1,47 @@
 import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
 import { requireAuth, supabaseAdmin } from "./utils/supabase-admin";
+import { TOPUP_PACKS } from "../../config/plans";
 
 const ALLOWED_FIELDS = [
   "email_invoices",
   "newsletter_opt_in",
   "security_alerts",
   "login_alerts",
-  "two_factor_enabled",
   "session_timeout_minutes",
+  "low_balance_threshold",
+  "auto_topup_enabled",
+  "auto_topup_pack",
+  "auto_topup_max_per_month",
 ] as const;
 
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/** Validate the low-balance / auto top-up fields (the rest, bar session_timeout_minutes, are plain toggles). */
+const validateCreditSettings = (patch: Record<string, unknown>) => {
+  if ("low_balance_threshold" in patch && patch.low_balance_threshold !== null
+    && !isIntegerInRange(patch.low_balance_threshold, 1, 100000)) {
+    throw new HttpError(400, "low_balance_threshold must be null or an integer between 1 and 100000");
+  }
+
+  if ("auto_topup_pack" in patch && patch.auto_topup_pack !== null
+    && !(typeof patch.auto_topup_pack === "string" && patch.auto_topup_pack in TOPUP_PACKS)) {
+    throw new HttpError(400, "auto_topup_pack must be a top-up pack key");
+  }
+
+  if ("auto_topup_max_per_month" in patch && !isIntegerInRange(patch.auto_topup_max_per_month, 1, 10)) {
+    throw new HttpError(400, "auto_topup_max_per_month must be an integer between 1 and 10");
+  }
+};
+
+/** session_timeout_minutes is enforced as an idle timeout; 0 turns it off. */
+const validateSessionSettings = (patch: Record<string, unknown>) => {
+  if ("session_timeout_minutes" in patch && patch.session_timeout_minutes !== 0
+    && !isIntegerInRange(patch.session_timeout_minutes, 5, 7 * 24 * 60)) {
+    throw new HttpError(400, "session_timeout_minutes must be 0 or an integer between 5 and 10080");
+  }
+};
+
 export const handler = withErrorHandling(async (event) => {
   if (event.httpMethod !== "POST") {
     return jsonResponse(405, { error: "Method not allowed" });
@@ -36,6 +68,14 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "No valid fields to update");
   }
 
+  validateCreditSettings(patch);
+  validateSessionSettings(patch);
+
+  // A new threshold re-arms the low-balance alert
+  if ("low_balance_threshold" in patch) {
+    patch.low_balance_alerted_at = null;
+  }
+
   const { data, error } = await supabaseAdmin
     .from("user_settings")
     .update({ ...patch, updated_at: new Date().toISOString() })
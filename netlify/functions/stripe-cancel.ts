@@ -3,53 +3,44 @@ import { requireAuth, supabaseAdmin } from "./utils/supabase-admin";
 import {
   getOrCreateStripeCustomer,
   getActiveSubscriptions,
+  getCustomerSubscription,
+  isCancellableSubscription,
   cancelSubscription,
-  applyDiscount,
-  pauseSubscription,
+  removeBundleDiscountIfIneligible,
   syncAppSubscription,
 } from "./utils/stripe";
-import { allocateRetentionBonus } from "./utils/credits";
-import { getStripeEnv } from "../../lib/stripe-env";
+import {
+  selectRetentionOffer,
+  applyRetentionOffer,
+  claimRetentionOffer,
+  releaseRetentionOffer,
+  supersedeOpenOffers,
+  getAcceptedMessage,
+  recordOfferEvent,
+  type OfferType,
+} from "./utils/retention-offers";
+import { findSubscriptionByPriceId } from "../../config/plans";
+import { differenceInMonths } from "date-fns";
+import type Stripe from "stripe";
 
 type RequestBody = {
+  /** Subscription to cancel; alternatively identify it by appKey */
+  subscriptionId?: string;
+  appKey?: string;
   reason: string;
   feedback?: string;
   /** If the user was shown a retention offer, did they accept? */
   acceptOffer?: boolean;
-  /** The offer type being accepted/declined */
-  offerType?: "discount_3mo" | "discount_1mo" | "pause" | "credits" | "none";
+  /** The offer being accepted/declined (defaults to the latest one shown for this app) */
+  offerId?: string;
 };
 
-// Map cancellation reasons to retention offer types
-const REASON_OFFER_MAP: Record<string, { offerType: string; details: Record<string, unknown> }> = {
-  too_expensive: {
-    offerType: "discount_3mo",
-    details: { percent_off: 20, duration_months: 3, coupon_id: getStripeEnv("STRIPE_COUPON_20_OFF_3MO") },
-  },
-  not_using: {
-    offerType: "pause",
-    details: { pause_months: 1 },
-  },
-  missing_features: {
-    offerType: "credits",
-    details: { credit_amount: 50 },
-  },
-  switching_competitor: {
-    offerType: "discount_1mo",
-    details: { percent_off: 25, duration_months: 1, coupon_id: getStripeEnv("STRIPE_COUPON_25_OFF_1MO") },
-  },
-  technical_issues: {
-    offerType: "credits",
-    details: { credit_amount: 50 },
-  },
-  business_changed: {
-    offerType: "discount_1mo",
-    details: { percent_off: 25, duration_months: 1, coupon_id: getStripeEnv("STRIPE_COUPON_25_OFF_1MO") },
-  },
-  other: {
-    offerType: "none",
-    details: {},
-  },
+type PendingOffer = {
+  id: string;
+  rule_id: string | null;
+  variant_key: string | null;
+  offer_type: OfferType;
+  offer_details: Record<string, unknown>;
 };
 
 export const handler = withErrorHandling(async (event) => {
@@ -75,98 +66,140 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, "Cancellation reason is required");
   }
 
-  const customerId = await getOrCreateStripeCustomer(user.id, email);
-  const allSubs = await getActiveSubscriptions(customerId);
+  if (!body.subscriptionId && !body.appKey) {
+    throw new HttpError(400, "subscriptionId or appKey is required");
+  }
 
-  // Find the first active subscription (cancel flow doesn't specify which app yet)
-  const subscription = allSubs[0] ?? null;
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+  const subscription = await findSubscriptionToCancel(customerId, body);
 
   if (!subscription) {
-    throw new HttpError(400, "No active subscription to cancel");
+    throw new HttpError(404, "No active subscription to cancel");
   }
 
-  const appKey = subscription.metadata?.app_key ?? "keywords";
+  if (subscription.cancel_at_period_end) {
+    throw new HttpError(409, "Subscription is already set to cancel");
+  }
 
-  // Check if user has already used a retention offer (lifetime limit: 1)
-  const { data: existingOffer } = await supabaseAdmin
-    .from("cancellation_offers")
-    .select("id")
-    .eq("user_id", user.id)
-    .eq("status", "accepted")
-    .maybeSingle();
-
-  const hasUsedOffer = !!existingOffer;
-  const reasonConfig = REASON_OFFER_MAP[body.reason] ?? REASON_OFFER_MAP.other;
-  const offerAvailable = !hasUsedOffer && reasonConfig.offerType !== "none";
-
-  // Step 1: If this is a request for the offer info (no acceptOffer field)
-  if (body.acceptOffer === undefined && offerAvailable) {
-    // Create offer record (feedback is saved only when the user completes Step 2 or 3)
-    const { data: offer } = await supabaseAdmin
-      .from("cancellation_offers")
-      .insert({
-        user_id: user.id,
-        app_key: appKey,
-        reason: body.reason,
-        offer_type: reasonConfig.offerType,
-        offer_details: reasonConfig.details,
-        status: "offered",
-      })
-      .select("id")
-      .single();
+  const appKey = subscription.metadata?.app_key ?? "keywords";
 
-    return jsonResponse(200, {
-      action: "offer",
-      offerId: offer?.id,
-      offerType: reasonConfig.offerType,
-      offerDetails: reasonConfig.details,
-      hasUsedOffer: false,
+  // Step 1: Reason submitted — show the offer picked by the retention rules, if any
+  if (body.acceptOffer === undefined) {
+    const item = subscription.items.data[0];
+    const plan = item?.price?.id ? findSubscriptionByPriceId(item.price.id) : undefined;
+    const offer = await selectRetentionOffer({
+      userId: user.id,
+      appKey,
+      reason: body.reason,
+      planTier: plan?.tier ?? null,
+      monthsSubscribed: differenceInMonths(new Date(), new Date(subscription.start_date * 1000)),
     });
-  }
-
-  // Step 2: User accepted the retention offer
-  if (body.acceptOffer === true && offerAvailable) {
-    const offerId = body.offerType ? await findLatestOfferId(user.id) : null;
+    const eventData = {
+      userId: user.id,
+      appKey,
+      reason: body.reason,
+      ruleId: offer?.ruleId,
+      variantKey: offer?.variantKey,
+    };
 
-    try {
-      await applyRetentionOffer(user.id, subscription.id, reasonConfig, appKey);
+    if (offer && offer.offerType !== "none") {
+      // Only the offer shown now can be accepted
+      await supersedeOpenOffers(user.id);
 
-      // Mark offer as accepted
-      if (offerId) {
-        await supabaseAdmin
-          .from("cancellation_offers")
-          .update({ status: "accepted", responded_at: new Date().toISOString() })
-          .eq("id", offerId);
-      }
+      // Create offer record (feedback is saved only when the user completes Step 2 or 3)
+      const { data: offerRow } = await supabaseAdmin
+        .from("cancellation_offers")
+        .insert({
+          user_id: user.id,
+          app_key: appKey,
+          reason: body.reason,
+          offer_type: offer.offerType,
+          offer_details: offer.offerDetails,
+          rule_id: offer.ruleId,
+          variant_key: offer.variantKey,
+          status: "offered",
+        })
+        .select("id")
+        .single();
 
-      await saveFeedback(user.id, appKey, body.reason, body.feedback, offerId, true, false);
-      await syncAppSubscription(user.id, subscription, appKey);
+      await recordOfferEvent("shown", { ...eventData, offerId: offerRow?.id });
 
       return jsonResponse(200, {
-        action: "offer_accepted",
-        offerType: reasonConfig.offerType,
-        message: getAcceptedMessage(reasonConfig.offerType),
+        action: "offer",
+        offerId: offerRow?.id,
+        offerType: offer.offerType,
+        offerDetails: offer.offerDetails,
+        hasUsedOffer: false,
       });
+    }
+
+    if (offer) {
+      await recordOfferEvent("held_out", eventData);
+    }
+    // No offer — fall through and cancel
+  }
+
+  // Step 2: User accepted the retention offer
+  if (body.acceptOffer === true) {
+    const offer = await findPendingOffer(user.id, appKey, body.offerId);
+    if (!offer || !(await claimRetentionOffer(user.id, offer))) {
+      throw new HttpError(409, "This offer is no longer available");
+    }
+
+    try {
+      await applyRetentionOffer(user.id, subscription.id, offer.id, offer.offer_type, offer.offer_details);
     } catch (err) {
       console.error("[stripe-cancel] Failed to apply retention offer:", err);
+      await releaseRetentionOffer(offer.id);
       throw new HttpError(500, "Failed to apply retention offer");
     }
+
+    await recordOfferEvent("accepted", {
+      userId: user.id,
+      appKey,
+      reason: body.reason,
+      offerId: offer.id,
+      ruleId: offer.rule_id,
+      variantKey: offer.variant_key,
+    });
+    await saveFeedback(user.id, appKey, body.reason, body.feedback, offer.id, true, false);
+    await syncAppSubscription(user.id, subscription, appKey);
+
+    return jsonResponse(200, {
+      action: "offer_accepted",
+      offerType: offer.offer_type,
+      message: getAcceptedMessage(offer.offer_type, offer.offer_details),
+    });
   }
 
-  // Step 3: User declined the offer or "Other" reason — proceed with cancellation
-  const offerId = await findLatestOfferId(user.id);
-  if (offerId) {
+  // Step 3: User declined the offer or none was available — proceed with cancellation
+  const declinedOffer = await findPendingOffer(user.id, appKey, body.offerId);
+  if (declinedOffer) {
     await supabaseAdmin
       .from("cancellation_offers")
       .update({ status: "declined", responded_at: new Date().toISOString() })
-      .eq("id", offerId);
+      .eq("id", declinedOffer.id);
+
+    await recordOfferEvent("cancelled_anyway", {
+      userId: user.id,
+      appKey,
+      reason: body.reason,
+      offerId: declinedOffer.id,
+      ruleId: declinedOffer.rule_id,
+      variantKey: declinedOffer.variant_key,
+    });
   }
+  const offerId = declinedOffer?.id ?? null;
 
   // Cancel at period end
   const cancelled = await cancelSubscription(subscription.id);
   await syncAppSubscription(user.id, cancelled, appKey);
   await saveFeedback(user.id, appKey, body.reason, body.feedback, offerId, false, true);
 
+  // The cancelled app still counts toward the bundle until it ends, so this only
+  // drops the discount when the remaining subscriptions no longer qualify
+  await removeBundleDiscountIfIneligible(customerId, user.id);
+
   return jsonResponse(200, {
     action: "cancelled",
     message: "Subscription will be cancelled at the end of the current billing period",
@@ -182,31 +215,21 @@ export const handler = withErrorHandling(async (event) => {
 // Helpers
 // ---------------------------------------------------------------------------
 
-async function applyRetentionOffer(
-  userId: string,
-  subscriptionId: string,
-  config: { offerType: string; details: Record<string, unknown> },
-  appKey: string
-) {
-  switch (config.offerType) {
-    case "discount_3mo":
-    case "discount_1mo": {
-      const couponId = config.details.coupon_id as string;
-      if (couponId) {
-        await applyDiscount(subscriptionId, couponId);
-      }
-      break;
-    }
-    case "pause": {
-      await pauseSubscription(subscriptionId);
-      break;
-    }
-    case "credits": {
-      const amount = (config.details.credit_amount as number) ?? 50;
-      await allocateRetentionBonus(userId, amount);
-      break;
-    }
+/**
+ * The customer's subscription named by the request, by id (ownership checked)
+ * or by app key. Null if it doesn't exist, isn't theirs or has already ended.
+ */
+async function findSubscriptionToCancel(
+  customerId: string,
+  body: RequestBody
+): Promise<Stripe.Subscription | null> {
+  if (body.subscriptionId) {
+    const subscription = await getCustomerSubscription(customerId, body.subscriptionId);
+    return subscription && isCancellableSubscription(subscription, body.appKey) ? subscription : null;
   }
+
+  const subscriptions = await getActiveSubscriptions(customerId);
+  return subscriptions.find((s) => isCancellableSubscription(s, body.appKey)) ?? null;
 }
 
 async function saveFeedback(
@@ -229,29 +252,26 @@ async function saveFeedback(
   });
 }
 
-async function findLatestOfferId(userId: string): Promise<string | null> {
-  const { data } = await supabaseAdmin
+/** The offer still awaiting an answer: `offerId` if given, else the latest shown for this app. */
+async function findPendingOffer(
+  userId: string,
+  appKey: string,
+  offerId?: string
+): Promise<PendingOffer | null> {
+  let query = supabaseAdmin
     .from("cancellation_offers")
-    .select("id")
+    .select("id, rule_id, variant_key, offer_type, offer_details")
     .eq("user_id", userId)
-    .eq("status", "offered")
-    .order("offered_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-  return data?.id ?? null;
-}
+    .eq("app_key", appKey)
+    .eq("status", "offered");
 
-function getAcceptedMessage(offerType: string): string {
-  switch (offerType) {
-    case "discount_3mo":
-      return "Your subscription will continue at 20% off for the next 3 months.";
-    case "discount_1mo":
-      return "Your subscription will continue at 25% off for the next month.";
-    case "pause":
-      return "Your subscription has been paused for 1 month. It will resume automatically.";
-    case "credits":
-      return "50 bonus credits have been added to your account.";
-    default:
-      return "Your offer has been applied.";
+  if (offerId) {
+    query = query.eq("id", offerId);
   }
+
+  const { data } = await query
+    .order("offered_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<PendingOffer>();
+  return data ?? null;
 }
@@ -0,0 +1,138 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import {
+  getOrCreateStripeCustomer,
+  getCustomerSubscription,
+  previewSubscriptionPriceChange,
+  changeSubscriptionPrice,
+  isUsableProrationDate,
+  syncAppSubscription,
+} from "./utils/stripe";
+import { recalculateSubscriptionCap } from "./utils/credits";
+import { findSubscriptionByPriceId } from "../../config/plans";
+import type Stripe from "stripe";
+
+type BillingPeriod = "monthly" | "yearly";
+
+type RequestBody = {
+  subscriptionId?: string;
+  billingPeriod?: BillingPeriod;
+  /** false/absent: return a proration preview; true: apply the switch */
+  confirm?: boolean;
+  /** prorationDate from the preview, so the charge matches what was shown */
+  prorationDate?: number;
+};
+
+/**
+ * Switch an active subscription between monthly and yearly billing on the same tier.
+ * Call without `confirm` for a proration preview first.
+ *
+ * Stripe restarts the billing period at the switch and invoices right away, crediting
+ * the unused time of the old period (any excess stays on the customer's balance for
+ * later invoices).
+ *
+ * Credits going forward:
+ * - monthly → yearly: this month's allocation counts as month 0 of the new yearly period;
+ *   yearly-credit-allocation grants the following months from the new period start.
+ * - yearly → monthly: this month's grant stands; each monthly renewal invoice grants
+ *   credits from then on and the yearly job no longer picks the subscription up.
+ * The switch invoice itself (billing_reason subscription_update) grants nothing.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const email = user.email ?? "";
+
+  if (!email) {
+    throw new HttpError(400, "User email is required");
+  }
+
+  let body: RequestBody;
+  try {
+    body = event.body ? (JSON.parse(event.body) as RequestBody) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.subscriptionId || (body.billingPeriod !== "monthly" && body.billingPeriod !== "yearly")) {
+    throw new HttpError(400, "subscriptionId and billingPeriod (monthly or yearly) are required");
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+  const subscription = await getCustomerSubscription(customerId, body.subscriptionId);
+
+  if (!subscription) {
+    throw new HttpError(404, "Subscription not found");
+  }
+
+  if (subscription.status !== "active" || subscription.pause_collection) {
+    throw new HttpError(409, "Only active subscriptions can switch billing period");
+  }
+
+  if (subscription.cancel_at_period_end) {
+    throw new HttpError(409, "Subscription is set to cancel. Keep it before switching billing period.");
+  }
+
+  const item = subscription.items.data[0];
+  const currentPriceId = item?.price?.id;
+  const plan = currentPriceId ? findSubscriptionByPriceId(currentPriceId) : undefined;
+
+  if (!item || !plan) {
+    throw new HttpError(409, "This subscription's billing period can't be changed here");
+  }
+
+  const currentPeriod: BillingPeriod = currentPriceId === plan.stripePriceIdYearly ? "yearly" : "monthly";
+  if (currentPeriod === body.billingPeriod) {
+    throw new HttpError(409, `Subscription is already billed ${body.billingPeriod}`);
+  }
+
+  const newPriceId = body.billingPeriod === "yearly" ? plan.stripePriceIdYearly : plan.stripePriceIdMonthly;
+  if (!newPriceId) {
+    throw new HttpError(500, `${body.billingPeriod} price for ${plan.appKey} ${plan.tier} is not configured`);
+  }
+
+  const appKey = subscription.metadata?.app_key ?? plan.appKey;
+  const summary = {
+    appKey,
+    tier: plan.tier,
+    currentPeriod,
+    newPeriod: body.billingPeriod,
+    currentAmount: (item.price.unit_amount ?? 0) / 100,
+  };
+
+  if (!body.confirm) {
+    const preview = await previewSubscriptionPriceChange(subscription, newPriceId, true);
+    // The non-proration lines are the first full period at the new price
+    const newAmount = preview.lines.filter((line) => !line.proration).reduce((sum, line) => sum + line.amount, 0);
+    return jsonResponse(200, { ...summary, newAmount, preview });
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const prorationDate = body.prorationDate ?? nowSeconds;
+  if (!isUsableProrationDate(prorationDate, nowSeconds)) {
+    throw new HttpError(409, "Preview expired. Please review the change again.");
+  }
+
+  let updated: Stripe.Subscription;
+  try {
+    updated = await changeSubscriptionPrice(subscription, newPriceId, true, prorationDate, {
+      app_key: appKey,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[stripe-change-billing-period] Failed to switch ${subscription.id} to ${body.billingPeriod}:`, message);
+    throw new HttpError(402, "The billing period switch payment failed. Please check your payment method.", message);
+  }
+
+  await syncAppSubscription(user.id, updated, appKey);
+  const cap = await recalculateSubscriptionCap(user.id);
+
+  console.log(
+    `[stripe-change-billing-period] ${subscription.id} ${currentPeriod} -> ${body.billingPeriod} for user ${user.id}, cap ${cap}`
+  );
+
+  return jsonResponse(200, { ...summary, changed: true, cap });
+});
@@ -0,0 +1,173 @@
+import type Stripe from "stripe";
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import {
+  getOrCreateStripeCustomer,
+  getCustomerSubscription,
+  previewSubscriptionPriceChange,
+  changeSubscriptionPrice,
+  isUsableProrationDate,
+  syncAppSubscription,
+} from "./utils/stripe";
+import {
+  allocatePeriodCredits,
+  hasPeriodAllocation,
+  proratedUpgradeCredits,
+  recalculateSubscriptionCap,
+  yearlyGrantPeriod,
+} from "./utils/credits";
+import { findSubscriptionByPriceId, findSubscriptionPlan } from "../../config/plans";
+
+type RequestBody = {
+  subscriptionId?: string;
+  /** Target tier within the same app (plans.ts `tier`) */
+  tier?: string;
+  /** false/absent: return a proration preview; true: apply the change */
+  confirm?: boolean;
+  /** prorationDate from the preview, so the charge matches what was shown */
+  prorationDate?: number;
+};
+
+/**
+ * Current credit period for the upgrade rule in proratedUpgradeCredits:
+ * the billing period for monthly plans, the current monthly grant period for yearly plans.
+ */
+const creditPeriod = (item: Stripe.SubscriptionItem, isYearly: boolean, at: Date) => {
+  const billingStart = new Date(item.current_period_start * 1000);
+  if (!isYearly) {
+    return { start: billingStart, end: new Date(item.current_period_end * 1000) };
+  }
+  const { start, end } = yearlyGrantPeriod(billingStart, at);
+  return { start, end };
+};
+
+/**
+ * Switch a subscription to another tier of the same app (e.g. LABS Base ↔ AEO Consultant),
+ * keeping its billing interval. Call without `confirm` for a proration preview first.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const email = user.email ?? "";
+
+  if (!email) {
+    throw new HttpError(400, "User email is required");
+  }
+
+  let body: RequestBody;
+  try {
+    body = event.body ? (JSON.parse(event.body) as RequestBody) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.subscriptionId || !body.tier) {
+    throw new HttpError(400, "subscriptionId and tier are required");
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+
+  const subscription = await getCustomerSubscription(customerId, body.subscriptionId);
+  if (!subscription) {
+    throw new HttpError(404, "Subscription not found");
+  }
+
+  if (subscription.status !== "active" || subscription.pause_collection) {
+    throw new HttpError(409, "Only active subscriptions can change plan");
+  }
+
+  if (subscription.cancel_at_period_end) {
+    throw new HttpError(409, "Subscription is set to cancel. Keep it before changing plan.");
+  }
+
+  const item = subscription.items.data[0];
+  const currentPriceId = item?.price?.id;
+  const currentPlan = currentPriceId ? findSubscriptionByPriceId(currentPriceId) : undefined;
+
+  if (!item || !currentPlan) {
+    throw new HttpError(409, "This subscription's plan can't be changed here");
+  }
+
+  const appKey = subscription.metadata?.app_key ?? currentPlan.appKey;
+  const targetPlan = findSubscriptionPlan(appKey, body.tier);
+
+  if (!targetPlan || targetPlan.tier !== body.tier) {
+    throw new HttpError(400, `Unknown ${appKey} tier: ${body.tier}`);
+  }
+
+  if (targetPlan.tier === currentPlan.tier) {
+    throw new HttpError(409, "Subscription is already on this plan");
+  }
+
+  const isYearly = currentPriceId === currentPlan.stripePriceIdYearly;
+  const newPriceId = isYearly ? targetPlan.stripePriceIdYearly : targetPlan.stripePriceIdMonthly;
+
+  if (!newPriceId) {
+    throw new HttpError(500, `Price for ${appKey} ${targetPlan.tier} is not configured`);
+  }
+
+  const isUpgrade = targetPlan.monthlyPrice > currentPlan.monthlyPrice;
+  const now = new Date();
+  const period = creditPeriod(item, isYearly, now);
+  // One upgrade grant per subscription per credit period (see proratedUpgradeCredits)
+  const upgradeReference = `plan_change:${subscription.id}:${period.start.toISOString().slice(0, 10)}`;
+  const bonusCredits = isUpgrade && !(await hasPeriodAllocation(user.id, upgradeReference))
+    ? proratedUpgradeCredits(currentPlan.monthlyCredits, targetPlan.monthlyCredits, period.start, period.end, now)
+    : 0;
+
+  const summary = {
+    appKey,
+    interval: isYearly ? "year" : "month",
+    isUpgrade,
+    currentPlan: { tier: currentPlan.tier, monthlyPrice: currentPlan.monthlyPrice, monthlyCredits: currentPlan.monthlyCredits, creditCap: currentPlan.creditCap },
+    newPlan: { tier: targetPlan.tier, monthlyPrice: targetPlan.monthlyPrice, monthlyCredits: targetPlan.monthlyCredits, creditCap: targetPlan.creditCap },
+    bonusCredits,
+  };
+
+  if (!body.confirm) {
+    const preview = await previewSubscriptionPriceChange(subscription, newPriceId, isUpgrade);
+    return jsonResponse(200, { ...summary, preview });
+  }
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const prorationDate = body.prorationDate ?? nowSeconds;
+  if (!isUsableProrationDate(prorationDate, nowSeconds)) {
+    throw new HttpError(409, "Preview expired. Please review the change again.");
+  }
+
+  let updated: Stripe.Subscription;
+  try {
+    updated = await changeSubscriptionPrice(subscription, newPriceId, isUpgrade, prorationDate, {
+      app_key: appKey,
+      tier: targetPlan.tier,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[stripe-change-plan] Failed to change ${subscription.id} to ${targetPlan.tier}:`, message);
+    throw new HttpError(402, "The plan change payment failed. Please check your payment method.", message);
+  }
+
+  await syncAppSubscription(user.id, updated, appKey);
+  const cap = await recalculateSubscriptionCap(user.id);
+
+  let allocated = 0;
+  if (bonusCredits > 0) {
+    const result = await allocatePeriodCredits(
+      user.id,
+      bonusCredits,
+      appKey,
+      upgradeReference,
+      "Plan upgrade credits"
+    );
+    allocated = result.allocated;
+  }
+
+  console.log(
+    `[stripe-change-plan] ${subscription.id} ${currentPlan.tier} -> ${targetPlan.tier} for user ${user.id}, cap ${cap}, allocated ${allocated}/${bonusCredits}`
+  );
+
+  return jsonResponse(200, { ...summary, changed: true, cap, allocated });
+});
@@ -8,6 +8,7 @@ import {
   createDualTrialCheckoutSession,
   checkDualTrialEligibility,
 } from "./utils/stripe";
+import { normalizePromoCode, validatePromoCodeForPrice } from "./utils/promo-codes";
 import { findSubscriptionPlan } from "../../config/plans";
 import { getStripeEnv } from "../../lib/stripe-env";
 
@@ -38,6 +39,7 @@ export const handler = withErrorHandling(async (event) => {
   let billingPeriod: "monthly" | "yearly" = "monthly";
   let trial = false;
   let dualTrial = false;
+  let promoCodeInput: string | null = null;
 
   if (event.body) {
     try {
@@ -47,11 +49,16 @@ export const handler = withErrorHandling(async (event) => {
       if (body.billingPeriod === "yearly") billingPeriod = "yearly";
       if (body.trial === true) trial = true;
       if (body.dualTrial === true) dualTrial = true;
+      promoCodeInput = normalizePromoCode(body.promoCode);
     } catch {
       // If body parsing fails, use defaults (backwards compatible)
     }
   }
 
+  if (promoCodeInput && (trial || dualTrial)) {
+    throw new HttpError(400, "Promo codes can't be combined with a trial");
+  }
+
   const customerId = await getOrCreateStripeCustomer(user.id, email);
 
   // Dual trial flow ($2 bundle: Keywords + LABS)
@@ -117,12 +124,18 @@ export const handler = withErrorHandling(async (event) => {
     throw new HttpError(400, `No Stripe Price ID configured for ${appKey}${tier ? `:${tier}` : ""}`);
   }
 
+  // Validate before redirecting so a bad code is reported here, not on Stripe's page
+  const promoCode = promoCodeInput
+    ? await validatePromoCodeForPrice(promoCodeInput, customerId, priceId)
+    : undefined;
+
   const session = await createCheckoutSession(
     customerId,
     priceId,
     appKey,
     SUCCESS_URL,
-    CANCEL_URL
+    CANCEL_URL,
+    promoCode
   );
 
   return jsonResponse(200, { url: session.url });
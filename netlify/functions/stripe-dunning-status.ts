@@ -0,0 +1,18 @@
+import { withErrorHandling, jsonResponse } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { getDunningStatus } from "./utils/dunning";
+
+/**
+ * Past-due subscriptions for the dashboard banner. Reads only the dunning
+ * log, so it is cheap enough to poll from every dashboard page.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "GET") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const cases = await getDunningStatus(user.id);
+
+  return jsonResponse(200, { cases });
+});
@@ -15,17 +15,21 @@ export const handler = withErrorHandling(async (event) => {
   }
 
   let returnUrl = "https://dashboard.bfeai.com";
+  let flow: "payment_method_update" | undefined;
   try {
     const body = event.body ? JSON.parse(event.body) : {};
     if (body.returnUrl) {
       returnUrl = body.returnUrl;
     }
+    if (body.flow === "payment_method_update") {
+      flow = body.flow;
+    }
   } catch {
     // Use default returnUrl
   }
 
   const customerId = await getOrCreateStripeCustomer(user.id, email);
-  const session = await createPortalSession(customerId, returnUrl);
+  const session = await createPortalSession(customerId, returnUrl, flow);
 
   return jsonResponse(200, { url: session.url });
 });
@@ -0,0 +1,78 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth } from "./utils/supabase-admin";
+import { stripe, getOrCreateStripeCustomer, TOP_UP_PRICE_IDS } from "./utils/stripe";
+import {
+  findPromoCode,
+  discountPrice,
+  describePromoCode,
+  normalizePromoCode,
+  type DiscountedPrice,
+} from "./utils/promo-codes";
+import { ALL_SUBSCRIPTIONS, TOPUP_PACK_ORDER } from "../../config/plans";
+
+/**
+ * Validate a promo code and price it against what can be bought with it.
+ *
+ * POST { code, kind: "subscription" | "topup" }. Returns the discounted price
+ * of each app's default monthly plan (keyed by appKey) or of each top-up pack
+ * (keyed by packKey); items the code doesn't cover are left out. Checkout
+ * validates the code again for the chosen item.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const email = user.email ?? "";
+
+  if (!email) {
+    throw new HttpError(400, "User email is required");
+  }
+
+  let body: { code?: string; kind?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  const code = normalizePromoCode(body.code);
+  if (!code) {
+    throw new HttpError(400, "code is required");
+  }
+  if (body.kind !== "subscription" && body.kind !== "topup") {
+    throw new HttpError(400, 'kind must be "subscription" or "topup"');
+  }
+
+  // What each key checks out as: an app's default (first) plan, or a pack
+  const items: [string, string][] = body.kind === "subscription"
+    ? [...new Set(ALL_SUBSCRIPTIONS.map((plan) => plan.appKey))].map((appKey) => [
+        appKey,
+        ALL_SUBSCRIPTIONS.find((plan) => plan.appKey === appKey)!.stripePriceIdMonthly,
+      ])
+    : TOPUP_PACK_ORDER.map((packKey) => [packKey, TOP_UP_PRICE_IDS[packKey]]);
+
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+  const promo = await findPromoCode(code, customerId);
+
+  const prices: Record<string, DiscountedPrice> = {};
+  await Promise.all(
+    items
+      .filter(([, priceId]) => priceId)
+      .map(async ([key, priceId]) => {
+        const discounted = discountPrice(promo, await stripe.prices.retrieve(priceId));
+        if (discounted) prices[key] = discounted;
+      })
+  );
+
+  if (Object.keys(prices).length === 0) {
+    throw new HttpError(400, `This promo code can't be used for ${body.kind === "topup" ? "top-up packs" : "subscriptions"}`, { code });
+  }
+
+  return jsonResponse(200, {
+    code: promo.code,
+    description: describePromoCode(promo, body.kind === "subscription"),
+    prices,
+  });
+});
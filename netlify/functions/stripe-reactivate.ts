@@ -0,0 +1,104 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAuth, supabaseAdmin } from "./utils/supabase-admin";
+import {
+  getOrCreateStripeCustomer,
+  getCustomerSubscription,
+  isReactivatableSubscription,
+  reactivateSubscription,
+  syncAppSubscription,
+  applyBundleDiscountIfEligible,
+} from "./utils/stripe";
+
+type RequestBody = {
+  subscriptionId?: string;
+};
+
+/**
+ * Keep a subscription that is set to cancel at the end of its period.
+ *
+ * Clears cancel_at_period_end, marks the cancellation's feedback row as reactivated
+ * and re-applies the bundle discount, which the cancellation would otherwise have
+ * dropped once the subscription ended.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAuth(event);
+  const email = user.email ?? "";
+
+  if (!email) {
+    throw new HttpError(400, "User email is required");
+  }
+
+  let body: RequestBody;
+  try {
+    body = event.body ? (JSON.parse(event.body) as RequestBody) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.subscriptionId) {
+    throw new HttpError(400, "subscriptionId is required");
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user.id, email);
+  const subscription = await getCustomerSubscription(customerId, body.subscriptionId);
+
+  if (!subscription || !isReactivatableSubscription(subscription)) {
+    throw new HttpError(404, "Subscription not found");
+  }
+
+  if (!subscription.cancel_at_period_end) {
+    throw new HttpError(409, "Subscription is not set to cancel");
+  }
+
+  const appKey = subscription.metadata?.app_key ?? "keywords";
+
+  const reactivated = await reactivateSubscription(subscription.id);
+  await syncAppSubscription(user.id, reactivated, appKey);
+  await recordReactivation(user.id, appKey);
+  await applyBundleDiscountIfEligible(customerId, user.id);
+
+  console.log(`[stripe-reactivate] Kept ${appKey} subscription ${subscription.id} for user ${user.id}`);
+
+  return jsonResponse(200, {
+    action: "reactivated",
+    message: "Your subscription will continue as normal.",
+    subscription: {
+      id: reactivated.id,
+      status: reactivated.status,
+      cancelAtPeriodEnd: reactivated.cancel_at_period_end,
+    },
+  });
+});
+
+/** Stamp the latest unreversed cancellation feedback for this app. */
+async function recordReactivation(userId: string, appKey: string) {
+  const { data: feedback } = await supabaseAdmin
+    .from("cancellation_feedback")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("app_key", appKey)
+    .eq("did_cancel", true)
+    .is("reactivated_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!feedback) {
+    // Cancelled outside the dashboard flow (e.g. the Stripe portal)
+    console.warn(`[stripe-reactivate] No cancellation feedback to mark for user ${userId}, app ${appKey}`);
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from("cancellation_feedback")
+    .update({ reactivated_at: new Date().toISOString() })
+    .eq("id", feedback.id);
+
+  if (error) {
+    console.error("[stripe-reactivate] Failed to record reactivation:", error);
+  }
+}
@@ -7,6 +7,7 @@ import {
   getInvoices,
 } from "./utils/stripe";
 import { getBalance } from "./utils/credits";
+import { findSubscriptionByPriceId, findSubscriptionPlan } from "../../config/plans";
 import type Stripe from "stripe";
 
 type DbSubscription = {
@@ -95,6 +96,16 @@ export const handler = withErrorHandling(async (event) => {
   });
 });
 
+/** Plan tier, billing period and monthly credits for a subscription's price (app default if unknown). */
+function planFields(appKey: string, priceId: string | null) {
+  const plan = (priceId ? findSubscriptionByPriceId(priceId) : undefined) ?? findSubscriptionPlan(appKey);
+  return {
+    tier: plan?.tier ?? null,
+    billingPeriod: priceId && priceId === plan?.stripePriceIdYearly ? "yearly" as const : "monthly" as const,
+    monthlyCredits: plan?.monthlyCredits ?? 300,
+  };
+}
+
 /** Build subscription summary from live Stripe data. */
 function buildFromStripe(subscription: Stripe.Subscription, appKey: string) {
   const item = subscription.items.data[0];
@@ -129,6 +140,7 @@ function buildFromStripe(subscription: Stripe.Subscription, appKey: string) {
         ).toISOString()
       : null,
     stripeManaged: true,
+    ...planFields(appKey, priceId),
   };
 }
 
@@ -147,5 +159,6 @@ function buildFromDb(row: DbSubscription) {
     isPaused,
     resumeAt: row.resume_at,
     stripeManaged: false,
+    ...planFields(row.app_key, row.stripe_price_id),
   };
 }
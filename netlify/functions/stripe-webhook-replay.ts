@@ -0,0 +1,63 @@
+import { withErrorHandling, jsonResponse, HttpError } from "./utils/http";
+import { requireAdmin } from "./utils/supabase-admin";
+import { stripe } from "./utils/stripe";
+import {
+  getWebhookEvent,
+  logWebhookEvent,
+  processWebhookEvent,
+  type WebhookEventStatus,
+} from "./utils/webhook-events";
+
+/**
+ * Replay a Stripe webhook event by id (admins only).
+ *
+ * Failed and dead-lettered events are replayed as-is. Events that already
+ * succeeded need `force: true`. Events missing from the log (e.g. never
+ * delivered) are fetched from Stripe first.
+ */
+export const handler = withErrorHandling(async (event) => {
+  if (event.httpMethod !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const { user } = await requireAdmin(event);
+
+  let body: { eventId?: string; force?: boolean };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+
+  if (!body.eventId || !body.eventId.startsWith("evt_")) {
+    throw new HttpError(400, "eventId (evt_...) is required");
+  }
+
+  let row = await getWebhookEvent(body.eventId);
+
+  if (!row) {
+    try {
+      row = await logWebhookEvent(await stripe.events.retrieve(body.eventId));
+    } catch (err) {
+      console.error(`[stripe-webhook-replay] Could not fetch ${body.eventId} from Stripe:`, err);
+      throw new HttpError(404, "Event not found");
+    }
+  }
+
+  if (row.status === "processing") {
+    throw new HttpError(409, "Event is being processed right now");
+  }
+
+  if (row.status === "succeeded" && !body.force) {
+    throw new HttpError(409, "Event already succeeded. Pass force: true to replay it anyway.");
+  }
+
+  const claimable: WebhookEventStatus[] = ["received", "failed", "dead", "succeeded"];
+  const outcome = await processWebhookEvent(row, claimable);
+
+  console.log(
+    `[stripe-webhook-replay] ${user.id} replayed ${row.type} ${row.id}: ${outcome.status} (attempt ${outcome.attempts})`
+  );
+
+  return jsonResponse(200, { type: row.type, ...outcome });
+});
@@ -0,0 +1,95 @@
+import { schedule } from "@netlify/functions";
+import { supabaseAdmin } from "./utils/supabase-admin";
+import { processWebhookEvent, type WebhookEventRow } from "./utils/webhook-events";
+
+const BATCH_SIZE = 25;
+
+/** A "received" or "processing" event this old was abandoned mid-flight */
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * Scheduled function that runs every 5 minutes to retry failed Stripe webhook events.
+ *
+ * Picks up failed events whose backoff (next_attempt_at) has passed, plus events
+ * whose webhook invocation died before finishing (stuck in received/processing).
+ * Events that keep failing are dead-lettered by processWebhookEvent and can
+ * then only be replayed through stripe-webhook-replay.
+ */
+const handler = schedule("*/5 * * * *", async () => {
+  console.log("[stripe-webhook-retry] Starting retry run");
+
+  try {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_AFTER_MS).toISOString();
+
+    // Abandoned processing counts as a failed attempt
+    await supabaseAdmin
+      .from("stripe_events")
+      .update({
+        status: "failed",
+        last_error: "Processing did not finish",
+        next_attempt_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq("status", "processing")
+      .lt("updated_at", staleBefore);
+
+    const { data: events, error: queryError } = await supabaseAdmin
+      .from("stripe_events")
+      .select("id, type, payload, status, attempts, last_error, next_attempt_at")
+      .or(`and(status.eq.failed,next_attempt_at.lte.${now.toISOString()}),and(status.eq.received,received_at.lt.${staleBefore})`)
+      .order("next_attempt_at", { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE)
+      .returns<WebhookEventRow[]>();
+
+    if (queryError) {
+      console.error("[stripe-webhook-retry] Query error:", queryError);
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ error: "Query failed", details: queryError.message }),
+      };
+    }
+
+    if (!events || events.length === 0) {
+      console.log("[stripe-webhook-retry] No events to retry");
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: "No events to retry", retried: 0 }),
+      };
+    }
+
+    let succeeded = 0;
+    let failed = 0;
+    let dead = 0;
+
+    for (const row of events) {
+      const outcome = await processWebhookEvent(row, ["failed", "received"]);
+      if (outcome.status === "succeeded") succeeded++;
+      else if (outcome.status === "failed") failed++;
+      else if (outcome.status === "dead") dead++;
+    }
+
+    console.log(
+      `[stripe-webhook-retry] Run complete. Succeeded: ${succeeded}, Failed: ${failed}, Dead: ${dead}`
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        message: "Webhook retry completed",
+        retried: events.length,
+        succeeded,
+        failed,
+        dead,
+      }),
+    };
+  } catch (error) {
+    console.error("[stripe-webhook-retry] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Retry failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
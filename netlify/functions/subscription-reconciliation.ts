@@ -0,0 +1,43 @@
+import { schedule } from "@netlify/functions";
+import { reconcileSubscriptions } from "./utils/reconciliation";
+
+/**
+ * Scheduled function that runs daily at 4:00 AM UTC to reconcile subscriptions.
+ *
+ * Compares each customer's Stripe subscriptions with app_subscriptions and
+ * user_credits.subscription_cap, and rewrites the database side where they
+ * drift (missed or failed webhooks). With RECONCILIATION_DRY_RUN=true it only
+ * logs and returns the diff report.
+ */
+const handler = schedule("0 4 * * *", async () => {
+  const dryRun = process.env.RECONCILIATION_DRY_RUN === "true";
+  console.log(`[subscription-reconciliation] Starting run${dryRun ? " (dry run)" : ""}`);
+
+  try {
+    const report = await reconcileSubscriptions({ dryRun });
+
+    for (const user of report.users) {
+      console.log(`[subscription-reconciliation] Drift for ${user.userId}:`, JSON.stringify(user));
+    }
+    for (const failure of report.failed) {
+      console.error(`[subscription-reconciliation] Failed for ${failure.userId}:`, failure.error);
+    }
+
+    console.log(
+      `[subscription-reconciliation] Run complete. Checked: ${report.usersChecked}, With drift: ${report.usersWithDrift}, Fixed: ${report.fixed}, Failed: ${report.failed.length}`
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Reconciliation completed", ...report }),
+    };
+  } catch (error) {
+    console.error("[subscription-reconciliation] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Reconciliation failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
@@ -0,0 +1,40 @@
+import { schedule } from "@netlify/functions";
+import { supabaseAdmin } from "./utils/supabase-admin";
+
+/**
+ * Scheduled function that runs hourly to expire top-up credit lots.
+ *
+ * Purchased packs expire TOPUP_EXPIRY_MONTHS after purchase. Whatever is left
+ * of an expired lot is removed from the top-up pool and logged as a
+ * topup_expired transaction.
+ */
+const handler = schedule("0 * * * *", async () => {
+  console.log("[topup-lots-expiry] Starting expiry run");
+
+  try {
+    const { data: expired, error } = await supabaseAdmin.rpc("expire_topup_lots");
+
+    if (error) {
+      console.error("[topup-lots-expiry] Failed to expire top-up lots:", error);
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ error: "Expiry failed", details: error.message }),
+      };
+    }
+
+    console.log(`[topup-lots-expiry] Expired ${expired ?? 0} lot(s)`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Top-up lot expiry completed", expired: expired ?? 0 }),
+    };
+  } catch (error) {
+    console.error("[topup-lots-expiry] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Expiry failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
@@ -1,6 +1,12 @@
+import { addMonths, differenceInMonths } from "date-fns";
 import { HttpError } from "./http";
 import { supabaseAdmin } from "./supabase-admin";
-import { findSubscriptionByPriceId, findSubscriptionPlan } from "../../../config/plans";
+import { findSubscriptionByPriceId, findSubscriptionPlan, TOPUP_EXPIRY_MONTHS } from "../../../config/plans";
+import { isCreditUsageRestricted } from "./dunning";
+import { sendCreditsReceivedEmail, sendGiftCodeEmail } from "./email";
+import { generateGiftCode } from "./gift-codes";
+
+const CREDITS_URL = `${process.env.NEXT_PUBLIC_APP_URL ?? "https://dashboard.bfeai.com"}/credits`;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -11,15 +17,49 @@ export type CreditBalance = {
   topupBalance: number;
   trialBalance: number;
   total: number;
+  /** Credits on hold for in-flight reservations (part of total, not spendable) */
+  held: number;
+  /** total minus held: what a new deduction or reservation can use */
+  available: number;
+  /** The top-up lot that expires soonest, if any purchased credits are left */
+  nextExpiring: { amount: number; expiresAt: string } | null;
   cap: number;
   lifetimeEarned: number;
   lifetimeSpent: number;
 };
 
+export type VolumeTier = {
+  minQuantity: number;
+  unitCost: number;
+};
+
+/** Pricing rules for one operation, as configured in app_credit_config */
+export type CreditCostConfig = {
+  operation: string;
+  unitCost: number;
+  volumeTiers: VolumeTier[];
+  /** Keyed by subscription tier (plans.ts `tier`), e.g. "aeo_consultant" */
+  tierOverrides: Record<string, { unitCost?: number; volumeTiers?: VolumeTier[] }>;
+};
+
+export type PricedOperation = {
+  operation: string;
+  quantity: number;
+  unitCost: number;
+  cost: number;
+  /** Subscription tier whose override was applied, if any */
+  subscriptionTier: string | null;
+  /** minQuantity of the volume tier applied, if any */
+  volumeTierMin: number | null;
+};
+
 export type CreditCheckResult = {
   sufficient: boolean;
   cost: number;
   balance: number;
+  pricing: PricedOperation;
+  /** Charges are refused while a past-due payment is outstanding (see utils/dunning.ts) */
+  restricted: boolean;
 };
 
 export type DeductResult = {
@@ -27,11 +67,93 @@ export type DeductResult = {
   transactionId: string;
 };
 
+export type PricedDeductResult = DeductResult & {
+  pricing: PricedOperation;
+};
+
+export type BatchItem = {
+  operation: string;
+  quantity: number;
+};
+
+export type BatchDeductResult = DeductResult & {
+  /** Shared by every ledger row written for the batch */
+  batchId: string;
+  totalCost: number;
+  items: PricedOperation[];
+};
+
+export type ReservationResult = {
+  reservationId: string;
+  amount: number;
+  expiresAt: string;
+  available: number;
+};
+
+export type CaptureResult = DeductResult & {
+  captured: number;
+  released: number;
+};
+
+export type RefundResult = {
+  refunded: number;
+  newBalance: number;
+  transactionId: string;
+};
+
+export type AdjustmentPool = "subscription" | "topup";
+
 export type AllocateResult = {
   newBalance: number;
   allocated: number;
 };
 
+export type TransferResult = DeductResult & {
+  /** Shared by the sender's transfer_out and the recipient's transfer_in rows */
+  referenceId: string;
+};
+
+export type GiftRedemptionResult = AllocateResult & {
+  lotId: string;
+  expiresAt: string;
+};
+
+export type UsageBucket = "day" | "week" | "month";
+
+/** Net credits spent per bucket, split by app */
+export type UsageSeriesPoint = {
+  bucketStart: string;
+  total: number;
+  apps: Record<string, number>;
+};
+
+export type UsageBreakdownEntry = {
+  key: string;
+  credits: number;
+  operations: number;
+};
+
+export type UsageProjection = {
+  /** Average net credits spent per day over the last PROJECTION_WINDOW_DAYS */
+  burnRatePerDay: number;
+  available: number;
+  /** null when nothing is being spent */
+  daysRemaining: number | null;
+  runOutDate: string | null;
+};
+
+export type UsageAnalytics = {
+  from: string;
+  to: string;
+  bucket: UsageBucket;
+  totals: { credits: number; operations: number };
+  series: UsageSeriesPoint[];
+  byApp: UsageBreakdownEntry[];
+  byOperation: UsageBreakdownEntry[];
+  byPool: UsageBreakdownEntry[];
+  projection: UsageProjection;
+};
+
 export type CreditTransaction = {
   id: string;
   amount: number;
@@ -41,6 +163,8 @@ export type CreditTransaction = {
   description: string | null;
   app_key: string | null;
   reference_id: string | null;
+  refunded_transaction_id: string | null;
+  reason: string | null;
   created_at: string;
 };
 
@@ -49,21 +173,43 @@ export type CreditTransaction = {
 // ---------------------------------------------------------------------------
 
 /**
- * Get the current credit balance for a user (both pools).
+ * Get the current credit balance for a user (all pools), with reserved credits
+ * reported separately from what is available to spend.
  */
 export const getBalance = async (userId: string): Promise<CreditBalance> => {
-  const { data, error } = await supabaseAdmin
-    .from("user_credits")
-    .select("subscription_balance, topup_balance, trial_balance, trial_expires_at, subscription_cap, lifetime_earned, lifetime_spent")
-    .eq("user_id", userId)
-    .maybeSingle();
+  const [{ data, error }, { data: held, error: heldError }, { data: nextLot, error: lotError }] = await Promise.all([
+    supabaseAdmin
+      .from("user_credits")
+      .select("subscription_balance, topup_balance, trial_balance, trial_expires_at, subscription_cap, lifetime_earned, lifetime_spent")
+      .eq("user_id", userId)
+      .maybeSingle(),
+    supabaseAdmin.rpc("credit_held_amount", { p_user_id: userId }),
+    supabaseAdmin
+      .from("credit_topup_lots")
+      .select("remaining, expires_at")
+      .eq("user_id", userId)
+      .gt("remaining", 0)
+      // Lots past expiry but not yet swept by topup-lots-expiry aren't "expiring" any more
+      .gt("expires_at", new Date().toISOString())
+      .order("expires_at", { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
 
   if (error) {
     throw new HttpError(500, "Failed to fetch credit balance", error.message);
   }
 
+  if (heldError) {
+    throw new HttpError(500, "Failed to fetch held credits", heldError.message);
+  }
+
+  if (lotError) {
+    throw new HttpError(500, "Failed to fetch top-up lots", lotError.message);
+  }
+
   if (!data) {
-    return { subscriptionBalance: 0, topupBalance: 0, trialBalance: 0, total: 0, cap: 900, lifetimeEarned: 0, lifetimeSpent: 0 };
+    return { subscriptionBalance: 0, topupBalance: 0, trialBalance: 0, total: 0, held: 0, available: 0, nextExpiring: null, cap: 900, lifetimeEarned: 0, lifetimeSpent: 0 };
   }
 
   // Check if trial credits have expired
@@ -71,11 +217,17 @@ export const getBalance = async (userId: string): Promise<CreditBalance> => {
   const trialExpiresAt = data.trial_expires_at ? new Date(data.trial_expires_at) : null;
   const trialBalance = trialExpiresAt && trialExpiresAt < now ? 0 : (data.trial_balance ?? 0);
 
+  const total = data.subscription_balance + data.topup_balance + trialBalance;
+  const heldAmount = (held as number | null) ?? 0;
+
   return {
     subscriptionBalance: data.subscription_balance,
     topupBalance: data.topup_balance,
     trialBalance,
-    total: data.subscription_balance + data.topup_balance + trialBalance,
+    total,
+    held: heldAmount,
+    available: Math.max(0, total - heldAmount),
+    nextExpiring: nextLot ? { amount: nextLot.remaining, expiresAt: nextLot.expires_at } : null,
     cap: data.subscription_cap,
     lifetimeEarned: data.lifetime_earned,
     lifetimeSpent: data.lifetime_spent,
@@ -87,22 +239,26 @@ export const getBalance = async (userId: string): Promise<CreditBalance> => {
 // ---------------------------------------------------------------------------
 
 /**
- * Check if a user has enough credits for an operation.
+ * Check if a user has enough available (unheld) credits for `quantity` units of an operation.
  */
 export const checkCredits = async (
   userId: string,
   appKey: string,
-  operation: string
+  operation: string,
+  quantity = 1
 ): Promise<CreditCheckResult> => {
-  const [balance, cost] = await Promise.all([
+  const [balance, [pricing], restricted] = await Promise.all([
     getBalance(userId),
-    getCreditCost(appKey, operation),
+    quoteOperations(userId, appKey, [{ operation, quantity }]),
+    isCreditUsageRestricted(userId),
   ]);
 
   return {
-    sufficient: balance.total >= cost,
-    cost,
-    balance: balance.total,
+    sufficient: balance.available >= pricing.cost,
+    cost: pricing.cost,
+    balance: balance.available,
+    pricing,
+    restricted: restricted && pricing.cost > 0,
   };
 };
 
@@ -110,111 +266,508 @@ export const checkCredits = async (
 // Deductions (spend order: trial first, then topup, then subscription)
 // ---------------------------------------------------------------------------
 
+/**
+ * Refuse new charges while the user is in dunning past its grace period
+ * (see utils/dunning.ts). Usage resumes once the overdue invoice is paid.
+ */
+const assertCreditUsageAllowed = async (userId: string): Promise<void> => {
+  if (await isCreditUsageRestricted(userId)) {
+    throw new HttpError(403, "Credit usage is paused until your past-due subscription payment is resolved", {
+      reason: "payment_past_due",
+    });
+  }
+};
+
+/** Shape returned by the deduct_credits Postgres function */
+type DeductRpcResult =
+  | { ok: true; new_balance: number; transaction_id: string; replayed: boolean }
+  | { ok: false; conflict: true }
+  | { ok: false; conflict?: undefined; required: number; available: number };
+
 /**
  * Deduct credits for an operation. Drains trial_balance first, then topup, then subscription.
- * Returns the new total balance and transaction ID.
+ * Runs atomically in the deduct_credits RPC, which locks the user_credits row, so concurrent
+ * deductions can't overspend. Throws 402 if the balance is insufficient at the time of the lock.
+ *
+ * When a referenceId is given the deduction is idempotent per user/app/reference: a repeat
+ * returns the original result without charging again, and reusing the reference for a
+ * different operation throws 409.
+ * Returns the new total balance, transaction ID and the priced breakdown.
  */
 export const deductCredits = async (
   userId: string,
   appKey: string,
   operation: string,
+  referenceId?: string,
+  quantity = 1
+): Promise<PricedDeductResult> => {
+  const [pricing] = await quoteOperations(userId, appKey, [{ operation, quantity }]);
+
+  // Free operations (cost 0) don't touch the ledger
+  if (pricing.cost === 0) {
+    const balance = await getBalance(userId);
+    return { newBalance: balance.total, transactionId: "", pricing };
+  }
+
+  await assertCreditUsageAllowed(userId);
+
+  const { data, error } = await supabaseAdmin.rpc("deduct_credits", {
+    p_user_id: userId,
+    p_amount: pricing.cost,
+    p_app_key: appKey,
+    p_operation: operation,
+    p_reference_id: referenceId ?? null,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to deduct credits", error.message);
+  }
+
+  const result = data as DeductRpcResult;
+
+  if (!result.ok && result.conflict) {
+    throw new HttpError(409, "referenceId was already used for a different request", { referenceId });
+  }
+
+  if (!result.ok) {
+    throw new HttpError(402, "Insufficient credits", {
+      required: result.required,
+      available: result.available,
+    });
+  }
+
+  return { newBalance: result.new_balance, transactionId: result.transaction_id, pricing };
+};
+
+/** Upper bound on items per batch deduction */
+export const MAX_BATCH_ITEMS = 25;
+
+type BatchDeductRpcResult =
+  | { ok: true; new_balance: number; transaction_id: string; batch_id: string; replayed: boolean }
+  | { ok: false; conflict: true }
+  | { ok: false; conflict?: undefined; required: number; available: number };
+
+/**
+ * Deduct credits for several operations of one app as a single unit.
+ * All items are priced with one app_credit_config read; either every item is
+ * charged or none is. Idempotent by referenceId, like deductCredits.
+ * Returns the new balance, a per-item breakdown and the shared batch ID.
+ */
+export const deductCreditsBatch = async (
+  userId: string,
+  appKey: string,
+  items: BatchItem[],
   referenceId?: string
-): Promise<DeductResult> => {
-  const cost = await getCreditCost(appKey, operation);
-  const balance = await getBalance(userId);
+): Promise<BatchDeductResult> => {
+  const charges = await quoteOperations(userId, appKey, items);
+  const totalCost = charges.reduce((sum, charge) => sum + charge.cost, 0);
+
+  await assertCreditUsageAllowed(userId);
+
+  const { data, error } = await supabaseAdmin.rpc("deduct_credits_batch", {
+    p_user_id: userId,
+    p_app_key: appKey,
+    p_items: charges.map((charge) => ({ operation: charge.operation, amount: charge.cost })),
+    p_reference_id: referenceId ?? null,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to deduct credits", error.message);
+  }
+
+  const result = data as BatchDeductRpcResult;
+
+  if (!result.ok && result.conflict) {
+    throw new HttpError(409, "referenceId was already used for a different request", { referenceId });
+  }
 
-  if (balance.total < cost) {
+  if (!result.ok) {
     throw new HttpError(402, "Insufficient credits", {
-      required: cost,
-      available: balance.total,
+      required: result.required,
+      available: result.available,
     });
   }
 
-  const now = new Date().toISOString();
-  let lastTransactionId = "";
+  return {
+    newBalance: result.new_balance,
+    transactionId: result.transaction_id,
+    batchId: result.batch_id,
+    totalCost,
+    items: charges,
+  };
+};
 
-  // Calculate split: trial drains first, then topup, then subscription
-  const deductFromTrial = Math.min(cost, balance.trialBalance);
-  const remainingAfterTrial = cost - deductFromTrial;
-  const deductFromTopup = Math.min(remainingAfterTrial, balance.topupBalance);
-  const deductFromSub = remainingAfterTrial - deductFromTopup;
+// ---------------------------------------------------------------------------
+// Reservations (hold / capture / release for long-running jobs)
+// ---------------------------------------------------------------------------
 
-  const newTrial = balance.trialBalance - deductFromTrial;
-  const newTopup = balance.topupBalance - deductFromTopup;
-  const newSub = balance.subscriptionBalance - deductFromSub;
-  const newBalance = balance.total - cost;
+/** Default and maximum lifetime of a hold before it stops counting */
+export const DEFAULT_RESERVATION_TTL_SECONDS = 15 * 60;
+export const MAX_RESERVATION_TTL_SECONDS = 2 * 60 * 60;
 
-  // Update all three pools and lifetime_spent in a single write
-  await supabaseAdmin
-    .from("user_credits")
-    .update({
-      trial_balance: newTrial,
-      topup_balance: newTopup,
-      subscription_balance: newSub,
-      lifetime_spent: balance.lifetimeSpent + cost,
-      updated_at: now,
-    })
-    .eq("user_id", userId);
+type ReserveRpcResult =
+  | { ok: true; reservation_id: string; amount: number; expires_at: string; available: number }
+  | { ok: false; conflict: true }
+  | { ok: false; conflict?: undefined; required: number; available: number };
 
-  // Log transaction(s)
-  if (deductFromTrial > 0) {
-    const { data: txn } = await supabaseAdmin
-      .from("credit_transactions")
-      .insert({
-        user_id: userId,
-        amount: -deductFromTrial,
-        balance_after: balance.total - deductFromTrial,
-        pool: "trial",
-        type: "usage_deduction",
-        description: `${operation} (${appKey})`,
-        app_key: appKey,
-        reference_id: referenceId ?? null,
-      })
-      .select("id")
-      .single();
-
-    lastTransactionId = txn?.id ?? "";
-  }
-
-  if (deductFromTopup > 0) {
-    const { data: txn } = await supabaseAdmin
-      .from("credit_transactions")
-      .insert({
-        user_id: userId,
-        amount: -deductFromTopup,
-        balance_after: balance.total - deductFromTrial - deductFromTopup,
-        pool: "topup",
-        type: "usage_deduction",
-        description: `${operation} (${appKey})`,
-        app_key: appKey,
-        reference_id: referenceId ?? null,
-      })
-      .select("id")
-      .single();
-
-    lastTransactionId = txn?.id ?? "";
-  }
-
-  if (deductFromSub > 0) {
-    const { data: txn } = await supabaseAdmin
-      .from("credit_transactions")
-      .insert({
-        user_id: userId,
-        amount: -deductFromSub,
-        balance_after: newBalance,
-        pool: "subscription",
-        type: "usage_deduction",
-        description: `${operation} (${appKey})`,
-        app_key: appKey,
-        reference_id: referenceId ?? null,
+type ReservationRpcFailure =
+  | { ok: false; reason: "not_found" | "captured" | "released" | "expired" }
+  | { ok: false; reason: "exceeds_hold"; held: number }
+  | { ok: false; reason?: undefined; required: number; available: number };
+
+type CaptureRpcResult =
+  | { ok: true; new_balance: number; transaction_id: string | null; captured: number; released: number }
+  | ReservationRpcFailure;
+
+type ReleaseRpcResult = { ok: true; released: number } | ReservationRpcFailure;
+
+/**
+ * Map a failed capture/release RPC result to an HttpError.
+ */
+const reservationError = (result: ReservationRpcFailure, reservationId: string): HttpError => {
+  switch (result.reason) {
+    case "not_found":
+      return new HttpError(404, "Reservation not found", { reservationId });
+    case "exceeds_hold":
+      return new HttpError(400, "Capture amount exceeds the held amount", { held: result.held });
+    case undefined:
+      return new HttpError(402, "Insufficient credits", {
+        required: result.required,
+        available: result.available,
+      });
+    default:
+      return new HttpError(409, `Reservation is already ${result.reason}`, { reservationId });
+  }
+};
+
+/**
+ * Place a hold on the estimated cost of a long-running operation.
+ * Held credits are excluded from the available balance until captured, released or expired.
+ * A repeat call with the same referenceId returns the existing hold.
+ */
+export const reserveCredits = async (
+  userId: string,
+  appKey: string,
+  operation: string,
+  amount: number,
+  ttlSeconds = DEFAULT_RESERVATION_TTL_SECONDS,
+  referenceId?: string
+): Promise<ReservationResult> => {
+  await assertCreditUsageAllowed(userId);
+
+  const { data, error } = await supabaseAdmin.rpc("reserve_credits", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_app_key: appKey,
+    p_operation: operation,
+    p_ttl_seconds: Math.min(ttlSeconds, MAX_RESERVATION_TTL_SECONDS),
+    p_reference_id: referenceId ?? null,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to reserve credits", error.message);
+  }
+
+  const result = data as ReserveRpcResult;
+
+  if (!result.ok && result.conflict) {
+    throw new HttpError(409, "referenceId was already used for a different reservation", { referenceId });
+  }
+
+  if (!result.ok) {
+    throw new HttpError(402, "Insufficient credits", {
+      required: result.required,
+      available: result.available,
+    });
+  }
+
+  return {
+    reservationId: result.reservation_id,
+    amount: result.amount,
+    expiresAt: result.expires_at,
+    available: result.available,
+  };
+};
+
+/**
+ * Capture a hold, charging the actual amount (defaults to the full hold).
+ * Any remainder of the hold is released back to the available balance.
+ */
+export const captureReservation = async (
+  userId: string,
+  reservationId: string,
+  amount?: number
+): Promise<CaptureResult> => {
+  const { data, error } = await supabaseAdmin.rpc("capture_credit_reservation", {
+    p_user_id: userId,
+    p_reservation_id: reservationId,
+    p_amount: amount ?? null,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to capture reservation", error.message);
+  }
+
+  const result = data as CaptureRpcResult;
+  if (!result.ok) {
+    throw reservationError(result, reservationId);
+  }
+
+  return {
+    newBalance: result.new_balance,
+    transactionId: result.transaction_id ?? "",
+    captured: result.captured,
+    released: result.released,
+  };
+};
+
+/**
+ * Release a hold without charging (e.g. the job failed).
+ */
+export const releaseReservation = async (
+  userId: string,
+  reservationId: string
+): Promise<{ released: number }> => {
+  const { data, error } = await supabaseAdmin.rpc("release_credit_reservation", {
+    p_user_id: userId,
+    p_reservation_id: reservationId,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to release reservation", error.message);
+  }
+
+  const result = data as ReleaseRpcResult;
+  if (!result.ok) {
+    throw reservationError(result, reservationId);
+  }
+
+  return { released: result.released };
+};
+
+// ---------------------------------------------------------------------------
+// Refunds and admin adjustments
+// ---------------------------------------------------------------------------
+
+type RefundRpcResult =
+  | { ok: true; refunded: number; new_balance: number; transaction_id: string }
+  | { ok: false; reason: "not_found" | "not_refundable" | "already_refunded" };
+
+type AdjustRpcResult =
+  | { ok: true; new_balance: number; transaction_id: string }
+  | { ok: false; required: number; available: number };
+
+/**
+ * Refund a usage deduction back to the pools it was drawn from.
+ * Refunding any pool row of a multi-pool deduction refunds the whole deduction,
+ * and frees its idempotency key so a retry is charged again rather than
+ * replaying the refunded transaction.
+ */
+export const refundCredits = async (
+  userId: string,
+  transactionId: string,
+  actorId: string,
+  reason?: string
+): Promise<RefundResult> => {
+  const { data, error } = await supabaseAdmin.rpc("refund_credit_transaction", {
+    p_user_id: userId,
+    p_transaction_id: transactionId,
+    p_reason: reason ?? null,
+    p_actor_id: actorId,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to refund credits", error.message);
+  }
+
+  const result = data as RefundRpcResult;
+
+  if (!result.ok) {
+    switch (result.reason) {
+      case "not_found":
+        throw new HttpError(404, "Transaction not found", { transactionId });
+      case "not_refundable":
+        throw new HttpError(400, "Only usage deductions can be refunded", { transactionId });
+      case "already_refunded":
+        throw new HttpError(409, "Transaction has already been refunded", { transactionId });
+    }
+  }
+
+  return {
+    refunded: result.refunded,
+    newBalance: result.new_balance,
+    transactionId: result.transaction_id,
+  };
+};
+
+/**
+ * Admin adjustment: add (positive amount) or remove (negative amount) credits
+ * from one pool. The reason and acting admin are stored on the ledger row.
+ */
+export const adjustCredits = async (
+  userId: string,
+  amount: number,
+  pool: AdjustmentPool,
+  reason: string,
+  actorId: string
+): Promise<DeductResult> => {
+  const { data, error } = await supabaseAdmin.rpc("adjust_credits", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_pool: pool,
+    p_reason: reason,
+    p_actor_id: actorId,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to adjust credits", error.message);
+  }
+
+  const result = data as AdjustRpcResult;
+
+  if (!result.ok) {
+    throw new HttpError(402, `Insufficient ${pool} credits for this adjustment`, {
+      required: result.required,
+      available: result.available,
+    });
+  }
+
+  return { newBalance: result.new_balance, transactionId: result.transaction_id };
+};
+
+// ---------------------------------------------------------------------------
+// Transfers and gift codes
+// ---------------------------------------------------------------------------
+
+export const MAX_TRANSFER_NOTE_LENGTH = 500;
+
+type TransferRpcResult =
+  | { ok: true; reference_id: string; new_balance: number; transaction_id: string }
+  | { ok: false; required: number; available: number };
+
+type RedeemGiftRpcResult =
+  | { ok: true; credits: number; new_balance: number; lot_id: string; expires_at: string }
+  | { ok: false; reason: "not_found" | "already_redeemed" };
+
+/**
+ * Move top-up credits to the account registered to `recipientEmail`.
+ * Only the top-up pool is transferable, and expiring credits keep their expiry
+ * on the recipient's side. If no account uses the email, the credits are sent
+ * as a gift code instead, redeemable once the recipient signs up. The result is
+ * the same either way, so transfers can't be used to find out which emails
+ * have accounts. The recipient is emailed; a failed email doesn't undo the
+ * transfer.
+ */
+export const transferCredits = async (
+  fromUserId: string,
+  recipientEmail: string,
+  amount: number,
+  note?: string
+): Promise<TransferResult> => {
+  await assertCreditUsageAllowed(fromUserId);
+
+  const email = recipientEmail.trim().toLowerCase();
+  const [{ data: sender }, { data: recipient }] = await Promise.all([
+    supabaseAdmin.from("profiles").select("email, full_name").eq("id", fromUserId).maybeSingle(),
+    supabaseAdmin.from("profiles").select("id, email, full_name").eq("email", email).maybeSingle(),
+  ]);
+
+  if (recipient?.id === fromUserId || sender?.email?.toLowerCase() === email) {
+    throw new HttpError(400, "You can't transfer credits to your own account");
+  }
+
+  const senderName = sender?.full_name || sender?.email || "A BFEAI user";
+  const code = recipient ? null : generateGiftCode();
+
+  const { data, error } = recipient
+    ? await supabaseAdmin.rpc("transfer_topup_credits", {
+        p_from_user_id: fromUserId,
+        p_to_user_id: recipient.id,
+        p_amount: amount,
+        p_out_description: `Transfer to ${recipient.email}`,
+        p_in_description: `Transfer from ${sender?.email ?? senderName}`,
+        p_note: note ?? null,
       })
-      .select("id")
-      .single();
+    : await supabaseAdmin.rpc("transfer_topup_credits_to_gift", {
+        p_from_user_id: fromUserId,
+        p_amount: amount,
+        p_code: code,
+        p_recipient_email: email,
+        p_out_description: `Transfer to ${email}`,
+        p_note: note ?? null,
+      });
+
+  if (error) {
+    throw new HttpError(500, "Failed to transfer credits", error.message);
+  }
+
+  const result = data as TransferRpcResult;
+
+  if (!result.ok) {
+    throw new HttpError(402, "Insufficient top-up credits for this transfer", {
+      required: result.required,
+      available: result.available,
+    });
+  }
+
+  if (recipient) {
+    await sendCreditsReceivedEmail(recipient.email, {
+      userName: recipient.full_name ?? "there",
+      senderName,
+      credits: amount,
+      note: note ?? null,
+      creditsUrl: CREDITS_URL,
+    });
+  } else {
+    await sendGiftCodeEmail(email, {
+      userName: "there",
+      senderName,
+      code: code as string,
+      credits: amount,
+      message: note ?? null,
+      creditsUrl: CREDITS_URL,
+    });
+  }
+
+  return {
+    newBalance: result.new_balance,
+    transactionId: result.transaction_id,
+    referenceId: result.reference_id,
+  };
+};
+
+/**
+ * Redeem a gift code into the user's top-up pool. Like a purchase, the credits
+ * are a lot that expires TOPUP_EXPIRY_MONTHS after redemption.
+ */
+export const redeemGiftCode = async (userId: string, code: string): Promise<GiftRedemptionResult> => {
+  const { data, error } = await supabaseAdmin.rpc("redeem_gift_code", {
+    p_code: code,
+    p_user_id: userId,
+    p_expiry_months: TOPUP_EXPIRY_MONTHS,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to redeem gift code", error.message);
+  }
+
+  const result = data as RedeemGiftRpcResult;
 
-    lastTransactionId = txn?.id ?? "";
+  if (!result.ok) {
+    switch (result.reason) {
+      case "not_found":
+        throw new HttpError(404, "Gift code not found");
+      case "already_redeemed":
+        throw new HttpError(409, "This gift code has already been redeemed");
+    }
   }
 
-  return { newBalance, transactionId: lastTransactionId };
+  return {
+    newBalance: result.new_balance,
+    allocated: result.credits,
+    lotId: result.lot_id,
+    expiresAt: result.expires_at,
+  };
 };
 
 // ---------------------------------------------------------------------------
@@ -237,129 +790,157 @@ const ensureUserCreditsRow = async (userId: string): Promise<void> => {
 };
 
 /**
- * Allocate monthly subscription credits. Respects the 3x cap.
- * Returns the amount actually allocated (may be less than requested if near cap).
+ * Allocate one period's subscription credits, idempotent by periodReference.
+ * Respects the 3x cap. Runs atomically and always records the period in the
+ * ledger, so a repeat call for the same period grants nothing. The invoice
+ * webhook uses the invoice id as the period reference.
  */
-export const allocateSubscriptionCredits = async (
+export const allocatePeriodCredits = async (
   userId: string,
   amount: number,
   appKey: string,
-  referenceId?: string
-): Promise<AllocateResult> => {
-  await ensureUserCreditsRow(userId);
-  const balance = await getBalance(userId);
-
-  // Calculate how much we can allocate without exceeding the cap
-  const headroom = Math.max(0, balance.cap - balance.subscriptionBalance);
-  const allocated = Math.min(amount, headroom);
+  periodReference: string,
+  description?: string
+): Promise<AllocateResult & { duplicate: boolean }> => {
+  const { data, error } = await supabaseAdmin.rpc("allocate_period_credits", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_app_key: appKey,
+    p_reference_id: periodReference,
+    p_description: description ?? null,
+  });
 
-  if (allocated === 0) {
-    // At cap, skip allocation but still log it
-    return { newBalance: balance.total, allocated: 0 };
+  if (error) {
+    throw new HttpError(500, "Failed to allocate period credits", error.message);
   }
 
-  const newSubBalance = balance.subscriptionBalance + allocated;
-  const newTotal = balance.total + allocated;
-  const now = new Date().toISOString();
+  const result = data as { allocated: number; new_balance: number | null; duplicate: boolean };
 
-  await supabaseAdmin
-    .from("user_credits")
-    .update({
-      subscription_balance: newSubBalance,
-      lifetime_earned: balance.lifetimeEarned + allocated,
-      last_allocated: now,
-      updated_at: now,
-    })
-    .eq("user_id", userId);
+  return {
+    newBalance: result.new_balance ?? (await getBalance(userId)).total,
+    allocated: result.allocated,
+    duplicate: result.duplicate,
+  };
+};
 
-  await supabaseAdmin.from("credit_transactions").insert({
-    user_id: userId,
-    amount: allocated,
-    balance_after: newTotal,
-    pool: "subscription",
-    type: "subscription_allocation",
-    description: `Monthly allocation (${appKey})`,
-    app_key: appKey,
-    reference_id: referenceId ?? null,
-  });
+/**
+ * Monthly grant period of a yearly subscription at `at`: month `index` (0-11)
+ * of the billing year starting at billingStart, clamped to the end of shorter
+ * months. Month 0 is granted by the yearly invoice; the
+ * yearly-credit-allocation job grants months 1-11.
+ */
+export const yearlyGrantPeriod = (billingStart: Date, at: Date): { index: number; start: Date; end: Date } => {
+  const index = Math.min(Math.max(differenceInMonths(at, billingStart), 0), 11);
+  return { index, start: addMonths(billingStart, index), end: addMonths(billingStart, index + 1) };
+};
+
+/**
+ * Whether allocatePeriodCredits has already run for periodReference.
+ */
+export const hasPeriodAllocation = async (userId: string, periodReference: string): Promise<boolean> => {
+  const { count, error } = await supabaseAdmin
+    .from("credit_transactions")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("type", "subscription_allocation")
+    .eq("reference_id", periodReference);
+
+  if (error) {
+    throw new HttpError(500, "Failed to check period allocation", error.message);
+  }
+
+  return (count ?? 0) > 0;
+};
 
-  return { newBalance: newTotal, allocated };
+/**
+ * Mid-cycle plan change rule: an upgrade grants the difference in monthly credits,
+ * prorated by the time left in the current credit period (the billing period for
+ * monthly plans, the current monthly grant period for yearly plans), rounded down.
+ * A downgrade grants nothing and takes nothing back: the lower cap applies from
+ * the next allocation. Only the first upgrade in a credit period grants credits,
+ * so upgrading and downgrading back and forth can't farm them. Full monthly
+ * credits for the new tier start at the next renewal (or the next yearly grant).
+ */
+export const proratedUpgradeCredits = (
+  oldMonthlyCredits: number,
+  newMonthlyCredits: number,
+  periodStart: Date,
+  periodEnd: Date,
+  at: Date
+): number => {
+  const difference = newMonthlyCredits - oldMonthlyCredits;
+  const periodLength = periodEnd.getTime() - periodStart.getTime();
+  if (difference <= 0 || periodLength <= 0) return 0;
+
+  const remaining = Math.min(1, Math.max(0, (periodEnd.getTime() - at.getTime()) / periodLength));
+  return Math.floor(difference * remaining);
 };
 
 /**
  * Allocate top-up credits from a purchased pack. No cap.
+ * The credits are recorded as a lot that expires TOPUP_EXPIRY_MONTHS after purchase.
+ * Idempotent by referenceId: a repeat for the same purchase grants nothing.
+ * `promoCode` is the code redeemed at checkout, kept on the transaction for attribution.
  */
 export const allocateTopUpCredits = async (
   userId: string,
   amount: number,
   packName: string,
-  referenceId?: string
-): Promise<AllocateResult> => {
-  await ensureUserCreditsRow(userId);
-  const balance = await getBalance(userId);
-
-  const newTopup = balance.topupBalance + amount;
-  const newTotal = balance.total + amount;
-  const now = new Date().toISOString();
+  referenceId?: string,
+  promoCode?: string
+): Promise<AllocateResult & { lotId: string; expiresAt: string; duplicate: boolean }> => {
+  const { data, error } = await supabaseAdmin.rpc("allocate_topup_lot", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_description: `${packName} top-up`,
+    p_reference_id: referenceId ?? null,
+    p_expiry_months: TOPUP_EXPIRY_MONTHS,
+    p_promo_code: promoCode ?? null,
+  });
 
-  await supabaseAdmin
-    .from("user_credits")
-    .update({
-      topup_balance: newTopup,
-      lifetime_earned: balance.lifetimeEarned + amount,
-      updated_at: now,
-    })
-    .eq("user_id", userId);
+  if (error) {
+    throw new HttpError(500, "Failed to allocate top-up credits", error.message);
+  }
 
-  await supabaseAdmin.from("credit_transactions").insert({
-    user_id: userId,
-    amount,
-    balance_after: newTotal,
-    pool: "topup",
-    type: "topup_purchase",
-    description: `${packName} top-up`,
-    app_key: null,
-    reference_id: referenceId ?? null,
-  });
+  const result = data as { new_balance: number | null; lot_id: string; expires_at: string; duplicate: boolean };
 
-  return { newBalance: newTotal, allocated: amount };
+  return {
+    newBalance: result.new_balance ?? (await getBalance(userId)).total,
+    allocated: result.duplicate ? 0 : amount,
+    lotId: result.lot_id,
+    expiresAt: result.expires_at,
+    duplicate: result.duplicate,
+  };
 };
 
 /**
- * Allocate bonus credits from a retention offer. Added to topup pool (uncapped).
+ * Allocate bonus credits from an accepted retention offer to the topup pool.
+ * Recorded as a lot that expires TOPUP_EXPIRY_MONTHS from now, like a purchase.
+ * Idempotent by referenceId (the offer): a repeat grants nothing.
  */
 export const allocateRetentionBonus = async (
   userId: string,
-  amount: number
-): Promise<AllocateResult> => {
-  await ensureUserCreditsRow(userId);
-  const balance = await getBalance(userId);
-
-  const newTopup = balance.topupBalance + amount;
-  const newTotal = balance.total + amount;
-  const now = new Date().toISOString();
+  amount: number,
+  referenceId: string
+): Promise<AllocateResult & { duplicate: boolean }> => {
+  const { data, error } = await supabaseAdmin.rpc("allocate_retention_bonus", {
+    p_user_id: userId,
+    p_amount: amount,
+    p_reference_id: referenceId,
+    p_expiry_months: TOPUP_EXPIRY_MONTHS,
+  });
 
-  await supabaseAdmin
-    .from("user_credits")
-    .update({
-      topup_balance: newTopup,
-      lifetime_earned: balance.lifetimeEarned + amount,
-      updated_at: now,
-    })
-    .eq("user_id", userId);
+  if (error) {
+    throw new HttpError(500, "Failed to allocate retention bonus", error.message);
+  }
 
-  await supabaseAdmin.from("credit_transactions").insert({
-    user_id: userId,
-    amount,
-    balance_after: newTotal,
-    pool: "topup",
-    type: "retention_bonus",
-    description: "Retention offer bonus credits",
-    app_key: null,
-    reference_id: null,
-  });
+  const result = data as { new_balance: number | null; duplicate: boolean };
 
-  return { newBalance: newTotal, allocated: amount };
+  return {
+    newBalance: result.new_balance ?? (await getBalance(userId)).total,
+    allocated: result.duplicate ? 0 : amount,
+    duplicate: result.duplicate,
+  };
 };
 
 // ---------------------------------------------------------------------------
@@ -549,43 +1130,314 @@ export const getUsageHistory = async (
   };
 };
 
+// ---------------------------------------------------------------------------
+// Usage analytics
+// ---------------------------------------------------------------------------
+
+export const PROJECTION_WINDOW_DAYS = 30;
+
+type UsageRow = {
+  bucket_start: string;
+  app_key: string;
+  operation: string;
+  pool: string;
+  credits: number;
+  operations: number;
+};
+
+const fetchUsageRows = async (
+  userId: string,
+  from: Date,
+  to: Date,
+  bucket: UsageBucket
+): Promise<UsageRow[]> => {
+  const { data, error } = await supabaseAdmin.rpc("credit_usage_analytics", {
+    p_user_id: userId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_bucket: bucket,
+  });
+
+  if (error) {
+    throw new HttpError(500, "Failed to fetch usage analytics", error.message);
+  }
+
+  return ((data ?? []) as UsageRow[]).map((row) => ({
+    ...row,
+    credits: Number(row.credits),
+    operations: Number(row.operations),
+  }));
+};
+
+/** Start of the UTC day / ISO week (Monday) / month containing `date` */
+export const bucketStart = (date: Date, bucket: UsageBucket): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (bucket === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const nextBucket = (date: Date, bucket: UsageBucket): Date => {
+  const next = new Date(date);
+  if (bucket === "day") next.setUTCDate(next.getUTCDate() + 1);
+  else if (bucket === "week") next.setUTCDate(next.getUTCDate() + 7);
+  else next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+};
+
+const breakdown = (rows: UsageRow[], keyOf: (row: UsageRow) => string): UsageBreakdownEntry[] => {
+  const entries = new Map<string, UsageBreakdownEntry>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const entry = entries.get(key) ?? { key, credits: 0, operations: 0 };
+    entry.credits += row.credits;
+    entry.operations += row.operations;
+    entries.set(key, entry);
+  }
+  return [...entries.values()].sort((a, b) => b.credits - a.credits);
+};
+
+/**
+ * Aggregate a user's net credit spend over [from, to) by time bucket, app,
+ * operation and pool, plus a projection of when the available balance runs
+ * out at the burn rate of the last PROJECTION_WINDOW_DAYS.
+ */
+export const getUsageAnalytics = async (
+  userId: string,
+  from: Date,
+  to: Date,
+  bucket: UsageBucket
+): Promise<UsageAnalytics> => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - PROJECTION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [rows, recentRows, balance] = await Promise.all([
+    fetchUsageRows(userId, from, to, bucket),
+    fetchUsageRows(userId, windowStart, now, "month"),
+    getBalance(userId),
+  ]);
+
+  // One point per bucket in the range, including empty ones, so charts have a continuous axis
+  const series: UsageSeriesPoint[] = [];
+  const pointsByStart = new Map<number, UsageSeriesPoint>();
+  for (let cursor = bucketStart(from, bucket); cursor < to; cursor = nextBucket(cursor, bucket)) {
+    const point = { bucketStart: cursor.toISOString(), total: 0, apps: {} };
+    series.push(point);
+    pointsByStart.set(cursor.getTime(), point);
+  }
+
+  for (const row of rows) {
+    const point = pointsByStart.get(new Date(row.bucket_start).getTime());
+    if (!point) continue;
+    point.total += row.credits;
+    point.apps[row.app_key] = (point.apps[row.app_key] ?? 0) + row.credits;
+  }
+
+  const recentSpend = recentRows.reduce((sum, row) => sum + row.credits, 0);
+  const burnRatePerDay = Math.max(0, recentSpend / PROJECTION_WINDOW_DAYS);
+  const daysRemaining = burnRatePerDay > 0 ? Math.floor(balance.available / burnRatePerDay) : null;
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket,
+    totals: {
+      credits: rows.reduce((sum, row) => sum + row.credits, 0),
+      operations: rows.reduce((sum, row) => sum + row.operations, 0),
+    },
+    series,
+    byApp: breakdown(rows, (row) => row.app_key),
+    byOperation: breakdown(rows, (row) => row.operation),
+    byPool: breakdown(rows, (row) => row.pool),
+    projection: {
+      burnRatePerDay: Math.round(burnRatePerDay * 100) / 100,
+      available: balance.available,
+      daysRemaining,
+      runOutDate: daysRemaining === null
+        ? null
+        : new Date(now.getTime() + daysRemaining * 24 * 60 * 60 * 1000).toISOString(),
+    },
+  };
+};
+
 // ---------------------------------------------------------------------------
 // Credit cost lookup
 // ---------------------------------------------------------------------------
 
+/** app_credit_config row shape (JSON columns use snake_case keys) */
+type CreditCostRow = {
+  operation: string;
+  credit_cost: number;
+  volume_tiers: { min_quantity: number; credit_cost: number }[] | null;
+  tier_overrides: Record<string, {
+    credit_cost?: number;
+    volume_tiers?: { min_quantity: number; credit_cost: number }[];
+  }> | null;
+};
+
+const toVolumeTiers = (tiers: CreditCostRow["volume_tiers"] | undefined): VolumeTier[] =>
+  (tiers ?? []).map((tier) => ({ minQuantity: tier.min_quantity, unitCost: tier.credit_cost }));
+
 /**
- * Get the credit cost for an operation in an app.
+ * Get the pricing rules for several operations of an app in one query.
+ * Throws 404 listing any operation that is unknown or inactive.
  */
-export const getCreditCost = async (
+export const getCreditCostConfigs = async (
   appKey: string,
-  operation: string
-): Promise<number> => {
+  operations: string[]
+): Promise<Map<string, CreditCostConfig>> => {
+  const unique = [...new Set(operations)];
+
   const { data, error } = await supabaseAdmin
     .from("app_credit_config")
-    .select("credit_cost")
+    .select("operation, credit_cost, volume_tiers, tier_overrides")
     .eq("app_key", appKey)
-    .eq("operation", operation)
-    .eq("is_active", true)
-    .maybeSingle();
+    .in("operation", unique)
+    .eq("is_active", true);
 
   if (error) {
-    throw new HttpError(500, "Failed to fetch credit cost", error.message);
+    throw new HttpError(500, "Failed to fetch credit costs", error.message);
   }
 
-  if (!data) {
-    throw new HttpError(404, `Unknown operation: ${appKey}/${operation}`);
+  const configs = new Map<string, CreditCostConfig>();
+  for (const row of (data ?? []) as CreditCostRow[]) {
+    configs.set(row.operation, {
+      operation: row.operation,
+      unitCost: row.credit_cost,
+      volumeTiers: toVolumeTiers(row.volume_tiers),
+      tierOverrides: Object.fromEntries(
+        Object.entries(row.tier_overrides ?? {}).map(([tier, override]) => [
+          tier,
+          {
+            unitCost: override.credit_cost,
+            volumeTiers: override.volume_tiers ? toVolumeTiers(override.volume_tiers) : undefined,
+          },
+        ])
+      ),
+    });
+  }
+
+  const unknown = unique.filter((operation) => !configs.has(operation));
+  if (unknown.length > 0) {
+    throw new HttpError(404, `Unknown operation: ${unknown.map((op) => `${appKey}/${op}`).join(", ")}`);
+  }
+
+  return configs;
+};
+
+/**
+ * Price `quantity` units of an operation.
+ * A subscription tier override replaces the base unit cost and/or volume tiers.
+ * An override that sets only a unit cost drops the base volume tiers, which
+ * were priced against the base unit cost and could be dearer than the override.
+ * Volume tiers are all-units: the highest tier reached sets the unit cost for every unit.
+ * The total is rounded up to whole credits.
+ */
+export const priceOperation = (
+  config: CreditCostConfig,
+  quantity: number,
+  subscriptionTier: string | null
+): PricedOperation => {
+  const override = subscriptionTier ? config.tierOverrides[subscriptionTier] : undefined;
+  const volumeTiers = override?.volumeTiers ?? (override?.unitCost === undefined ? config.volumeTiers : []);
+
+  const volumeTier = [...volumeTiers]
+    .sort((a, b) => b.minQuantity - a.minQuantity)
+    .find((tier) => quantity >= tier.minQuantity);
+  const unitCost = volumeTier?.unitCost ?? override?.unitCost ?? config.unitCost;
+
+  return {
+    operation: config.operation,
+    quantity,
+    unitCost,
+    // toFixed guards against float noise (0.1 * 3 = 0.30000000000000004) before rounding up
+    cost: Math.ceil(Number((unitCost * quantity).toFixed(6))),
+    subscriptionTier: override ? subscriptionTier : null,
+    volumeTierMin: volumeTier?.minQuantity ?? null,
+  };
+};
+
+/**
+ * Get the plan tier (plans.ts `tier`) of a user's live subscription to an app, if any.
+ */
+export const getSubscriptionTier = async (
+  userId: string,
+  appKey: string
+): Promise<string | null> => {
+  const { data, error } = await supabaseAdmin
+    .from("app_subscriptions")
+    .select("stripe_price_id")
+    .eq("user_id", userId)
+    .eq("app_key", appKey)
+    .in("status", ["active", "trialing", "past_due"])
+    .maybeSingle();
+
+  if (error) {
+    // Don't fall back to the default tier: that would overcharge a subscriber
+    throw new HttpError(500, "Failed to fetch subscription tier", error.message);
   }
 
-  return data.credit_cost;
+  if (!data?.stripe_price_id) return null;
+  return findSubscriptionByPriceId(data.stripe_price_id)?.tier ?? null;
+};
+
+/**
+ * Price a list of operations for a user: one config read, one tier lookup.
+ */
+export const quoteOperations = async (
+  userId: string,
+  appKey: string,
+  items: BatchItem[]
+): Promise<PricedOperation[]> => {
+  const [configs, subscriptionTier] = await Promise.all([
+    getCreditCostConfigs(appKey, items.map((item) => item.operation)),
+    getSubscriptionTier(userId, appKey),
+  ]);
+
+  return items.map((item) =>
+    priceOperation(configs.get(item.operation) as CreditCostConfig, item.quantity, subscriptionTier)
+  );
 };
 
 // ---------------------------------------------------------------------------
 // Dynamic cap recalculation
 // ---------------------------------------------------------------------------
 
+/** app_subscriptions statuses that count toward the cap */
+export const CAP_SUBSCRIPTION_STATUSES = ["active", "trialing", "past_due"];
+
+/**
+ * Cap for a set of active app subscriptions: sum of each plan's creditCap
+ * (from plans.ts), or 900 for users with no active subscriptions.
+ */
+export const computeSubscriptionCap = (
+  subs: { app_key: string; stripe_price_id: string | null }[]
+): number => {
+  if (subs.length === 0) return 900; // Default cap for users with no active subs
+
+  let totalCap = 0;
+  for (const sub of subs) {
+    // Try price ID lookup first (handles multi-tier apps like LABS)
+    const plan = sub.stripe_price_id
+      ? findSubscriptionByPriceId(sub.stripe_price_id)
+      : null;
+
+    if (plan) {
+      totalCap += plan.creditCap;
+    } else {
+      // Fallback to first plan matching app_key
+      const fallback = findSubscriptionPlan(sub.app_key);
+      totalCap += fallback?.creditCap ?? 900;
+    }
+  }
+  return totalCap;
+};
+
 /**
  * Recalculate a user's subscription_cap based on all active app subscriptions.
- * Cap = sum of creditCap for each active subscription (from plans.ts).
  * Called whenever subscription state changes (create, update, delete, pause, resume).
  */
 export const recalculateSubscriptionCap = async (
@@ -595,33 +1447,14 @@ export const recalculateSubscriptionCap = async (
     .from("app_subscriptions")
     .select("app_key, stripe_price_id, status")
     .eq("user_id", userId)
-    .in("status", ["active", "trialing", "past_due"]);
+    .in("status", CAP_SUBSCRIPTION_STATUSES);
 
   if (error) {
     console.error("[credits] Failed to fetch subscriptions for cap recalc:", error.message);
     return 900; // Default, don't throw — cap recalc is non-critical
   }
 
-  let totalCap = 0;
-
-  if (!subs || subs.length === 0) {
-    totalCap = 900; // Default cap for users with no active subs
-  } else {
-    for (const sub of subs) {
-      // Try price ID lookup first (handles multi-tier apps like LABS)
-      const plan = sub.stripe_price_id
-        ? findSubscriptionByPriceId(sub.stripe_price_id)
-        : null;
-
-      if (plan) {
-        totalCap += plan.creditCap;
-      } else {
-        // Fallback to first plan matching app_key
-        const fallback = findSubscriptionPlan(sub.app_key);
-        totalCap += fallback?.creditCap ?? 900;
-      }
-    }
-  }
+  const totalCap = computeSubscriptionCap(subs ?? []);
 
   await supabaseAdmin
     .from("user_credits")
@@ -0,0 +1,316 @@
+import { supabaseAdmin } from "./supabase-admin";
+import { sendDunningEmail, type DunningEmailStage } from "./email";
+
+const DASHBOARD_URL = process.env.NEXT_PUBLIC_APP_URL ?? "https://dashboard.bfeai.com";
+
+/** Opens the Stripe portal straight on the "update payment method" page */
+export const UPDATE_PAYMENT_URL = `${DASHBOARD_URL}/billing/portal?flow=payment_method_update`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+const APP_NAMES: Record<string, string> = {
+  keywords: "BFEAI Keywords",
+  labs: "BFEAI LABS",
+};
+
+export type DunningStage = DunningEmailStage;
+
+export type DunningCase = {
+  id: string;
+  user_id: string;
+  app_key: string;
+  stripe_subscription_id: string;
+  stripe_invoice_id: string | null;
+  amount_due_cents: number | null;
+  currency: string;
+  stage: DunningStage;
+  action_required: boolean;
+  first_failed_at: string;
+  restricted_at: string | null;
+};
+
+/** Shape returned to the dashboard banner */
+export type DunningStatus = {
+  appKey: string;
+  stripeSubscriptionId: string;
+  amountDue: number | null;
+  currency: string;
+  actionRequired: boolean;
+  firstFailedAt: string;
+  restrictAt: string;
+  restricted: boolean;
+};
+
+const CASE_COLUMNS =
+  "id, user_id, app_key, stripe_subscription_id, stripe_invoice_id, amount_due_cents, currency, stage, action_required, first_failed_at, restricted_at";
+
+const STAGE_ORDER: DunningStage[] = ["first_failure", "reminder", "final_notice"];
+
+// ---------------------------------------------------------------------------
+// Schedule
+// ---------------------------------------------------------------------------
+
+/**
+ * Days between the first failed payment and restricted credit usage
+ * (DUNNING_GRACE_PERIOD_DAYS, default 7).
+ */
+export const getGracePeriodDays = (): number => {
+  const days = Number(process.env.DUNNING_GRACE_PERIOD_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_GRACE_PERIOD_DAYS;
+};
+
+/**
+ * Days after the first failure at which each stage's email is due: the
+ * reminder halfway through the grace period, the final notice a day before
+ * usage is restricted.
+ */
+export const stageDueDay = (stage: DunningStage, graceDays = getGracePeriodDays()): number => {
+  const reminderDay = Math.max(Math.floor(graceDays / 2), 1);
+  switch (stage) {
+    case "first_failure":
+      return 0;
+    case "reminder":
+      return reminderDay;
+    case "final_notice":
+      return Math.max(graceDays - 1, reminderDay);
+  }
+};
+
+const restrictAt = (firstFailedAt: string, graceDays = getGracePeriodDays()) =>
+  new Date(new Date(firstFailedAt).getTime() + graceDays * DAY_MS);
+
+// ---------------------------------------------------------------------------
+// Case lifecycle
+// ---------------------------------------------------------------------------
+
+/**
+ * Record a failed (or authentication-blocked) subscription payment.
+ *
+ * The first failure opens a case and sends the first email; Stripe's later
+ * retries only update the open case, since follow-ups are sent on the
+ * escalation schedule.
+ */
+export const recordPaymentFailure = async (params: {
+  userId: string;
+  appKey: string;
+  subscriptionId: string;
+  invoiceId: string;
+  amountDueCents: number | null;
+  currency: string;
+  actionRequired: boolean;
+}): Promise<void> => {
+  const attempt = {
+    stripe_invoice_id: params.invoiceId,
+    amount_due_cents: params.amountDueCents,
+    currency: params.currency,
+    action_required: params.actionRequired,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: opened, error } = await supabaseAdmin
+    .from("dunning_cases")
+    .insert({
+      user_id: params.userId,
+      app_key: params.appKey,
+      stripe_subscription_id: params.subscriptionId,
+      ...attempt,
+    })
+    .select(CASE_COLUMNS)
+    .single<DunningCase>();
+
+  if (error) {
+    // Unique violation: the subscription already has an open case
+    if (error.code !== "23505") {
+      throw new Error(`Failed to open dunning case: ${error.message}`);
+    }
+
+    await supabaseAdmin
+      .from("dunning_cases")
+      .update(attempt)
+      .eq("stripe_subscription_id", params.subscriptionId)
+      .eq("status", "open");
+    return;
+  }
+
+  console.log(`[dunning] Opened case for ${params.appKey}, user ${params.userId}, subscription ${params.subscriptionId}`);
+  await emailStage(opened);
+};
+
+/**
+ * Close a subscription's open case. `resolved` when the payment went through
+ * (this also lifts any restriction), `closed` when the subscription ended.
+ * Returns true if a case was open.
+ */
+export const closeDunningCase = async (
+  subscriptionId: string,
+  status: "resolved" | "closed"
+): Promise<boolean> => {
+  const now = new Date().toISOString();
+  const { data: closed, error } = await supabaseAdmin
+    .from("dunning_cases")
+    .update({ status, resolved_at: now, updated_at: now })
+    .eq("stripe_subscription_id", subscriptionId)
+    .eq("status", "open")
+    .select("user_id, restricted_at");
+
+  if (error) {
+    throw new Error(`Failed to close dunning case: ${error.message}`);
+  }
+
+  for (const row of closed ?? []) {
+    console.log(
+      `[dunning] Case ${status} for subscription ${subscriptionId}, user ${row.user_id}` +
+      (row.restricted_at ? " (credit usage restored)" : "")
+    );
+  }
+  return (closed?.length ?? 0) > 0;
+};
+
+/**
+ * Advance every open case that is due: send the next email in the sequence
+ * and restrict credit usage once the grace period has passed. Each case moves
+ * at most one stage per run.
+ */
+export const escalateDunningCases = async (
+  now = new Date()
+): Promise<{ emailed: number; restricted: number }> => {
+  const { data: cases, error } = await supabaseAdmin
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("status", "open")
+    .order("first_failed_at", { ascending: true })
+    .returns<DunningCase[]>();
+
+  if (error) {
+    throw new Error(`Failed to load dunning cases: ${error.message}`);
+  }
+
+  const graceDays = getGracePeriodDays();
+  let emailed = 0;
+  let restricted = 0;
+
+  for (const dunningCase of cases ?? []) {
+    const elapsedDays = (now.getTime() - new Date(dunningCase.first_failed_at).getTime()) / DAY_MS;
+
+    if (!dunningCase.restricted_at && elapsedDays >= graceDays) {
+      await supabaseAdmin
+        .from("dunning_cases")
+        .update({ restricted_at: now.toISOString(), updated_at: now.toISOString() })
+        .eq("id", dunningCase.id)
+        .is("restricted_at", null);
+      restricted++;
+      console.log(`[dunning] Restricted credit usage for user ${dunningCase.user_id} (subscription ${dunningCase.stripe_subscription_id})`);
+    }
+
+    const next = STAGE_ORDER[STAGE_ORDER.indexOf(dunningCase.stage) + 1];
+    if (!next || elapsedDays < stageDueDay(next, graceDays)) continue;
+
+    // Claim the stage so overlapping runs send each email once
+    const { data: claimed } = await supabaseAdmin
+      .from("dunning_cases")
+      .update({ stage: next, updated_at: now.toISOString() })
+      .eq("id", dunningCase.id)
+      .eq("stage", dunningCase.stage)
+      .eq("status", "open")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    if (await emailStage({ ...dunningCase, stage: next })) emailed++;
+  }
+
+  return { emailed, restricted };
+};
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** The user's open cases, soonest restriction first (empty when payments are fine) */
+export const getDunningStatus = async (userId: string): Promise<DunningStatus[]> => {
+  const { data: cases, error } = await supabaseAdmin
+    .from("dunning_cases")
+    .select(CASE_COLUMNS)
+    .eq("user_id", userId)
+    .eq("status", "open")
+    .order("first_failed_at", { ascending: true })
+    .returns<DunningCase[]>();
+
+  if (error) {
+    throw new Error(`Failed to load dunning status: ${error.message}`);
+  }
+
+  return (cases ?? []).map((c) => ({
+    appKey: c.app_key,
+    stripeSubscriptionId: c.stripe_subscription_id,
+    amountDue: c.amount_due_cents !== null ? c.amount_due_cents / 100 : null,
+    currency: c.currency,
+    actionRequired: c.action_required,
+    firstFailedAt: c.first_failed_at,
+    restrictAt: restrictAt(c.first_failed_at).toISOString(),
+    restricted: c.restricted_at !== null,
+  }));
+};
+
+/** True while the user has an open case past its grace period */
+export const isCreditUsageRestricted = async (userId: string): Promise<boolean> => {
+  const { count, error } = await supabaseAdmin
+    .from("dunning_cases")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("status", "open")
+    .not("restricted_at", "is", null);
+
+  if (error) {
+    // Don't block usage on a failed lookup; the case is still enforced next time
+    console.error("[dunning] Failed to check restriction:", error);
+    return false;
+  }
+  return (count ?? 0) > 0;
+};
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+/** Send the email for the case's current stage */
+const emailStage = async (dunningCase: DunningCase): Promise<boolean> => {
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", dunningCase.user_id)
+    .maybeSingle();
+
+  if (!profile?.email) {
+    console.warn("[dunning] No email for dunning notice, user:", dunningCase.user_id);
+    return false;
+  }
+
+  const amountDue = dunningCase.amount_due_cents !== null
+    ? new Intl.NumberFormat("en-US", { style: "currency", currency: dunningCase.currency.toUpperCase() })
+        .format(dunningCase.amount_due_cents / 100)
+    : null;
+
+  const { success } = await sendDunningEmail(profile.email, dunningCase.stage, {
+    userName: profile.full_name ?? "there",
+    appName: APP_NAMES[dunningCase.app_key] ?? `BFEAI ${dunningCase.app_key}`,
+    amountDue,
+    restrictDate: restrictAt(dunningCase.first_failed_at).toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    }),
+    actionRequired: dunningCase.action_required,
+    updatePaymentUrl: UPDATE_PAYMENT_URL,
+  });
+
+  if (success) {
+    await supabaseAdmin
+      .from("dunning_cases")
+      .update({ last_emailed_at: new Date().toISOString() })
+      .eq("id", dunningCase.id);
+  }
+
+  return success;
+};
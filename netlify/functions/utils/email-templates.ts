@@ -233,6 +233,509 @@ Manage your subscription: https://dashboard.bfeai.com/billing
 — The BFEAI Team`;
 }
 
+// ---------------------------------------------------------------------------
+// Low credit balance alert
+// ---------------------------------------------------------------------------
+
+interface LowBalanceAlertData {
+  userName: string;
+  balance: number;
+  threshold: number;
+  creditsUrl: string;
+  /** Set when auto top-up is on but could not run, e.g. "monthly limit reached" */
+  autoTopUpBlockedReason?: string;
+}
+
+/**
+ * Build branded HTML email for a low credit balance alert.
+ */
+export function buildLowBalanceAlertHtml(data: LowBalanceAlertData): string {
+  const autoTopUpNote = data.autoTopUpBlockedReason
+    ? `<p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                Auto top-up did not run: ${escapeHtml(data.autoTopUpBlockedReason)}.
+              </p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your credit balance is low</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f7;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f7;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:8px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <!-- Header -->
+          <tr>
+            <td style="background:linear-gradient(135deg,#533577,#454D9A);padding:32px 40px;text-align:center;">
+              <h1 style="margin:0;color:#ffffff;font-size:24px;font-weight:700;">BFEAI</h1>
+              <p style="margin:8px 0 0;color:rgba(255,255,255,0.85);font-size:14px;">Be Found Everywhere AI</p>
+            </td>
+          </tr>
+
+          <!-- Body -->
+          <tr>
+            <td style="padding:40px;">
+              <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                Hi ${escapeHtml(data.userName)},
+              </p>
+              <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                Your BFEAI credit balance has dropped below the alert threshold you set. Keyword reports and scans will stop once you run out.
+              </p>
+
+              <!-- Details box -->
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f8f9fc;border-radius:8px;border:1px solid #e5e7eb;margin:24px 0;">
+                <tr>
+                  <td style="padding:24px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+                      <tr>
+                        <td style="padding:8px 0;color:#666;font-size:14px;">Current balance:</td>
+                        <td style="padding:8px 0;color:#333;font-size:14px;font-weight:600;text-align:right;">${escapeHtml(data.balance.toLocaleString("en-US"))} credits</td>
+                      </tr>
+                      <tr>
+                        <td style="padding:8px 0;color:#666;font-size:14px;">Alert threshold:</td>
+                        <td style="padding:8px 0;color:#333;font-size:14px;font-weight:600;text-align:right;">${escapeHtml(data.threshold.toLocaleString("en-US"))} credits</td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+
+              ${autoTopUpNote}
+
+              <!-- CTA Button -->
+              <table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 auto;">
+                <tr>
+                  <td style="background-color:#533577;border-radius:6px;">
+                    <a href="${escapeHtml(data.creditsUrl)}" style="display:inline-block;padding:14px 32px;color:#ffffff;text-decoration:none;font-size:16px;font-weight:600;">
+                      Buy Credits
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:24px 40px;background-color:#f8f9fc;border-top:1px solid #e5e7eb;text-align:center;">
+              <p style="margin:0;color:#999;font-size:12px;line-height:1.5;">
+                You're receiving this email because you turned on low-balance alerts.
+                <br>
+                <a href="${escapeHtml(data.creditsUrl)}" style="color:#533577;text-decoration:underline;">Change your alert settings</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Build plain text fallback for low credit balance alert.
+ */
+export function buildLowBalanceAlertText(data: LowBalanceAlertData): string {
+  const autoTopUpNote = data.autoTopUpBlockedReason
+    ? `\nAuto top-up did not run: ${data.autoTopUpBlockedReason}.\n`
+    : "";
+
+  return `Hi ${data.userName},
+
+Your BFEAI credit balance has dropped below the alert threshold you set.
+
+Current balance: ${data.balance} credits
+Alert threshold: ${data.threshold} credits
+${autoTopUpNote}
+Buy credits or change your alert settings: ${data.creditsUrl}
+
+— The BFEAI Team`;
+}
+
+// ---------------------------------------------------------------------------
+// Dunning (failed subscription payment): first failure, reminder, final notice
+// ---------------------------------------------------------------------------
+
+interface DunningEmailData {
+  userName: string;
+  appName: string;
+  /** Formatted amount, e.g. "$29.00" (null if unknown) */
+  amountDue: string | null;
+  /** Date credit usage is paused if the payment is still outstanding */
+  restrictDate: string;
+  /** The bank asked for authentication (SCA/3DS) rather than declining */
+  actionRequired: boolean;
+  updatePaymentUrl: string;
+}
+
+type DunningEmailCopy = {
+  title: string;
+  paragraphs: string[];
+  ctaLabel: string;
+};
+
+function paymentProblem(data: DunningEmailData): string {
+  const amount = data.amountDue ? ` of ${data.amountDue}` : "";
+  return data.actionRequired
+    ? `Your bank needs you to confirm the payment${amount} for ${data.appName} before it can go through.`
+    : `We couldn't process the payment${amount} for your ${data.appName} subscription.`;
+}
+
+function paymentFailedCopy(data: DunningEmailData): DunningEmailCopy {
+  return {
+    title: "Your payment didn't go through",
+    paragraphs: [
+      paymentProblem(data),
+      "We'll retry automatically over the next few days. To avoid any interruption, please update your payment method now.",
+      `If the payment is still outstanding on ${data.restrictDate}, credit usage will be paused until it is resolved.`,
+    ],
+    ctaLabel: data.actionRequired ? "Confirm Payment" : "Update Payment Method",
+  };
+}
+
+function paymentReminderCopy(data: DunningEmailData): DunningEmailCopy {
+  return {
+    title: "Reminder: your payment is still outstanding",
+    paragraphs: [
+      paymentProblem(data),
+      `Your subscription is past due. If it isn't resolved by ${data.restrictDate}, credit usage will be paused.`,
+      "Updating your payment method takes less than a minute.",
+    ],
+    ctaLabel: "Update Payment Method",
+  };
+}
+
+function paymentFinalNoticeCopy(data: DunningEmailData): DunningEmailCopy {
+  return {
+    title: "Final notice: credit usage pauses soon",
+    paragraphs: [
+      paymentProblem(data),
+      `This is our last reminder. On ${data.restrictDate}, credit usage will be paused until the payment goes through.`,
+      "Your data and credit balance stay intact, and everything is restored as soon as the payment succeeds.",
+    ],
+    ctaLabel: "Update Payment Method",
+  };
+}
+
+function buildDunningHtml(copy: DunningEmailCopy, data: DunningEmailData): string {
+  const paragraphs = copy.paragraphs
+    .map(
+      (text) => `<p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                ${escapeHtml(text)}
+              </p>`
+    )
+    .join("\n              ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(copy.title)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f7;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f7;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:8px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <!-- Header -->
+          <tr>
+            <td style="background:linear-gradient(135deg,#533577,#454D9A);padding:32px 40px;text-align:center;">
+              <h1 style="margin:0;color:#ffffff;font-size:24px;font-weight:700;">BFEAI</h1>
+              <p style="margin:8px 0 0;color:rgba(255,255,255,0.85);font-size:14px;">Be Found Everywhere AI</p>
+            </td>
+          </tr>
+
+          <!-- Body -->
+          <tr>
+            <td style="padding:40px;">
+              <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                Hi ${escapeHtml(data.userName)},
+              </p>
+              ${paragraphs}
+
+              <!-- CTA Button -->
+              <table role="presentation" cellpadding="0" cellspacing="0" style="margin:24px auto 0;">
+                <tr>
+                  <td style="background-color:#533577;border-radius:6px;">
+                    <a href="${escapeHtml(data.updatePaymentUrl)}" style="display:inline-block;padding:14px 32px;color:#ffffff;text-decoration:none;font-size:16px;font-weight:600;">
+                      ${escapeHtml(copy.ctaLabel)}
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:24px 40px;background-color:#f8f9fc;border-top:1px solid #e5e7eb;text-align:center;">
+              <p style="margin:0;color:#999;font-size:12px;line-height:1.5;">
+                You're receiving this email because a payment for your BFEAI subscription failed.
+                <br>
+                <a href="https://dashboard.bfeai.com/billing" style="color:#533577;text-decoration:underline;">Manage your subscription</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+function buildDunningText(copy: DunningEmailCopy, data: DunningEmailData): string {
+  return `Hi ${data.userName},
+
+${copy.paragraphs.join("\n\n")}
+
+${copy.ctaLabel}: ${data.updatePaymentUrl}
+
+— The BFEAI Team`;
+}
+
+/**
+ * Build branded HTML email for the first failed subscription payment.
+ */
+export function buildPaymentFailedHtml(data: DunningEmailData): string {
+  return buildDunningHtml(paymentFailedCopy(data), data);
+}
+
+/**
+ * Build plain text fallback for the first failed subscription payment.
+ */
+export function buildPaymentFailedText(data: DunningEmailData): string {
+  return buildDunningText(paymentFailedCopy(data), data);
+}
+
+/**
+ * Build branded HTML email reminding the user of an outstanding payment.
+ */
+export function buildPaymentReminderHtml(data: DunningEmailData): string {
+  return buildDunningHtml(paymentReminderCopy(data), data);
+}
+
+/**
+ * Build plain text fallback for the outstanding payment reminder.
+ */
+export function buildPaymentReminderText(data: DunningEmailData): string {
+  return buildDunningText(paymentReminderCopy(data), data);
+}
+
+/**
+ * Build branded HTML email for the final notice before credit usage is paused.
+ */
+export function buildPaymentFinalNoticeHtml(data: DunningEmailData): string {
+  return buildDunningHtml(paymentFinalNoticeCopy(data), data);
+}
+
+/**
+ * Build plain text fallback for the final notice.
+ */
+export function buildPaymentFinalNoticeText(data: DunningEmailData): string {
+  return buildDunningText(paymentFinalNoticeCopy(data), data);
+}
+
+// ---------------------------------------------------------------------------
+// Credits received: transfers and gift codes
+// ---------------------------------------------------------------------------
+
+interface CreditsReceivedData {
+  userName: string;
+  senderName: string;
+  credits: number;
+  /** Optional note from the sender */
+  note: string | null;
+  creditsUrl: string;
+}
+
+interface GiftCodeData {
+  userName: string;
+  /** Null when the purchaser is being sent their own code */
+  senderName: string | null;
+  code: string;
+  credits: number;
+  message: string | null;
+  creditsUrl: string;
+}
+
+type CreditNoticeCopy = {
+  title: string;
+  paragraphs: string[];
+  details: [label: string, value: string][];
+  ctaLabel: string;
+  footer: string;
+};
+
+function creditsReceivedCopy(data: CreditsReceivedData): CreditNoticeCopy {
+  const credits = data.credits.toLocaleString("en-US");
+  return {
+    title: `${data.senderName} sent you ${credits} credits`,
+    paragraphs: [
+      `${data.senderName} transferred ${credits} credits to your BFEAI account. They've been added to your top-up balance and are ready to use.`,
+      ...(data.note ? [`Their note: "${data.note}"`] : []),
+    ],
+    details: [
+      ["Credits received:", credits],
+      ["From:", data.senderName],
+    ],
+    ctaLabel: "View Credits",
+    footer: "You're receiving this email because credits were transferred to your BFEAI account.",
+  };
+}
+
+function giftCodeCopy(data: GiftCodeData): CreditNoticeCopy {
+  const credits = data.credits.toLocaleString("en-US");
+  return {
+    title: data.senderName ? `${data.senderName} sent you a BFEAI gift` : "Your BFEAI gift code",
+    paragraphs: [
+      data.senderName
+        ? `${data.senderName} sent you ${credits} BFEAI credits. Redeem the code below from the Credits page to add them to your account.`
+        : `Thanks for your purchase. Share the code below; whoever redeems it from the Credits page gets ${credits} credits.`,
+      ...(data.message ? [`"${data.message}"`] : []),
+      "Redeemed credits expire 12 months after redemption.",
+    ],
+    details: [
+      ["Gift code:", data.code],
+      ["Credits:", credits],
+    ],
+    ctaLabel: "Redeem Gift",
+    footer: "You're receiving this email because a BFEAI gift code was bought for you.",
+  };
+}
+
+function buildCreditNoticeHtml(copy: CreditNoticeCopy, userName: string, creditsUrl: string): string {
+  const paragraphs = copy.paragraphs
+    .map(
+      (text) => `<p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                ${escapeHtml(text)}
+              </p>`
+    )
+    .join("\n              ");
+
+  const details = copy.details
+    .map(
+      ([label, value]) => `<tr>
+                        <td style="padding:8px 0;color:#666;font-size:14px;">${escapeHtml(label)}</td>
+                        <td style="padding:8px 0;color:#333;font-size:14px;font-weight:600;text-align:right;">${escapeHtml(value)}</td>
+                      </tr>`
+    )
+    .join("\n                      ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(copy.title)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f7;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f7;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:8px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <!-- Header -->
+          <tr>
+            <td style="background:linear-gradient(135deg,#533577,#454D9A);padding:32px 40px;text-align:center;">
+              <h1 style="margin:0;color:#ffffff;font-size:24px;font-weight:700;">BFEAI</h1>
+              <p style="margin:8px 0 0;color:rgba(255,255,255,0.85);font-size:14px;">Be Found Everywhere AI</p>
+            </td>
+          </tr>
+
+          <!-- Body -->
+          <tr>
+            <td style="padding:40px;">
+              <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+                Hi ${escapeHtml(userName)},
+              </p>
+              ${paragraphs}
+
+              <!-- Details box -->
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f8f9fc;border-radius:8px;border:1px solid #e5e7eb;margin:24px 0;">
+                <tr>
+                  <td style="padding:24px;">
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+                      ${details}
+                    </table>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- CTA Button -->
+              <table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 auto;">
+                <tr>
+                  <td style="background-color:#533577;border-radius:6px;">
+                    <a href="${escapeHtml(creditsUrl)}" style="display:inline-block;padding:14px 32px;color:#ffffff;text-decoration:none;font-size:16px;font-weight:600;">
+                      ${escapeHtml(copy.ctaLabel)}
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding:24px 40px;background-color:#f8f9fc;border-top:1px solid #e5e7eb;text-align:center;">
+              <p style="margin:0;color:#999;font-size:12px;line-height:1.5;">
+                ${escapeHtml(copy.footer)}
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+function buildCreditNoticeText(copy: CreditNoticeCopy, userName: string, creditsUrl: string): string {
+  return `Hi ${userName},
+
+${copy.paragraphs.join("\n\n")}
+
+${copy.details.map(([label, value]) => `${label} ${value}`).join("\n")}
+
+${copy.ctaLabel}: ${creditsUrl}
+
+— The BFEAI Team`;
+}
+
+/**
+ * Build branded HTML email telling a user another account transferred credits to them.
+ */
+export function buildCreditsReceivedHtml(data: CreditsReceivedData): string {
+  return buildCreditNoticeHtml(creditsReceivedCopy(data), data.userName, data.creditsUrl);
+}
+
+/**
+ * Build plain text fallback for the credits received email.
+ */
+export function buildCreditsReceivedText(data: CreditsReceivedData): string {
+  return buildCreditNoticeText(creditsReceivedCopy(data), data.userName, data.creditsUrl);
+}
+
+/**
+ * Build branded HTML email delivering a gift code.
+ */
+export function buildGiftCodeHtml(data: GiftCodeData): string {
+  return buildCreditNoticeHtml(giftCodeCopy(data), data.userName, data.creditsUrl);
+}
+
+/**
+ * Build plain text fallback for the gift code email.
+ */
+export function buildGiftCodeText(data: GiftCodeData): string {
+  return buildCreditNoticeText(giftCodeCopy(data), data.userName, data.creditsUrl);
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, "&amp;")
@@ -1,5 +1,22 @@
 import { Resend } from "resend";
-import { buildTrialReminderHtml, buildTrialReminderText, buildWelcomeEmailHtml, buildWelcomeEmailText } from "./email-templates";
+import {
+  buildTrialReminderHtml,
+  buildTrialReminderText,
+  buildWelcomeEmailHtml,
+  buildWelcomeEmailText,
+  buildLowBalanceAlertHtml,
+  buildLowBalanceAlertText,
+  buildPaymentFailedHtml,
+  buildPaymentFailedText,
+  buildPaymentReminderHtml,
+  buildPaymentReminderText,
+  buildPaymentFinalNoticeHtml,
+  buildPaymentFinalNoticeText,
+  buildCreditsReceivedHtml,
+  buildCreditsReceivedText,
+  buildGiftCodeHtml,
+  buildGiftCodeText,
+} from "./email-templates";
 
 const resendApiKey = process.env.RESEND_API_KEY;
 const fromEmail = process.env.RESEND_FROM_EMAIL ?? "BFEAI <noreply@bfeai.com>";
@@ -94,3 +111,218 @@ export async function sendWelcomeEmail(
     return { success: false };
   }
 }
+
+interface LowBalanceAlertData {
+  userName: string;
+  balance: number;
+  threshold: number;
+  creditsUrl: string;
+  autoTopUpBlockedReason?: string;
+}
+
+/**
+ * Send a low credit balance alert.
+ * Fire-and-forget: never throws, logs errors.
+ */
+export async function sendLowBalanceAlertEmail(
+  to: string,
+  data: LowBalanceAlertData
+): Promise<{ success: boolean }> {
+  try {
+    if (!resendApiKey) {
+      console.warn("[email] RESEND_API_KEY not configured, logging email instead");
+      console.log("[email] Low balance alert would be sent to:", to, data);
+      return { success: false };
+    }
+
+    const resend = new Resend(resendApiKey);
+
+    const { error } = await resend.emails.send({
+      from: fromEmail,
+      to,
+      subject: `Your BFEAI credit balance is low (${data.balance} left)`,
+      html: buildLowBalanceAlertHtml(data),
+      text: buildLowBalanceAlertText(data),
+    });
+
+    if (error) {
+      console.error("[email] Resend error:", error);
+      return { success: false };
+    }
+
+    console.log(`[email] Low balance alert sent to ${to}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[email] Failed to send low balance alert:", error);
+    return { success: false };
+  }
+}
+
+export type DunningEmailStage = "first_failure" | "reminder" | "final_notice";
+
+interface DunningEmailData {
+  userName: string;
+  appName: string;
+  amountDue: string | null;
+  restrictDate: string;
+  actionRequired: boolean;
+  updatePaymentUrl: string;
+}
+
+const DUNNING_EMAILS: Record<
+  DunningEmailStage,
+  { subject: (data: DunningEmailData) => string; html: (data: DunningEmailData) => string; text: (data: DunningEmailData) => string }
+> = {
+  first_failure: {
+    subject: (data) => data.actionRequired
+      ? `Please confirm your ${data.appName} payment`
+      : `Your ${data.appName} payment didn't go through`,
+    html: buildPaymentFailedHtml,
+    text: buildPaymentFailedText,
+  },
+  reminder: {
+    subject: (data) => `Reminder: your ${data.appName} payment is past due`,
+    html: buildPaymentReminderHtml,
+    text: buildPaymentReminderText,
+  },
+  final_notice: {
+    subject: (data) => `Final notice: ${data.appName} credit usage pauses ${data.restrictDate}`,
+    html: buildPaymentFinalNoticeHtml,
+    text: buildPaymentFinalNoticeText,
+  },
+};
+
+/**
+ * Send one of the dunning emails for a past-due subscription.
+ * Fire-and-forget: never throws, logs errors.
+ */
+export async function sendDunningEmail(
+  to: string,
+  stage: DunningEmailStage,
+  data: DunningEmailData
+): Promise<{ success: boolean }> {
+  try {
+    if (!resendApiKey) {
+      console.warn("[email] RESEND_API_KEY not configured, logging email instead");
+      console.log(`[email] Dunning ${stage} email would be sent to:`, to, data);
+      return { success: false };
+    }
+
+    const resend = new Resend(resendApiKey);
+    const template = DUNNING_EMAILS[stage];
+
+    const { error } = await resend.emails.send({
+      from: fromEmail,
+      to,
+      subject: template.subject(data),
+      html: template.html(data),
+      text: template.text(data),
+    });
+
+    if (error) {
+      console.error("[email] Resend error:", error);
+      return { success: false };
+    }
+
+    console.log(`[email] Dunning ${stage} email sent to ${to} for ${data.appName}`);
+    return { success: true };
+  } catch (error) {
+    console.error(`[email] Failed to send dunning ${stage} email:`, error);
+    return { success: false };
+  }
+}
+
+interface CreditsReceivedData {
+  userName: string;
+  senderName: string;
+  credits: number;
+  note: string | null;
+  creditsUrl: string;
+}
+
+/**
+ * Tell a user another account transferred credits to them.
+ * Fire-and-forget: never throws, logs errors.
+ */
+export async function sendCreditsReceivedEmail(
+  to: string,
+  data: CreditsReceivedData
+): Promise<{ success: boolean }> {
+  try {
+    if (!resendApiKey) {
+      console.warn("[email] RESEND_API_KEY not configured, logging email instead");
+      console.log("[email] Credits received email would be sent to:", to, data);
+      return { success: false };
+    }
+
+    const resend = new Resend(resendApiKey);
+
+    const { error } = await resend.emails.send({
+      from: fromEmail,
+      to,
+      subject: `${data.senderName} sent you ${data.credits.toLocaleString("en-US")} BFEAI credits`,
+      html: buildCreditsReceivedHtml(data),
+      text: buildCreditsReceivedText(data),
+    });
+
+    if (error) {
+      console.error("[email] Resend error:", error);
+      return { success: false };
+    }
+
+    console.log(`[email] Credits received email sent to ${to}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[email] Failed to send credits received email:", error);
+    return { success: false };
+  }
+}
+
+interface GiftCodeData {
+  userName: string;
+  senderName: string | null;
+  code: string;
+  credits: number;
+  message: string | null;
+  creditsUrl: string;
+}
+
+/**
+ * Deliver a gift code to its recipient (or to the purchaser when no recipient was given).
+ * Fire-and-forget: never throws, logs errors.
+ */
+export async function sendGiftCodeEmail(
+  to: string,
+  data: GiftCodeData
+): Promise<{ success: boolean }> {
+  try {
+    if (!resendApiKey) {
+      console.warn("[email] RESEND_API_KEY not configured, logging email instead");
+      console.log("[email] Gift code email would be sent to:", to, { ...data, code: "[redacted]" });
+      return { success: false };
+    }
+
+    const resend = new Resend(resendApiKey);
+
+    const { error } = await resend.emails.send({
+      from: fromEmail,
+      to,
+      subject: data.senderName
+        ? `${data.senderName} sent you ${data.credits.toLocaleString("en-US")} BFEAI credits`
+        : "Your BFEAI gift code",
+      html: buildGiftCodeHtml(data),
+      text: buildGiftCodeText(data),
+    });
+
+    if (error) {
+      console.error("[email] Resend error:", error);
+      return { success: false };
+    }
+
+    console.log(`[email] Gift code email sent to ${to}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[email] Failed to send gift code email:", error);
+    return { success: false };
+  }
+}
@@ -0,0 +1,118 @@
+import { randomInt } from "crypto";
+import { supabaseAdmin } from "./supabase-admin";
+import { sendGiftCodeEmail } from "./email";
+
+const CREDITS_URL = `${process.env.NEXT_PUBLIC_APP_URL ?? "https://dashboard.bfeai.com"}/credits`;
+
+/** No 0/O or 1/I/L, so codes survive being read aloud or retyped */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export const MAX_GIFT_MESSAGE_LENGTH = 500;
+
+export type GiftCode = {
+  id: string;
+  code: string;
+  credits: number;
+  packName: string;
+  recipientEmail: string | null;
+  redeemedAt: string | null;
+  createdAt: string;
+};
+
+type GiftCodeRow = {
+  id: string;
+  code: string;
+  credits: number;
+  pack_name: string;
+  recipient_email: string | null;
+  redeemed_at: string | null;
+  created_at: string;
+};
+
+/** e.g. GIFT-7KQ2-M9XD-P4RT */
+export const generateGiftCode = (): string => {
+  const group = () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+  return `GIFT-${group()}-${group()}-${group()}`;
+};
+
+/**
+ * Mint the gift code for a paid gift checkout and email it to the recipient,
+ * or to the purchaser when no recipient was given. One code per checkout
+ * session: a redelivered webhook finds the existing code and does nothing.
+ */
+export const createGiftCode = async (params: {
+  purchaserId: string;
+  credits: number;
+  packName: string;
+  stripeSessionId: string;
+  recipientEmail: string | null;
+  message: string | null;
+}): Promise<void> => {
+  const { data: gift, error } = await supabaseAdmin
+    .from("credit_gift_codes")
+    .insert({
+      code: generateGiftCode(),
+      credits: params.credits,
+      pack_name: params.packName,
+      purchaser_id: params.purchaserId,
+      stripe_session_id: params.stripeSessionId,
+      recipient_email: params.recipientEmail,
+      message: params.message,
+    })
+    .select("code")
+    .single();
+
+  if (error) {
+    // Unique violation on stripe_session_id: already minted for this checkout
+    if (error.code === "23505") return;
+    throw new Error(`Failed to create gift code: ${error.message}`);
+  }
+
+  console.log(`[gift-codes] Created ${params.credits}-credit gift code for purchaser ${params.purchaserId}`);
+
+  const { data: purchaser } = await supabaseAdmin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", params.purchaserId)
+    .maybeSingle();
+
+  const to = params.recipientEmail ?? purchaser?.email;
+  if (!to) {
+    console.warn("[gift-codes] No email to deliver gift code to, purchaser:", params.purchaserId);
+    return;
+  }
+
+  await sendGiftCodeEmail(to, {
+    userName: params.recipientEmail ? "there" : purchaser?.full_name ?? "there",
+    senderName: params.recipientEmail ? purchaser?.full_name || purchaser?.email || "A BFEAI user" : null,
+    code: gift.code,
+    credits: params.credits,
+    message: params.message,
+    creditsUrl: CREDITS_URL,
+  });
+};
+
+/** Gift codes the user has bought, newest first */
+export const listGiftCodes = async (purchaserId: string): Promise<GiftCode[]> => {
+  const { data, error } = await supabaseAdmin
+    .from("credit_gift_codes")
+    .select("id, code, credits, pack_name, recipient_email, redeemed_at, created_at")
+    .eq("purchaser_id", purchaserId)
+    .order("created_at", { ascending: false })
+    .returns<GiftCodeRow[]>();
+
+  if (error) {
+    throw new Error(`Failed to load gift codes: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    code: row.code,
+    credits: row.credits,
+    packName: row.pack_name,
+    recipientEmail: row.recipient_email,
+    redeemedAt: row.redeemed_at,
+    createdAt: row.created_at,
+  }));
+};
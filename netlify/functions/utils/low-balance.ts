@@ -0,0 +1,418 @@
+import Stripe from "stripe";
+import { TOPUP_PACKS, type TopUpPackKey } from "../../../config/plans";
+import { supabaseAdmin } from "./supabase-admin";
+import { stripe } from "./stripe";
+import { allocateTopUpCredits } from "./credits";
+import { sendLowBalanceAlertEmail } from "./email";
+
+const CREDITS_URL = `${process.env.NEXT_PUBLIC_APP_URL ?? "https://dashboard.bfeai.com"}/credits`;
+// Longest a deduction's response waits for low-balance handling
+const LOW_BALANCE_TIMEOUT_MS = 5000;
+
+type LowBalanceSettings = {
+  low_balance_threshold: number | null;
+  low_balance_alerted_at: string | null;
+  auto_topup_enabled: boolean;
+  auto_topup_pack: string | null;
+  auto_topup_max_per_month: number;
+};
+
+/** Columns of auto_topup_charges written as a charge settles */
+type ChargeUpdate = {
+  status?: "succeeded" | "failed";
+  stripe_payment_intent_id?: string;
+  error?: string;
+  credited_at?: string;
+};
+
+type ChargeRow = {
+  id: string;
+  user_id: string;
+  pack_key: string;
+  credits: number;
+};
+
+export type AutoTopUpOutcome =
+  | { status: "charged"; credits: number; newBalance: number }
+  | { status: "in_progress" }
+  | { status: "blocked"; reason: string };
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Run after a deduction leaves the user with `balance` credits.
+ *
+ * Below the user's low_balance_threshold, an opted-in user is charged for their
+ * auto top-up pack; otherwise (or if the charge can't run) they get one alert
+ * email until the balance climbs back above the threshold.
+ * Never throws: the deduction that triggered this has already succeeded.
+ *
+ * Callers await it before responding, since Netlify may freeze the function
+ * once the response is sent. The wait is capped at LOW_BALANCE_TIMEOUT_MS so
+ * a slow Stripe call can't hold the deduction up; a charge cut short is
+ * settled by reconcileAutoTopUps.
+ */
+export const handleLowBalance = async (userId: string, balance: number): Promise<void> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn(`[low-balance] Stopped waiting after ${LOW_BALANCE_TIMEOUT_MS}ms for user ${userId}`);
+      resolve();
+    }, LOW_BALANCE_TIMEOUT_MS);
+  });
+
+  try {
+    await Promise.race([processLowBalance(userId, balance), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/** handleLowBalance without the time cap */
+const processLowBalance = async (userId: string, balance: number): Promise<void> => {
+  try {
+    const { data: settings, error } = await supabaseAdmin
+      .from("user_settings")
+      .select("low_balance_threshold, low_balance_alerted_at, auto_topup_enabled, auto_topup_pack, auto_topup_max_per_month")
+      .eq("user_id", userId)
+      .maybeSingle<LowBalanceSettings>();
+
+    if (error) {
+      console.error("[low-balance] Failed to fetch settings:", error);
+      return;
+    }
+
+    const threshold = settings?.low_balance_threshold;
+    if (!settings || !threshold) return;
+
+    if (balance >= threshold) {
+      // Re-arm the alert for the next time the balance drops
+      if (settings.low_balance_alerted_at) {
+        await supabaseAdmin
+          .from("user_settings")
+          .update({ low_balance_alerted_at: null })
+          .eq("user_id", userId);
+      }
+      return;
+    }
+
+    let autoTopUpBlockedReason: string | undefined;
+
+    if (settings.auto_topup_enabled) {
+      const outcome = await runAutoTopUp(userId, settings);
+
+      if (outcome.status === "charged") {
+        console.log(`[low-balance] Auto top-up added ${outcome.credits} credits for user ${userId}`);
+        if (outcome.newBalance >= threshold) return;
+      } else if (outcome.status === "in_progress") {
+        return;
+      } else {
+        autoTopUpBlockedReason = outcome.reason;
+      }
+    }
+
+    await sendAlertOnce(userId, balance, threshold, autoTopUpBlockedReason);
+  } catch (error) {
+    console.error(`[low-balance] Unexpected error for user ${userId}:`, error);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Alert
+// ---------------------------------------------------------------------------
+
+const sendAlertOnce = async (
+  userId: string,
+  balance: number,
+  threshold: number,
+  autoTopUpBlockedReason?: string
+): Promise<void> => {
+  // Claim the alert first so concurrent deductions send at most one email
+  const { data: claimed, error } = await supabaseAdmin
+    .from("user_settings")
+    .update({ low_balance_alerted_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("low_balance_alerted_at", null)
+    .select("user_id");
+
+  if (error) {
+    console.error("[low-balance] Failed to claim alert:", error);
+    return;
+  }
+
+  if (!claimed || claimed.length === 0) return;
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (!profile?.email) {
+    console.warn("[low-balance] No email for low balance alert, user:", userId);
+    return;
+  }
+
+  await sendLowBalanceAlertEmail(profile.email, {
+    userName: profile.full_name ?? "there",
+    balance,
+    threshold,
+    creditsUrl: CREDITS_URL,
+    autoTopUpBlockedReason,
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Auto top-up
+// ---------------------------------------------------------------------------
+
+/**
+ * Charge the customer's saved payment method for their auto top-up pack and
+ * allocate the credits. Guardrails: monthly charge limit, one charge in flight.
+ */
+const runAutoTopUp = async (
+  userId: string,
+  settings: LowBalanceSettings
+): Promise<AutoTopUpOutcome> => {
+  const pack = settings.auto_topup_pack
+    ? TOPUP_PACKS[settings.auto_topup_pack as TopUpPackKey]
+    : undefined;
+  if (!pack) {
+    return { status: "blocked", reason: "no top-up pack is selected" };
+  }
+
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const { count, error: countError } = await supabaseAdmin
+    .from("auto_topup_charges")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .in("status", ["pending", "succeeded"])
+    .gte("created_at", monthStart.toISOString());
+
+  if (countError) {
+    console.error("[low-balance] Failed to count auto top-ups:", countError);
+    return { status: "blocked", reason: "it could not be checked against your monthly limit" };
+  }
+
+  if ((count ?? 0) >= settings.auto_topup_max_per_month) {
+    return {
+      status: "blocked",
+      reason: `the limit of ${settings.auto_topup_max_per_month} auto top-up(s) this month was reached`,
+    };
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("stripe_customer_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  const customerId = profile?.stripe_customer_id as string | undefined;
+  const paymentMethodId = customerId ? await getSavedPaymentMethod(customerId) : null;
+  if (!customerId || !paymentMethodId) {
+    return { status: "blocked", reason: "there is no saved payment method" };
+  }
+
+  const { data: charge, error: insertError } = await supabaseAdmin
+    .from("auto_topup_charges")
+    .insert({
+      user_id: userId,
+      pack_key: pack.key,
+      credits: pack.credits,
+      amount_cents: pack.price * 100,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    // Unique violation: another deduction already started a charge
+    if (insertError.code === "23505") return { status: "in_progress" };
+    console.error("[low-balance] Failed to record auto top-up:", insertError);
+    return { status: "blocked", reason: "it could not be started" };
+  }
+
+  const finishCharge = (patch: ChargeUpdate) => updateCharge(charge.id, patch);
+
+  let intent: Stripe.PaymentIntent;
+  try {
+    intent = await stripe.paymentIntents.create(
+      {
+        amount: pack.price * 100,
+        currency: "usd",
+        customer: customerId,
+        payment_method: paymentMethodId,
+        off_session: true,
+        confirm: true,
+        description: `${pack.name} auto top-up`,
+        metadata: {
+          type: "auto_topup",
+          auto_topup_charge_id: charge.id,
+          user_id: userId,
+          pack_key: pack.key,
+          credits: String(pack.credits),
+        },
+      },
+      { idempotencyKey: `auto-topup-${charge.id}` }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await finishCharge({ status: "failed", error: message });
+    console.error(`[low-balance] Auto top-up charge failed for user ${userId}:`, message);
+    return {
+      status: "blocked",
+      reason: error instanceof Stripe.errors.StripeCardError ? "your card was declined" : "the payment failed",
+    };
+  }
+
+  if (intent.status !== "succeeded") {
+    await finishCharge({ status: "failed", stripe_payment_intent_id: intent.id, error: `Payment ${intent.status}` });
+    return { status: "blocked", reason: "the payment needs your confirmation" };
+  }
+
+  // Record the payment before crediting it: if the allocation fails, the
+  // charge is no longer pending (which would block every later auto top-up)
+  // and reconcileAutoTopUps credits it on its next run
+  await finishCharge({ status: "succeeded", stripe_payment_intent_id: intent.id });
+  const newBalance = await creditCharge({ id: charge.id, user_id: userId, pack_key: pack.key, credits: pack.credits }, intent.id);
+
+  return { status: "charged", credits: pack.credits, newBalance };
+};
+
+const updateCharge = async (chargeId: string, patch: ChargeUpdate): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from("auto_topup_charges")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", chargeId);
+
+  if (error) {
+    throw new Error(`Failed to update auto top-up charge ${chargeId}: ${error.message}`);
+  }
+};
+
+/**
+ * Allocate a paid charge's credits and mark it credited. Safe to repeat: the
+ * allocation is idempotent on the PaymentIntent id. Returns the new balance.
+ */
+const creditCharge = async (charge: ChargeRow, paymentIntentId: string): Promise<number> => {
+  const packName = TOPUP_PACKS[charge.pack_key as TopUpPackKey]?.name ?? "Top-up";
+  const result = await allocateTopUpCredits(charge.user_id, charge.credits, `${packName} auto`, paymentIntentId);
+  await updateCharge(charge.id, { credited_at: new Date().toISOString() });
+  return result.newBalance;
+};
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+/** How long a charge may sit unsettled before reconciliation takes it over */
+const RECONCILE_AFTER_MINUTES = 10;
+
+type UnsettledCharge = ChargeRow & {
+  status: "pending" | "succeeded";
+  stripe_payment_intent_id: string | null;
+  created_at: string;
+};
+
+/**
+ * The PaymentIntent created for a charge, if any. Charges from before the
+ * charge id was put in the metadata are matched by user and creation time:
+ * only one charge is ever pending per user, and its PaymentIntent is created
+ * right after the row.
+ */
+const findChargeIntent = async (charge: UnsettledCharge): Promise<Stripe.PaymentIntent | null> => {
+  const { data: byChargeId } = await stripe.paymentIntents.search({
+    query: `metadata['auto_topup_charge_id']:'${charge.id}'`,
+    limit: 1,
+  });
+  if (byChargeId[0]) return byChargeId[0];
+
+  const createdAt = Math.floor(new Date(charge.created_at).getTime() / 1000);
+  const { data: byUser } = await stripe.paymentIntents.search({
+    query: `metadata['type']:'auto_topup' AND metadata['user_id']:'${charge.user_id}' AND created>=${createdAt} AND created<${createdAt + RECONCILE_AFTER_MINUTES * 60}`,
+    limit: 1,
+  });
+  return byUser[0] ?? null;
+};
+
+export type AutoTopUpReconciliation = {
+  credited: number;
+  failed: number;
+  errors: number;
+};
+
+/**
+ * Settle auto top-up charges that a low-balance run left unfinished (it timed
+ * out, or the allocation threw after the payment went through):
+ * - pending charges are looked up in Stripe by their charge id and marked
+ *   succeeded (then credited) or failed
+ * - succeeded charges that were never credited are credited
+ * Run by the auto-topup-reconciliation scheduled function.
+ */
+export const reconcileAutoTopUps = async (): Promise<AutoTopUpReconciliation> => {
+  const cutoff = new Date(Date.now() - RECONCILE_AFTER_MINUTES * 60 * 1000).toISOString();
+  const summary: AutoTopUpReconciliation = { credited: 0, failed: 0, errors: 0 };
+
+  const { data, error } = await supabaseAdmin
+    .from("auto_topup_charges")
+    .select("id, user_id, pack_key, credits, status, stripe_payment_intent_id, created_at")
+    .or("status.eq.pending,and(status.eq.succeeded,credited_at.is.null)")
+    .lt("updated_at", cutoff)
+    .order("created_at", { ascending: true })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch unsettled auto top-ups: ${error.message}`);
+  }
+
+  for (const charge of (data ?? []) as UnsettledCharge[]) {
+    try {
+      let paymentIntentId = charge.stripe_payment_intent_id;
+
+      if (charge.status === "pending") {
+        const intent = await findChargeIntent(charge);
+
+        if (!intent || intent.status !== "succeeded") {
+          await updateCharge(charge.id, {
+            status: "failed",
+            stripe_payment_intent_id: intent?.id,
+            error: intent ? `Payment ${intent.status}` : "No payment was created",
+          });
+          summary.failed++;
+          continue;
+        }
+
+        await updateCharge(charge.id, { status: "succeeded", stripe_payment_intent_id: intent.id });
+        paymentIntentId = intent.id;
+      }
+
+      if (!paymentIntentId) {
+        throw new Error("Succeeded charge has no PaymentIntent id");
+      }
+
+      await creditCharge(charge, paymentIntentId);
+      summary.credited++;
+    } catch (error) {
+      console.error(`[low-balance] Failed to reconcile auto top-up ${charge.id}:`, error);
+      summary.errors++;
+    }
+  }
+
+  return summary;
+};
+
+/** The customer's default payment method, or their first saved card. */
+const getSavedPaymentMethod = async (customerId: string): Promise<string | null> => {
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) return null;
+
+  const defaultMethod = customer.invoice_settings?.default_payment_method;
+  if (defaultMethod) {
+    return typeof defaultMethod === "string" ? defaultMethod : defaultMethod.id;
+  }
+
+  const { data: cards } = await stripe.paymentMethods.list({ customer: customerId, type: "card", limit: 1 });
+  return cards[0]?.id ?? null;
+};
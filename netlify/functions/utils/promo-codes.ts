@@ -0,0 +1,140 @@
+import type Stripe from "stripe";
+import { HttpError } from "./http";
+import { stripe } from "./stripe";
+
+/** An active Stripe promotion code with its coupon resolved */
+export type PromoCode = {
+  id: string;
+  code: string;
+  coupon: Stripe.Coupon;
+  minimumAmount: number | null;
+  minimumAmountCurrency: string | null;
+};
+
+/** Prices in major units (dollars) */
+export type DiscountedPrice = {
+  original: number;
+  discounted: number;
+  currency: string;
+};
+
+/** Codes are entered by hand; Stripe matches them case-insensitively */
+export const normalizePromoCode = (code: unknown): string | null => {
+  if (typeof code !== "string") return null;
+  const trimmed = code.trim();
+  return trimmed.length > 0 && trimmed.length <= 100 ? trimmed : null;
+};
+
+/**
+ * Look up a promotion code and check it can be redeemed by this customer.
+ * Throws 400 for unknown, expired, used-up or customer-restricted codes.
+ * Restrictions Stripe only knows at payment time (first_time_transaction)
+ * are enforced when the checkout session is created.
+ */
+export const findPromoCode = async (code: string, customerId: string): Promise<PromoCode> => {
+  const { data } = await stripe.promotionCodes.list({
+    code,
+    active: true,
+    limit: 1,
+    expand: ["data.promotion.coupon"],
+  });
+
+  const promo = data[0];
+  const coupon = promo?.promotion.coupon;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!promo || !coupon || typeof coupon === "string" || !coupon.valid) {
+    throw new HttpError(400, "This promo code is invalid or has expired", { code });
+  }
+
+  if (promo.expires_at !== null && promo.expires_at <= now) {
+    throw new HttpError(400, "This promo code has expired", { code });
+  }
+
+  if (promo.max_redemptions !== null && promo.times_redeemed >= promo.max_redemptions) {
+    throw new HttpError(400, "This promo code has already been fully redeemed", { code });
+  }
+
+  const restrictedTo = typeof promo.customer === "string" ? promo.customer : promo.customer?.id;
+  if (restrictedTo && restrictedTo !== customerId) {
+    throw new HttpError(400, "This promo code is invalid or has expired", { code });
+  }
+
+  return {
+    id: promo.id,
+    code: promo.code,
+    coupon,
+    minimumAmount: promo.restrictions.minimum_amount,
+    minimumAmountCurrency: promo.restrictions.minimum_amount_currency,
+  };
+};
+
+/**
+ * What one unit of `price` costs with the promo applied, or null when the
+ * coupon doesn't cover the price (product restriction, currency or minimum amount).
+ */
+export const discountPrice = (promo: PromoCode, price: Stripe.Price): DiscountedPrice | null => {
+  const unitAmount = price.unit_amount ?? 0;
+  const productId = typeof price.product === "string" ? price.product : price.product.id;
+  const { coupon } = promo;
+
+  if (coupon.applies_to && !coupon.applies_to.products.includes(productId)) return null;
+
+  if (
+    promo.minimumAmount !== null &&
+    (promo.minimumAmountCurrency ?? price.currency) === price.currency &&
+    unitAmount < promo.minimumAmount
+  ) {
+    return null;
+  }
+
+  let discounted = unitAmount;
+  if (coupon.percent_off !== null) {
+    discounted = Math.round(unitAmount * (1 - coupon.percent_off / 100));
+  } else if (coupon.amount_off !== null) {
+    if (coupon.currency !== price.currency) return null;
+    discounted = Math.max(unitAmount - coupon.amount_off, 0);
+  }
+
+  return {
+    original: unitAmount / 100,
+    discounted: discounted / 100,
+    currency: price.currency,
+  };
+};
+
+/**
+ * Validate a code for checkout of one price. Returns the promotion code to
+ * pass as the session's discount; throws 400 if it can't be used for the price.
+ */
+export const validatePromoCodeForPrice = async (
+  code: string,
+  customerId: string,
+  priceId: string
+): Promise<PromoCode> => {
+  const [promo, price] = await Promise.all([
+    findPromoCode(code, customerId),
+    stripe.prices.retrieve(priceId),
+  ]);
+
+  if (!discountPrice(promo, price)) {
+    throw new HttpError(400, "This promo code can't be used for this purchase", { code });
+  }
+
+  return promo;
+};
+
+/** Human-readable summary, e.g. "20% off for 3 months" or "$10 off" */
+export const describePromoCode = (promo: PromoCode, recurring: boolean): string => {
+  const { coupon } = promo;
+  const amount = coupon.percent_off !== null
+    ? `${coupon.percent_off}% off`
+    : `${new Intl.NumberFormat("en-US", { style: "currency", currency: (coupon.currency ?? "usd").toUpperCase() })
+        .format((coupon.amount_off ?? 0) / 100)} off`;
+
+  if (!recurring || coupon.duration === "once") {
+    return recurring ? `${amount} your first payment` : amount;
+  }
+  if (coupon.duration === "forever") return `${amount} every payment`;
+  return `${amount} for ${coupon.duration_in_months} month${coupon.duration_in_months === 1 ? "" : "s"}`;
+};
@@ -0,0 +1,320 @@
+import type Stripe from "stripe";
+import { supabaseAdmin } from "./supabase-admin";
+import {
+  stripe,
+  getActiveSubscriptions,
+  buildAppSubscriptionRecord,
+  syncAppSubscription,
+  type StripeSubscriptionsClient,
+} from "./stripe";
+import {
+  computeSubscriptionCap,
+  recalculateSubscriptionCap,
+  CAP_SUBSCRIPTION_STATUSES,
+} from "./credits";
+
+/** app_subscriptions statuses that should have a live Stripe subscription */
+const LIVE_STATUSES = new Set(["active", "trialing", "past_due", "paused"]);
+
+/** Columns compared between app_subscriptions and Stripe */
+const COMPARED_FIELDS = [
+  "stripe_subscription_id",
+  "stripe_price_id",
+  "status",
+  "current_period_start",
+  "current_period_end",
+  "cancel_at_period_end",
+] as const;
+
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export type AppSubscriptionRow = { app_key: string } & {
+  [K in ComparedField]: K extends "cancel_at_period_end" ? boolean : string | null;
+};
+
+export type SubscriptionDrift =
+  /** Live in Stripe, no row for the app */
+  | { kind: "missing_row"; appKey: string; stripeSubscriptionId: string }
+  /** Row differs from Stripe; `fields` lists each difference */
+  | {
+      kind: "field_mismatch";
+      appKey: string;
+      stripeSubscriptionId: string;
+      fields: { field: ComparedField; db: unknown; stripe: unknown }[];
+    }
+  /** Row is live but Stripe has no such subscription */
+  | { kind: "orphaned_row"; appKey: string; stripeSubscriptionId: string }
+  /** Several live Stripe subscriptions for one app; needs a human */
+  | { kind: "duplicate_app_subscription"; appKey: string; stripeSubscriptionIds: string[] };
+
+export type UserReconciliation = {
+  userId: string;
+  customerId: string;
+  drifts: SubscriptionDrift[];
+  /** Set when user_credits.subscription_cap differs from the cap Stripe implies */
+  cap: { db: number | null; expected: number } | null;
+};
+
+export type ReconciliationReport = {
+  dryRun: boolean;
+  usersChecked: number;
+  usersWithDrift: number;
+  fixed: number;
+  failed: { userId: string; error: string }[];
+  users: UserReconciliation[];
+};
+
+export type ReconcileOptions = {
+  /** Report drift without writing anything */
+  dryRun: boolean;
+  /** Stripe client to read subscriptions with (a mock in tests) */
+  stripeClient?: StripeSubscriptionsClient;
+  /** Only reconcile these users (default: every user with a Stripe customer) */
+  userIds?: string[];
+};
+
+const PAGE_SIZE = 200;
+
+const appKeyOf = (subscription: Stripe.Subscription) => subscription.metadata?.app_key ?? "keywords";
+
+/** Compare as instants, so "...Z" and "...+00:00" spellings of one time match */
+const sameValue = (field: ComparedField, db: unknown, expected: unknown) => {
+  if ((field === "current_period_start" || field === "current_period_end") && db && expected) {
+    return new Date(db as string).getTime() === new Date(expected as string).getTime();
+  }
+  return (db ?? null) === (expected ?? null);
+};
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a user's app_subscriptions rows and cap with their Stripe subscriptions.
+ *
+ * `stripeSubscriptions` holds the customer's live subscriptions plus the current
+ * state of any subscription a live row points at that is no longer live.
+ * `missingIds` are subscription ids Stripe doesn't know at all.
+ */
+export const diffUserSubscriptions = (
+  userId: string,
+  customerId: string,
+  rows: AppSubscriptionRow[],
+  stripeSubscriptions: Stripe.Subscription[],
+  missingIds: string[],
+  dbCap: number | null
+): UserReconciliation => {
+  const drifts: SubscriptionDrift[] = [];
+  const expectedByApp = new Map<string, ReturnType<typeof buildAppSubscriptionRecord>>();
+
+  const liveByApp = new Map<string, Stripe.Subscription[]>();
+  for (const subscription of stripeSubscriptions) {
+    if (!LIVE_STATUSES.has(subscription.status)) continue;
+    const list = liveByApp.get(appKeyOf(subscription)) ?? [];
+    list.push(subscription);
+    liveByApp.set(appKeyOf(subscription), list);
+  }
+
+  for (const [appKey, list] of liveByApp) {
+    if (list.length > 1) {
+      drifts.push({ kind: "duplicate_app_subscription", appKey, stripeSubscriptionIds: list.map((s) => s.id) });
+    }
+  }
+
+  const rowsByApp = new Map(rows.map((row) => [row.app_key, row]));
+
+  // Every live Stripe subscription should be mirrored by its app's row
+  for (const [appKey, list] of liveByApp) {
+    if (list.length > 1) continue;
+    const expected = buildAppSubscriptionRecord(userId, list[0], appKey);
+    expectedByApp.set(appKey, expected);
+
+    const row = rowsByApp.get(appKey);
+    if (!row) {
+      drifts.push({ kind: "missing_row", appKey, stripeSubscriptionId: list[0].id });
+      continue;
+    }
+
+    const fields = COMPARED_FIELDS
+      .filter((field) => !sameValue(field, row[field], expected[field]))
+      .map((field) => ({ field, db: row[field], stripe: expected[field] }));
+    if (fields.length > 0) {
+      drifts.push({ kind: "field_mismatch", appKey, stripeSubscriptionId: list[0].id, fields });
+    }
+  }
+
+  // Live rows without a live Stripe subscription: ended in Stripe, or unknown to it
+  for (const row of rows) {
+    if (!LIVE_STATUSES.has(row.status ?? "") || liveByApp.has(row.app_key) || !row.stripe_subscription_id) continue;
+
+    if (missingIds.includes(row.stripe_subscription_id)) {
+      drifts.push({ kind: "orphaned_row", appKey: row.app_key, stripeSubscriptionId: row.stripe_subscription_id });
+      expectedByApp.set(row.app_key, { ...row, status: "canceled" } as ReturnType<typeof buildAppSubscriptionRecord>);
+      continue;
+    }
+
+    const ended = stripeSubscriptions.find((s) => s.id === row.stripe_subscription_id);
+    if (!ended) continue;
+
+    const expected = buildAppSubscriptionRecord(userId, ended, row.app_key);
+    expectedByApp.set(row.app_key, expected);
+    const fields = COMPARED_FIELDS
+      .filter((field) => !sameValue(field, row[field], expected[field]))
+      .map((field) => ({ field, db: row[field], stripe: expected[field] }));
+    if (fields.length > 0) {
+      drifts.push({ kind: "field_mismatch", appKey: row.app_key, stripeSubscriptionId: ended.id, fields });
+    }
+  }
+
+  // Cap as it will be once rows match Stripe (rows Stripe can't speak for stay as they are)
+  const capRows = rows
+    .filter((row) => !expectedByApp.has(row.app_key))
+    .map((row) => ({ app_key: row.app_key, stripe_price_id: row.stripe_price_id, status: row.status ?? "" }))
+    .concat([...expectedByApp.values()].map((r) => ({ app_key: r.app_key, stripe_price_id: r.stripe_price_id, status: r.status })))
+    .filter((row) => CAP_SUBSCRIPTION_STATUSES.includes(row.status));
+  const expectedCap = computeSubscriptionCap(capRows);
+
+  return {
+    userId,
+    customerId,
+    drifts,
+    cap: dbCap === expectedCap ? null : { db: dbCap, expected: expectedCap },
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Run
+// ---------------------------------------------------------------------------
+
+/**
+ * Reconcile one user: load both sides, diff, and unless `dryRun` make the rows
+ * and cap match Stripe. Duplicate subscriptions are only reported.
+ */
+export const reconcileUser = async (
+  userId: string,
+  customerId: string,
+  dryRun: boolean,
+  client: StripeSubscriptionsClient = stripe
+): Promise<UserReconciliation> => {
+  const [liveSubscriptions, { data: rows, error: rowsError }, { data: credits }] = await Promise.all([
+    getActiveSubscriptions(customerId, client),
+    supabaseAdmin
+      .from("app_subscriptions")
+      .select(`app_key, ${COMPARED_FIELDS.join(", ")}`)
+      .eq("user_id", userId)
+      .returns<AppSubscriptionRow[]>(),
+    supabaseAdmin
+      .from("user_credits")
+      .select("subscription_cap")
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (rowsError) {
+    throw new Error(`Failed to load app_subscriptions: ${rowsError.message}`);
+  }
+
+  // Rows that look live but whose subscription Stripe no longer lists as live
+  const liveIds = new Set(liveSubscriptions.map((s) => s.id));
+  const staleIds = (rows ?? [])
+    .filter((row) => LIVE_STATUSES.has(row.status ?? "") && row.stripe_subscription_id?.startsWith("sub_"))
+    .map((row) => row.stripe_subscription_id as string)
+    .filter((id) => !liveIds.has(id));
+
+  const endedSubscriptions: Stripe.Subscription[] = [];
+  const missingIds: string[] = [];
+  for (const id of staleIds) {
+    try {
+      endedSubscriptions.push(await client.subscriptions.retrieve(id));
+    } catch (err) {
+      if ((err as { statusCode?: number }).statusCode === 404) {
+        missingIds.push(id);
+      } else {
+        throw err;
+      }
+    }
+  }
+
+  const result = diffUserSubscriptions(
+    userId,
+    customerId,
+    rows ?? [],
+    [...liveSubscriptions, ...endedSubscriptions],
+    missingIds,
+    (credits?.subscription_cap as number | undefined) ?? null
+  );
+
+  if (dryRun || (result.drifts.length === 0 && !result.cap)) {
+    return result;
+  }
+
+  const allSubscriptions = [...liveSubscriptions, ...endedSubscriptions];
+  for (const drift of result.drifts) {
+    if (drift.kind === "missing_row" || drift.kind === "field_mismatch") {
+      const subscription = allSubscriptions.find((s) => s.id === drift.stripeSubscriptionId);
+      if (subscription) await syncAppSubscription(userId, subscription, drift.appKey);
+    } else if (drift.kind === "orphaned_row") {
+      await supabaseAdmin
+        .from("app_subscriptions")
+        .update({ status: "canceled", updated_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("stripe_subscription_id", drift.stripeSubscriptionId);
+    }
+  }
+
+  await recalculateSubscriptionCap(userId);
+  return result;
+};
+
+/**
+ * Reconcile every user with a Stripe customer (or just `userIds`).
+ * Failures for one user are recorded in the report and don't stop the run.
+ */
+export const reconcileSubscriptions = async (options: ReconcileOptions): Promise<ReconciliationReport> => {
+  const client = options.stripeClient ?? stripe;
+  const report: ReconciliationReport = {
+    dryRun: options.dryRun,
+    usersChecked: 0,
+    usersWithDrift: 0,
+    fixed: 0,
+    failed: [],
+    users: [],
+  };
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from("profiles")
+      .select("id, stripe_customer_id")
+      .not("stripe_customer_id", "is", null)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (options.userIds) {
+      query = query.in("id", options.userIds);
+    }
+
+    const { data: profiles, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load customers: ${error.message}`);
+    }
+    if (!profiles || profiles.length === 0) break;
+
+    for (const profile of profiles) {
+      report.usersChecked++;
+      try {
+        const result = await reconcileUser(profile.id, profile.stripe_customer_id, options.dryRun, client);
+        if (result.drifts.length > 0 || result.cap) {
+          report.usersWithDrift++;
+          report.users.push(result);
+          if (!options.dryRun) report.fixed++;
+        }
+      } catch (err) {
+        report.failed.push({ userId: profile.id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    if (profiles.length < PAGE_SIZE) break;
+  }
+
+  return report;
+};
@@ -0,0 +1,309 @@
+import { createHash } from "crypto";
+import { supabaseAdmin } from "./supabase-admin";
+import { applyDiscount, pauseSubscription } from "./stripe";
+import { allocateRetentionBonus } from "./credits";
+import { getStripeEnv } from "../../../lib/stripe-env";
+
+export type OfferType = "discount_3mo" | "discount_1mo" | "pause" | "credits" | "none";
+
+export type RetentionOffer = {
+  ruleId: string;
+  variantKey: string;
+  offerType: OfferType;
+  offerDetails: Record<string, unknown>;
+};
+
+export type OfferContext = {
+  userId: string;
+  appKey: string;
+  reason: string;
+  planTier: string | null;
+  monthsSubscribed: number;
+};
+
+export type OfferEvent = "shown" | "held_out" | "accepted" | "cancelled_anyway";
+
+export type RuleRow = {
+  id: string;
+  reason: string | null;
+  app_key: string | null;
+  plan_tier: string | null;
+  min_months_subscribed: number;
+  max_prior_offers: number;
+  retention_offer_variants: {
+    variant_key: string;
+    weight: number;
+    offer_type: OfferType;
+    offer_details: Record<string, unknown>;
+  }[];
+};
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the retention offer for a cancellation from retention_offer_rules.
+ *
+ * The first active rule (by priority) whose conditions all hold is used, and the
+ * user's variant within it is fixed by a hash of user id and rule id.
+ * Returns null when no rule matches; a hold-out variant comes back with
+ * offerType "none".
+ */
+export const selectRetentionOffer = async (ctx: OfferContext): Promise<RetentionOffer | null> => {
+  const [{ data: rules, error }, priorOffers] = await Promise.all([
+    supabaseAdmin
+      .from("retention_offer_rules")
+      .select(
+        "id, reason, app_key, plan_tier, min_months_subscribed, max_prior_offers, retention_offer_variants(variant_key, weight, offer_type, offer_details)"
+      )
+      .eq("active", true)
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true })
+      .returns<RuleRow[]>(),
+    countAcceptedOffers(ctx.userId),
+  ]);
+
+  if (error) {
+    console.error("[retention-offers] Failed to load rules:", error);
+    return null;
+  }
+
+  const rule = matchRetentionRule(rules ?? [], ctx, priorOffers);
+  if (!rule) return null;
+
+  const variant = pickVariant(ctx.userId, rule.id, rule.retention_offer_variants);
+
+  return {
+    ruleId: rule.id,
+    variantKey: variant.variant_key,
+    offerType: variant.offer_type,
+    offerDetails: variant.offer_details,
+  };
+};
+
+/**
+ * The first rule (in the given order) whose conditions all hold for the
+ * cancellation, given how many offers the user has accepted before.
+ */
+export const matchRetentionRule = (
+  rules: RuleRow[],
+  ctx: OfferContext,
+  priorOffers: number
+): RuleRow | undefined =>
+  rules.find(
+    (r) =>
+      (r.reason === null || r.reason === ctx.reason) &&
+      (r.app_key === null || r.app_key === ctx.appKey) &&
+      (r.plan_tier === null || r.plan_tier === ctx.planTier) &&
+      ctx.monthsSubscribed >= r.min_months_subscribed &&
+      priorOffers <= r.max_prior_offers &&
+      r.retention_offer_variants.some((v) => v.weight > 0)
+  );
+
+/** Weighted pick that is stable for a user within a rule. */
+export const pickVariant = <T extends { variant_key: string; weight: number }>(
+  userId: string,
+  ruleId: string,
+  variants: T[]
+): T => {
+  const weighted = variants
+    .filter((v) => v.weight > 0)
+    .sort((a, b) => a.variant_key.localeCompare(b.variant_key));
+  const totalWeight = weighted.reduce((sum, v) => sum + v.weight, 0);
+  const bucket = createHash("sha256").update(`${userId}:${ruleId}`).digest().readUInt32BE(0) % totalWeight;
+
+  let cumulative = 0;
+  for (const variant of weighted) {
+    cumulative += variant.weight;
+    if (bucket < cumulative) return variant;
+  }
+  return weighted[weighted.length - 1];
+};
+
+/** How many retention offers the user has accepted, across all apps. */
+const countAcceptedOffers = async (userId: string): Promise<number> => {
+  const { count, error } = await supabaseAdmin
+    .from("cancellation_offers")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("status", "accepted");
+
+  if (error) {
+    throw new Error(`Failed to count accepted offers: ${error.message}`);
+  }
+  return count ?? 0;
+};
+
+// ---------------------------------------------------------------------------
+// Offer lifecycle
+// ---------------------------------------------------------------------------
+
+/**
+ * Mark the user's unanswered offers superseded before a new one is shown,
+ * so only the latest offer can be accepted.
+ */
+export const supersedeOpenOffers = async (userId: string): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from("cancellation_offers")
+    .update({ status: "superseded", responded_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("status", "offered");
+
+  if (error) {
+    throw new Error(`Failed to supersede open offers: ${error.message}`);
+  }
+};
+
+/**
+ * Claim an offer for acceptance, before anything is applied. Returns false
+ * if it was already answered or superseded, or if the user has used up the
+ * accepted offers its rule allows (max_prior_offers, as at selection; a rule
+ * that has since been deleted allows none).
+ */
+export const claimRetentionOffer = async (
+  userId: string,
+  offer: { id: string; rule_id: string | null }
+): Promise<boolean> => {
+  let maxPriorOffers = 0;
+  if (offer.rule_id) {
+    const { data: rule } = await supabaseAdmin
+      .from("retention_offer_rules")
+      .select("max_prior_offers")
+      .eq("id", offer.rule_id)
+      .maybeSingle<{ max_prior_offers: number }>();
+    maxPriorOffers = rule?.max_prior_offers ?? 0;
+  }
+
+  if ((await countAcceptedOffers(userId)) > maxPriorOffers) return false;
+
+  const { data: claimed, error } = await supabaseAdmin
+    .from("cancellation_offers")
+    .update({ status: "accepted", responded_at: new Date().toISOString() })
+    .eq("id", offer.id)
+    .eq("user_id", userId)
+    .eq("status", "offered")
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to claim offer: ${error.message}`);
+  }
+  if (!claimed?.length) return false;
+
+  // Another offer accepted at the same moment also passed the check above;
+  // the count now includes both, so neither keeps its claim
+  if ((await countAcceptedOffers(userId)) > maxPriorOffers + 1) {
+    await supabaseAdmin.from("cancellation_offers").update({ status: "superseded" }).eq("id", offer.id);
+    return false;
+  }
+
+  return true;
+};
+
+/** Hand a claimed offer back when applying it failed, so the user can try again. */
+export const releaseRetentionOffer = async (offerId: string): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from("cancellation_offers")
+    .update({ status: "offered", responded_at: null })
+    .eq("id", offerId)
+    .eq("status", "accepted");
+
+  if (error) {
+    console.error("[retention-offers] Failed to release offer:", error);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Applying offers
+// ---------------------------------------------------------------------------
+
+/** Resolve an offer's coupon: a literal coupon_id, or the env var named by coupon_env. */
+const resolveCouponId = (details: Record<string, unknown>): string => {
+  if (typeof details.coupon_id === "string") return details.coupon_id;
+  if (typeof details.coupon_env === "string" && details.coupon_env.startsWith("STRIPE_COUPON_")) {
+    return getStripeEnv(details.coupon_env);
+  }
+  return "";
+};
+
+/** Apply an accepted offer to the subscription or the user's balance. */
+export const applyRetentionOffer = async (
+  userId: string,
+  subscriptionId: string,
+  offerId: string,
+  offerType: OfferType,
+  details: Record<string, unknown>
+): Promise<void> => {
+  switch (offerType) {
+    case "discount_3mo":
+    case "discount_1mo": {
+      const couponId = resolveCouponId(details);
+      if (!couponId) {
+        throw new Error(`No coupon configured for ${offerType} offer`);
+      }
+      await applyDiscount(subscriptionId, couponId);
+      break;
+    }
+    case "pause": {
+      await pauseSubscription(subscriptionId, (details.pause_months as number) ?? 1);
+      break;
+    }
+    case "credits": {
+      await allocateRetentionBonus(userId, (details.credit_amount as number) ?? 50, `retention_offer:${offerId}`);
+      break;
+    }
+  }
+};
+
+/** Confirmation shown after an offer is accepted. */
+export const getAcceptedMessage = (offerType: OfferType, details: Record<string, unknown>): string => {
+  switch (offerType) {
+    case "discount_3mo":
+    case "discount_1mo": {
+      const percent = (details.percent_off as number) ?? (offerType === "discount_3mo" ? 20 : 25);
+      const months = (details.duration_months as number) ?? (offerType === "discount_3mo" ? 3 : 1);
+      return months === 1
+        ? `Your subscription will continue at ${percent}% off for the next month.`
+        : `Your subscription will continue at ${percent}% off for the next ${months} months.`;
+    }
+    case "pause": {
+      const months = (details.pause_months as number) ?? 1;
+      return `Your subscription has been paused for ${months} month${months > 1 ? "s" : ""}. It will resume automatically.`;
+    }
+    case "credits":
+      return `${(details.credit_amount as number) ?? 50} bonus credits have been added to your account.`;
+    default:
+      return "Your offer has been applied.";
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+/** Record a step of the retention flow in retention_offer_events. Never throws. */
+export const recordOfferEvent = async (
+  event: OfferEvent,
+  data: {
+    userId: string;
+    appKey: string;
+    reason: string;
+    offerId?: string | null;
+    ruleId?: string | null;
+    variantKey?: string | null;
+  }
+): Promise<void> => {
+  const { error } = await supabaseAdmin.from("retention_offer_events").insert({
+    user_id: data.userId,
+    app_key: data.appKey,
+    reason: data.reason,
+    offer_id: data.offerId ?? null,
+    rule_id: data.ruleId ?? null,
+    variant_key: data.variantKey ?? null,
+    event,
+  });
+
+  if (error) {
+    console.error(`[retention-offers] Failed to record ${event} event:`, error);
+  }
+};
@@ -9,6 +9,7 @@ import {
   getDualTrialAppKeys,
   getDualTrialTiers,
   getTrialCreditsForApp,
+  type TopUpPackKey,
 } from "../../../config/plans";
 import { getStripeEnv } from "../../../lib/stripe-env";
 
@@ -75,27 +76,61 @@ export const getOrCreateStripeCustomer = async (
 // Checkout sessions
 // ---------------------------------------------------------------------------
 
+/** A validated promotion code to redeem at checkout (see utils/promo-codes.ts) */
+export type CheckoutPromoCode = { id: string; code: string };
+
+/**
+ * Stripe re-checks a promotion code when the session is created (e.g.
+ * first-time-customer codes); surface its refusal as a 400 for the user.
+ */
+const withPromoCodeErrors = async <T>(promoCode: CheckoutPromoCode | undefined, create: () => Promise<T>): Promise<T> => {
+  try {
+    return await create();
+  } catch (err) {
+    if (promoCode && err instanceof Stripe.errors.StripeInvalidRequestError) {
+      throw new HttpError(400, err.message, { code: promoCode.code });
+    }
+    throw err;
+  }
+};
+
 /**
- * Create a Stripe Checkout session for a Keywords app subscription.
+ * Create a Stripe Checkout session for an app subscription.
+ * The redeemed promo code is stored in the subscription's metadata for attribution.
  */
 export const createCheckoutSession = async (
   customerId: string,
   priceId: string,
   appKey: string,
   successUrl: string,
-  cancelUrl: string
+  cancelUrl: string,
+  promoCode?: CheckoutPromoCode
 ): Promise<Stripe.Checkout.Session> => {
-  return stripe.checkout.sessions.create({
-    customer: customerId,
-    mode: "subscription",
-    line_items: [{ price: priceId, quantity: 1 }],
-    success_url: successUrl,
-    cancel_url: cancelUrl,
-    metadata: { type: "subscription", app_key: appKey },
-    subscription_data: {
-      metadata: { app_key: appKey },
-    },
-  });
+  const promoMetadata: Record<string, string> = promoCode ? { promo_code: promoCode.code } : {};
+
+  return withPromoCodeErrors(promoCode, () =>
+    stripe.checkout.sessions.create({
+      customer: customerId,
+      mode: "subscription",
+      line_items: [{ price: priceId, quantity: 1 }],
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      ...(promoCode && { discounts: [{ promotion_code: promoCode.id }] }),
+      metadata: { type: "subscription", app_key: appKey, ...promoMetadata },
+      subscription_data: {
+        metadata: { app_key: appKey, ...promoMetadata },
+      },
+    })
+  );
+};
+
+/** Stripe price for each top-up pack */
+export const TOP_UP_PRICE_IDS: Record<TopUpPackKey, string> = {
+  starter: getStripeEnv("STRIPE_PRICE_TOPUP_STARTER", "price_topup_starter"),
+  builder: getStripeEnv("STRIPE_PRICE_TOPUP_BUILDER", "price_topup_builder"),
+  power: getStripeEnv("STRIPE_PRICE_TOPUP_POWER", "price_topup_power"),
+  pro: getStripeEnv("STRIPE_PRICE_TOPUP_PRO", "price_topup_pro"),
+  max: getStripeEnv("STRIPE_PRICE_TOPUP_MAX", "price_topup_max"),
 };
 
 /**
@@ -107,7 +142,39 @@ export const createTopUpCheckoutSession = async (
   credits: number,
   packName: string,
   successUrl: string,
-  cancelUrl: string
+  cancelUrl: string,
+  promoCode?: CheckoutPromoCode
+): Promise<Stripe.Checkout.Session> => {
+  return withPromoCodeErrors(promoCode, () =>
+    stripe.checkout.sessions.create({
+      customer: customerId,
+      mode: "payment",
+      line_items: [{ price: priceId, quantity: 1 }],
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      ...(promoCode && { discounts: [{ promotion_code: promoCode.id }] }),
+      metadata: {
+        type: "topup",
+        credits: String(credits),
+        pack_name: packName,
+        ...(promoCode ? { promo_code: promoCode.code } : {}),
+      },
+    })
+  );
+};
+
+/**
+ * Create a Stripe Checkout session for a gift code worth a top-up pack.
+ * The code is minted by the checkout.session.completed webhook.
+ */
+export const createGiftCheckoutSession = async (
+  customerId: string,
+  priceId: string,
+  credits: number,
+  packName: string,
+  successUrl: string,
+  cancelUrl: string,
+  gift: { recipientEmail: string | null; message: string | null }
 ): Promise<Stripe.Checkout.Session> => {
   return stripe.checkout.sessions.create({
     customer: customerId,
@@ -116,9 +183,11 @@ export const createTopUpCheckoutSession = async (
     success_url: successUrl,
     cancel_url: cancelUrl,
     metadata: {
-      type: "topup",
+      type: "gift",
       credits: String(credits),
       pack_name: packName,
+      ...(gift.recipientEmail ? { recipient_email: gift.recipientEmail } : {}),
+      ...(gift.message ? { gift_message: gift.message } : {}),
     },
   });
 };
@@ -254,11 +323,14 @@ export const createPublicTrialCheckoutSession = async (
  */
 export const createPortalSession = async (
   customerId: string,
-  returnUrl: string
+  returnUrl: string,
+  flow?: "payment_method_update"
 ): Promise<Stripe.BillingPortal.Session> => {
   return stripe.billingPortal.sessions.create({
     customer: customerId,
     return_url: returnUrl,
+    // Deep link straight to one task instead of the portal home
+    ...(flow && { flow_data: { type: flow } }),
   });
 };
 
@@ -266,13 +338,17 @@ export const createPortalSession = async (
 // Subscription queries
 // ---------------------------------------------------------------------------
 
+/** The part of the Stripe client used to read subscriptions (swappable for a mock in tests) */
+export type StripeSubscriptionsClient = Pick<Stripe, "subscriptions">;
+
 /**
  * Get ALL active subscriptions for a customer (across all apps).
  */
 export const getActiveSubscriptions = async (
-  customerId: string
+  customerId: string,
+  client: StripeSubscriptionsClient = stripe
 ): Promise<Stripe.Subscription[]> => {
-  const subscriptions = await stripe.subscriptions.list({
+  const subscriptions = await client.subscriptions.list({
     customer: customerId,
     limit: 20,
     expand: ["data.default_payment_method", "data.latest_invoice"],
@@ -282,6 +358,47 @@ export const getActiveSubscriptions = async (
   return subscriptions.data.filter((s) => activeStatuses.has(s.status));
 };
 
+/**
+ * Retrieve a subscription only if it belongs to the given customer.
+ * Returns null for unknown ids and other customers' subscriptions alike.
+ */
+export const getCustomerSubscription = async (
+  customerId: string,
+  subscriptionId: string
+): Promise<Stripe.Subscription | null> => {
+  let subscription: Stripe.Subscription;
+  try {
+    subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  } catch {
+    return null;
+  }
+
+  const subscriptionCustomer = typeof subscription.customer === "string"
+    ? subscription.customer
+    : subscription.customer.id;
+
+  return subscriptionCustomer === customerId ? subscription : null;
+};
+
+const CANCELLABLE_STATUSES = new Set(["active", "trialing", "past_due", "paused"]);
+
+/**
+ * Whether a subscription can still be cancelled from the dashboard and, when
+ * appKey is given, is that app's (subscriptions without app_key are Keywords).
+ */
+export const isCancellableSubscription = (subscription: Stripe.Subscription, appKey?: string): boolean =>
+  CANCELLABLE_STATUSES.has(subscription.status) &&
+  (!appKey || (subscription.metadata?.app_key ?? "keywords") === appKey);
+
+const REACTIVATABLE_STATUSES = new Set(["active", "trialing", "past_due"]);
+
+/**
+ * Whether a subscription set to cancel at period end can still be kept.
+ * Paused subscriptions have to be resumed instead.
+ */
+export const isReactivatableSubscription = (subscription: Stripe.Subscription): boolean =>
+  REACTIVATABLE_STATUSES.has(subscription.status);
+
 // ---------------------------------------------------------------------------
 // Subscription management
 // ---------------------------------------------------------------------------
@@ -297,6 +414,17 @@ export const cancelSubscription = async (
   });
 };
 
+/**
+ * Undo a pending cancel-at-period-end.
+ */
+export const reactivateSubscription = async (
+  subscriptionId: string
+): Promise<Stripe.Subscription> => {
+  return stripe.subscriptions.update(subscriptionId, {
+    cancel_at_period_end: false,
+  });
+};
+
 /**
  * Apply a coupon/discount to a subscription.
  * Stripe v20 uses `discounts` array instead of `coupon`.
@@ -311,14 +439,15 @@ export const applyDiscount = async (
 };
 
 /**
- * Pause a subscription for 1 billing cycle.
+ * Pause a subscription for `months` months (default 1).
  * Uses Stripe's pause_collection to stop invoicing while keeping the sub active.
  */
 export const pauseSubscription = async (
-  subscriptionId: string
+  subscriptionId: string,
+  months = 1
 ): Promise<Stripe.Subscription> => {
-  // Resume ~1 month from now
-  const resumeAt = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60;
+  // Resume ~`months` months from now
+  const resumeAt = Math.floor(Date.now() / 1000) + months * 30 * 24 * 60 * 60;
 
   return stripe.subscriptions.update(subscriptionId, {
     pause_collection: {
@@ -339,6 +468,102 @@ export const resumeSubscription = async (
   } as Stripe.SubscriptionUpdateParams);
 };
 
+export type PriceChangePreview = {
+  /** Pass back when confirming so Stripe prorates exactly as previewed */
+  prorationDate: number;
+  currency: string;
+  /** Charged immediately (upgrades are invoiced right away) */
+  chargeNow: number;
+  /** Net proration: positive for an upgrade, negative credit for a downgrade */
+  prorationAmount: number;
+  /** Total of the previewed invoice (the immediate one for upgrades, the next renewal otherwise) */
+  invoiceTotal: number;
+  invoiceDate: string | null;
+  lines: { description: string | null; amount: number; proration: boolean }[];
+};
+
+/** How old a preview's proration date may be when confirming */
+const MAX_PREVIEW_AGE_SECONDS = 30 * 60;
+
+/**
+ * Whether a preview's prorationDate can still confirm the change it previewed:
+ * whole seconds, not in the future and at most MAX_PREVIEW_AGE_SECONDS old.
+ */
+export const isUsableProrationDate = (prorationDate: number, nowSeconds: number): boolean =>
+  Number.isInteger(prorationDate) && prorationDate <= nowSeconds && nowSeconds - prorationDate <= MAX_PREVIEW_AGE_SECONDS;
+
+/**
+ * Upgrades and interval switches are invoiced immediately so the customer pays the
+ * prorated difference now; downgrades leave a proration credit on the next invoice.
+ */
+const priceChangeProrationBehavior = (invoiceImmediately: boolean) =>
+  invoiceImmediately ? "always_invoice" as const : "create_prorations" as const;
+
+/**
+ * Preview switching a single-item subscription to another price, from Stripe's
+ * invoice preview for the change. Amounts are in major currency units.
+ */
+export const previewSubscriptionPriceChange = async (
+  subscription: Stripe.Subscription,
+  newPriceId: string,
+  invoiceImmediately: boolean,
+  prorationDate = Math.floor(Date.now() / 1000)
+): Promise<PriceChangePreview> => {
+  const item = subscription.items.data[0];
+  const customerId = typeof subscription.customer === "string"
+    ? subscription.customer
+    : subscription.customer.id;
+
+  const invoice = await stripe.invoices.createPreview({
+    customer: customerId,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: item.id, price: newPriceId }],
+      proration_behavior: priceChangeProrationBehavior(invoiceImmediately),
+      proration_date: prorationDate,
+    },
+  });
+
+  const lines = invoice.lines.data.map((line) => ({
+    description: line.description,
+    amount: line.amount / 100,
+    proration: Boolean(line.parent?.subscription_item_details?.proration),
+  }));
+
+  return {
+    prorationDate,
+    currency: invoice.currency,
+    chargeNow: invoiceImmediately ? invoice.amount_due / 100 : 0,
+    prorationAmount: lines.filter((l) => l.proration).reduce((sum, l) => sum + l.amount, 0),
+    invoiceTotal: invoice.total / 100,
+    invoiceDate: invoice.period_end ? new Date(invoice.period_end * 1000).toISOString() : null,
+    lines,
+  };
+};
+
+/**
+ * Switch a single-item subscription to another price with the same proration
+ * behaviour as previewSubscriptionPriceChange.
+ */
+export const changeSubscriptionPrice = async (
+  subscription: Stripe.Subscription,
+  newPriceId: string,
+  invoiceImmediately: boolean,
+  prorationDate: number,
+  metadata: Record<string, string> = {}
+): Promise<Stripe.Subscription> => {
+  const item = subscription.items.data[0];
+
+  return stripe.subscriptions.update(subscription.id, {
+    items: [{ id: item.id, price: newPriceId }],
+    proration_behavior: priceChangeProrationBehavior(invoiceImmediately),
+    proration_date: prorationDate,
+    payment_behavior: "error_if_incomplete",
+    metadata: { ...subscription.metadata, ...metadata },
+    expand: ["latest_invoice"],
+  });
+};
+
 // ---------------------------------------------------------------------------
 // Invoices
 // ---------------------------------------------------------------------------
@@ -409,37 +634,6 @@ export const constructWebhookEvent = (
   return stripe.webhooks.constructEvent(body, signature, webhookSecret);
 };
 
-// ---------------------------------------------------------------------------
-// Idempotency: track processed webhook events
-// ---------------------------------------------------------------------------
-
-/**
- * Check if a Stripe event has already been processed. Returns true if already handled.
- */
-export const isEventProcessed = async (eventId: string): Promise<boolean> => {
-  const { data } = await supabaseAdmin
-    .from("stripe_events")
-    .select("id")
-    .eq("id", eventId)
-    .maybeSingle();
-  return !!data;
-};
-
-/**
- * Mark a Stripe event as processed.
- */
-export const markEventProcessed = async (
-  eventId: string,
-  eventType: string,
-  payload?: unknown
-): Promise<void> => {
-  await supabaseAdmin.from("stripe_events").insert({
-    id: eventId,
-    type: eventType,
-    payload: payload ?? null,
-  });
-};
-
 // ---------------------------------------------------------------------------
 // Sync helpers
 // ---------------------------------------------------------------------------
@@ -453,16 +647,35 @@ export const syncAppSubscription = async (
   subscription: Stripe.Subscription,
   appKey: string
 ): Promise<void> => {
+  await supabaseAdmin
+    .from("app_subscriptions")
+    .upsert(buildAppSubscriptionRecord(userId, subscription, appKey), { onConflict: "user_id,app_key" });
+};
+
+/**
+ * The app_subscriptions row syncAppSubscription writes for a Stripe subscription.
+ */
+export const buildAppSubscriptionRecord = (
+  userId: string,
+  subscription: Stripe.Subscription,
+  appKey: string
+) => {
   const priceId = subscription.items.data[0]?.price?.id ?? null;
   const amountCents = subscription.items.data[0]?.price?.unit_amount ?? null;
   const isPaused = subscription.pause_collection !== null;
   const status = isPaused ? "paused" : subscription.status;
 
-  // Get period dates from latest invoice if expanded, otherwise use start_date
+  // Prefer the item's billing period: after a mid-cycle plan change the latest
+  // invoice is the proration invoice, whose period is not the billing period.
+  // Otherwise use the latest invoice if expanded, then start_date.
   let periodStart: string | null = null;
   let periodEnd: string | null = null;
+  const firstItem = subscription.items.data[0];
 
-  if (subscription.latest_invoice && typeof subscription.latest_invoice === "object") {
+  if (firstItem?.current_period_start && firstItem?.current_period_end) {
+    periodStart = new Date(firstItem.current_period_start * 1000).toISOString();
+    periodEnd = new Date(firstItem.current_period_end * 1000).toISOString();
+  } else if (subscription.latest_invoice && typeof subscription.latest_invoice === "object") {
     const invoice = subscription.latest_invoice as Stripe.Invoice;
     if (invoice.period_start) {
       periodStart = new Date(invoice.period_start * 1000).toISOString();
@@ -502,12 +715,12 @@ export const syncAppSubscription = async (
     })(),
     amount_cents: amountCents,
     currency: subscription.currency ?? "usd",
+    // Set at checkout when a promo code was redeemed (attribution)
+    promo_code: subscription.metadata?.promo_code ?? null,
     updated_at: new Date().toISOString(),
   };
 
-  await supabaseAdmin
-    .from("app_subscriptions")
-    .upsert(record, { onConflict: "user_id,app_key" });
+  return record;
 };
 
 /**
@@ -1,6 +1,8 @@
 import type { HandlerEvent } from "@netlify/functions";
 import { createClient } from "@supabase/supabase-js";
 import { HttpError } from "./http";
+import { JWTService, type JWTPayload } from "../../../lib/auth/jwt";
+import { checkSessionStatus, SessionExpiredError } from "../../../lib/auth/session-check";
 
 const supabaseUrl = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -33,29 +35,20 @@ const parseCookies = (cookieHeader: string | undefined): Record<string, string>
 };
 
 /**
- * Verify and decode the bfeai_session JWT token
- * Uses manual JWT verification (no external library needed for HS256)
+ * Verify the bfeai_session JWT token: signature, expiry, issuer and audience,
+ * the same checks accounts makes (JWTService.verifySSOToken).
+ * Tokens without a jti can't be checked against user_sessions and are rejected.
  */
-const verifyBfeaiToken = (token: string): { userId: string; email: string } | null => {
+const verifyBfeaiToken = (token: string): JWTPayload | null => {
   try {
-    const parts = token.split('.');
-    if (parts.length !== 3) return null;
+    const payload = JWTService.verifySSOToken(token);
 
-    // Decode payload (base64url to base64)
-    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
-    const payload = JSON.parse(Buffer.from(base64, 'base64').toString('utf-8'));
-
-    // Check expiration
-    if (payload.exp * 1000 < Date.now()) {
-      console.log('[requireAuth] SSO token expired');
+    if (!payload.jti) {
+      console.log('[requireAuth] SSO token has no session id');
       return null;
     }
 
-    // Return user info from payload
-    return {
-      userId: payload.userId || payload.sub,
-      email: payload.email,
-    };
+    return payload;
   } catch (error) {
     console.error('[requireAuth] SSO token verification failed:', error);
     return null;
@@ -88,6 +81,19 @@ export const requireAuth = async (event: HandlerEvent) => {
         console.error('[requireAuth] Failed to fetch user from Supabase:', userError?.message);
         throw new HttpError(401, "Invalid SSO session");
       }
+
+      // Reject sessions signed out from Settings or idle past the user's
+      // session_timeout_minutes, as the accounts app does; otherwise the
+      // request counts as activity
+      try {
+        await checkSessionStatus(supabaseAdmin, tokenData, true);
+      } catch (error) {
+        if (error instanceof SessionExpiredError) {
+          throw new HttpError(401, error.message, { reason: error.reason });
+        }
+        throw error;
+      }
+
       return { user: userData.user, accessToken: ssoToken };
     }
   }
@@ -95,4 +101,16 @@ export const requireAuth = async (event: HandlerEvent) => {
   throw new HttpError(401, "Missing authentication token");
 };
 
+/**
+ * Require an authenticated admin. The role is read from app_metadata, which
+ * (unlike user_metadata) users cannot edit themselves.
+ */
+export const requireAdmin = async (event: HandlerEvent) => {
+  const auth = await requireAuth(event);
+
+  if (auth.user.app_metadata?.role !== "admin") {
+    throw new HttpError(403, "Admin access required");
+  }
 
+  return auth;
+};
@@ -0,0 +1,142 @@
+import type Stripe from "stripe";
+import { supabaseAdmin } from "./supabase-admin";
+import { dispatchStripeEvent } from "./stripe-event-handlers";
+
+export type WebhookEventStatus = "received" | "processing" | "succeeded" | "failed" | "dead";
+
+export type WebhookEventRow = {
+  id: string;
+  type: string;
+  payload: Stripe.Event | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+};
+
+export type WebhookEventOutcome = {
+  eventId: string;
+  status: WebhookEventStatus | "skipped";
+  attempts: number;
+  error?: string;
+};
+
+/** After this many failed attempts an event is dead-lettered */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/** Backoff after the nth failed attempt: 5 min, 10, 20, ... capped at 12 hours */
+export const webhookRetryDelayMs = (attempts: number): number =>
+  Math.min(5 * 2 ** Math.max(attempts - 1, 0), 12 * 60) * 60 * 1000;
+
+const EVENT_COLUMNS = "id, type, payload, status, attempts, last_error, next_attempt_at";
+
+/**
+ * Persist a received event (payload included). Returns the stored row, which
+ * is the existing one when Stripe redelivers an event we already have.
+ */
+export const logWebhookEvent = async (stripeEvent: Stripe.Event): Promise<WebhookEventRow> => {
+  const { error: insertError } = await supabaseAdmin
+    .from("stripe_events")
+    .upsert(
+      {
+        id: stripeEvent.id,
+        type: stripeEvent.type,
+        payload: stripeEvent,
+        status: "received",
+        attempts: 0,
+      },
+      { onConflict: "id", ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to log webhook event ${stripeEvent.id}: ${insertError.message}`);
+  }
+
+  const row = await getWebhookEvent(stripeEvent.id);
+  if (!row) {
+    throw new Error(`Webhook event ${stripeEvent.id} missing after insert`);
+  }
+  return row;
+};
+
+export const getWebhookEvent = async (eventId: string): Promise<WebhookEventRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from("stripe_events")
+    .select(EVENT_COLUMNS)
+    .eq("id", eventId)
+    .maybeSingle<WebhookEventRow>();
+
+  if (error) {
+    throw new Error(`Failed to load webhook event ${eventId}: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Run a logged event's handler, if its status is one of `claimable`.
+ *
+ * The claim is a compare-and-set on status and attempts, so the webhook, the
+ * retry job and a replay never run the same event at the same time. On failure
+ * the event is scheduled for retry with backoff, or dead-lettered after
+ * MAX_WEBHOOK_ATTEMPTS.
+ */
+export const processWebhookEvent = async (
+  row: WebhookEventRow,
+  claimable: WebhookEventStatus[]
+): Promise<WebhookEventOutcome> => {
+  if (!claimable.includes(row.status) || !row.payload) {
+    return { eventId: row.id, status: "skipped", attempts: row.attempts };
+  }
+
+  const attempts = row.attempts + 1;
+  const { data: claimed } = await supabaseAdmin
+    .from("stripe_events")
+    .update({ status: "processing", attempts, updated_at: new Date().toISOString() })
+    .eq("id", row.id)
+    .eq("status", row.status)
+    .eq("attempts", row.attempts)
+    .select("id");
+
+  if (!claimed || claimed.length === 0) {
+    return { eventId: row.id, status: "skipped", attempts: row.attempts };
+  }
+
+  try {
+    await dispatchStripeEvent(row.payload);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const dead = attempts >= MAX_WEBHOOK_ATTEMPTS;
+    const now = Date.now();
+
+    await supabaseAdmin
+      .from("stripe_events")
+      .update({
+        status: dead ? "dead" : "failed",
+        last_error: message,
+        next_attempt_at: dead ? null : new Date(now + webhookRetryDelayMs(attempts)).toISOString(),
+        updated_at: new Date(now).toISOString(),
+      })
+      .eq("id", row.id);
+
+    if (dead) {
+      console.error(`[webhook-events] ${row.type} ${row.id} dead-lettered after ${attempts} attempts:`, message);
+    } else {
+      console.error(`[webhook-events] ${row.type} ${row.id} failed (attempt ${attempts}):`, message);
+    }
+    return { eventId: row.id, status: dead ? "dead" : "failed", attempts, error: message };
+  }
+
+  const now = new Date().toISOString();
+  await supabaseAdmin
+    .from("stripe_events")
+    .update({
+      status: "succeeded",
+      last_error: null,
+      next_attempt_at: null,
+      processed_at: now,
+      updated_at: now,
+    })
+    .eq("id", row.id);
+
+  return { eventId: row.id, status: "succeeded", attempts };
+};
@@ -0,0 +1,125 @@
+import { schedule } from "@netlify/functions";
+import { format } from "date-fns";
+import { supabaseAdmin } from "./utils/supabase-admin";
+import { allocatePeriodCredits, yearlyGrantPeriod } from "./utils/credits";
+import { ALL_SUBSCRIPTIONS, getMonthlyCreditsForSubscription } from "../../config/plans";
+
+const PAGE_SIZE = 200;
+
+/**
+ * Scheduled function that runs daily at 3:00 AM UTC to grant monthly credits
+ * to yearly subscribers.
+ *
+ * Yearly plans are invoiced once a year, and invoice.payment_succeeded only grants
+ * the first month. Every later month is granted here on its anniversary day
+ * (the billing period start day, clamped to the end of shorter months).
+ *
+ * Each grant is keyed by a period reference
+ * (monthly_grant:<subscription id>:<period start date>), so reruns and catch-up
+ * after a missed day never grant the same month twice. Grants respect the
+ * subscription cap.
+ */
+const handler = schedule("0 3 * * *", async () => {
+  console.log("[yearly-credit-allocation] Starting scheduled allocation run");
+
+  const yearlyPriceIds = ALL_SUBSCRIPTIONS
+    .map((plan) => plan.stripePriceIdYearly)
+    .filter((priceId): priceId is NonNullable<typeof priceId> => Boolean(priceId));
+
+  if (yearlyPriceIds.length === 0) {
+    console.log("[yearly-credit-allocation] No yearly prices configured");
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "No yearly prices configured" }),
+    };
+  }
+
+  try {
+    const now = new Date();
+    let grantedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+    let total = 0;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: subscriptions, error: queryError } = await supabaseAdmin
+        .from("app_subscriptions")
+        .select("user_id, app_key, stripe_subscription_id, stripe_price_id, current_period_start")
+        .eq("status", "active")
+        .in("stripe_price_id", yearlyPriceIds)
+        .not("current_period_start", "is", null)
+        .order("stripe_subscription_id")
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (queryError) {
+        console.error("[yearly-credit-allocation] Query error:", queryError);
+        return {
+          statusCode: 500,
+          body: JSON.stringify({ error: "Query failed", details: queryError.message }),
+        };
+      }
+
+      if (!subscriptions || subscriptions.length === 0) break;
+      total += subscriptions.length;
+
+      for (const sub of subscriptions) {
+        // Month 0 is granted by the yearly invoice; month 12 belongs to the next invoice.
+        const { index: monthIndex, start: monthStart } = yearlyGrantPeriod(new Date(sub.current_period_start), now);
+
+        if (monthIndex < 1) {
+          skippedCount++;
+          continue;
+        }
+
+        const periodReference = `monthly_grant:${sub.stripe_subscription_id}:${format(monthStart, "yyyy-MM-dd")}`;
+        const monthlyCredits = getMonthlyCreditsForSubscription(sub.app_key, sub.stripe_price_id);
+
+        try {
+          const result = await allocatePeriodCredits(
+            sub.user_id,
+            monthlyCredits,
+            sub.app_key,
+            periodReference
+          );
+
+          if (result.duplicate) {
+            skippedCount++;
+          } else {
+            grantedCount++;
+            console.log(
+              `[yearly-credit-allocation] ${periodReference}: allocated ${result.allocated}/${monthlyCredits} to user ${sub.user_id}`
+            );
+          }
+        } catch (error) {
+          failedCount++;
+          console.error(`[yearly-credit-allocation] Failed ${periodReference} for user ${sub.user_id}:`, error);
+        }
+      }
+
+      if (subscriptions.length < PAGE_SIZE) break;
+    }
+
+    console.log(
+      `[yearly-credit-allocation] Run complete. Granted: ${grantedCount}, Skipped: ${skippedCount}, Failed: ${failedCount}`
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        message: "Yearly credit allocation completed",
+        granted: grantedCount,
+        skipped: skippedCount,
+        failed: failedCount,
+        total,
+      }),
+    };
+  } catch (error) {
+    console.error("[yearly-credit-allocation] Unexpected error:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Allocation failed", details: String(error) }),
+    };
+  }
+});
+
+export { handler };
@@ -14,6 +14,63 @@ export type SubscriptionSummary = {
   isPaused: boolean;
   resumeAt: string | null;
   stripeManaged: boolean;
+  /** Plan tier (config/plans.ts `tier`), null if the price is unknown */
+  tier: string | null;
+  billingPeriod: BillingPeriod;
+  monthlyCredits: number;
+};
+
+export type BillingPeriod = "monthly" | "yearly";
+
+export type PlanSummary = {
+  tier: string;
+  monthlyPrice: number;
+  monthlyCredits: number;
+  creditCap: number;
+};
+
+/** Stripe's invoice preview for switching a subscription's price */
+export type PriceChangePreview = {
+  prorationDate: number;
+  currency: string;
+  chargeNow: number;
+  prorationAmount: number;
+  invoiceTotal: number;
+  invoiceDate: string | null;
+  lines: { description: string | null; amount: number; proration: boolean }[];
+};
+
+export type PlanChangePreview = {
+  appKey: string;
+  interval: "month" | "year";
+  isUpgrade: boolean;
+  currentPlan: PlanSummary;
+  newPlan: PlanSummary;
+  /** Prorated credits granted right away on upgrade */
+  bonusCredits: number;
+  preview: PriceChangePreview;
+};
+
+export type PlanChangeResult = Omit<PlanChangePreview, "preview"> & {
+  changed: true;
+  cap: number;
+  allocated: number;
+};
+
+export type BillingPeriodChangePreview = {
+  appKey: string;
+  tier: string;
+  currentPeriod: BillingPeriod;
+  newPeriod: BillingPeriod;
+  currentAmount: number;
+  /** Price of a full period on the new billing period, before discounts */
+  newAmount: number;
+  preview: PriceChangePreview;
+};
+
+export type BillingPeriodChangeResult = Omit<BillingPeriodChangePreview, "preview" | "newAmount"> & {
+  changed: true;
+  cap: number;
 };
 
 export type BillingInvoice = {
@@ -32,11 +89,39 @@ export type CreditBalance = {
   topupBalance: number;
   trialBalance: number;
   total: number;
+  held: number;
+  available: number;
+  nextExpiring: { amount: number; expiresAt: string } | null;
   cap: number;
   lifetimeEarned: number;
   lifetimeSpent: number;
 };
 
+export type UsageBucket = "day" | "week" | "month";
+
+export type UsageBreakdownEntry = {
+  key: string;
+  credits: number;
+  operations: number;
+};
+
+export type CreditUsageAnalytics = {
+  from: string;
+  to: string;
+  bucket: UsageBucket;
+  totals: { credits: number; operations: number };
+  series: { bucketStart: string; total: number; apps: Record<string, number> }[];
+  byApp: UsageBreakdownEntry[];
+  byOperation: UsageBreakdownEntry[];
+  byPool: UsageBreakdownEntry[];
+  projection: {
+    burnRatePerDay: number;
+    available: number;
+    daysRemaining: number | null;
+    runOutDate: string | null;
+  };
+};
+
 export type CreditTransaction = {
   id: string;
   amount: number;
@@ -46,6 +131,8 @@ export type CreditTransaction = {
   description: string | null;
   app_key: string | null;
   reference_id: string | null;
+  refunded_transaction_id: string | null;
+  reason: string | null;
   created_at: string;
 };
 
@@ -91,6 +178,58 @@ export type CancelResponse =
   | CancelAcceptedResponse
   | CancelledResponse;
 
+export type ReactivateResponse = Omit<CancelledResponse, "action"> & {
+  action: "reactivated";
+};
+
+/** An unpaid subscription invoice being chased (dunning) */
+export type DunningCaseSummary = {
+  appKey: string;
+  stripeSubscriptionId: string;
+  amountDue: number | null;
+  currency: string;
+  /** The bank wants the payment confirmed (SCA/3DS), not a new card */
+  actionRequired: boolean;
+  firstFailedAt: string;
+  /** When credit usage is (or was) paused if the payment is still outstanding */
+  restrictAt: string;
+  restricted: boolean;
+};
+
+export type CreditTransferResult = {
+  newBalance: number;
+  transactionId: string;
+  referenceId: string;
+};
+
+export type GiftCode = {
+  id: string;
+  code: string;
+  credits: number;
+  packName: string;
+  recipientEmail: string | null;
+  redeemedAt: string | null;
+  createdAt: string;
+};
+
+export type GiftRedemptionResult = {
+  newBalance: number;
+  allocated: number;
+  lotId: string;
+  expiresAt: string;
+};
+
+export type PromoCodeKind = "subscription" | "topup";
+
+/** A promo code priced against the apps (keyed by appKey) or top-up packs (keyed by packKey) */
+export type PromoCodeQuote = {
+  code: string;
+  /** e.g. "20% off for 3 months" */
+  description: string;
+  /** Only items the code applies to */
+  prices: Record<string, { original: number; discounted: number; currency: string }>;
+};
+
 // ---------------------------------------------------------------------------
 // Authenticated fetch helper
 // ---------------------------------------------------------------------------
@@ -133,18 +272,32 @@ export const BillingService = {
   getInvoices: () =>
     authenticatedFetch<{ invoices: BillingInvoice[] }>("stripe-invoices"),
 
-  /** Open Stripe Customer Portal for payment method / billing management. */
-  createPortalSession: (returnUrl?: string) =>
+  /**
+   * Open Stripe Customer Portal for payment method / billing management.
+   * `flow: "payment_method_update"` opens straight on the payment method form.
+   */
+  createPortalSession: (returnUrl?: string, flow?: "payment_method_update") =>
     authenticatedFetch<{ url: string }>("stripe-portal", {
       method: "POST",
-      body: JSON.stringify({ returnUrl }),
+      body: JSON.stringify({ returnUrl, flow }),
     }),
 
+  /** Past-due subscriptions, for the dashboard banner. */
+  getDunningStatus: () =>
+    authenticatedFetch<{ cases: DunningCaseSummary[] }>("stripe-dunning-status"),
+
   /** Create a Stripe Checkout Session for a subscription. */
-  createCheckout: (appKey?: string) =>
+  createCheckout: (appKey?: string, promoCode?: string) =>
     authenticatedFetch<{ url: string }>("stripe-checkout", {
       method: "POST",
-      body: JSON.stringify({ appKey: appKey ?? "keywords" }),
+      body: JSON.stringify({ appKey: appKey ?? "keywords", promoCode }),
+    }),
+
+  /** Validate a promo code and get the discounted prices it gives. */
+  validatePromoCode: (code: string, kind: PromoCodeKind) =>
+    authenticatedFetch<PromoCodeQuote>("stripe-promo-code", {
+      method: "POST",
+      body: JSON.stringify({ code, kind }),
     }),
 
   /** Create a Stripe Trial Checkout Session ($1/7-day trial). */
@@ -161,16 +314,52 @@ export const BillingService = {
    * Second call (acceptOffer: true/false): accepts or declines the offer.
    */
   cancelSubscription: (data: {
+    subscriptionId: string;
     reason: string;
     feedback?: string;
     acceptOffer?: boolean;
-    offerType?: string;
+    offerId?: string;
   }) =>
     authenticatedFetch<CancelResponse>("stripe-cancel", {
       method: "POST",
       body: JSON.stringify(data),
     }),
 
+  /** Keep a subscription that is set to cancel at period end. */
+  reactivateSubscription: (subscriptionId: string) =>
+    authenticatedFetch<ReactivateResponse>("stripe-reactivate", {
+      method: "POST",
+      body: JSON.stringify({ subscriptionId }),
+    }),
+
+  /** Preview switching a subscription to another tier of the same app. */
+  previewPlanChange: (subscriptionId: string, tier: string) =>
+    authenticatedFetch<PlanChangePreview>("stripe-change-plan", {
+      method: "POST",
+      body: JSON.stringify({ subscriptionId, tier }),
+    }),
+
+  /** Apply a previewed plan change. */
+  changePlan: (subscriptionId: string, tier: string, prorationDate: number) =>
+    authenticatedFetch<PlanChangeResult>("stripe-change-plan", {
+      method: "POST",
+      body: JSON.stringify({ subscriptionId, tier, prorationDate, confirm: true }),
+    }),
+
+  /** Preview switching a subscription between monthly and yearly billing. */
+  previewBillingPeriodChange: (subscriptionId: string, billingPeriod: BillingPeriod) =>
+    authenticatedFetch<BillingPeriodChangePreview>("stripe-change-billing-period", {
+      method: "POST",
+      body: JSON.stringify({ subscriptionId, billingPeriod }),
+    }),
+
+  /** Apply a previewed billing period switch. */
+  changeBillingPeriod: (subscriptionId: string, billingPeriod: BillingPeriod, prorationDate: number) =>
+    authenticatedFetch<BillingPeriodChangeResult>("stripe-change-billing-period", {
+      method: "POST",
+      body: JSON.stringify({ subscriptionId, billingPeriod, prorationDate, confirm: true }),
+    }),
+
   // -------------------------------------------------------------------------
   // Credits
   // -------------------------------------------------------------------------
@@ -185,10 +374,40 @@ export const BillingService = {
       `credits-history?limit=${limit}&offset=${offset}`
     ),
 
+  /** Get net credit usage over a date range, bucketed by day, week or month. */
+  getUsageAnalytics: (bucket: UsageBucket, from: string, to: string) =>
+    authenticatedFetch<CreditUsageAnalytics>(
+      `credits-usage-analytics?bucket=${bucket}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+    ),
+
   /** Purchase a credit top-up pack. Returns Stripe Checkout URL. */
-  purchaseTopUp: (packKey: string) =>
+  purchaseTopUp: (packKey: string, promoCode?: string) =>
     authenticatedFetch<{ url: string }>("credits-topup", {
       method: "POST",
-      body: JSON.stringify({ packKey }),
+      body: JSON.stringify({ packKey, promoCode }),
+    }),
+
+  /** Move top-up credits to another account by email. */
+  transferCredits: (email: string, amount: number, note?: string) =>
+    authenticatedFetch<CreditTransferResult>("credits-transfer", {
+      method: "POST",
+      body: JSON.stringify({ email, amount, note }),
+    }),
+
+  /** Gift codes the user has bought. */
+  getGiftCodes: () =>
+    authenticatedFetch<{ giftCodes: GiftCode[] }>("credits-gift"),
+
+  /** Buy a gift code worth a top-up pack. Returns Stripe Checkout URL. */
+  purchaseGiftCode: (packKey: string, recipientEmail?: string, message?: string) =>
+    authenticatedFetch<{ url: string }>("credits-gift", {
+      method: "POST",
+      body: JSON.stringify({ packKey, recipientEmail, message }),
+    }),
+
+  redeemGiftCode: (code: string) =>
+    authenticatedFetch<GiftRedemptionResult>("credits-gift-redeem", {
+      method: "POST",
+      body: JSON.stringify({ code }),
     }),
 };
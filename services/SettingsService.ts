@@ -6,6 +6,11 @@ export type UserSettings = {
   login_alerts: boolean;
   two_factor_enabled: boolean;
   session_timeout_minutes: number;
+  /** Email when the credit balance drops below this (null = off) */
+  low_balance_threshold: number | null;
+  auto_topup_enabled: boolean;
+  auto_topup_pack: string | null;
+  auto_topup_max_per_month: number;
   updated_at: string;
 };
 
@@ -23,7 +28,7 @@ const fetchSettings = async (): Promise<UserSettings> => {
 };
 
 const updateSettings = async (
-  patch: Partial<Omit<UserSettings, "user_id">>
+  patch: Partial<Omit<UserSettings, "user_id" | "updated_at">>
 ): Promise<UserSettings> => {
   const response = await fetch("/.netlify/functions/settings-update", {
     method: "POST",
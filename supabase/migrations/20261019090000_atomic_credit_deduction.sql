@@ -0,0 +1,100 @@
+-- Atomic credit deduction.
+--
+-- deductCredits (netlify/functions/utils/credits.ts) used to read the balance,
+-- compute the trial/topup/subscription split in JS and write it back with a
+-- plain UPDATE, so two concurrent calls could both pass the balance check and
+-- overspend. This function does the whole deduction in one transaction while
+-- holding a row lock on user_credits.
+--
+-- Spend order: trial first (unless expired), then topup, then subscription.
+-- Returns jsonb:
+--   { "ok": true,  "new_balance": int, "transaction_id": uuid }
+--   { "ok": false, "required": int, "available": int }   -- insufficient credits
+
+create or replace function public.deduct_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_description text,
+  p_reference_id text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'deduct_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  -- Serialize concurrent deductions for the same user
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+revoke all on function public.deduct_credits(uuid, integer, text, text, text) from public, anon, authenticated;
+grant execute on function public.deduct_credits(uuid, integer, text, text, text) to service_role;
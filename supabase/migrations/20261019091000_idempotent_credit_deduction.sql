@@ -0,0 +1,144 @@
+-- Idempotent credit deduction.
+--
+-- Apps retry credits-deduct on network timeouts. A referenceId (or the
+-- Idempotency-Key header) now identifies the request: the first successful
+-- deduction is recorded in credit_idempotency_keys and any repeat for the same
+-- user/app/reference returns the stored result without touching balances.
+-- A repeat with a different operation or amount is reported as a conflict.
+--
+-- deduct_credits now takes the operation name instead of a prebuilt
+-- description so the idempotency record can be compared with the retry.
+-- Returns jsonb:
+--   { "ok": true,  "new_balance": int, "transaction_id": uuid, "replayed": bool }
+--   { "ok": false, "required": int, "available": int }   -- insufficient credits
+--   { "ok": false, "conflict": true }                     -- key reused for a different request
+
+create table if not exists public.credit_idempotency_keys (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  app_key text not null,
+  reference_id text not null,
+  operation text not null,
+  amount integer not null,
+  new_balance integer not null,
+  transaction_id uuid,
+  created_at timestamptz not null default now(),
+  primary key (user_id, app_key, reference_id)
+);
+
+alter table public.credit_idempotency_keys enable row level security;
+
+drop function if exists public.deduct_credits(uuid, integer, text, text, text);
+
+create or replace function public.deduct_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_operation text,
+  p_reference_id text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_previous public.credit_idempotency_keys%rowtype;
+  v_description text := p_operation || ' (' || p_app_key || ')';
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'deduct_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  -- Serialize concurrent deductions (and retries) for the same user
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  if p_reference_id is not null then
+    select * into v_previous
+    from public.credit_idempotency_keys
+    where user_id = p_user_id and app_key = p_app_key and reference_id = p_reference_id;
+
+    if found then
+      if v_previous.operation <> p_operation or v_previous.amount <> p_amount then
+        return jsonb_build_object('ok', false, 'conflict', true);
+      end if;
+
+      return jsonb_build_object(
+        'ok', true,
+        'new_balance', v_previous.new_balance,
+        'transaction_id', v_previous.transaction_id,
+        'replayed', true
+      );
+    end if;
+  end if;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', v_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', v_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', v_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if p_reference_id is not null then
+    insert into public.credit_idempotency_keys (user_id, app_key, reference_id, operation, amount, new_balance, transaction_id)
+    values (p_user_id, p_app_key, p_reference_id, p_operation, p_amount, v_running, v_txn_id);
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id, 'replayed', false);
+end;
+$$;
+
+revoke all on function public.deduct_credits(uuid, integer, text, text, text) from public, anon, authenticated;
+grant execute on function public.deduct_credits(uuid, integer, text, text, text) to service_role;
@@ -0,0 +1,425 @@
+-- Credit reservations (hold / capture / release).
+--
+-- Long-running jobs (LABS scans, Keywords reports) place a hold on their
+-- estimated cost up front, then capture the actual amount (which may be lower)
+-- when they finish or release the hold if they fail. Held credits stay in the
+-- user's pools but are excluded from the available balance, so they can't be
+-- spent elsewhere while the job runs. Holds that are never captured or
+-- released stop counting once expires_at passes; the credit-reservations-expiry
+-- scheduled function marks them as expired.
+
+create table if not exists public.credit_reservations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  app_key text not null,
+  operation text not null,
+  amount integer not null check (amount > 0),
+  captured_amount integer,
+  status text not null default 'held' check (status in ('held', 'captured', 'released', 'expired')),
+  reference_id text,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists credit_reservations_active_idx
+  on public.credit_reservations (user_id, expires_at)
+  where status = 'held';
+
+create unique index if not exists credit_reservations_reference_idx
+  on public.credit_reservations (user_id, app_key, reference_id)
+  where reference_id is not null;
+
+alter table public.credit_reservations enable row level security;
+
+-- Sum of unexpired holds for a user
+create or replace function public.credit_held_amount(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0)::integer
+  from public.credit_reservations
+  where user_id = p_user_id
+    and status = 'held'
+    and expires_at > now();
+$$;
+
+-- Drain pools (trial, topup, subscription) and write ledger rows.
+-- Internal: callers must already hold the user_credits row lock.
+-- Returns { ok, new_balance, transaction_id } or { ok: false, required, available }.
+create or replace function public.apply_credit_deduction(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_description text,
+  p_reference_id text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  select * into v_credits from public.user_credits where user_id = p_user_id;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  if p_amount = 0 then
+    return jsonb_build_object('ok', true, 'new_balance', v_total, 'transaction_id', null);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', p_description, p_app_key, p_reference_id)
+    returning id into v_txn_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+-- deduct_credits: same contract as before, but held credits are not spendable
+create or replace function public.deduct_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_operation text,
+  p_reference_id text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_previous public.credit_idempotency_keys%rowtype;
+  v_trial integer;
+  v_available integer;
+  v_result jsonb;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'deduct_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  -- Serialize concurrent deductions (and retries) for the same user
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  if p_reference_id is not null then
+    select * into v_previous
+    from public.credit_idempotency_keys
+    where user_id = p_user_id and app_key = p_app_key and reference_id = p_reference_id;
+
+    if found then
+      if v_previous.operation <> p_operation or v_previous.amount <> p_amount then
+        return jsonb_build_object('ok', false, 'conflict', true);
+      end if;
+
+      return jsonb_build_object(
+        'ok', true,
+        'new_balance', v_previous.new_balance,
+        'transaction_id', v_previous.transaction_id,
+        'replayed', true
+      );
+    end if;
+  end if;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_available := v_trial + v_credits.topup_balance + v_credits.subscription_balance
+    - public.credit_held_amount(p_user_id);
+
+  if v_available < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', greatest(v_available, 0));
+  end if;
+
+  v_result := public.apply_credit_deduction(
+    p_user_id, p_amount, p_app_key, p_operation || ' (' || p_app_key || ')', p_reference_id
+  );
+
+  if p_reference_id is not null then
+    insert into public.credit_idempotency_keys (user_id, app_key, reference_id, operation, amount, new_balance, transaction_id)
+    values (
+      p_user_id, p_app_key, p_reference_id, p_operation, p_amount,
+      (v_result->>'new_balance')::integer, (v_result->>'transaction_id')::uuid
+    );
+  end if;
+
+  return v_result || jsonb_build_object('replayed', false);
+end;
+$$;
+
+-- Place a hold. A repeat with the same reference returns the existing hold.
+-- Returns { ok, reservation_id, amount, expires_at, available, replayed }
+--      or { ok: false, required, available } / { ok: false, conflict: true }.
+create or replace function public.reserve_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_operation text,
+  p_ttl_seconds integer,
+  p_reference_id text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_existing public.credit_reservations%rowtype;
+  v_trial integer;
+  v_available integer;
+  v_reservation public.credit_reservations%rowtype;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'reserve_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_available := v_trial + v_credits.topup_balance + v_credits.subscription_balance
+    - public.credit_held_amount(p_user_id);
+
+  if p_reference_id is not null then
+    select * into v_existing
+    from public.credit_reservations
+    where user_id = p_user_id and app_key = p_app_key and reference_id = p_reference_id;
+
+    if found then
+      if v_existing.operation <> p_operation or v_existing.amount <> p_amount then
+        return jsonb_build_object('ok', false, 'conflict', true);
+      end if;
+
+      return jsonb_build_object(
+        'ok', true,
+        'reservation_id', v_existing.id,
+        'amount', v_existing.amount,
+        'status', v_existing.status,
+        'expires_at', v_existing.expires_at,
+        'available', greatest(v_available, 0),
+        'replayed', true
+      );
+    end if;
+  end if;
+
+  if v_available < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', greatest(v_available, 0));
+  end if;
+
+  insert into public.credit_reservations (user_id, app_key, operation, amount, reference_id, expires_at)
+  values (p_user_id, p_app_key, p_operation, p_amount, p_reference_id, now() + make_interval(secs => p_ttl_seconds))
+  returning * into v_reservation;
+
+  return jsonb_build_object(
+    'ok', true,
+    'reservation_id', v_reservation.id,
+    'amount', v_reservation.amount,
+    'status', v_reservation.status,
+    'expires_at', v_reservation.expires_at,
+    'available', v_available - p_amount,
+    'replayed', false
+  );
+end;
+$$;
+
+-- Capture a hold, charging p_amount (defaults to the full hold) and releasing the rest.
+-- Returns { ok, new_balance, transaction_id, captured, released }
+--      or { ok: false, reason: 'not_found' | 'captured' | 'released' | 'expired' | 'exceeds_hold' }
+--      or { ok: false, required, available } when trial credits backing the hold have expired.
+create or replace function public.capture_credit_reservation(
+  p_user_id uuid,
+  p_reservation_id uuid,
+  p_amount integer default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation public.credit_reservations%rowtype;
+  v_amount integer;
+  v_result jsonb;
+begin
+  -- Lock order matches deduct_credits/reserve_credits: user_credits first
+  perform 1 from public.user_credits where user_id = p_user_id for update;
+
+  select * into v_reservation
+  from public.credit_reservations
+  where id = p_reservation_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_reservation.status <> 'held' then
+    return jsonb_build_object('ok', false, 'reason', v_reservation.status);
+  end if;
+
+  if v_reservation.expires_at <= now() then
+    update public.credit_reservations
+    set status = 'expired', updated_at = now()
+    where id = p_reservation_id;
+    return jsonb_build_object('ok', false, 'reason', 'expired');
+  end if;
+
+  v_amount := coalesce(p_amount, v_reservation.amount);
+  if v_amount < 0 or v_amount > v_reservation.amount then
+    return jsonb_build_object('ok', false, 'reason', 'exceeds_hold', 'held', v_reservation.amount);
+  end if;
+
+  v_result := public.apply_credit_deduction(
+    p_user_id,
+    v_amount,
+    v_reservation.app_key,
+    v_reservation.operation || ' (' || v_reservation.app_key || ')',
+    coalesce(v_reservation.reference_id, v_reservation.id::text)
+  );
+
+  if not (v_result->>'ok')::boolean then
+    return v_result;
+  end if;
+
+  update public.credit_reservations
+  set status = 'captured', captured_amount = v_amount, updated_at = now()
+  where id = p_reservation_id;
+
+  return v_result || jsonb_build_object('captured', v_amount, 'released', v_reservation.amount - v_amount);
+end;
+$$;
+
+-- Release a hold without charging anything.
+-- Returns { ok, released } or { ok: false, reason }.
+create or replace function public.release_credit_reservation(
+  p_user_id uuid,
+  p_reservation_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation public.credit_reservations%rowtype;
+begin
+  select * into v_reservation
+  from public.credit_reservations
+  where id = p_reservation_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_reservation.status <> 'held' then
+    return jsonb_build_object('ok', false, 'reason', v_reservation.status);
+  end if;
+
+  update public.credit_reservations
+  set status = 'released', updated_at = now()
+  where id = p_reservation_id;
+
+  return jsonb_build_object('ok', true, 'released', v_reservation.amount);
+end;
+$$;
+
+-- Mark holds past their TTL as expired. Returns the number of holds expired.
+create or replace function public.expire_credit_reservations()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.credit_reservations
+  set status = 'expired', updated_at = now()
+  where status = 'held' and expires_at <= now();
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.credit_held_amount(uuid) from public, anon, authenticated;
+revoke all on function public.apply_credit_deduction(uuid, integer, text, text, text) from public, anon, authenticated, service_role;
+revoke all on function public.deduct_credits(uuid, integer, text, text, text) from public, anon, authenticated;
+revoke all on function public.reserve_credits(uuid, integer, text, text, integer, text) from public, anon, authenticated;
+revoke all on function public.capture_credit_reservation(uuid, uuid, integer) from public, anon, authenticated;
+revoke all on function public.release_credit_reservation(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.expire_credit_reservations() from public, anon, authenticated;
+
+grant execute on function public.credit_held_amount(uuid) to service_role;
+grant execute on function public.deduct_credits(uuid, integer, text, text, text) to service_role;
+grant execute on function public.reserve_credits(uuid, integer, text, text, integer, text) to service_role;
+grant execute on function public.capture_credit_reservation(uuid, uuid, integer) to service_role;
+grant execute on function public.release_credit_reservation(uuid, uuid) to service_role;
+grant execute on function public.expire_credit_reservations() to service_role;
@@ -0,0 +1,273 @@
+-- Credit refunds and admin adjustments.
+--
+-- Refunds reverse a usage deduction back into the pools it was drawn from.
+-- A deduction that spans several pools writes one ledger row per pool; those
+-- rows now share an operation_id so a refund of any of them refunds the whole
+-- deduction. Refund rows point at the row they reverse via
+-- refunded_transaction_id, which also prevents refunding twice.
+--
+-- Admin adjustments add or remove credits from the subscription or topup pool
+-- with a required reason and the id of the admin who made the change.
+
+alter table public.credit_transactions
+  add column if not exists operation_id uuid,
+  add column if not exists refunded_transaction_id uuid references public.credit_transactions(id),
+  add column if not exists reason text,
+  add column if not exists actor_id uuid;
+
+create index if not exists credit_transactions_operation_idx
+  on public.credit_transactions (operation_id)
+  where operation_id is not null;
+
+create unique index if not exists credit_transactions_refunded_idx
+  on public.credit_transactions (refunded_transaction_id)
+  where refunded_transaction_id is not null;
+
+-- apply_credit_deduction: unchanged except that all ledger rows written by one
+-- call share an operation_id
+create or replace function public.apply_credit_deduction(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_description text,
+  p_reference_id text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_operation_id uuid := gen_random_uuid();
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  select * into v_credits from public.user_credits where user_id = p_user_id;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  if p_amount = 0 then
+    return jsonb_build_object('ok', true, 'new_balance', v_total, 'transaction_id', null);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+-- Refund a usage deduction (every pool row of it) back to the pools it came from.
+-- p_min_created_at limits how old the deduction may be (null = no limit).
+-- Returns { ok, refunded, new_balance, transaction_id }
+--      or { ok: false, reason: 'not_found' | 'not_refundable' | 'too_old' | 'already_refunded' }.
+create or replace function public.refund_credit_transaction(
+  p_user_id uuid,
+  p_transaction_id uuid,
+  p_reason text,
+  p_actor_id uuid,
+  p_min_created_at timestamptz default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_original public.credit_transactions%rowtype;
+  v_row public.credit_transactions%rowtype;
+  v_trial integer;
+  v_running integer;
+  v_refunded integer := 0;
+  v_txn_id uuid;
+begin
+  perform 1 from public.user_credits where user_id = p_user_id for update;
+
+  select * into v_original
+  from public.credit_transactions
+  where id = p_transaction_id and user_id = p_user_id;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_original.type <> 'usage_deduction' then
+    return jsonb_build_object('ok', false, 'reason', 'not_refundable');
+  end if;
+
+  if p_min_created_at is not null and v_original.created_at < p_min_created_at then
+    return jsonb_build_object('ok', false, 'reason', 'too_old');
+  end if;
+
+  if exists (
+    select 1 from public.credit_transactions refund
+    join public.credit_transactions original on original.id = refund.refunded_transaction_id
+    where original.id = p_transaction_id
+       or (v_original.operation_id is not null and original.operation_id = v_original.operation_id)
+  ) then
+    return jsonb_build_object('ok', false, 'reason', 'already_refunded');
+  end if;
+
+  select case
+      when trial_expires_at is not null and trial_expires_at < now() then 0
+      else coalesce(trial_balance, 0)
+    end + topup_balance + subscription_balance
+  into v_running
+  from public.user_credits
+  where user_id = p_user_id;
+
+  for v_row in
+    select * from public.credit_transactions
+    where user_id = p_user_id
+      and type = 'usage_deduction'
+      and (id = p_transaction_id
+        or (v_original.operation_id is not null and operation_id = v_original.operation_id))
+    order by created_at, id
+  loop
+    update public.user_credits
+    set trial_balance = trial_balance + case when v_row.pool = 'trial' then -v_row.amount else 0 end,
+        topup_balance = topup_balance + case when v_row.pool = 'topup' then -v_row.amount else 0 end,
+        subscription_balance = subscription_balance + case when v_row.pool = 'subscription' then -v_row.amount else 0 end,
+        lifetime_spent = greatest(0, lifetime_spent + v_row.amount),
+        updated_at = now()
+    where user_id = p_user_id;
+
+    -- Refunded trial credits only count if the trial hasn't expired
+    select case when trial_expires_at is not null and trial_expires_at < now() then 0 else -v_row.amount end
+    into v_trial
+    from public.user_credits
+    where user_id = p_user_id;
+
+    v_running := v_running + case when v_row.pool = 'trial' then v_trial else -v_row.amount end;
+    v_refunded := v_refunded - v_row.amount;
+
+    insert into public.credit_transactions (
+      user_id, amount, balance_after, pool, type, description, app_key, reference_id,
+      operation_id, refunded_transaction_id, reason, actor_id
+    )
+    values (
+      p_user_id, -v_row.amount, v_running, v_row.pool, 'refund', 'Refund for ' || v_row.description,
+      v_row.app_key, v_row.reference_id, v_original.operation_id, v_row.id, p_reason, p_actor_id
+    )
+    returning id into v_txn_id;
+  end loop;
+
+  return jsonb_build_object('ok', true, 'refunded', v_refunded, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+-- Admin adjustment: add (positive) or remove (negative) credits from one pool.
+-- Returns { ok, new_balance, transaction_id } or { ok: false, required, available }.
+create or replace function public.adjust_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_pool text,
+  p_reason text,
+  p_actor_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_pool_balance integer;
+  v_total integer;
+  v_txn_id uuid;
+begin
+  if p_amount is null or p_amount = 0 then
+    raise exception 'adjust_credits: amount must be non-zero';
+  end if;
+
+  if p_pool not in ('subscription', 'topup') then
+    raise exception 'adjust_credits: pool must be subscription or topup (got %)', p_pool;
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' or p_actor_id is null then
+    raise exception 'adjust_credits: reason and actor are required';
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  v_pool_balance := case when p_pool = 'topup' then v_credits.topup_balance else v_credits.subscription_balance end;
+  if v_pool_balance + p_amount < 0 then
+    return jsonb_build_object('ok', false, 'required', -p_amount, 'available', v_pool_balance);
+  end if;
+
+  update public.user_credits
+  set topup_balance = topup_balance + case when p_pool = 'topup' then p_amount else 0 end,
+      subscription_balance = subscription_balance + case when p_pool = 'subscription' then p_amount else 0 end,
+      lifetime_earned = lifetime_earned + greatest(p_amount, 0),
+      updated_at = now()
+  where user_id = p_user_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + p_amount;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reason, actor_id)
+  values (p_user_id, p_amount, v_total, p_pool, 'admin_adjustment', 'Adjustment: ' || p_reason, null, p_reason, p_actor_id)
+  returning id into v_txn_id;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_total, 'transaction_id', v_txn_id);
+end;
+$$;
+
+revoke all on function public.apply_credit_deduction(uuid, integer, text, text, text) from public, anon, authenticated, service_role;
+revoke all on function public.refund_credit_transaction(uuid, uuid, text, uuid, timestamptz) from public, anon, authenticated;
+revoke all on function public.adjust_credits(uuid, integer, text, text, uuid) from public, anon, authenticated;
+
+grant execute on function public.refund_credit_transaction(uuid, uuid, text, uuid, timestamptz) to service_role;
+grant execute on function public.adjust_credits(uuid, integer, text, text, uuid) to service_role;
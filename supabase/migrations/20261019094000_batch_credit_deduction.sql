@@ -0,0 +1,204 @@
+-- Batch credit deduction.
+--
+-- Keywords bills several operations from one user action (expansion, SERP
+-- lookups, KD score). deduct_credits_batch charges a priced list of items in
+-- one transaction: either every item is charged or none is. Each item gets its
+-- own ledger rows (so usage stays attributable per operation) and all rows
+-- share one operation_id, which is returned as the batch_id. transaction_id is
+-- the last ledger row, as for deduct_credits; refunding it (or any other row
+-- of the batch) refunds the whole batch.
+--
+-- p_items: [{ "operation": text, "amount": int }, ...] (amount = priced cost of the item)
+-- Returns { ok, new_balance, transaction_id, batch_id, replayed }
+--      or { ok: false, required, available } / { ok: false, conflict: true }.
+
+-- apply_credit_deduction gains an optional operation_id so a batch can group its rows
+drop function if exists public.apply_credit_deduction(uuid, integer, text, text, text);
+
+create or replace function public.apply_credit_deduction(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_description text,
+  p_reference_id text,
+  p_operation_id uuid default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_operation_id uuid := coalesce(p_operation_id, gen_random_uuid());
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  select * into v_credits from public.user_credits where user_id = p_user_id;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  if p_amount = 0 then
+    return jsonb_build_object('ok', true, 'new_balance', v_total, 'transaction_id', null);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+create or replace function public.deduct_credits_batch(
+  p_user_id uuid,
+  p_app_key text,
+  p_items jsonb,
+  p_reference_id text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_previous public.credit_idempotency_keys%rowtype;
+  v_signature text := 'batch:' || p_items::text;
+  v_batch_id uuid := gen_random_uuid();
+  v_item jsonb;
+  v_total_cost integer;
+  v_trial integer;
+  v_available integer;
+  v_result jsonb;
+  v_new_balance integer;
+  v_txn_id uuid;
+begin
+  if jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'deduct_credits_batch: items must be a non-empty array';
+  end if;
+
+  select coalesce(sum((item->>'amount')::integer), 0)
+  into v_total_cost
+  from jsonb_array_elements(p_items) item;
+
+  if exists (select 1 from jsonb_array_elements(p_items) item where (item->>'amount')::integer < 0) then
+    raise exception 'deduct_credits_batch: item amounts must not be negative';
+  end if;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', v_total_cost, 'available', 0);
+  end if;
+
+  if p_reference_id is not null then
+    select * into v_previous
+    from public.credit_idempotency_keys
+    where user_id = p_user_id and app_key = p_app_key and reference_id = p_reference_id;
+
+    if found then
+      if v_previous.operation <> v_signature or v_previous.amount <> v_total_cost then
+        return jsonb_build_object('ok', false, 'conflict', true);
+      end if;
+
+      return jsonb_build_object(
+        'ok', true,
+        'new_balance', v_previous.new_balance,
+        'transaction_id', v_previous.transaction_id,
+        'batch_id', (select operation_id from public.credit_transactions where id = v_previous.transaction_id),
+        'replayed', true
+      );
+    end if;
+  end if;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_available := v_trial + v_credits.topup_balance + v_credits.subscription_balance
+    - public.credit_held_amount(p_user_id);
+  v_new_balance := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_available < v_total_cost then
+    return jsonb_build_object('ok', false, 'required', v_total_cost, 'available', greatest(v_available, 0));
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_result := public.apply_credit_deduction(
+      p_user_id,
+      (v_item->>'amount')::integer,
+      p_app_key,
+      (v_item->>'operation') || ' (' || p_app_key || ')',
+      p_reference_id,
+      v_batch_id
+    );
+    v_new_balance := (v_result->>'new_balance')::integer;
+    v_txn_id := coalesce((v_result->>'transaction_id')::uuid, v_txn_id);
+  end loop;
+
+  if p_reference_id is not null then
+    insert into public.credit_idempotency_keys (user_id, app_key, reference_id, operation, amount, new_balance, transaction_id)
+    values (p_user_id, p_app_key, p_reference_id, v_signature, v_total_cost, v_new_balance, v_txn_id);
+  end if;
+
+  return jsonb_build_object(
+    'ok', true,
+    'new_balance', v_new_balance,
+    'transaction_id', v_txn_id,
+    'batch_id', v_batch_id,
+    'replayed', false
+  );
+end;
+$$;
+
+revoke all on function public.apply_credit_deduction(uuid, integer, text, text, text, uuid) from public, anon, authenticated, service_role;
+revoke all on function public.deduct_credits_batch(uuid, text, jsonb, text) from public, anon, authenticated;
+grant execute on function public.deduct_credits_batch(uuid, text, jsonb, text) to service_role;
@@ -0,0 +1,21 @@
+-- Quantity-based and tiered pricing for app_credit_config.
+--
+-- credit_cost stays the per-unit cost; callers now send a quantity (e.g. the
+-- number of engines or tracked keywords in a LABS scan) and are charged
+-- ceil(unit cost * quantity).
+--
+-- volume_tiers: all-units volume discounts. The highest tier whose
+--   min_quantity the request reaches sets the unit cost for every unit.
+--   [{ "min_quantity": 50, "credit_cost": 0.8 }, { "min_quantity": 200, "credit_cost": 0.6 }]
+--
+-- tier_overrides: per subscription tier (plans.ts `tier`) replacements for
+--   credit_cost and/or volume_tiers. Unit costs may be fractional here.
+--   { "aeo_consultant": { "credit_cost": 0.5, "volume_tiers": [] } }
+
+alter table public.app_credit_config
+  add column if not exists volume_tiers jsonb not null default '[]'::jsonb,
+  add column if not exists tier_overrides jsonb not null default '{}'::jsonb;
+
+alter table public.app_credit_config
+  add constraint app_credit_config_volume_tiers_is_array check (jsonb_typeof(volume_tiers) = 'array'),
+  add constraint app_credit_config_tier_overrides_is_object check (jsonb_typeof(tier_overrides) = 'object');
@@ -0,0 +1,83 @@
+-- Idempotent per-period subscription credit allocation.
+--
+-- Yearly subscribers are only invoiced once a year, so the invoice webhook
+-- grants their first month only. The yearly-credit-allocation scheduled
+-- function grants each following month through this function, keyed by a
+-- period reference (monthly_grant:<subscription>:<period start date>).
+--
+-- The allocation respects the subscription cap. A ledger row is written for
+-- every period, even when the cap leaves nothing to grant, so the period is
+-- recorded as handled and a repeat run grants nothing.
+-- Returns { ok, allocated, new_balance, duplicate }.
+
+create or replace function public.allocate_period_credits(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_reference_id text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_allocated integer;
+  v_total integer;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'allocate_period_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  if exists (
+    select 1 from public.credit_transactions
+    where user_id = p_user_id
+      and type = 'subscription_allocation'
+      and reference_id = p_reference_id
+  ) then
+    return jsonb_build_object('ok', true, 'allocated', 0, 'new_balance', null, 'duplicate', true);
+  end if;
+
+  v_allocated := least(p_amount, greatest(0, v_credits.subscription_cap - v_credits.subscription_balance));
+
+  update public.user_credits
+  set subscription_balance = subscription_balance + v_allocated,
+      lifetime_earned = lifetime_earned + v_allocated,
+      last_allocated = now(),
+      updated_at = now()
+  where user_id = p_user_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + v_allocated;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+  values (
+    p_user_id,
+    v_allocated,
+    v_total,
+    'subscription',
+    'subscription_allocation',
+    case when v_allocated = 0
+      then 'Monthly allocation skipped, cap reached (' || p_app_key || ')'
+      else 'Monthly allocation (' || p_app_key || ')'
+    end,
+    p_app_key,
+    p_reference_id
+  );
+
+  return jsonb_build_object('ok', true, 'allocated', v_allocated, 'new_balance', v_total, 'duplicate', false);
+end;
+$$;
+
+revoke all on function public.allocate_period_credits(uuid, integer, text, text) from public, anon, authenticated;
+grant execute on function public.allocate_period_credits(uuid, integer, text, text) to service_role;
@@ -0,0 +1,322 @@
+-- Expiring top-up credit lots.
+--
+-- Purchased top-up packs expire 12 months after purchase. Each purchase is
+-- recorded as a lot with its own purchase date, expiry and remaining amount.
+-- user_credits.topup_balance stays the pool total; the lots track which part
+-- of it expires when.
+--
+-- Top-up credits that did not come from a purchase (retention bonuses, refunds,
+-- admin adjustments, balances from before this migration) have no lot and do
+-- not expire. So the sum of remaining lot amounts is at most topup_balance.
+--
+-- Deductions take from lots first, soonest expiry first (which is oldest
+-- purchase first), and from lot-less credits after that. The
+-- topup-lots-expiry scheduled function expires lots past their expiry and
+-- logs a topup_expired transaction for each. Until it runs, an expired lot
+-- can still be spent.
+
+create table if not exists public.credit_topup_lots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  amount integer not null check (amount > 0),
+  remaining integer not null check (remaining >= 0),
+  description text,
+  reference_id text,
+  purchased_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  expired_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (remaining <= amount)
+);
+
+create index if not exists credit_topup_lots_open_idx
+  on public.credit_topup_lots (user_id, expires_at, purchased_at)
+  where remaining > 0;
+
+create index if not exists credit_topup_lots_expiry_idx
+  on public.credit_topup_lots (expires_at)
+  where remaining > 0;
+
+alter table public.credit_topup_lots enable row level security;
+
+-- Internal: take up to p_amount from a user's lots, soonest expiry first.
+-- Caller must hold the user_credits row lock.
+create or replace function public.consume_topup_lots(
+  p_user_id uuid,
+  p_amount integer
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lot record;
+  v_left integer := p_amount;
+  v_take integer;
+begin
+  for v_lot in
+    select id, remaining
+    from public.credit_topup_lots
+    where user_id = p_user_id and remaining > 0
+    order by expires_at, purchased_at
+    for update
+  loop
+    exit when v_left <= 0;
+    v_take := least(v_left, v_lot.remaining);
+
+    update public.credit_topup_lots
+    set remaining = remaining - v_take, updated_at = now()
+    where id = v_lot.id;
+
+    v_left := v_left - v_take;
+  end loop;
+end;
+$$;
+
+-- Keep lots within topup_balance when the pool shrinks outside a deduction
+-- (e.g. a negative admin adjustment). Deductions consume lots before updating
+-- the pool, so this is a no-op for them.
+create or replace function public.trim_topup_lots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lot_total integer;
+begin
+  select coalesce(sum(remaining), 0) into v_lot_total
+  from public.credit_topup_lots
+  where user_id = new.user_id and remaining > 0;
+
+  if v_lot_total > new.topup_balance then
+    perform public.consume_topup_lots(new.user_id, v_lot_total - new.topup_balance);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists user_credits_trim_topup_lots on public.user_credits;
+create trigger user_credits_trim_topup_lots
+  after update of topup_balance on public.user_credits
+  for each row
+  when (new.topup_balance < old.topup_balance)
+  execute function public.trim_topup_lots();
+
+-- Deduction now consumes top-up lots for the top-up share
+create or replace function public.apply_credit_deduction(
+  p_user_id uuid,
+  p_amount integer,
+  p_app_key text,
+  p_description text,
+  p_reference_id text,
+  p_operation_id uuid default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_operation_id uuid := coalesce(p_operation_id, gen_random_uuid());
+  v_trial integer;
+  v_total integer;
+  v_from_trial integer;
+  v_from_topup integer;
+  v_from_sub integer;
+  v_running integer;
+  v_txn_id uuid;
+begin
+  select * into v_credits from public.user_credits where user_id = p_user_id;
+
+  v_trial := case
+    when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+    else coalesce(v_credits.trial_balance, 0)
+  end;
+  v_total := v_trial + v_credits.topup_balance + v_credits.subscription_balance;
+
+  if v_total < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_total);
+  end if;
+
+  if p_amount = 0 then
+    return jsonb_build_object('ok', true, 'new_balance', v_total, 'transaction_id', null);
+  end if;
+
+  v_from_trial := least(p_amount, v_trial);
+  v_from_topup := least(p_amount - v_from_trial, v_credits.topup_balance);
+  v_from_sub := p_amount - v_from_trial - v_from_topup;
+
+  if v_from_topup > 0 then
+    perform public.consume_topup_lots(p_user_id, v_from_topup);
+  end if;
+
+  update public.user_credits
+  set trial_balance = v_trial - v_from_trial,
+      topup_balance = topup_balance - v_from_topup,
+      subscription_balance = subscription_balance - v_from_sub,
+      lifetime_spent = lifetime_spent + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  -- One ledger row per pool touched, with a running balance_after
+  v_running := v_total;
+
+  if v_from_trial > 0 then
+    v_running := v_running - v_from_trial;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_trial, v_running, 'trial', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_topup > 0 then
+    v_running := v_running - v_from_topup;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_topup, v_running, 'topup', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  if v_from_sub > 0 then
+    v_running := v_running - v_from_sub;
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, operation_id)
+    values (p_user_id, -v_from_sub, v_running, 'subscription', 'usage_deduction', p_description, p_app_key, p_reference_id, v_operation_id)
+    returning id into v_txn_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+-- Purchase: add to the top-up pool and open a lot expiring after p_expiry_months.
+-- Returns { ok, new_balance, lot_id, expires_at }.
+create or replace function public.allocate_topup_lot(
+  p_user_id uuid,
+  p_amount integer,
+  p_description text,
+  p_reference_id text,
+  p_expiry_months integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_expires_at timestamptz := now() + make_interval(months => p_expiry_months);
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'allocate_topup_lot: amount must be positive (got %)', p_amount;
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  update public.user_credits
+  set topup_balance = topup_balance + p_amount,
+      lifetime_earned = lifetime_earned + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, p_amount, p_amount, p_description, p_reference_id, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + p_amount;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+  values (p_user_id, p_amount, v_total, 'topup', 'topup_purchase', p_description, null, p_reference_id);
+
+  return jsonb_build_object('ok', true, 'new_balance', v_total, 'lot_id', v_lot_id, 'expires_at', v_expires_at);
+end;
+$$;
+
+-- Expire every lot past its expiry: remove what is left of it from the pool and
+-- log a topup_expired transaction. Returns the number of lots expired.
+create or replace function public.expire_topup_lots()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_due record;
+  v_lot public.credit_topup_lots%rowtype;
+  v_credits public.user_credits%rowtype;
+  v_amount integer;
+  v_total integer;
+  v_count integer := 0;
+begin
+  for v_due in
+    select id, user_id
+    from public.credit_topup_lots
+    where remaining > 0 and expires_at <= now()
+    order by expires_at
+  loop
+    -- Same lock order as deductions: user_credits first, then the lot
+    select * into v_credits
+    from public.user_credits
+    where user_id = v_due.user_id
+    for update;
+
+    select * into v_lot
+    from public.credit_topup_lots
+    where id = v_due.id
+    for update;
+
+    continue when v_lot.remaining <= 0;
+
+    v_amount := least(v_lot.remaining, coalesce(v_credits.topup_balance, 0));
+
+    update public.credit_topup_lots
+    set remaining = 0, expired_at = now(), updated_at = now()
+    where id = v_lot.id;
+
+    v_count := v_count + 1;
+    continue when v_amount <= 0;
+
+    update public.user_credits
+    set topup_balance = topup_balance - v_amount,
+        updated_at = now()
+    where user_id = v_lot.user_id;
+
+    v_total := case
+        when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+        else coalesce(v_credits.trial_balance, 0)
+      end + v_credits.topup_balance + v_credits.subscription_balance - v_amount;
+
+    insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+    values (
+      v_lot.user_id,
+      -v_amount,
+      v_total,
+      'topup',
+      'topup_expired',
+      'Expired: ' || coalesce(v_lot.description, 'top-up'),
+      null,
+      v_lot.id::text
+    );
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.consume_topup_lots(uuid, integer) from public, anon, authenticated, service_role;
+revoke all on function public.trim_topup_lots() from public, anon, authenticated, service_role;
+revoke all on function public.allocate_topup_lot(uuid, integer, text, text, integer) from public, anon, authenticated;
+revoke all on function public.expire_topup_lots() from public, anon, authenticated;
+
+grant execute on function public.allocate_topup_lot(uuid, integer, text, text, integer) to service_role;
+grant execute on function public.expire_topup_lots() to service_role;
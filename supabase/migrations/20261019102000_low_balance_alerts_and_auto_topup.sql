@@ -0,0 +1,40 @@
+-- Low-balance alerts and auto top-up.
+--
+-- low_balance_threshold (null = off): when a deduction leaves the balance
+-- below it, the user gets one email. low_balance_alerted_at remembers that the
+-- alert went out, and is cleared once the balance is back above the threshold
+-- so the next drop alerts again.
+--
+-- Auto top-up (opt-in) charges the customer's saved card for auto_topup_pack
+-- instead of alerting. Guardrails: at most auto_topup_max_per_month charges
+-- per calendar month (UTC), and only one charge in flight per user.
+
+alter table public.user_settings
+  add column if not exists low_balance_threshold integer check (low_balance_threshold is null or low_balance_threshold between 1 and 100000),
+  add column if not exists low_balance_alerted_at timestamptz,
+  add column if not exists auto_topup_enabled boolean not null default false,
+  add column if not exists auto_topup_pack text check (auto_topup_pack is null or auto_topup_pack in ('starter', 'builder', 'power', 'pro', 'max')),
+  add column if not exists auto_topup_max_per_month integer not null default 2 check (auto_topup_max_per_month between 1 and 10);
+
+create table if not exists public.auto_topup_charges (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pack_key text not null,
+  credits integer not null check (credits > 0),
+  amount_cents integer not null check (amount_cents > 0),
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  stripe_payment_intent_id text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists auto_topup_charges_user_month_idx
+  on public.auto_topup_charges (user_id, created_at);
+
+-- One charge in flight per user: concurrent deductions can't double-charge
+create unique index if not exists auto_topup_charges_pending_idx
+  on public.auto_topup_charges (user_id)
+  where status = 'pending';
+
+alter table public.auto_topup_charges enable row level security;
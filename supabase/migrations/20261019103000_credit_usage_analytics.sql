@@ -0,0 +1,57 @@
+-- Credit usage analytics.
+--
+-- Aggregates a user's spending in credit_transactions by time bucket
+-- (day / week / month, UTC), app_key, operation and pool. Refunds count as
+-- negative usage against the operation they refunded, so totals are net
+-- spend. The operation is the ledger description without the " (<app>)"
+-- suffix (and without the "Refund for " prefix on refunds).
+--
+-- credits: net credits spent; operations: number of deductions (a deduction
+-- split across pools counts once per pool row group).
+
+create index if not exists credit_transactions_user_created_idx
+  on public.credit_transactions (user_id, created_at);
+
+create or replace function public.credit_usage_analytics(
+  p_user_id uuid,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text
+) returns table (
+  bucket_start timestamptz,
+  app_key text,
+  operation text,
+  pool text,
+  credits bigint,
+  operations bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_bucket not in ('day', 'week', 'month') then
+    raise exception 'credit_usage_analytics: bucket must be day, week or month (got %)', p_bucket;
+  end if;
+
+  return query
+  select
+    date_trunc(p_bucket, t.created_at at time zone 'UTC') at time zone 'UTC' as bucket_start,
+    coalesce(t.app_key, 'unknown') as app_key,
+    regexp_replace(regexp_replace(coalesce(t.description, 'unknown'), '^Refund for ', ''), ' \([^)]*\)$', '') as operation,
+    t.pool::text as pool,
+    sum(-t.amount)::bigint as credits,
+    count(distinct coalesce(t.operation_id, t.id)) filter (where t.type = 'usage_deduction')::bigint as operations
+  from public.credit_transactions t
+  where t.user_id = p_user_id
+    and t.type in ('usage_deduction', 'refund')
+    and t.created_at >= p_from
+    and t.created_at < p_to
+  group by 1, 2, 3, 4
+  order by 1, 2, 3, 4;
+end;
+$$;
+
+revoke all on function public.credit_usage_analytics(uuid, timestamptz, timestamptz, text) from public, anon, authenticated;
+grant execute on function public.credit_usage_analytics(uuid, timestamptz, timestamptz, text) to service_role;
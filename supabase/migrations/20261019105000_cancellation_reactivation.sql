@@ -0,0 +1,10 @@
+-- Record when a cancelled subscription is kept before its period ends.
+-- The reversal is stored on the cancellation_feedback row of the cancellation
+-- it undoes, so reporting sees reason, feedback and outcome side by side.
+
+alter table public.cancellation_feedback
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists reactivated_at timestamptz;
+
+create index if not exists cancellation_feedback_user_app_idx
+  on public.cancellation_feedback (user_id, app_key, created_at desc);
@@ -0,0 +1,95 @@
+-- Retention offers as data instead of a hardcoded reason → offer map.
+--
+-- A rule matches a cancellation when every condition that is set holds:
+-- reason, app_key, plan_tier, at least min_months_subscribed months on the
+-- subscription, and at most max_prior_offers previously accepted offers.
+-- The first matching active rule by priority wins. Its variants are weighted;
+-- each user lands in the same variant of a rule every time (hash of user id
+-- and rule id), so A/B splits are stable across attempts. A variant with
+-- offer_type 'none' is a hold-out group that sees no offer.
+--
+-- Coupon offers name the coupon by env var (offer_details.coupon_env), since
+-- coupon ids differ between Stripe test and live mode.
+--
+-- retention_offer_events records each step for reporting: shown, held_out,
+-- accepted and cancelled_anyway.
+
+create table if not exists public.retention_offer_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  priority integer not null default 100,
+  active boolean not null default true,
+  reason text,
+  app_key text,
+  plan_tier text,
+  min_months_subscribed integer not null default 0 check (min_months_subscribed >= 0),
+  max_prior_offers integer not null default 0 check (max_prior_offers >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists retention_offer_rules_active_idx
+  on public.retention_offer_rules (priority)
+  where active;
+
+create table if not exists public.retention_offer_variants (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid not null references public.retention_offer_rules(id) on delete cascade,
+  variant_key text not null,
+  weight integer not null default 1 check (weight >= 0),
+  offer_type text not null check (offer_type in ('discount_3mo', 'discount_1mo', 'pause', 'credits', 'none')),
+  offer_details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (rule_id, variant_key)
+);
+
+alter table public.cancellation_offers
+  add column if not exists rule_id uuid references public.retention_offer_rules(id) on delete set null,
+  add column if not exists variant_key text;
+
+create table if not exists public.retention_offer_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  offer_id uuid references public.cancellation_offers(id) on delete set null,
+  rule_id uuid references public.retention_offer_rules(id) on delete set null,
+  variant_key text,
+  app_key text not null,
+  reason text not null,
+  event text not null check (event in ('shown', 'held_out', 'accepted', 'cancelled_anyway')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists retention_offer_events_rule_idx
+  on public.retention_offer_events (rule_id, variant_key, event);
+
+alter table public.retention_offer_rules enable row level security;
+alter table public.retention_offer_variants enable row level security;
+alter table public.retention_offer_events enable row level security;
+
+-- Seed with the previous hardcoded offers: one rule per reason, one variant,
+-- lifetime limit of one accepted offer.
+with seed(name, priority, reason, variant_key, offer_type, offer_details) as (
+  values
+    ('Too expensive: 20% off 3 months', 100, 'too_expensive', 'control', 'discount_3mo',
+      '{"percent_off": 20, "duration_months": 3, "coupon_env": "STRIPE_COUPON_20_OFF_3MO"}'::jsonb),
+    ('Not using: pause 1 month', 100, 'not_using', 'control', 'pause',
+      '{"pause_months": 1}'::jsonb),
+    ('Missing features: 50 credits', 100, 'missing_features', 'control', 'credits',
+      '{"credit_amount": 50}'::jsonb),
+    ('Switching competitor: 25% off 1 month', 100, 'switching_competitor', 'control', 'discount_1mo',
+      '{"percent_off": 25, "duration_months": 1, "coupon_env": "STRIPE_COUPON_25_OFF_1MO"}'::jsonb),
+    ('Technical issues: 50 credits', 100, 'technical_issues', 'control', 'credits',
+      '{"credit_amount": 50}'::jsonb),
+    ('Business changed: 25% off 1 month', 100, 'business_changed', 'control', 'discount_1mo',
+      '{"percent_off": 25, "duration_months": 1, "coupon_env": "STRIPE_COUPON_25_OFF_1MO"}'::jsonb)
+),
+rules as (
+  insert into public.retention_offer_rules (name, priority, reason)
+  select name, priority, reason from seed
+  where not exists (select 1 from public.retention_offer_rules)
+  returning id, reason
+)
+insert into public.retention_offer_variants (rule_id, variant_key, weight, offer_type, offer_details)
+select rules.id, seed.variant_key, 1, seed.offer_type, seed.offer_details
+from rules
+join seed on seed.reason = rules.reason;
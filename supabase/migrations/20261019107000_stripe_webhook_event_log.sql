@@ -0,0 +1,23 @@
+-- stripe_events becomes a log of every received webhook event, not just a
+-- list of processed ids. Each event keeps its payload, status, attempt count
+-- and last error, so failed events can be retried (stripe-webhook-retry, with
+-- exponential backoff via next_attempt_at) or replayed by id.
+--
+-- Status: received → processing → succeeded | failed (retried) | dead (gave up).
+-- Rows that existed before this migration were processed, hence the backfill.
+
+alter table public.stripe_events
+  add column if not exists status text not null default 'succeeded'
+    check (status in ('received', 'processing', 'succeeded', 'failed', 'dead')),
+  add column if not exists attempts integer not null default 0,
+  add column if not exists last_error text,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists received_at timestamptz not null default now(),
+  add column if not exists processed_at timestamptz,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.stripe_events alter column status set default 'received';
+
+create index if not exists stripe_events_retry_idx
+  on public.stripe_events (next_attempt_at)
+  where status in ('received', 'processing', 'failed');
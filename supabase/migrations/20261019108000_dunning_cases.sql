@@ -0,0 +1,39 @@
+-- Dunning for past_due subscriptions.
+--
+-- A failed subscription payment opens one case per subscription. The case
+-- escalates through three emails (first_failure, reminder, final_notice) on
+-- the dunning-escalation schedule. Once the grace period has passed,
+-- restricted_at is set and credit deductions are refused for the user while
+-- the case stays open. A successful invoice payment resolves the case; a
+-- deleted subscription closes it.
+
+create table if not exists public.dunning_cases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  app_key text not null,
+  stripe_subscription_id text not null,
+  stripe_invoice_id text,
+  amount_due_cents integer,
+  currency text not null default 'usd',
+  status text not null default 'open' check (status in ('open', 'resolved', 'closed')),
+  stage text not null default 'first_failure' check (stage in ('first_failure', 'reminder', 'final_notice')),
+  -- The latest attempt needs the customer to authenticate (SCA/3DS), not a new card
+  action_required boolean not null default false,
+  first_failed_at timestamptz not null default now(),
+  last_emailed_at timestamptz,
+  restricted_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One open case per subscription: repeated payment_failed events update it
+create unique index if not exists dunning_cases_open_subscription_idx
+  on public.dunning_cases (stripe_subscription_id)
+  where status = 'open';
+
+create index if not exists dunning_cases_open_user_idx
+  on public.dunning_cases (user_id)
+  where status = 'open';
+
+alter table public.dunning_cases enable row level security;
@@ -0,0 +1,78 @@
+-- Promo code attribution.
+--
+-- Subscription and top-up checkout accept Stripe promotion codes. The code a
+-- purchase redeemed is kept next to what it bought: on app_subscriptions for
+-- subscriptions (synced from the subscription's metadata) and on the
+-- topup_purchase credit_transactions row for top-ups.
+
+alter table public.app_subscriptions
+  add column if not exists promo_code text;
+
+alter table public.credit_transactions
+  add column if not exists promo_code text;
+
+create index if not exists app_subscriptions_promo_code_idx
+  on public.app_subscriptions (promo_code)
+  where promo_code is not null;
+
+create index if not exists credit_transactions_promo_code_idx
+  on public.credit_transactions (promo_code)
+  where promo_code is not null;
+
+-- allocate_topup_lot gains p_promo_code; drop the old signature so there is one function
+drop function if exists public.allocate_topup_lot(uuid, integer, text, text, integer);
+
+create or replace function public.allocate_topup_lot(
+  p_user_id uuid,
+  p_amount integer,
+  p_description text,
+  p_reference_id text,
+  p_expiry_months integer,
+  p_promo_code text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_expires_at timestamptz := now() + make_interval(months => p_expiry_months);
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'allocate_topup_lot: amount must be positive (got %)', p_amount;
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  update public.user_credits
+  set topup_balance = topup_balance + p_amount,
+      lifetime_earned = lifetime_earned + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, p_amount, p_amount, p_description, p_reference_id, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + p_amount;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, promo_code)
+  values (p_user_id, p_amount, v_total, 'topup', 'topup_purchase', p_description, null, p_reference_id, p_promo_code);
+
+  return jsonb_build_object('ok', true, 'new_balance', v_total, 'lot_id', v_lot_id, 'expires_at', v_expires_at);
+end;
+$$;
+
+revoke all on function public.allocate_topup_lot(uuid, integer, text, text, integer, text) from public, anon, authenticated;
+grant execute on function public.allocate_topup_lot(uuid, integer, text, text, integer, text) to service_role;
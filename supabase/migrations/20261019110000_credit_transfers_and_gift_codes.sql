@@ -0,0 +1,234 @@
+-- Credit transfers and gift codes.
+--
+-- Transfers move top-up credits from one account to another (e.g. an agency
+-- funding the client accounts it manages). Only the top-up pool can be
+-- transferred, and held credits cannot be. Each transfer writes a
+-- transfer_out row for the sender and a transfer_in row for the recipient
+-- that share a reference_id ('transfer_<uuid>'). Transferred credits keep
+-- their expiry: the sender's lots are taken soonest expiry first, as for a
+-- deduction, and the recipient gets lots with the same expires_at. Credits
+-- that were not in a lot move as lot-less (non-expiring) credit. Lifetime
+-- counters are left alone: a transfer moves credits, it doesn't earn or
+-- spend them.
+--
+-- Gift codes are bought through checkout (metadata type 'gift') and redeem
+-- once into the redeemer's top-up pool as a new lot, like a purchase. The
+-- ledger row is a gift_redemption with the gift code's id as reference_id.
+
+create table if not exists public.credit_gift_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  credits integer not null check (credits > 0),
+  pack_name text not null,
+  purchaser_id uuid not null references auth.users(id) on delete cascade,
+  -- One code per checkout session, so webhook retries don't mint duplicates
+  stripe_session_id text unique,
+  recipient_email text,
+  message text,
+  redeemed_by uuid references auth.users(id) on delete set null,
+  redeemed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_gift_codes_purchaser_idx
+  on public.credit_gift_codes (purchaser_id, created_at desc);
+
+alter table public.credit_gift_codes enable row level security;
+
+-- Move p_amount top-up credits from p_from_user_id to p_to_user_id.
+-- Returns { ok, reference_id, new_balance, recipient_balance, transaction_id }
+-- or { ok: false, required, available }.
+create or replace function public.transfer_topup_credits(
+  p_from_user_id uuid,
+  p_to_user_id uuid,
+  p_amount integer,
+  p_out_description text,
+  p_in_description text,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from public.user_credits%rowtype;
+  v_to public.user_credits%rowtype;
+  v_reference text := 'transfer_' || gen_random_uuid();
+  v_from_total integer;
+  v_to_total integer;
+  v_available integer;
+  v_lot record;
+  v_left integer := p_amount;
+  v_take integer;
+  v_txn_id uuid;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'transfer_topup_credits: amount must be positive (got %)', p_amount;
+  end if;
+
+  if p_from_user_id = p_to_user_id then
+    raise exception 'transfer_topup_credits: sender and recipient must differ';
+  end if;
+
+  insert into public.user_credits (user_id) values (p_to_user_id)
+  on conflict (user_id) do nothing;
+
+  -- Lock both rows in a fixed order so opposite transfers can't deadlock
+  perform 1
+  from public.user_credits
+  where user_id in (p_from_user_id, p_to_user_id)
+  order by user_id
+  for update;
+
+  select * into v_from from public.user_credits where user_id = p_from_user_id;
+  select * into v_to from public.user_credits where user_id = p_to_user_id;
+
+  if v_from.user_id is null then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  v_from_total := case
+      when v_from.trial_expires_at is not null and v_from.trial_expires_at < now() then 0
+      else coalesce(v_from.trial_balance, 0)
+    end + v_from.topup_balance + v_from.subscription_balance;
+  v_to_total := case
+      when v_to.trial_expires_at is not null and v_to.trial_expires_at < now() then 0
+      else coalesce(v_to.trial_balance, 0)
+    end + v_to.topup_balance + v_to.subscription_balance;
+
+  v_available := greatest(
+    least(v_from.topup_balance, v_from_total - public.credit_held_amount(p_from_user_id)),
+    0
+  );
+
+  if v_available < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_available);
+  end if;
+
+  for v_lot in
+    select id, remaining, expires_at
+    from public.credit_topup_lots
+    where user_id = p_from_user_id and remaining > 0
+    order by expires_at, purchased_at
+    for update
+  loop
+    exit when v_left <= 0;
+    v_take := least(v_left, v_lot.remaining);
+
+    update public.credit_topup_lots
+    set remaining = remaining - v_take, updated_at = now()
+    where id = v_lot.id;
+
+    insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+    values (p_to_user_id, v_take, v_take, p_in_description, v_reference, v_lot.expires_at);
+
+    v_left := v_left - v_take;
+  end loop;
+
+  update public.user_credits
+  set topup_balance = topup_balance - p_amount,
+      updated_at = now()
+  where user_id = p_from_user_id;
+
+  update public.user_credits
+  set topup_balance = topup_balance + p_amount,
+      updated_at = now()
+  where user_id = p_to_user_id;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, reason, actor_id)
+  values (p_from_user_id, -p_amount, v_from_total - p_amount, 'topup', 'transfer_out', p_out_description, null, v_reference, p_note, p_from_user_id)
+  returning id into v_txn_id;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, reason, actor_id)
+  values (p_to_user_id, p_amount, v_to_total + p_amount, 'topup', 'transfer_in', p_in_description, null, v_reference, p_note, p_from_user_id);
+
+  return jsonb_build_object(
+    'ok', true,
+    'reference_id', v_reference,
+    'new_balance', v_from_total - p_amount,
+    'recipient_balance', v_to_total + p_amount,
+    'transaction_id', v_txn_id
+  );
+end;
+$$;
+
+-- Redeem a gift code into p_user_id's top-up pool as a lot expiring after
+-- p_expiry_months. Returns { ok, credits, new_balance, lot_id, expires_at }
+-- or { ok: false, reason: 'not_found' | 'already_redeemed' }.
+create or replace function public.redeem_gift_code(
+  p_code text,
+  p_user_id uuid,
+  p_expiry_months integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gift public.credit_gift_codes%rowtype;
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_description text;
+  v_expires_at timestamptz := now() + make_interval(months => p_expiry_months);
+begin
+  select * into v_gift
+  from public.credit_gift_codes
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_gift.redeemed_at is not null then
+    return jsonb_build_object('ok', false, 'reason', 'already_redeemed');
+  end if;
+
+  update public.credit_gift_codes
+  set redeemed_by = p_user_id, redeemed_at = now()
+  where id = v_gift.id;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  update public.user_credits
+  set topup_balance = topup_balance + v_gift.credits,
+      lifetime_earned = lifetime_earned + v_gift.credits,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  v_description := 'Gift: ' || v_gift.pack_name;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, v_gift.credits, v_gift.credits, v_description, v_gift.id::text, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + v_gift.credits;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+  values (p_user_id, v_gift.credits, v_total, 'topup', 'gift_redemption', v_description, null, v_gift.id::text);
+
+  return jsonb_build_object(
+    'ok', true,
+    'credits', v_gift.credits,
+    'new_balance', v_total,
+    'lot_id', v_lot_id,
+    'expires_at', v_expires_at
+  );
+end;
+$$;
+
+revoke all on function public.transfer_topup_credits(uuid, uuid, integer, text, text, text) from public, anon, authenticated;
+revoke all on function public.redeem_gift_code(text, uuid, integer) from public, anon, authenticated;
+
+grant execute on function public.transfer_topup_credits(uuid, uuid, integer, text, text, text) to service_role;
+grant execute on function public.redeem_gift_code(text, uuid, integer) to service_role;
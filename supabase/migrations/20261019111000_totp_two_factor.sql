@@ -0,0 +1,39 @@
+-- TOTP two-factor authentication.
+--
+-- user_two_factor holds each user's authenticator secret, encrypted with
+-- ENCRYPTION_KEY by the app (never stored in plaintext). A row with a null
+-- enabled_at is a pending enrollment: the user has been shown the QR code
+-- but hasn't confirmed a code yet, so login doesn't ask for one.
+-- last_used_step is the 30-second time step of the last accepted code; a
+-- code is only accepted for a later step, so it can't be replayed.
+--
+-- Recovery codes are stored as SHA-256 hashes and are single use (used_at).
+--
+-- user_settings.two_factor_enabled stays the flag login checks. It used to
+-- be writable from the settings form without any enrollment, so it is reset
+-- here; users turn it back on by enrolling an authenticator.
+
+create table if not exists public.user_two_factor (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  secret_encrypted text not null,
+  enabled_at timestamptz,
+  last_used_step bigint,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.user_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+alter table public.user_two_factor enable row level security;
+alter table public.user_recovery_codes enable row level security;
+
+update public.user_settings
+set two_factor_enabled = false
+where two_factor_enabled;
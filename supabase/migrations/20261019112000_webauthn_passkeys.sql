@@ -0,0 +1,45 @@
+-- WebAuthn passkeys.
+--
+-- user_passkeys holds one row per registered credential: the credential id
+-- and COSE public key (both base64url), the signature counter the
+-- authenticator last reported, and the transports it supports so the browser
+-- can offer the right UI. label is user-editable ("MacBook Touch ID");
+-- last_used_at is updated on every successful sign-in.
+--
+-- webauthn_challenges holds the random challenges handed to the browser for
+-- a registration or sign-in ceremony. Each is consumed (deleted) when the
+-- response comes back, so a signed response can't be replayed, and expires
+-- after a few minutes. Sign-in challenges have no user_id: passkeys are
+-- discoverable, so the user is only known once the assertion is verified.
+
+create table if not exists public.user_passkeys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  credential_id text not null unique,
+  public_key text not null,
+  counter bigint not null default 0,
+  transports text[] not null default '{}',
+  device_type text not null,
+  backed_up boolean not null default false,
+  label text not null,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_passkeys_user_idx
+  on public.user_passkeys (user_id, created_at);
+
+create table if not exists public.webauthn_challenges (
+  id uuid primary key default gen_random_uuid(),
+  challenge text not null unique,
+  type text not null check (type in ('registration', 'authentication')),
+  user_id uuid references auth.users(id) on delete cascade,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webauthn_challenges_expires_idx
+  on public.webauthn_challenges (expires_at);
+
+alter table public.user_passkeys enable row level security;
+alter table public.webauthn_challenges enable row level security;
@@ -0,0 +1,60 @@
+-- Account lockout state shared across serverless instances.
+--
+-- One row per lockout identifier (client IP + email, see
+-- lib/security/account-lockout.ts). failed_count counts failed sign-in
+-- attempts; it starts over when the previous failure is older than the
+-- attempt window. locked_until is set once the limit is reached. Used when
+-- Upstash Redis isn't configured; with Redis the same state lives in keys
+-- with a TTL instead.
+
+create table if not exists public.account_lockouts (
+  identifier text primary key,
+  failed_count integer not null default 0,
+  last_attempt_at timestamptz not null default now(),
+  locked_until timestamptz
+);
+
+create index if not exists account_lockouts_last_attempt_idx
+  on public.account_lockouts (last_attempt_at);
+
+alter table public.account_lockouts enable row level security;
+
+-- Count a failed attempt for p_identifier and return the new count. The
+-- count restarts at 1 if the last failure was more than p_window_seconds ago.
+-- Rows nobody has touched for a day (and that aren't locked) are pruned here,
+-- so the table doesn't need a cleanup job.
+create or replace function public.record_failed_login_attempt(
+  p_identifier text,
+  p_window_seconds integer
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.account_lockouts as l (identifier, failed_count, last_attempt_at)
+  values (p_identifier, 1, now())
+  on conflict (identifier) do update
+  set failed_count = case
+        when l.last_attempt_at < now() - make_interval(secs => p_window_seconds) then 1
+        else l.failed_count + 1
+      end,
+      locked_until = case
+        when l.last_attempt_at < now() - make_interval(secs => p_window_seconds) then null
+        else l.locked_until
+      end,
+      last_attempt_at = now()
+  returning failed_count into v_count;
+
+  delete from public.account_lockouts
+  where last_attempt_at < now() - interval '1 day'
+    and (locked_until is null or locked_until < now());
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.record_failed_login_attempt(text, integer) from public, anon, authenticated;
+grant execute on function public.record_failed_login_attempt(text, integer) to service_role;
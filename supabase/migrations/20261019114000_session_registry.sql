@@ -0,0 +1,33 @@
+-- Active-session registry.
+--
+-- user_sessions gets one row per issued SSO token. session_id is the token's
+-- jti claim, so any app holding the cookie can look its session up.
+-- user_agent and ip_address are captured at sign-in for the "where you're
+-- signed in" list in Settings; last_active is refreshed as the token is used.
+-- Revoking a session sets revoked_at rather than deleting the row, so the
+-- jti stays blocked until the token would have expired anyway.
+--
+-- The table predates the migrations folder; create it if it's missing and
+-- add the new columns otherwise.
+
+create table if not exists public.user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  session_id text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  last_active timestamptz not null default now()
+);
+
+alter table public.user_sessions
+  add column if not exists user_agent text,
+  add column if not exists ip_address text,
+  add column if not exists revoked_at timestamptz;
+
+create unique index if not exists user_sessions_session_id_idx
+  on public.user_sessions (session_id);
+
+create index if not exists user_sessions_user_idx
+  on public.user_sessions (user_id, expires_at);
+
+alter table public.user_sessions enable row level security;
@@ -0,0 +1,72 @@
+-- Idle timeout for SSO sessions.
+--
+-- user_settings.session_timeout_minutes is how long a session may go without
+-- activity (null or 0 = no idle timeout). user_sessions.last_active is the
+-- activity clock: it moves forward on authenticated requests and on the
+-- heartbeat AuthProvider sends while the user is interacting with any app.
+--
+-- check_user_session does the revocation check, the idle check and the
+-- last_active update in one round trip. A session found idle is revoked on
+-- the spot, so it stays signed out even if the timeout is raised later.
+
+create or replace function public.check_user_session(
+  p_session_id text,
+  p_touch boolean,
+  p_touch_interval_seconds integer
+) returns table (
+  session_status text,
+  session_last_active timestamptz,
+  timeout_minutes integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_last_active timestamptz;
+  v_revoked_at timestamptz;
+  v_timeout integer;
+begin
+  select s.user_id, s.last_active, s.revoked_at
+  into v_user_id, v_last_active, v_revoked_at
+  from public.user_sessions s
+  where s.session_id = p_session_id
+  for update;
+
+  if not found then
+    return query select 'unknown'::text, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_revoked_at is not null then
+    return query select 'revoked'::text, v_last_active, null::integer;
+    return;
+  end if;
+
+  select us.session_timeout_minutes into v_timeout
+  from public.user_settings us
+  where us.user_id = v_user_id;
+
+  if v_timeout > 0 and v_last_active < now() - make_interval(mins => v_timeout) then
+    update public.user_sessions
+    set revoked_at = now()
+    where session_id = p_session_id;
+
+    return query select 'idle'::text, v_last_active, v_timeout;
+    return;
+  end if;
+
+  if p_touch and v_last_active < now() - make_interval(secs => p_touch_interval_seconds) then
+    v_last_active := now();
+    update public.user_sessions
+    set last_active = v_last_active
+    where session_id = p_session_id;
+  end if;
+
+  return query select 'active'::text, v_last_active, nullif(v_timeout, 0);
+end;
+$$;
+
+revoke all on function public.check_user_session(text, boolean, integer) from public, anon, authenticated;
+grant execute on function public.check_user_session(text, boolean, integer) to service_role;
@@ -0,0 +1,115 @@
+-- Refunds are admin-only and free the deduction's idempotency key.
+--
+-- The self-refund window (p_min_created_at) is gone: with no proof that an
+-- operation failed, letting users refund their own deductions made every
+-- operation free. Apps that may fail a job reserve credits and release the
+-- reservation instead.
+--
+-- A refunded deduction's credit_idempotency_keys row used to stay behind, so
+-- retrying with the same reference_id replayed the refunded transaction and
+-- the work was done for free. The refund now deletes it.
+
+drop function if exists public.refund_credit_transaction(uuid, uuid, text, uuid, timestamptz);
+
+-- Refund a usage deduction (every pool row of it) back to the pools it came from.
+-- Returns { ok, refunded, new_balance, transaction_id }
+--      or { ok: false, reason: 'not_found' | 'not_refundable' | 'already_refunded' }.
+create or replace function public.refund_credit_transaction(
+  p_user_id uuid,
+  p_transaction_id uuid,
+  p_reason text,
+  p_actor_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_original public.credit_transactions%rowtype;
+  v_row public.credit_transactions%rowtype;
+  v_trial integer;
+  v_running integer;
+  v_refunded integer := 0;
+  v_txn_id uuid;
+begin
+  perform 1 from public.user_credits where user_id = p_user_id for update;
+
+  select * into v_original
+  from public.credit_transactions
+  where id = p_transaction_id and user_id = p_user_id;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_original.type <> 'usage_deduction' then
+    return jsonb_build_object('ok', false, 'reason', 'not_refundable');
+  end if;
+
+  if exists (
+    select 1 from public.credit_transactions refund
+    join public.credit_transactions original on original.id = refund.refunded_transaction_id
+    where original.id = p_transaction_id
+       or (v_original.operation_id is not null and original.operation_id = v_original.operation_id)
+  ) then
+    return jsonb_build_object('ok', false, 'reason', 'already_refunded');
+  end if;
+
+  select case
+      when trial_expires_at is not null and trial_expires_at < now() then 0
+      else coalesce(trial_balance, 0)
+    end + topup_balance + subscription_balance
+  into v_running
+  from public.user_credits
+  where user_id = p_user_id;
+
+  for v_row in
+    select * from public.credit_transactions
+    where user_id = p_user_id
+      and type = 'usage_deduction'
+      and (id = p_transaction_id
+        or (v_original.operation_id is not null and operation_id = v_original.operation_id))
+    order by created_at, id
+  loop
+    update public.user_credits
+    set trial_balance = trial_balance + case when v_row.pool = 'trial' then -v_row.amount else 0 end,
+        topup_balance = topup_balance + case when v_row.pool = 'topup' then -v_row.amount else 0 end,
+        subscription_balance = subscription_balance + case when v_row.pool = 'subscription' then -v_row.amount else 0 end,
+        lifetime_spent = greatest(0, lifetime_spent + v_row.amount),
+        updated_at = now()
+    where user_id = p_user_id;
+
+    -- Refunded trial credits only count if the trial hasn't expired
+    select case when trial_expires_at is not null and trial_expires_at < now() then 0 else -v_row.amount end
+    into v_trial
+    from public.user_credits
+    where user_id = p_user_id;
+
+    v_running := v_running + case when v_row.pool = 'trial' then v_trial else -v_row.amount end;
+    v_refunded := v_refunded - v_row.amount;
+
+    insert into public.credit_transactions (
+      user_id, amount, balance_after, pool, type, description, app_key, reference_id,
+      operation_id, refunded_transaction_id, reason, actor_id
+    )
+    values (
+      p_user_id, -v_row.amount, v_running, v_row.pool, 'refund', 'Refund for ' || v_row.description,
+      v_row.app_key, v_row.reference_id, v_original.operation_id, v_row.id, p_reason, p_actor_id
+    )
+    returning id into v_txn_id;
+  end loop;
+
+  -- A retry with the same reference is a new charge, not a replay of the refunded one
+  if v_original.reference_id is not null then
+    delete from public.credit_idempotency_keys
+    where user_id = p_user_id
+      and app_key = v_original.app_key
+      and reference_id = v_original.reference_id;
+  end if;
+
+  return jsonb_build_object('ok', true, 'refunded', v_refunded, 'new_balance', v_running, 'transaction_id', v_txn_id);
+end;
+$$;
+
+revoke all on function public.refund_credit_transaction(uuid, uuid, text, uuid) from public, anon, authenticated;
+grant execute on function public.refund_credit_transaction(uuid, uuid, text, uuid) to service_role;
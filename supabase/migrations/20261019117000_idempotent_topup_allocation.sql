@@ -0,0 +1,99 @@
+-- Idempotent top-up allocation and auto top-up reconciliation.
+--
+-- allocate_topup_lot grants a purchase at most once per reference (the
+-- checkout session or PaymentIntent id). A repeat returns the existing lot
+-- with duplicate = true and changes nothing. The check runs under the
+-- user_credits row lock, so concurrent repeats can't both grant.
+--
+-- Auto top-up charges are marked succeeded as soon as the PaymentIntent
+-- succeeds, before the credits are allocated. credited_at records the
+-- allocation; the auto-topup-reconciliation scheduled function credits
+-- succeeded charges that are missing it and settles charges left pending.
+-- Returns { ok, new_balance, lot_id, expires_at, duplicate }.
+
+create index if not exists credit_topup_lots_reference_idx
+  on public.credit_topup_lots (user_id, reference_id)
+  where reference_id is not null;
+
+create or replace function public.allocate_topup_lot(
+  p_user_id uuid,
+  p_amount integer,
+  p_description text,
+  p_reference_id text,
+  p_expiry_months integer,
+  p_promo_code text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_expires_at timestamptz := now() + make_interval(months => p_expiry_months);
+  v_existing public.credit_topup_lots%rowtype;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'allocate_topup_lot: amount must be positive (got %)', p_amount;
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  -- Same purchase again (webhook retry, replay, auto top-up reconciliation): grant nothing
+  if p_reference_id is not null then
+    select * into v_existing
+    from public.credit_topup_lots
+    where user_id = p_user_id and reference_id = p_reference_id
+    limit 1;
+
+    if found then
+      return jsonb_build_object(
+        'ok', true, 'new_balance', null, 'lot_id', v_existing.id,
+        'expires_at', v_existing.expires_at, 'duplicate', true
+      );
+    end if;
+  end if;
+
+  update public.user_credits
+  set topup_balance = topup_balance + p_amount,
+      lifetime_earned = lifetime_earned + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, p_amount, p_amount, p_description, p_reference_id, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + p_amount;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, promo_code)
+  values (p_user_id, p_amount, v_total, 'topup', 'topup_purchase', p_description, null, p_reference_id, p_promo_code);
+
+  return jsonb_build_object('ok', true, 'new_balance', v_total, 'lot_id', v_lot_id, 'expires_at', v_expires_at, 'duplicate', false);
+end;
+$$;
+
+revoke all on function public.allocate_topup_lot(uuid, integer, text, text, integer, text) from public, anon, authenticated;
+grant execute on function public.allocate_topup_lot(uuid, integer, text, text, integer, text) to service_role;
+
+alter table public.auto_topup_charges
+  add column if not exists credited_at timestamptz;
+
+-- Charges from before this migration were credited when they were marked succeeded
+update public.auto_topup_charges
+set credited_at = updated_at
+where status = 'succeeded' and credited_at is null;
+
+create index if not exists auto_topup_charges_unsettled_idx
+  on public.auto_topup_charges (updated_at)
+  where status = 'pending' or (status = 'succeeded' and credited_at is null);
@@ -0,0 +1,193 @@
+-- Transfers to emails without an account.
+--
+-- A transfer used to fail with "No BFEAI account uses that email address",
+-- which let anyone signed in find out which emails have accounts. Now the
+-- credits go either way: to an email with no account they are sent as a gift
+-- code, redeemable once the recipient signs up. The sender gets the same
+-- response in both cases, and can see (and redeem) the code in their gift
+-- codes if it went to a mistyped address.
+--
+-- Transferred credits keep their expiry, as for an account-to-account
+-- transfer: credits_expire_at is the soonest expiry among the lots the code
+-- was funded from (null when it was funded from non-expiring credit only),
+-- and redeem_gift_code uses it instead of a fresh expiry.
+
+alter table public.credit_gift_codes
+  add column if not exists credits_expire_at timestamptz;
+
+-- Move p_amount top-up credits from p_from_user_id into a new gift code for
+-- p_recipient_email. Returns { ok, reference_id, new_balance, transaction_id, gift_code_id }
+-- or { ok: false, required, available }.
+create or replace function public.transfer_topup_credits_to_gift(
+  p_from_user_id uuid,
+  p_amount integer,
+  p_code text,
+  p_recipient_email text,
+  p_out_description text,
+  p_note text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from public.user_credits%rowtype;
+  v_reference text := 'transfer_' || gen_random_uuid();
+  v_from_total integer;
+  v_available integer;
+  v_lot record;
+  v_left integer := p_amount;
+  v_take integer;
+  v_expires_at timestamptz;
+  v_gift_id uuid;
+  v_txn_id uuid;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'transfer_topup_credits_to_gift: amount must be positive (got %)', p_amount;
+  end if;
+
+  select * into v_from
+  from public.user_credits
+  where user_id = p_from_user_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', 0);
+  end if;
+
+  v_from_total := case
+      when v_from.trial_expires_at is not null and v_from.trial_expires_at < now() then 0
+      else coalesce(v_from.trial_balance, 0)
+    end + v_from.topup_balance + v_from.subscription_balance;
+
+  v_available := greatest(
+    least(v_from.topup_balance, v_from_total - public.credit_held_amount(p_from_user_id)),
+    0
+  );
+
+  if v_available < p_amount then
+    return jsonb_build_object('ok', false, 'required', p_amount, 'available', v_available);
+  end if;
+
+  for v_lot in
+    select id, remaining, expires_at
+    from public.credit_topup_lots
+    where user_id = p_from_user_id and remaining > 0
+    order by expires_at, purchased_at
+    for update
+  loop
+    exit when v_left <= 0;
+    v_take := least(v_left, v_lot.remaining);
+
+    update public.credit_topup_lots
+    set remaining = remaining - v_take, updated_at = now()
+    where id = v_lot.id;
+
+    -- Lots come soonest expiry first, so the first one taken sets the code's expiry
+    v_expires_at := coalesce(v_expires_at, v_lot.expires_at);
+    v_left := v_left - v_take;
+  end loop;
+
+  update public.user_credits
+  set topup_balance = topup_balance - p_amount,
+      updated_at = now()
+  where user_id = p_from_user_id;
+
+  insert into public.credit_gift_codes (code, credits, pack_name, purchaser_id, recipient_email, message, credits_expire_at)
+  values (p_code, p_amount, 'Credit transfer', p_from_user_id, p_recipient_email, p_note, v_expires_at)
+  returning id into v_gift_id;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id, reason, actor_id)
+  values (p_from_user_id, -p_amount, v_from_total - p_amount, 'topup', 'transfer_out', p_out_description, null, v_reference, p_note, p_from_user_id)
+  returning id into v_txn_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'reference_id', v_reference,
+    'new_balance', v_from_total - p_amount,
+    'transaction_id', v_txn_id,
+    'gift_code_id', v_gift_id
+  );
+end;
+$$;
+
+-- Redeem a gift code into p_user_id's top-up pool as a lot expiring at the
+-- code's credits_expire_at, or p_expiry_months after redemption if it has none.
+-- Returns { ok, credits, new_balance, lot_id, expires_at }
+-- or { ok: false, reason: 'not_found' | 'already_redeemed' }.
+create or replace function public.redeem_gift_code(
+  p_code text,
+  p_user_id uuid,
+  p_expiry_months integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_gift public.credit_gift_codes%rowtype;
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_description text;
+  v_expires_at timestamptz;
+begin
+  select * into v_gift
+  from public.credit_gift_codes
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found then
+    return jsonb_build_object('ok', false, 'reason', 'not_found');
+  end if;
+
+  if v_gift.redeemed_at is not null then
+    return jsonb_build_object('ok', false, 'reason', 'already_redeemed');
+  end if;
+
+  update public.credit_gift_codes
+  set redeemed_by = p_user_id, redeemed_at = now()
+  where id = v_gift.id;
+
+  v_expires_at := coalesce(v_gift.credits_expire_at, now() + make_interval(months => p_expiry_months));
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  update public.user_credits
+  set topup_balance = topup_balance + v_gift.credits,
+      lifetime_earned = lifetime_earned + v_gift.credits,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  v_description := 'Gift: ' || v_gift.pack_name;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, v_gift.credits, v_gift.credits, v_description, v_gift.id::text, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + v_gift.credits;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+  values (p_user_id, v_gift.credits, v_total, 'topup', 'gift_redemption', v_description, null, v_gift.id::text);
+
+  return jsonb_build_object(
+    'ok', true,
+    'credits', v_gift.credits,
+    'new_balance', v_total,
+    'lot_id', v_lot_id,
+    'expires_at', v_expires_at
+  );
+end;
+$$;
+
+revoke all on function public.transfer_topup_credits_to_gift(uuid, integer, text, text, text, text) from public, anon, authenticated;
+grant execute on function public.transfer_topup_credits_to_gift(uuid, integer, text, text, text, text) to service_role;
@@ -0,0 +1,79 @@
+-- Retention bonus credits as top-up lots.
+--
+-- A "credits" retention offer used to add to topup_balance from the app with
+-- a read-modify-write, and left no lot. allocate_retention_bonus does it in
+-- one transaction under the user_credits row lock, records the bonus as a lot
+-- that expires like purchased top-ups, and logs a retention_bonus
+-- transaction. p_reference_id (the accepted offer) makes it idempotent: a
+-- repeat returns the existing lot with duplicate = true and grants nothing.
+-- Returns { ok, new_balance, lot_id, expires_at, duplicate }.
+
+create or replace function public.allocate_retention_bonus(
+  p_user_id uuid,
+  p_amount integer,
+  p_reference_id text,
+  p_expiry_months integer
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credits public.user_credits%rowtype;
+  v_total integer;
+  v_lot_id uuid;
+  v_expires_at timestamptz := now() + make_interval(months => p_expiry_months);
+  v_existing public.credit_topup_lots%rowtype;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'allocate_retention_bonus: amount must be positive (got %)', p_amount;
+  end if;
+
+  if p_reference_id is null then
+    raise exception 'allocate_retention_bonus: reference is required';
+  end if;
+
+  insert into public.user_credits (user_id) values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_credits
+  from public.user_credits
+  where user_id = p_user_id
+  for update;
+
+  select * into v_existing
+  from public.credit_topup_lots
+  where user_id = p_user_id and reference_id = p_reference_id
+  limit 1;
+
+  if found then
+    return jsonb_build_object(
+      'ok', true, 'new_balance', null, 'lot_id', v_existing.id,
+      'expires_at', v_existing.expires_at, 'duplicate', true
+    );
+  end if;
+
+  update public.user_credits
+  set topup_balance = topup_balance + p_amount,
+      lifetime_earned = lifetime_earned + p_amount,
+      updated_at = now()
+  where user_id = p_user_id;
+
+  insert into public.credit_topup_lots (user_id, amount, remaining, description, reference_id, expires_at)
+  values (p_user_id, p_amount, p_amount, 'Retention offer bonus credits', p_reference_id, v_expires_at)
+  returning id into v_lot_id;
+
+  v_total := case
+      when v_credits.trial_expires_at is not null and v_credits.trial_expires_at < now() then 0
+      else coalesce(v_credits.trial_balance, 0)
+    end + v_credits.topup_balance + v_credits.subscription_balance + p_amount;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, pool, type, description, app_key, reference_id)
+  values (p_user_id, p_amount, v_total, 'topup', 'retention_bonus', 'Retention offer bonus credits', null, p_reference_id);
+
+  return jsonb_build_object('ok', true, 'new_balance', v_total, 'lot_id', v_lot_id, 'expires_at', v_expires_at, 'duplicate', false);
+end;
+$$;
+
+revoke all on function public.allocate_retention_bonus(uuid, integer, text, integer) from public, anon, authenticated;
+grant execute on function public.allocate_retention_bonus(uuid, integer, text, integer) to service_role;
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import {
+  isAccountLocked,
+  recordFailedAttempt,
+  clearFailedAttempts,
+  countFailedAttempt,
+  getLockoutTimeRemaining,
+  setLockoutStore,
+} from '../../lib/security/account-lockout';
+import { MemoryLockoutStore } from '../../lib/security/lockout-store';
+
+/**
+ * Account lockout tests
+ *
+ * Runs the lockout rules against the in-memory store. The Upstash and
+ * Supabase stores implement the same LockoutStore interface.
+ */
+
+test.describe('Account lockout', () => {
+  let store: MemoryLockoutStore;
+  const identifier = '203.0.113.7:someone@example.com';
+
+  test.beforeEach(() => {
+    store = new MemoryLockoutStore();
+    setLockoutStore(store);
+  });
+
+  test('locks after five failed attempts', async () => {
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const result = await recordFailedAttempt(identifier);
+      expect(result).toEqual({ isLocked: false, attemptsRemaining: 5 - attempt });
+    }
+    expect(await isAccountLocked(identifier)).toBe(false);
+
+    const result = await recordFailedAttempt(identifier);
+    expect(result.isLocked).toBe(true);
+    expect(result.lockoutTimeRemaining).toBe(30 * 60);
+    expect(await isAccountLocked(identifier)).toBe(true);
+    expect(await getLockoutTimeRemaining(identifier)).toBeGreaterThan(29 * 60);
+  });
+
+  test('a successful login clears the count', async () => {
+    await recordFailedAttempt(identifier);
+    await recordFailedAttempt(identifier);
+    await clearFailedAttempts(identifier);
+
+    expect(await recordFailedAttempt(identifier)).toEqual({ isLocked: false, attemptsRemaining: 4 });
+  });
+
+  test('an expired lock is lifted and the count starts over', async () => {
+    await store.increment(identifier, 15 * 60 * 1000);
+    await store.lock(identifier, Date.now() - 1000);
+
+    expect(await isAccountLocked(identifier)).toBe(false);
+    expect(await store.get(identifier)).toBeNull();
+    expect(await recordFailedAttempt(identifier)).toEqual({ isLocked: false, attemptsRemaining: 4 });
+  });
+
+  test('identifiers are counted separately', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await recordFailedAttempt(identifier);
+    }
+
+    expect(await isAccountLocked(identifier)).toBe(true);
+    expect(await isAccountLocked('198.51.100.2:someone@example.com')).toBe(false);
+  });
+
+  test('counting an attempt never locks', async () => {
+    const challenge = '2fa-challenge:abc123';
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      expect(await countFailedAttempt(challenge)).toBe(attempt);
+    }
+
+    expect(await isAccountLocked(challenge)).toBe(false);
+  });
+});
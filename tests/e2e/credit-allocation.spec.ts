@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Subscription credit allocation tests
+ *
+ * Period arithmetic needs no database. The allocation tests only run against
+ * a local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+type Credits = typeof import('../../netlify/functions/utils/credits');
+
+const loadCredits = (): Credits => {
+  // utils/supabase-admin refuses to load without these.
+  // Loaded with require so the env is set first (a static import is hoisted).
+  process.env.SUPABASE_URL ??= supabaseUrl || 'http://127.0.0.1:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require('../../netlify/functions/utils/credits');
+};
+
+test.describe('Yearly grant periods', () => {
+  let credits: Credits;
+
+  test.beforeAll(() => {
+    credits = loadCredits();
+  });
+
+  test('counts whole months from the start of the billing year', () => {
+    const period = credits.yearlyGrantPeriod(new Date('2026-01-10T00:00:00Z'), new Date('2026-03-15T00:00:00Z'));
+
+    expect(period.index).toBe(2);
+    expect(period.start.toISOString()).toBe('2026-03-10T00:00:00.000Z');
+    expect(period.end.toISOString()).toBe('2026-04-10T00:00:00.000Z');
+  });
+
+  test('stays within months 0 to 11', () => {
+    const start = new Date('2026-01-10T00:00:00Z');
+
+    expect(credits.yearlyGrantPeriod(start, new Date('2026-02-09T00:00:00Z')).index).toBe(0);
+    expect(credits.yearlyGrantPeriod(start, new Date('2027-02-15T00:00:00Z')).index).toBe(11);
+  });
+
+  test('ends a month that starts on the 31st at the end of a shorter month', () => {
+    const period = credits.yearlyGrantPeriod(new Date('2026-01-31T00:00:00Z'), new Date('2026-02-10T00:00:00Z'));
+
+    expect(period.index).toBe(0);
+    expect(period.end.toISOString()).toBe('2026-02-28T00:00:00.000Z');
+  });
+});
+
+test.describe('Upgrade credits', () => {
+  let credits: Credits;
+
+  const periodStart = new Date('2026-10-01T00:00:00Z');
+  const periodEnd = new Date('2026-10-31T00:00:00Z');
+
+  test.beforeAll(() => {
+    credits = loadCredits();
+  });
+
+  test('grants the difference prorated by the time left, rounded down', () => {
+    const at = new Date('2026-10-21T00:00:00Z'); // a third of the period left
+
+    expect(credits.proratedUpgradeCredits(500, 1000, periodStart, periodEnd, at)).toBe(166);
+    expect(credits.proratedUpgradeCredits(500, 1000, periodStart, periodEnd, periodStart)).toBe(500);
+  });
+
+  test('grants nothing for a downgrade or a finished period', () => {
+    const at = new Date('2026-10-11T00:00:00Z');
+
+    expect(credits.proratedUpgradeCredits(1000, 500, periodStart, periodEnd, at)).toBe(0);
+    expect(credits.proratedUpgradeCredits(500, 500, periodStart, periodEnd, at)).toBe(0);
+    expect(credits.proratedUpgradeCredits(500, 1000, periodStart, periodEnd, new Date('2026-11-05T00:00:00Z'))).toBe(0);
+  });
+});
+
+test.describe('Period credit allocation', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+  });
+
+  test.afterEach(async () => {
+    if (userId) await deleteTestUser(userId);
+  });
+
+  test('grants each period once', async () => {
+    const supabase = getAdminClient();
+
+    const grant = () =>
+      supabase.rpc('allocate_period_credits', {
+        p_user_id: userId,
+        p_amount: 100,
+        p_app_key: 'keywords',
+        p_reference_id: 'monthly_grant:sub_test:2026-02-10',
+        p_description: null,
+      });
+
+    const results = await Promise.all(Array.from({ length: 3 }, () => grant()));
+    expect(results.filter(({ data }) => data?.duplicate === false)).toHaveLength(1);
+
+    const { data: rows } = await supabase
+      .from('credit_transactions')
+      .select('reference_id')
+      .eq('user_id', userId)
+      .eq('reference_id', 'monthly_grant:sub_test:2026-02-10');
+    expect(rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import type { CreditCostConfig } from '../../netlify/functions/utils/credits';
+
+/**
+ * Credit pricing tests
+ *
+ * Checks how priceOperation combines base pricing, volume tiers and
+ * subscription tier overrides. No database needed.
+ */
+
+const config: CreditCostConfig = {
+  operation: 'keyword_report',
+  unitCost: 2,
+  volumeTiers: [
+    { minQuantity: 100, unitCost: 1.5 },
+    { minQuantity: 500, unitCost: 1 },
+  ],
+  tierOverrides: {
+    aeo_consultant: { unitCost: 0.5 },
+    aeo_agency: {
+      volumeTiers: [{ minQuantity: 100, unitCost: 0.25 }],
+    },
+  },
+};
+
+test.describe('Credit pricing', () => {
+  let priceOperation: typeof import('../../netlify/functions/utils/credits').priceOperation;
+
+  test.beforeAll(() => {
+    // utils/supabase-admin refuses to load without these; pricing never queries.
+    // Loaded with require so the env is set first (a static import is hoisted).
+    process.env.SUPABASE_URL ??= 'http://127.0.0.1:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    ({ priceOperation } = require('../../netlify/functions/utils/credits'));
+  });
+
+  test('applies the highest volume tier reached to every unit', () => {
+    expect(priceOperation(config, 10, null)).toMatchObject({ unitCost: 2, cost: 20, volumeTierMin: null });
+    expect(priceOperation(config, 100, null)).toMatchObject({ unitCost: 1.5, cost: 150, volumeTierMin: 100 });
+    expect(priceOperation(config, 600, null)).toMatchObject({ unitCost: 1, cost: 600, volumeTierMin: 500 });
+  });
+
+  test('an override unit cost is not beaten by the base volume tiers', () => {
+    expect(priceOperation(config, 10, 'aeo_consultant')).toMatchObject({
+      unitCost: 0.5,
+      cost: 5,
+      subscriptionTier: 'aeo_consultant',
+    });
+    expect(priceOperation(config, 600, 'aeo_consultant')).toMatchObject({
+      unitCost: 0.5,
+      cost: 300,
+      volumeTierMin: null,
+    });
+  });
+
+  test('override volume tiers replace the base ones', () => {
+    expect(priceOperation(config, 10, 'aeo_agency')).toMatchObject({ unitCost: 2, cost: 20 });
+    expect(priceOperation(config, 600, 'aeo_agency')).toMatchObject({ unitCost: 0.25, cost: 150, volumeTierMin: 100 });
+  });
+
+  test('tiers without an override pay base pricing', () => {
+    expect(priceOperation(config, 600, 'aeo_starter')).toMatchObject({ unitCost: 1, subscriptionTier: null });
+  });
+});
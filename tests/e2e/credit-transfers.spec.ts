@@ -0,0 +1,176 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient, seedUserCredits } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Credit transfer and gift code tests
+ *
+ * Calls the transfer_topup_credits, transfer_topup_credits_to_gift and
+ * redeem_gift_code RPCs directly and checks the paired ledger rows and the
+ * top-up lots on both sides. Only runs
+ * against a local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+test.describe('Credit transfers', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let senderId: string;
+  let recipientId: string;
+
+  test.beforeEach(async () => {
+    const sender = generateTestUser();
+    const recipient = generateTestUser();
+    const [senderUser, recipientUser] = await Promise.all([
+      createTestUser(sender.email, sender.password, sender.fullName),
+      createTestUser(recipient.email, recipient.password, recipient.fullName),
+    ]);
+    expect(senderUser).not.toBeNull();
+    expect(recipientUser).not.toBeNull();
+    senderId = senderUser!.id;
+    recipientId = recipientUser!.id;
+  });
+
+  test.afterEach(async () => {
+    const supabase = getAdminClient();
+    for (const userId of [senderId, recipientId]) {
+      if (!userId) continue;
+      await supabase.from('credit_topup_lots').delete().eq('user_id', userId);
+      await supabase.from('credit_gift_codes').delete().eq('purchaser_id', userId);
+      await deleteTestUser(userId);
+    }
+  });
+
+  const transfer = (amount: number) =>
+    getAdminClient().rpc('transfer_topup_credits', {
+      p_from_user_id: senderId,
+      p_to_user_id: recipientId,
+      p_amount: amount,
+      p_out_description: 'Transfer to recipient',
+      p_in_description: 'Transfer from sender',
+      p_note: 'For the March campaign',
+    });
+
+  test('moves top-up credits with paired ledger rows and keeps lot expiry', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(senderId, { topup: 100, subscription: 300 });
+
+    const expiresAt = new Date(Date.UTC(2027, 2, 1)).toISOString();
+    await supabase.from('credit_topup_lots').insert({
+      user_id: senderId,
+      amount: 60,
+      remaining: 60,
+      description: 'Builder Pack top-up',
+      expires_at: expiresAt,
+    });
+
+    const { data, error } = await transfer(80);
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ ok: true, new_balance: 320, recipient_balance: 80 });
+
+    const { data: balances } = await supabase
+      .from('user_credits')
+      .select('user_id, topup_balance, subscription_balance')
+      .in('user_id', [senderId, recipientId]);
+    expect(balances?.find((b) => b.user_id === senderId)).toMatchObject({ topup_balance: 20, subscription_balance: 300 });
+    expect(balances?.find((b) => b.user_id === recipientId)).toMatchObject({ topup_balance: 80 });
+
+    const { data: rows } = await supabase
+      .from('credit_transactions')
+      .select('user_id, amount, type, reference_id, reason')
+      .in('user_id', [senderId, recipientId])
+      .in('type', ['transfer_out', 'transfer_in']);
+    expect(rows).toHaveLength(2);
+    expect(rows?.find((r) => r.type === 'transfer_out')).toMatchObject({ user_id: senderId, amount: -80 });
+    expect(rows?.find((r) => r.type === 'transfer_in')).toMatchObject({ user_id: recipientId, amount: 80 });
+    expect(rows?.[0].reference_id).toBe(data.reference_id);
+    expect(rows?.[1].reference_id).toBe(data.reference_id);
+
+    // The 60 lot credits moved with their expiry; the other 20 were lot-less
+    const { data: recipientLots } = await supabase
+      .from('credit_topup_lots')
+      .select('remaining, expires_at')
+      .eq('user_id', recipientId);
+    expect(recipientLots).toHaveLength(1);
+    expect(recipientLots?.[0].remaining).toBe(60);
+    expect(new Date(recipientLots![0].expires_at).toISOString()).toBe(expiresAt);
+  });
+
+  test('subscription credits are not transferable', async () => {
+    await seedUserCredits(senderId, { topup: 10, subscription: 300 });
+
+    const { data, error } = await transfer(50);
+    expect(error).toBeNull();
+    expect(data).toEqual({ ok: false, required: 50, available: 10 });
+  });
+
+  test('a transfer to an email without an account becomes a gift code that keeps its expiry', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(senderId, { topup: 100 });
+
+    const expiresAt = new Date(Date.UTC(2027, 2, 1)).toISOString();
+    await supabase.from('credit_topup_lots').insert({
+      user_id: senderId,
+      amount: 60,
+      remaining: 60,
+      description: 'Builder Pack top-up',
+      expires_at: expiresAt,
+    });
+
+    const { data, error } = await supabase.rpc('transfer_topup_credits_to_gift', {
+      p_from_user_id: senderId,
+      p_amount: 40,
+      p_code: 'GIFT-TEST-CODE-0002',
+      p_recipient_email: 'nobody@example.com',
+      p_out_description: 'Transfer to nobody@example.com',
+      p_note: null,
+    });
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ ok: true, new_balance: 60 });
+
+    const { data: gift } = await supabase
+      .from('credit_gift_codes')
+      .select('credits, recipient_email, credits_expire_at')
+      .eq('id', data.gift_code_id)
+      .single();
+    expect(gift).toMatchObject({ credits: 40, recipient_email: 'nobody@example.com' });
+    expect(new Date(gift!.credits_expire_at).toISOString()).toBe(expiresAt);
+
+    const { data: redeemed } = await supabase.rpc('redeem_gift_code', {
+      p_code: 'GIFT-TEST-CODE-0002',
+      p_user_id: recipientId,
+      p_expiry_months: 12,
+    });
+    expect(redeemed).toMatchObject({ ok: true, credits: 40 });
+    expect(new Date(redeemed.expires_at).toISOString()).toBe(expiresAt);
+  });
+
+  test('gift codes redeem once into the top-up pool', async () => {
+    const supabase = getAdminClient();
+    await supabase.from('credit_gift_codes').insert({
+      code: 'GIFT-TEST-CODE-0001',
+      credits: 270,
+      pack_name: 'Builder Pack',
+      purchaser_id: senderId,
+    });
+
+    const redeem = () =>
+      supabase.rpc('redeem_gift_code', { p_code: 'gift-test-code-0001', p_user_id: recipientId, p_expiry_months: 12 });
+
+    const { data: first } = await redeem();
+    expect(first).toMatchObject({ ok: true, credits: 270, new_balance: 270 });
+
+    const { data: second } = await redeem();
+    expect(second).toEqual({ ok: false, reason: 'already_redeemed' });
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('topup_balance')
+      .eq('user_id', recipientId)
+      .single();
+    expect(credits?.topup_balance).toBe(270);
+  });
+});
@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient, seedUserCredits } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Credit usage analytics tests
+ *
+ * Bucketing needs no database. The aggregation tests only run against a
+ * local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+type Credits = typeof import('../../netlify/functions/utils/credits');
+
+const loadCredits = (): Credits => {
+  // utils/supabase-admin refuses to load without these.
+  // Loaded with require so the env is set first (a static import is hoisted).
+  process.env.SUPABASE_URL ??= supabaseUrl || 'http://127.0.0.1:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require('../../netlify/functions/utils/credits');
+};
+
+test.describe('Usage buckets', () => {
+  let credits: Credits;
+
+  test.beforeAll(() => {
+    credits = loadCredits();
+  });
+
+  test('start at the UTC day, Monday and first of the month', () => {
+    const date = new Date('2026-10-18T22:30:00Z'); // a Sunday
+
+    expect(credits.bucketStart(date, 'day').toISOString()).toBe('2026-10-18T00:00:00.000Z');
+    expect(credits.bucketStart(date, 'week').toISOString()).toBe('2026-10-12T00:00:00.000Z');
+    expect(credits.bucketStart(date, 'month').toISOString()).toBe('2026-10-01T00:00:00.000Z');
+  });
+
+  test('a Monday starts its own week', () => {
+    expect(credits.bucketStart(new Date('2026-10-19T08:00:00Z'), 'week').toISOString()).toBe(
+      '2026-10-19T00:00:00.000Z'
+    );
+  });
+});
+
+test.describe('Usage analytics', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let credits: Credits;
+  let userId: string;
+
+  test.beforeAll(() => {
+    credits = loadCredits();
+  });
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+  });
+
+  test.afterEach(async () => {
+    if (userId) await deleteTestUser(userId);
+  });
+
+  test('reports net spend by app and operation with a continuous series', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 100 });
+
+    const deduct = (appKey: string, operation: string, amount: number) =>
+      supabase.rpc('deduct_credits', {
+        p_user_id: userId,
+        p_amount: amount,
+        p_app_key: appKey,
+        p_operation: operation,
+      });
+
+    await deduct('keywords', 'keyword_report', 10);
+    await deduct('labs', 'visibility_scan', 5);
+    const { data: refunded } = await deduct('keywords', 'keyword_report', 4);
+    await supabase.rpc('refund_credit_transaction', {
+      p_user_id: userId,
+      p_transaction_id: refunded.transaction_id,
+      p_reason: 'Report generation failed',
+      p_actor_id: userId,
+    });
+
+    const to = new Date(Date.now() + 60_000);
+    const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const analytics = await credits.getUsageAnalytics(userId, from, to, 'day');
+
+    expect(analytics.totals.credits).toBe(15);
+    expect(analytics.byApp).toEqual([
+      { key: 'keywords', credits: 10, operations: 2 },
+      { key: 'labs', credits: 5, operations: 1 },
+    ]);
+    expect(analytics.series.length).toBeGreaterThanOrEqual(7);
+    expect(analytics.series.reduce((sum, point) => sum + point.total, 0)).toBe(15);
+    expect(analytics.projection.available).toBe(85);
+  });
+});
@@ -0,0 +1,360 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient, seedUserCredits } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Credit deduction concurrency tests
+ *
+ * Fires parallel deductions at the deduct_credits RPC and checks that the
+ * row lock prevents overspending. Only runs against a local Supabase stack
+ * (`supabase start`) with the migrations in supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+test.describe('Credit deduction concurrency', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+  });
+
+  test.afterEach(async () => {
+    if (userId) await deleteTestUser(userId);
+  });
+
+  test('parallel deductions never overspend the balance', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { trial: 10, topup: 20, subscription: 20 });
+
+    // 50 credits available, 20 requests of 5 credits each: exactly 10 may succeed
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        supabase.rpc('deduct_credits', {
+          p_user_id: userId,
+          p_amount: 5,
+          p_app_key: 'keywords',
+          p_operation: 'concurrency_test',
+          p_reference_id: `concurrency-${i}`,
+        })
+      )
+    );
+
+    for (const { error } of results) {
+      expect(error).toBeNull();
+    }
+
+    const succeeded = results.filter(({ data }) => data?.ok === true);
+    const rejected = results.filter(({ data }) => data?.ok === false);
+    expect(succeeded).toHaveLength(10);
+    expect(rejected).toHaveLength(10);
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('subscription_balance, topup_balance, trial_balance, lifetime_spent')
+      .eq('user_id', userId)
+      .single();
+
+    expect(credits).toMatchObject({
+      subscription_balance: 0,
+      topup_balance: 0,
+      trial_balance: 0,
+      lifetime_spent: 50,
+    });
+
+    const { data: transactions } = await supabase
+      .from('credit_transactions')
+      .select('amount')
+      .eq('user_id', userId)
+      .eq('type', 'usage_deduction');
+
+    const totalDeducted = (transactions ?? []).reduce((sum, t) => sum + t.amount, 0);
+    expect(totalDeducted).toBe(-50);
+  });
+
+  test('split across pools is written in a single transaction', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { trial: 3, topup: 4, subscription: 10 });
+
+    const { data, error } = await supabase.rpc('deduct_credits', {
+      p_user_id: userId,
+      p_amount: 10,
+      p_app_key: 'labs',
+      p_operation: 'split_test',
+    });
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ ok: true, new_balance: 7 });
+
+    const { data: transactions } = await supabase
+      .from('credit_transactions')
+      .select('pool, amount, balance_after')
+      .eq('user_id', userId)
+      .order('balance_after', { ascending: false });
+
+    expect(transactions).toEqual([
+      { pool: 'trial', amount: -3, balance_after: 14 },
+      { pool: 'topup', amount: -4, balance_after: 10 },
+      { pool: 'subscription', amount: -3, balance_after: 7 },
+    ]);
+  });
+
+  test('retries with the same referenceId deduct only once', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 100 });
+
+    const deduct = (operation: string) =>
+      supabase.rpc('deduct_credits', {
+        p_user_id: userId,
+        p_amount: 10,
+        p_app_key: 'keywords',
+        p_operation: operation,
+        p_reference_id: 'keyword-run-42',
+      });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => deduct('keyword_research')));
+    const transactionIds = new Set(results.map(({ data }) => data?.transaction_id));
+
+    expect(results.every(({ data }) => data?.ok === true && data?.new_balance === 90)).toBe(true);
+    expect(results.filter(({ data }) => data?.replayed === false)).toHaveLength(1);
+    expect(transactionIds.size).toBe(1);
+
+    const { data: conflict } = await deduct('serp_lookup');
+    expect(conflict).toEqual({ ok: false, conflict: true });
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('subscription_balance')
+      .eq('user_id', userId)
+      .single();
+
+    expect(credits?.subscription_balance).toBe(90);
+  });
+
+  test('a batch is charged in full or not at all', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 10 });
+
+    const batch = (amounts: number[], referenceId: string) =>
+      supabase.rpc('deduct_credits_batch', {
+        p_user_id: userId,
+        p_app_key: 'keywords',
+        p_items: amounts.map((amount, i) => ({ operation: `step_${i}`, amount })),
+        p_reference_id: referenceId,
+      });
+
+    const { data: rejected } = await batch([6, 6], 'batch-too-big');
+    expect(rejected).toEqual({ ok: false, required: 12, available: 10 });
+
+    const { data: charged } = await batch([4, 5], 'batch-1');
+    expect(charged).toMatchObject({ ok: true, new_balance: 1, replayed: false });
+
+    const { data: replayed } = await batch([4, 5], 'batch-1');
+    expect(replayed).toMatchObject({ ok: true, new_balance: 1, batch_id: charged.batch_id, replayed: true });
+
+    const { data: rows } = await supabase
+      .from('credit_transactions')
+      .select('amount, operation_id')
+      .eq('user_id', userId)
+      .eq('type', 'usage_deduction');
+    expect(rows).toHaveLength(2);
+    expect(rows!.every((row) => row.operation_id === charged.batch_id)).toBe(true);
+    expect(rows!.reduce((sum, row) => sum + row.amount, 0)).toBe(-9);
+  });
+
+  test('held credits cannot be spent and unused holds return on capture', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 30 });
+
+    const { data: hold } = await supabase.rpc('reserve_credits', {
+      p_user_id: userId,
+      p_amount: 25,
+      p_app_key: 'labs',
+      p_operation: 'visibility_scan',
+      p_ttl_seconds: 600,
+    });
+    expect(hold).toMatchObject({ ok: true, amount: 25, available: 5 });
+
+    const { data: blocked } = await supabase.rpc('deduct_credits', {
+      p_user_id: userId,
+      p_amount: 10,
+      p_app_key: 'keywords',
+      p_operation: 'keyword_research',
+    });
+    expect(blocked).toEqual({ ok: false, required: 10, available: 5 });
+
+    const { data: captured } = await supabase.rpc('capture_credit_reservation', {
+      p_user_id: userId,
+      p_reservation_id: hold.reservation_id,
+      p_amount: 18,
+    });
+    expect(captured).toMatchObject({ ok: true, new_balance: 12, captured: 18, released: 7 });
+
+    const { data: held } = await supabase.rpc('credit_held_amount', { p_user_id: userId });
+    expect(held).toBe(0);
+
+    const { data: again } = await supabase.rpc('release_credit_reservation', {
+      p_user_id: userId,
+      p_reservation_id: hold.reservation_id,
+    });
+    expect(again).toEqual({ ok: false, reason: 'captured' });
+  });
+
+  test('refunds return a multi-pool deduction to the pools it came from', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { topup: 4, subscription: 10 });
+
+    const { data: deduction } = await supabase.rpc('deduct_credits', {
+      p_user_id: userId,
+      p_amount: 8,
+      p_app_key: 'keywords',
+      p_operation: 'keyword_report',
+    });
+    expect(deduction).toMatchObject({ ok: true, new_balance: 6 });
+
+    const refund = () =>
+      supabase.rpc('refund_credit_transaction', {
+        p_user_id: userId,
+        p_transaction_id: deduction.transaction_id,
+        p_reason: 'Report generation failed',
+        p_actor_id: userId,
+      });
+
+    const { data: refunded } = await refund();
+    expect(refunded).toMatchObject({ ok: true, refunded: 8, new_balance: 14 });
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('subscription_balance, topup_balance, lifetime_spent')
+      .eq('user_id', userId)
+      .single();
+    expect(credits).toEqual({ subscription_balance: 10, topup_balance: 4, lifetime_spent: 0 });
+
+    const { data: again } = await refund();
+    expect(again).toEqual({ ok: false, reason: 'already_refunded' });
+  });
+
+  test('a retry after a refund is charged again instead of replayed', async () => {
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 10 });
+
+    const deduct = () =>
+      supabase.rpc('deduct_credits', {
+        p_user_id: userId,
+        p_amount: 4,
+        p_app_key: 'keywords',
+        p_operation: 'keyword_report',
+        p_reference_id: 'report-1',
+      });
+
+    const { data: first } = await deduct();
+    expect(first).toMatchObject({ ok: true, new_balance: 6, replayed: false });
+
+    const { data: refunded } = await supabase.rpc('refund_credit_transaction', {
+      p_user_id: userId,
+      p_transaction_id: first.transaction_id,
+      p_reason: 'Report generation failed',
+      p_actor_id: userId,
+    });
+    expect(refunded).toMatchObject({ ok: true, new_balance: 10 });
+
+    const { data: retry } = await deduct();
+    expect(retry).toMatchObject({ ok: true, new_balance: 6, replayed: false });
+    expect(retry.transaction_id).not.toBe(first.transaction_id);
+  });
+
+  test('a retention bonus is granted once, as a lot', async () => {
+    const supabase = getAdminClient();
+
+    const grant = () =>
+      supabase.rpc('allocate_retention_bonus', {
+        p_user_id: userId,
+        p_amount: 50,
+        p_reference_id: 'retention_offer:offer-1',
+        p_expiry_months: 12,
+      });
+
+    const results = await Promise.all(Array.from({ length: 3 }, () => grant()));
+    expect(results.filter(({ data }) => data?.duplicate === false)).toHaveLength(1);
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('topup_balance')
+      .eq('user_id', userId)
+      .single();
+    expect(credits).toEqual({ topup_balance: 50 });
+
+    const { data: lots } = await supabase
+      .from('credit_topup_lots')
+      .select('remaining, reference_id')
+      .eq('user_id', userId);
+    expect(lots).toEqual([{ remaining: 50, reference_id: 'retention_offer:offer-1' }]);
+  });
+
+  test('top-up lots are consumed oldest first and expire into the ledger', async () => {
+    const supabase = getAdminClient();
+
+    const buy = (amount: number, description: string) =>
+      supabase.rpc('allocate_topup_lot', {
+        p_user_id: userId,
+        p_amount: amount,
+        p_description: description,
+        p_reference_id: null,
+        p_expiry_months: 12,
+      });
+
+    const { data: first } = await buy(10, 'Starter Boost top-up');
+    const { data: second } = await buy(20, 'Builder Pack top-up');
+    expect(second).toMatchObject({ ok: true, new_balance: 30 });
+
+    // Make the second purchase expire first: it must be consumed first
+    await supabase
+      .from('credit_topup_lots')
+      .update({ expires_at: new Date(Date.now() - 60_000).toISOString() })
+      .eq('id', second.lot_id);
+
+    const { data: deduction } = await supabase.rpc('deduct_credits', {
+      p_user_id: userId,
+      p_amount: 15,
+      p_app_key: 'keywords',
+      p_operation: 'keyword_report',
+    });
+    expect(deduction).toMatchObject({ ok: true, new_balance: 15 });
+
+    const { data: lots } = await supabase
+      .from('credit_topup_lots')
+      .select('id, remaining')
+      .eq('user_id', userId);
+    expect(lots).toEqual(
+      expect.arrayContaining([
+        { id: first.lot_id, remaining: 10 },
+        { id: second.lot_id, remaining: 5 },
+      ])
+    );
+
+    const { error } = await supabase.rpc('expire_topup_lots');
+    expect(error).toBeNull();
+
+    const { data: credits } = await supabase
+      .from('user_credits')
+      .select('topup_balance')
+      .eq('user_id', userId)
+      .single();
+    expect(credits).toEqual({ topup_balance: 10 });
+
+    const { data: expired } = await supabase
+      .from('credit_transactions')
+      .select('amount, balance_after, type, reference_id')
+      .eq('user_id', userId)
+      .eq('type', 'topup_expired');
+    expect(expired).toEqual([
+      { amount: -5, balance_after: 10, type: 'topup_expired', reference_id: second.lot_id },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+import {
+  buildPaymentFailedHtml,
+  buildPaymentFailedText,
+  buildPaymentFinalNoticeText,
+} from '../../netlify/functions/utils/email-templates';
+
+/**
+ * Failed payment (dunning) tests
+ *
+ * The email schedule and copy need no database. The case tests only run
+ * against a local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+type Dunning = typeof import('../../netlify/functions/utils/dunning');
+
+const loadDunning = (): Dunning => {
+  // utils/supabase-admin refuses to load without these.
+  // Loaded with require so the env is set first (a static import is hoisted).
+  process.env.SUPABASE_URL ??= supabaseUrl || 'http://127.0.0.1:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require('../../netlify/functions/utils/dunning');
+};
+
+const emailData = {
+  userName: 'Sam',
+  appName: 'BFEAI Keywords',
+  amountDue: '$29.00',
+  restrictDate: 'Monday, October 26',
+  actionRequired: false,
+  updatePaymentUrl: 'https://dashboard.bfeai.com/billing/portal?flow=payment_method_update',
+};
+
+test.describe('Dunning schedule', () => {
+  let dunning: Dunning;
+
+  test.beforeAll(() => {
+    dunning = loadDunning();
+  });
+
+  test('sends the reminder halfway and the final notice a day before restriction', () => {
+    expect(dunning.stageDueDay('first_failure', 7)).toBe(0);
+    expect(dunning.stageDueDay('reminder', 7)).toBe(3);
+    expect(dunning.stageDueDay('final_notice', 7)).toBe(6);
+  });
+
+  test('never sends the final notice before the reminder', () => {
+    expect(dunning.stageDueDay('reminder', 1)).toBe(1);
+    expect(dunning.stageDueDay('final_notice', 1)).toBe(1);
+    expect(dunning.stageDueDay('final_notice', 2)).toBe(1);
+  });
+
+  test('reads the grace period from the environment', () => {
+    const original = process.env.DUNNING_GRACE_PERIOD_DAYS;
+    try {
+      process.env.DUNNING_GRACE_PERIOD_DAYS = '10';
+      expect(dunning.getGracePeriodDays()).toBe(10);
+
+      process.env.DUNNING_GRACE_PERIOD_DAYS = '2.5';
+      expect(dunning.getGracePeriodDays()).toBe(7);
+
+      process.env.DUNNING_GRACE_PERIOD_DAYS = '0';
+      expect(dunning.getGracePeriodDays()).toBe(7);
+    } finally {
+      if (original === undefined) delete process.env.DUNNING_GRACE_PERIOD_DAYS;
+      else process.env.DUNNING_GRACE_PERIOD_DAYS = original;
+    }
+  });
+});
+
+test.describe('Dunning emails', () => {
+  test('states the amount, the restriction date and the update link', () => {
+    const text = buildPaymentFailedText(emailData);
+
+    expect(text).toContain("We couldn't process the payment of $29.00 for your BFEAI Keywords subscription.");
+    expect(text).toContain('Monday, October 26');
+    expect(text).toContain(`Update Payment Method: ${emailData.updatePaymentUrl}`);
+  });
+
+  test('asks for confirmation when the bank requires authentication', () => {
+    const text = buildPaymentFailedText({ ...emailData, actionRequired: true, amountDue: null });
+
+    expect(text).toContain('Your bank needs you to confirm the payment for BFEAI Keywords');
+    expect(text).toContain('Confirm Payment:');
+    expect(buildPaymentFinalNoticeText({ ...emailData, actionRequired: true })).toContain('Update Payment Method:');
+  });
+
+  test('escapes user data in the HTML email', () => {
+    const html = buildPaymentFailedHtml({ ...emailData, userName: '<script>x</script>' });
+
+    expect(html).not.toContain('<script>x</script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+});
+
+test.describe('Dunning cases', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let dunning: Dunning;
+  let userId: string;
+
+  const failure = (invoiceId: string) => ({
+    userId,
+    appKey: 'keywords',
+    subscriptionId: `sub_test_${userId}`,
+    invoiceId,
+    amountDueCents: 2900,
+    currency: 'usd',
+    actionRequired: false,
+  });
+
+  test.beforeAll(() => {
+    dunning = loadDunning();
+  });
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+  });
+
+  test.afterEach(async () => {
+    if (userId) {
+      await getAdminClient().from('dunning_cases').delete().eq('user_id', userId);
+      await deleteTestUser(userId);
+    }
+  });
+
+  test("Stripe's retries update the subscription's one open case", async () => {
+    await dunning.recordPaymentFailure(failure('in_test_1'));
+    await dunning.recordPaymentFailure(failure('in_test_2'));
+
+    const status = await dunning.getDunningStatus(userId);
+    expect(status).toHaveLength(1);
+    expect(status[0].amountDue).toBe(29);
+    expect(status[0].restricted).toBe(false);
+  });
+
+  test('a successful payment resolves the case', async () => {
+    await dunning.recordPaymentFailure(failure('in_test_1'));
+
+    expect(await dunning.closeDunningCase(`sub_test_${userId}`, 'resolved')).toBe(true);
+    expect(await dunning.closeDunningCase(`sub_test_${userId}`, 'resolved')).toBe(false);
+    expect(await dunning.getDunningStatus(userId)).toEqual([]);
+  });
+});
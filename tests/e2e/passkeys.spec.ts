@@ -0,0 +1,99 @@
+import { test, expect, type Page } from '@playwright/test';
+import { login, getSessionCookie, clearCookies } from '../utils/auth-helpers';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Passkey tests
+ *
+ * Registers a passkey from Settings with Chromium's virtual (software)
+ * authenticator, then signs in with it from the login page. Only runs
+ * against a local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+/** A platform authenticator that stores discoverable credentials and always verifies the user */
+async function addVirtualAuthenticator(page: Page) {
+  const client = await page.context().newCDPSession(page);
+  await client.send('WebAuthn.enable');
+  await client.send('WebAuthn.addVirtualAuthenticator', {
+    options: {
+      protocol: 'ctap2',
+      transport: 'internal',
+      hasResidentKey: true,
+      hasUserVerification: true,
+      isUserVerified: true,
+      automaticPresenceSimulation: true,
+    },
+  });
+}
+
+test.describe('Passkeys', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Virtual authenticators need the Chrome DevTools Protocol');
+
+  let userId: string;
+  let email: string;
+  let password: string;
+
+  test.beforeEach(async () => {
+    const user = generateTestUser();
+    const created = await createTestUser(user.email, user.password, user.fullName);
+    expect(created).not.toBeNull();
+    userId = created!.id;
+    email = user.email;
+    password = user.password;
+  });
+
+  test.afterEach(async () => {
+    if (!userId) return;
+    await getAdminClient().from('user_passkeys').delete().eq('user_id', userId);
+    await deleteTestUser(userId);
+  });
+
+  test('registers a passkey in settings and signs in with it', async ({ page }) => {
+    await addVirtualAuthenticator(page);
+    await login(page, email, password);
+
+    await page.goto('/settings/passkeys');
+    await page.fill('#passkey-label', 'Test authenticator');
+    await page.getByRole('button', { name: 'Add' }).click();
+    await expect(page.getByText('Test authenticator')).toBeVisible();
+    await expect(page.getByText('Never used')).toBeVisible();
+
+    await clearCookies(page);
+    await page.goto('/login');
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click();
+    await page.waitForURL((url) => url.pathname !== '/login', { timeout: 10000 });
+
+    expect(await getSessionCookie(page)).toBeDefined();
+
+    const { data: passkeys } = await getAdminClient()
+      .from('user_passkeys')
+      .select('label, last_used_at')
+      .eq('user_id', userId);
+    expect(passkeys).toHaveLength(1);
+    expect(passkeys?.[0].label).toBe('Test authenticator');
+    expect(passkeys?.[0].last_used_at).not.toBeNull();
+  });
+
+  test('rejects a sign-in once the passkey has been removed', async ({ page }) => {
+    await addVirtualAuthenticator(page);
+    await login(page, email, password);
+
+    await page.goto('/settings/passkeys');
+    await page.getByRole('button', { name: 'Add' }).click();
+    await expect(page.getByText('Never used')).toBeVisible();
+
+    await getAdminClient().from('user_passkeys').delete().eq('user_id', userId);
+
+    await clearCookies(page);
+    await page.goto('/login');
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click();
+    await expect(page.getByText('Passkey sign-in failed')).toBeVisible();
+    expect(await getSessionCookie(page)).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import type Stripe from 'stripe';
+import type { PromoCode } from '../../netlify/functions/utils/promo-codes';
+
+/**
+ * Promo code tests
+ *
+ * Checks how codes are read, priced and described before checkout. No
+ * database or Stripe account needed.
+ */
+
+type PromoCodes = typeof import('../../netlify/functions/utils/promo-codes');
+
+/** Promotion code with a coupon built from the fields the checks read */
+function mockPromo(coupon: Partial<Stripe.Coupon>, minimumAmount: number | null = null): PromoCode {
+  return {
+    id: 'promo_test',
+    code: 'SAVE',
+    coupon: {
+      percent_off: null,
+      amount_off: null,
+      currency: null,
+      applies_to: undefined,
+      duration: 'once',
+      duration_in_months: null,
+      ...coupon,
+    } as Stripe.Coupon,
+    minimumAmount,
+    minimumAmountCurrency: minimumAmount !== null ? 'usd' : null,
+  };
+}
+
+function mockPrice(unitAmount: number, currency = 'usd', product = 'prod_keywords'): Stripe.Price {
+  return { id: 'price_test', unit_amount: unitAmount, currency, product } as unknown as Stripe.Price;
+}
+
+test.describe('Promo codes', () => {
+  let promoCodes: PromoCodes;
+
+  test.beforeAll(() => {
+    // utils/supabase-admin and utils/stripe refuse to load without these; no test calls Stripe.
+    // Loaded with require so the env is set first (a static import is hoisted).
+    process.env.SUPABASE_URL ??= 'http://127.0.0.1:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+    process.env.STRIPE_SECRET_KEY ??= 'sk_test_placeholder';
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    promoCodes = require('../../netlify/functions/utils/promo-codes');
+  });
+
+  test('trims entered codes and rejects empty or oversized ones', () => {
+    expect(promoCodes.normalizePromoCode('  SAVE20 ')).toBe('SAVE20');
+    expect(promoCodes.normalizePromoCode('   ')).toBeNull();
+    expect(promoCodes.normalizePromoCode('x'.repeat(101))).toBeNull();
+    expect(promoCodes.normalizePromoCode(20)).toBeNull();
+  });
+
+  test('applies percent and amount discounts, never below zero', () => {
+    expect(promoCodes.discountPrice(mockPromo({ percent_off: 20 }), mockPrice(2900))).toEqual({
+      original: 29,
+      discounted: 23.2,
+      currency: 'usd',
+    });
+    expect(promoCodes.discountPrice(mockPromo({ amount_off: 1000, currency: 'usd' }), mockPrice(2900))?.discounted).toBe(19);
+    expect(promoCodes.discountPrice(mockPromo({ amount_off: 5000, currency: 'usd' }), mockPrice(2900))?.discounted).toBe(0);
+  });
+
+  test("doesn't cover other products, currencies or prices under the minimum", () => {
+    const labsOnly = mockPromo({ percent_off: 20, applies_to: { products: ['prod_labs'] } });
+
+    expect(promoCodes.discountPrice(labsOnly, mockPrice(2900))).toBeNull();
+    expect(promoCodes.discountPrice(mockPromo({ amount_off: 1000, currency: 'eur' }), mockPrice(2900))).toBeNull();
+    expect(promoCodes.discountPrice(mockPromo({ percent_off: 20 }, 5000), mockPrice(2900))).toBeNull();
+    expect(promoCodes.discountPrice(mockPromo({ percent_off: 20 }, 5000), mockPrice(2900, 'eur'))).not.toBeNull();
+  });
+
+  test('describes how long the discount lasts', () => {
+    expect(promoCodes.describePromoCode(mockPromo({ percent_off: 20 }), false)).toBe('20% off');
+    expect(promoCodes.describePromoCode(mockPromo({ percent_off: 20 }), true)).toBe('20% off your first payment');
+    expect(promoCodes.describePromoCode(mockPromo({ amount_off: 1000, currency: 'usd', duration: 'forever' }), true)).toBe(
+      '$10.00 off every payment'
+    );
+    expect(
+      promoCodes.describePromoCode(mockPromo({ percent_off: 50, duration: 'repeating', duration_in_months: 1 }), true)
+    ).toBe('50% off for 1 month');
+    expect(
+      promoCodes.describePromoCode(mockPromo({ percent_off: 50, duration: 'repeating', duration_in_months: 3 }), true)
+    ).toBe('50% off for 3 months');
+  });
+});
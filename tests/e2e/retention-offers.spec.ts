@@ -0,0 +1,169 @@
+import { test, expect } from '@playwright/test';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+import type { OfferContext, RuleRow } from '../../netlify/functions/utils/retention-offers';
+
+/**
+ * Retention offer tests
+ *
+ * Rule matching and variant assignment need no database. The accept tests
+ * only run against a local Supabase stack (`supabase start`) with the
+ * migrations in supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+type RetentionOffers = typeof import('../../netlify/functions/utils/retention-offers');
+
+const loadRetentionOffers = (): RetentionOffers => {
+  // utils/supabase-admin and utils/stripe refuse to load without these; no test calls Stripe.
+  // Loaded with require so the env is set first (a static import is hoisted).
+  process.env.SUPABASE_URL ??= supabaseUrl || 'http://127.0.0.1:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+  process.env.STRIPE_SECRET_KEY ??= 'sk_test_placeholder';
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require('../../netlify/functions/utils/retention-offers');
+};
+
+const rule = (overrides: Partial<RuleRow>): RuleRow => ({
+  id: 'rule-1',
+  reason: null,
+  app_key: null,
+  plan_tier: null,
+  min_months_subscribed: 0,
+  max_prior_offers: 0,
+  retention_offer_variants: [
+    { variant_key: 'control', weight: 1, offer_type: 'credits', offer_details: { credit_amount: 50 } },
+  ],
+  ...overrides,
+});
+
+const ctx: OfferContext = {
+  userId: '00000000-0000-0000-0000-000000000001',
+  appKey: 'keywords',
+  reason: 'too_expensive',
+  planTier: 'pro',
+  monthsSubscribed: 4,
+};
+
+test.describe('Retention offer rules', () => {
+  let retention: RetentionOffers;
+
+  test.beforeAll(() => {
+    retention = loadRetentionOffers();
+  });
+
+  test('uses the first rule whose conditions all hold', () => {
+    const rules = [
+      rule({ id: 'other-reason', reason: 'not_using' }),
+      rule({ id: 'other-app', app_key: 'labs' }),
+      rule({ id: 'too-new', min_months_subscribed: 6 }),
+      rule({ id: 'match', reason: 'too_expensive', plan_tier: 'pro' }),
+      rule({ id: 'fallback' }),
+    ];
+
+    expect(retention.matchRetentionRule(rules, ctx, 0)?.id).toBe('match');
+  });
+
+  test('allows at most max_prior_offers accepted offers before', () => {
+    const rules = [rule({ id: 'once' }), rule({ id: 'twice', max_prior_offers: 1 })];
+
+    expect(retention.matchRetentionRule(rules, ctx, 0)?.id).toBe('once');
+    expect(retention.matchRetentionRule(rules, ctx, 1)?.id).toBe('twice');
+    expect(retention.matchRetentionRule(rules, ctx, 2)).toBeUndefined();
+  });
+
+  test('skips rules with no weighted variant', () => {
+    const unweighted = rule({
+      retention_offer_variants: [{ variant_key: 'control', weight: 0, offer_type: 'pause', offer_details: {} }],
+    });
+
+    expect(retention.matchRetentionRule([unweighted], ctx, 0)).toBeUndefined();
+  });
+
+  test('puts a user in the same variant every time', () => {
+    const variants = [
+      { variant_key: 'a', weight: 1 },
+      { variant_key: 'b', weight: 1 },
+      { variant_key: 'c', weight: 0 },
+    ];
+    const picks = new Set(
+      Array.from({ length: 5 }, () => retention.pickVariant(ctx.userId, 'rule-1', [...variants].reverse()).variant_key)
+    );
+
+    expect(picks.size).toBe(1);
+    expect(picks.has('c')).toBe(false);
+  });
+
+  test('describes the discount length in the confirmation', () => {
+    expect(retention.getAcceptedMessage('discount_1mo', { percent_off: 25, duration_months: 1 })).toBe(
+      'Your subscription will continue at 25% off for the next month.'
+    );
+    expect(retention.getAcceptedMessage('discount_1mo', { percent_off: 25, duration_months: 2 })).toBe(
+      'Your subscription will continue at 25% off for the next 2 months.'
+    );
+  });
+});
+
+test.describe('Accepting retention offers', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let retention: RetentionOffers;
+  let userId: string;
+
+  const showOffer = async () => {
+    await retention.supersedeOpenOffers(userId);
+    const { data } = await getAdminClient()
+      .from('cancellation_offers')
+      .insert({
+        user_id: userId,
+        app_key: 'keywords',
+        reason: 'missing_features',
+        offer_type: 'credits',
+        offer_details: { credit_amount: 50 },
+        status: 'offered',
+      })
+      .select('id, rule_id')
+      .single();
+    return data!;
+  };
+
+  test.beforeAll(() => {
+    retention = loadRetentionOffers();
+  });
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+  });
+
+  test.afterEach(async () => {
+    if (userId) await deleteTestUser(userId);
+  });
+
+  test('an offer can be accepted only once', async () => {
+    const offer = await showOffer();
+
+    expect(await retention.claimRetentionOffer(userId, offer)).toBe(true);
+    expect(await retention.claimRetentionOffer(userId, offer)).toBe(false);
+  });
+
+  test('a second offer is refused once the limit is used up', async () => {
+    const first = await showOffer();
+    expect(await retention.claimRetentionOffer(userId, first)).toBe(true);
+
+    const second = await showOffer();
+    expect(await retention.claimRetentionOffer(userId, second)).toBe(false);
+  });
+
+  test('showing a new offer retires the one shown before', async () => {
+    const first = await showOffer();
+    const second = await showOffer();
+
+    expect(await retention.claimRetentionOffer(userId, first)).toBe(false);
+    expect(await retention.claimRetentionOffer(userId, second)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test';
+import { login, getSessionCookie } from '../utils/auth-helpers';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Session idle timeout tests
+ *
+ * Sets the user's session_timeout_minutes and moves user_sessions.last_active
+ * back to simulate time away. Only runs against a local Supabase stack
+ * (`supabase start`) with the migrations in supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+test.describe('Session idle timeout', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+  let email: string;
+  let password: string;
+
+  test.beforeEach(async () => {
+    const user = generateTestUser();
+    const created = await createTestUser(user.email, user.password, user.fullName);
+    expect(created).not.toBeNull();
+    userId = created!.id;
+    email = user.email;
+    password = user.password;
+
+    await getAdminClient()
+      .from('user_settings')
+      .upsert({ user_id: userId, session_timeout_minutes: 15 });
+  });
+
+  test.afterEach(async () => {
+    if (userId) {
+      await deleteTestUser(userId);
+    }
+  });
+
+  /** Pretend the user's sessions were last used this many minutes ago */
+  async function idleFor(minutes: number) {
+    await getAdminClient()
+      .from('user_sessions')
+      .update({ last_active: new Date(Date.now() - minutes * 60 * 1000).toISOString() })
+      .eq('user_id', userId);
+  }
+
+  test('reports when an active session will go idle', async ({ page }) => {
+    await login(page, email, password);
+
+    const response = await page.request.get('/api/auth/session');
+    expect(response.ok()).toBe(true);
+
+    const body = await response.json();
+    expect(body.idleTimeoutMinutes).toBe(15);
+    expect(body.idleRemainingSeconds).toBeGreaterThan(14 * 60);
+  });
+
+  test('checking the session does not count as activity', async ({ page }) => {
+    await login(page, email, password);
+    await idleFor(10);
+
+    const { idleRemainingSeconds } = await (await page.request.get('/api/auth/session')).json();
+    expect(idleRemainingSeconds).toBeLessThanOrEqual(5 * 60);
+
+    const activity = await page.request.post('/api/auth/session/activity');
+    expect((await activity.json()).idleRemainingSeconds).toBeGreaterThan(14 * 60);
+  });
+
+  test('expires an idle session and clears the cookie', async ({ page }) => {
+    await login(page, email, password);
+    const token = (await getSessionCookie(page))!.value;
+    await idleFor(20);
+
+    const response = await page.request.get('/api/auth/session');
+    expect(response.status()).toBe(401);
+    expect((await response.json()).reason).toBe('idle');
+    expect(await getSessionCookie(page)).toBeUndefined();
+
+    // The session is revoked, so a copy of the token stays signed out
+    const replay = await page.request.get('/api/auth/me', {
+      headers: { cookie: `bfeai_session=${token}` },
+    });
+    expect(replay.status()).toBe(401);
+  });
+
+  test('no idle timeout when it is turned off', async ({ page }) => {
+    await getAdminClient()
+      .from('user_settings')
+      .update({ session_timeout_minutes: 0 })
+      .eq('user_id', userId);
+
+    await login(page, email, password);
+    await idleFor(24 * 60);
+
+    const response = await page.request.get('/api/auth/me');
+    expect(response.ok()).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import { test, expect } from '@playwright/test';
+import jwt from 'jsonwebtoken';
+import type { HandlerEvent } from '@netlify/functions';
+import { login } from '../utils/auth-helpers';
+import { createTestUser, deleteTestUser } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+import { describeDevice } from '../../lib/auth/session';
+import { checkSessionStatus, SessionExpiredError } from '../../lib/auth/session-check';
+import type { JWTPayload } from '../../lib/auth/jwt';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Active session tests
+ *
+ * Signs the same user in from two browser contexts and revokes one from the
+ * other. Only runs against a local Supabase stack (`supabase start`) with
+ * the migrations in supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+test.describe('Device descriptions', () => {
+  test('names the browser and OS', () => {
+    expect(describeDevice(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
+    )).toBe('Chrome on macOS');
+    expect(describeDevice(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeDevice(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+  });
+
+  test('falls back for missing or unrecognised agents', () => {
+    expect(describeDevice(null)).toBe('Unknown device');
+    expect(describeDevice('curl/8.4.0')).toBe('Unknown device');
+  });
+});
+
+test.describe('Session status', () => {
+  const payload = (claims: Partial<JWTPayload> = {}): JWTPayload => ({
+    userId: '00000000-0000-0000-0000-000000000000',
+    email: 'user@example.com',
+    role: 'user',
+    exp: 0,
+    iat: 0,
+    jti: 'session-1',
+    ...claims,
+  });
+
+  // Answers check_user_session with the given status
+  const registry = (sessionStatus: string) =>
+    ({
+      rpc: () => ({
+        single: async () => ({
+          data: { session_status: sessionStatus, session_last_active: new Date().toISOString(), timeout_minutes: 30 },
+          error: null,
+        }),
+      }),
+    }) as unknown as SupabaseClient;
+
+  test('rejects revoked and idle sessions', async () => {
+    await expect(checkSessionStatus(registry('revoked'), payload(), true)).rejects.toMatchObject({ reason: 'revoked' });
+    await expect(checkSessionStatus(registry('idle'), payload(), true)).rejects.toMatchObject({ reason: 'idle' });
+  });
+
+  test('reports idle expiry for an active session', async () => {
+    const activity = await checkSessionStatus(registry('active'), payload(), true);
+    expect(activity).toMatchObject({ idleTimeoutMinutes: 30 });
+    expect(activity!.idleRemainingSeconds).toBeGreaterThan(29 * 60);
+  });
+
+  test('accepts a pre-registry token without a row, but not a current one', async () => {
+    await expect(checkSessionStatus(registry('unknown'), payload(), true)).resolves.toBeNull();
+    await expect(checkSessionStatus(registry('unknown'), payload({ ver: 2 }), true)).rejects.toBeInstanceOf(
+      SessionExpiredError
+    );
+  });
+});
+
+test.describe('SSO cookie in Netlify functions', () => {
+  let requireAuth: typeof import('../../netlify/functions/utils/supabase-admin').requireAuth;
+
+  const claims = { userId: '00000000-0000-0000-0000-000000000000', email: 'user@example.com', role: 'user' };
+  const signOptions = { expiresIn: '1h', issuer: 'accounts.bfeai.com', audience: '*.bfeai.com' } as const;
+  const withCookie = (token: string) => ({ headers: { cookie: `bfeai_session=${token}` } }) as unknown as HandlerEvent;
+
+  test.beforeAll(() => {
+    // Both tokens are rejected before any database call.
+    // Loaded with require so the env is set first (a static import is hoisted).
+    process.env.SUPABASE_URL ??= 'http://127.0.0.1:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+    process.env.JWT_SECRET ??= 'test-jwt-secret';
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    ({ requireAuth } = require('../../netlify/functions/utils/supabase-admin'));
+  });
+
+  test('rejects a token not signed with JWT_SECRET', async () => {
+    const forged = jwt.sign({ ...claims, jti: 'forged-session' }, 'not-the-secret', signOptions);
+    await expect(requireAuth(withCookie(forged))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  test('rejects a token without a session id', async () => {
+    const token = jwt.sign(claims, process.env.JWT_SECRET!, signOptions);
+    await expect(requireAuth(withCookie(token))).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
+
+test.describe('Active sessions', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+  let email: string;
+  let password: string;
+
+  test.beforeEach(async () => {
+    const user = generateTestUser();
+    const created = await createTestUser(user.email, user.password, user.fullName);
+    expect(created).not.toBeNull();
+    userId = created!.id;
+    email = user.email;
+    password = user.password;
+  });
+
+  test.afterEach(async () => {
+    if (userId) {
+      await deleteTestUser(userId);
+    }
+  });
+
+  test('lists both sessions and marks the current one', async ({ browser }) => {
+    const first = await browser.newPage();
+    const second = await browser.newPage();
+    await login(first, email, password);
+    await login(second, email, password);
+
+    const response = await first.request.get('/api/auth/sessions');
+    expect(response.ok()).toBe(true);
+
+    const { sessions } = await response.json();
+    expect(sessions).toHaveLength(2);
+    expect(sessions.filter((session: { current: boolean }) => session.current)).toHaveLength(1);
+  });
+
+  test('signing out everywhere else rejects the other token', async ({ browser }) => {
+    const first = await browser.newPage();
+    const second = await browser.newPage();
+    await login(first, email, password);
+    await login(second, email, password);
+
+    expect((await second.request.get('/api/auth/me')).ok()).toBe(true);
+
+    const response = await first.request.delete('/api/auth/sessions');
+    expect(response.ok()).toBe(true);
+    expect((await response.json()).revoked).toBe(1);
+
+    expect((await second.request.get('/api/auth/me')).status()).toBe(401);
+    expect((await first.request.get('/api/auth/me')).ok()).toBe(true);
+  });
+
+  test('revokes a single session by id', async ({ browser }) => {
+    const first = await browser.newPage();
+    const second = await browser.newPage();
+    await login(first, email, password);
+    await login(second, email, password);
+
+    const { sessions } = await (await first.request.get('/api/auth/sessions')).json();
+    const other = sessions.find((session: { current: boolean }) => !session.current);
+
+    const response = await first.request.delete(`/api/auth/sessions/${other.sessionId}`);
+    expect(response.ok()).toBe(true);
+
+    expect((await second.request.get('/api/auth/me')).status()).toBe(401);
+
+    const current = sessions.find((session: { current: boolean }) => session.current);
+    const self = await first.request.delete(`/api/auth/sessions/${current.sessionId}`);
+    expect(self.status()).toBe(400);
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import type Stripe from 'stripe';
+
+/**
+ * Subscription change tests
+ *
+ * Checks the rules the plan change, billing period switch, cancel and
+ * reactivate functions apply before calling Stripe. No database or Stripe
+ * account needed.
+ */
+
+type StripeUtils = typeof import('../../netlify/functions/utils/stripe');
+
+/** Minimal Stripe subscription with the fields the checks read */
+function mockSubscription(
+  status: Stripe.Subscription.Status,
+  appKey?: string,
+  cancelAtPeriodEnd = false
+): Stripe.Subscription {
+  return {
+    id: 'sub_test',
+    status,
+    metadata: appKey ? { app_key: appKey } : {},
+    cancel_at_period_end: cancelAtPeriodEnd,
+  } as unknown as Stripe.Subscription;
+}
+
+test.describe('Subscription changes', () => {
+  let stripeUtils: StripeUtils;
+
+  test.beforeAll(() => {
+    // utils/supabase-admin and utils/stripe refuse to load without these; no test calls Stripe.
+    // Loaded with require so the env is set first (a static import is hoisted).
+    process.env.SUPABASE_URL ??= 'http://127.0.0.1:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+    process.env.STRIPE_SECRET_KEY ??= 'sk_test_placeholder';
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    stripeUtils = require('../../netlify/functions/utils/stripe');
+  });
+
+  test('confirms with a recent preview only', () => {
+    const now = 1_800_000_000;
+
+    expect(stripeUtils.isUsableProrationDate(now, now)).toBe(true);
+    expect(stripeUtils.isUsableProrationDate(now - 30 * 60, now)).toBe(true);
+    expect(stripeUtils.isUsableProrationDate(now - 30 * 60 - 1, now)).toBe(false);
+  });
+
+  test('rejects proration dates in the future or not in whole seconds', () => {
+    const now = 1_800_000_000;
+
+    expect(stripeUtils.isUsableProrationDate(now + 1, now)).toBe(false);
+    expect(stripeUtils.isUsableProrationDate(now - 0.5, now)).toBe(false);
+  });
+
+  test('cancels only live subscriptions of the selected app', () => {
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('active', 'labs'), 'labs')).toBe(true);
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('past_due', 'labs'))).toBe(true);
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('active', 'labs'), 'keywords')).toBe(false);
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('canceled', 'labs'), 'labs')).toBe(false);
+  });
+
+  test('treats a subscription without app_key as Keywords', () => {
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('trialing'), 'keywords')).toBe(true);
+    expect(stripeUtils.isCancellableSubscription(mockSubscription('trialing'), 'labs')).toBe(false);
+  });
+
+  test('keeps live subscriptions only', () => {
+    expect(stripeUtils.isReactivatableSubscription(mockSubscription('active', 'keywords', true))).toBe(true);
+    expect(stripeUtils.isReactivatableSubscription(mockSubscription('past_due', 'keywords', true))).toBe(true);
+    expect(stripeUtils.isReactivatableSubscription(mockSubscription('paused', 'keywords', true))).toBe(false);
+    expect(stripeUtils.isReactivatableSubscription(mockSubscription('canceled', 'keywords', true))).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { test, expect } from '@playwright/test';
+import type Stripe from 'stripe';
+import { createTestUser, deleteTestUser, getAdminClient, seedUserCredits } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Subscription reconciliation tests
+ *
+ * Runs reconcileSubscriptions against a mocked Stripe client and checks the
+ * dry-run report and the repaired app_subscriptions / subscription_cap. Only
+ * runs against a local Supabase stack (`supabase start`) with the migrations
+ * in supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+const PERIOD_START = Date.UTC(2026, 9, 1) / 1000;
+const PERIOD_END = Date.UTC(2026, 10, 1) / 1000;
+
+/** Minimal Stripe subscription with the fields buildAppSubscriptionRecord reads */
+function mockSubscription(id: string, appKey: string, priceId: string): Stripe.Subscription {
+  return {
+    id,
+    status: 'active',
+    metadata: { app_key: appKey },
+    cancel_at_period_end: false,
+    canceled_at: null,
+    pause_collection: null,
+    trial_end: null,
+    start_date: PERIOD_START,
+    currency: 'usd',
+    latest_invoice: null,
+    items: {
+      data: [
+        {
+          price: { id: priceId, unit_amount: 2900 },
+          current_period_start: PERIOD_START,
+          current_period_end: PERIOD_END,
+        },
+      ],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+/** Stripe client whose customer has `live` subscriptions and knows nothing else */
+function mockStripeClient(live: Stripe.Subscription[]) {
+  return {
+    subscriptions: {
+      list: async () => ({ data: live }),
+      retrieve: async (id: string) => {
+        const found = live.find((s) => s.id === id);
+        if (!found) throw Object.assign(new Error(`No such subscription: ${id}`), { statusCode: 404 });
+        return found;
+      },
+    },
+  } as unknown as Pick<Stripe, 'subscriptions'>;
+}
+
+test.describe('Subscription reconciliation', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+  let reconcileSubscriptions: typeof import('../../netlify/functions/utils/reconciliation').reconcileSubscriptions;
+
+  test.beforeAll(async () => {
+    // utils/stripe refuses to load without a key; the mocked client is used instead
+    process.env.STRIPE_SECRET_KEY ??= 'sk_test_reconciliation';
+    ({ reconcileSubscriptions } = await import('../../netlify/functions/utils/reconciliation'));
+  });
+
+  test.beforeEach(async () => {
+    const testUser = generateTestUser();
+    const user = await createTestUser(testUser.email, testUser.password, testUser.fullName);
+    expect(user).not.toBeNull();
+    userId = user!.id;
+
+    const supabase = getAdminClient();
+    await seedUserCredits(userId, { subscription: 300 });
+    await supabase.from('user_credits').update({ subscription_cap: 900 }).eq('user_id', userId);
+    await supabase.from('profiles').update({ stripe_customer_id: `cus_test_${userId.slice(0, 8)}` }).eq('id', userId);
+
+    // Keywords row is stale (still on the previous period); the Labs row was never written
+    await supabase.from('app_subscriptions').insert({
+      user_id: userId,
+      app_key: 'keywords',
+      stripe_subscription_id: 'sub_test_keywords',
+      stripe_price_id: 'price_test_keywords',
+      status: 'past_due',
+      current_period_start: new Date(Date.UTC(2026, 8, 1)).toISOString(),
+      current_period_end: new Date(PERIOD_START * 1000).toISOString(),
+      cancel_at_period_end: false,
+    });
+  });
+
+  test.afterEach(async () => {
+    if (userId) {
+      await getAdminClient().from('app_subscriptions').delete().eq('user_id', userId);
+      await deleteTestUser(userId);
+    }
+  });
+
+  const stripeClient = () =>
+    mockStripeClient([
+      mockSubscription('sub_test_keywords', 'keywords', 'price_test_keywords'),
+      mockSubscription('sub_test_labs', 'labs', 'price_test_labs'),
+    ]);
+
+  test('dry run reports drift without writing', async () => {
+    const report = await reconcileSubscriptions({ dryRun: true, stripeClient: stripeClient(), userIds: [userId] });
+
+    expect(report.usersWithDrift).toBe(1);
+    expect(report.fixed).toBe(0);
+
+    const [user] = report.users;
+    expect(user.drifts).toContainEqual({ kind: 'missing_row', appKey: 'labs', stripeSubscriptionId: 'sub_test_labs' });
+
+    const mismatch = user.drifts.find((d) => d.kind === 'field_mismatch');
+    expect(mismatch && 'fields' in mismatch && mismatch.fields.map((f) => f.field).sort()).toEqual([
+      'current_period_end',
+      'current_period_start',
+      'status',
+    ]);
+    expect(user.cap).toEqual({ db: 900, expected: 1800 });
+
+    const supabase = getAdminClient();
+    const { data: rows } = await supabase.from('app_subscriptions').select('app_key, status').eq('user_id', userId);
+    expect(rows).toEqual([{ app_key: 'keywords', status: 'past_due' }]);
+
+    const { data: credits } = await supabase.from('user_credits').select('subscription_cap').eq('user_id', userId).single();
+    expect(credits?.subscription_cap).toBe(900);
+  });
+
+  test('fix mode makes the database match Stripe', async () => {
+    const report = await reconcileSubscriptions({ dryRun: false, stripeClient: stripeClient(), userIds: [userId] });
+    expect(report.fixed).toBe(1);
+    expect(report.failed).toEqual([]);
+
+    const supabase = getAdminClient();
+    const { data: rows } = await supabase
+      .from('app_subscriptions')
+      .select('app_key, stripe_subscription_id, status, current_period_end')
+      .eq('user_id', userId)
+      .order('app_key');
+
+    expect(rows).toHaveLength(2);
+    for (const row of rows ?? []) {
+      expect(row.status).toBe('active');
+      expect(new Date(row.current_period_end).getTime()).toBe(PERIOD_END * 1000);
+    }
+
+    const { data: credits } = await supabase.from('user_credits').select('subscription_cap').eq('user_id', userId).single();
+    expect(credits?.subscription_cap).toBe(1800);
+
+    // A second run finds nothing left to fix
+    const rerun = await reconcileSubscriptions({ dryRun: true, stripeClient: stripeClient(), userIds: [userId] });
+    expect(rerun.usersWithDrift).toBe(0);
+  });
+
+  test('rows for subscriptions Stripe does not know are canceled', async () => {
+    const report = await reconcileSubscriptions({ dryRun: false, stripeClient: mockStripeClient([]), userIds: [userId] });
+
+    expect(report.users[0].drifts).toEqual([
+      { kind: 'orphaned_row', appKey: 'keywords', stripeSubscriptionId: 'sub_test_keywords' },
+    ]);
+
+    const { data: row } = await getAdminClient()
+      .from('app_subscriptions')
+      .select('status')
+      .eq('user_id', userId)
+      .eq('app_key', 'keywords')
+      .single();
+    expect(row?.status).toBe('canceled');
+  });
+});
@@ -0,0 +1,142 @@
+import { test, expect, type Page } from '@playwright/test';
+import { base32Encode, base32Decode, generateTOTP, getTimeStep, verifyTOTP } from '../../lib/auth/totp';
+import { encryptSecret, decryptSecret } from '../../lib/security/encryption';
+import { createTestUser, deleteTestUser, getAdminClient } from '../utils/db-helpers';
+import { generateTestUser } from '../utils/test-data';
+
+/**
+ * Two-factor authentication tests
+ *
+ * Checks the TOTP implementation against the RFC 6238 SHA-1 test vectors
+ * (truncated to 6 digits) and the round trip of the secret encryption. The
+ * two-step login tests only run against a local Supabase stack
+ * (`supabase start`) with the migrations in supabase/migrations applied, and
+ * need the same ENCRYPTION_KEY as the app.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+// RFC 6238 appendix B: the SHA-1 seed is the ASCII string "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+test.describe('TOTP', () => {
+  test('base32 round-trips and matches the RFC 4648 encoding', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+  });
+
+  for (const [seconds, code] of RFC_VECTORS) {
+    test(`generates ${code} at T=${seconds}`, () => {
+      expect(generateTOTP(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code);
+    });
+  }
+
+  test('accepts one step of clock drift and returns the matching step', () => {
+    const now = 1111111111 * 1000;
+    const previous = generateTOTP(RFC_SECRET, getTimeStep(now) - 1);
+    const twoStepsAgo = generateTOTP(RFC_SECRET, getTimeStep(now) - 2);
+
+    expect(verifyTOTP(RFC_SECRET, previous, now)).toBe(getTimeStep(now) - 1);
+    expect(verifyTOTP(RFC_SECRET, twoStepsAgo, now)).toBeNull();
+    expect(verifyTOTP(RFC_SECRET, '12345', now)).toBeNull();
+  });
+});
+
+test.describe('Secret encryption', () => {
+  test.beforeAll(() => {
+    process.env.ENCRYPTION_KEY ??= 'a'.repeat(64);
+  });
+
+  test('decrypts what it encrypts and rejects tampering', () => {
+    const encrypted = encryptSecret(RFC_SECRET);
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(decryptSecret(encrypted)).toBe(RFC_SECRET);
+
+    const [iv, tag, ciphertext] = encrypted.split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 1;
+    expect(() => decryptSecret([iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+});
+
+test.describe('Two-step login', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let userId: string;
+  let email: string;
+  let password: string;
+
+  test.beforeEach(async () => {
+    const user = generateTestUser();
+    const created = await createTestUser(user.email, user.password, user.fullName);
+    expect(created).not.toBeNull();
+    userId = created!.id;
+    email = user.email;
+    password = user.password;
+
+    // Enrolled as if the first code had been confirmed
+    const supabase = getAdminClient();
+    const now = new Date().toISOString();
+    await supabase.from('user_two_factor').upsert({
+      user_id: userId,
+      secret_encrypted: encryptSecret(RFC_SECRET),
+      enabled_at: now,
+      last_used_step: null,
+      updated_at: now,
+    });
+    await supabase.from('user_settings').upsert({ user_id: userId, two_factor_enabled: true, updated_at: now });
+  });
+
+  test.afterEach(async () => {
+    if (userId) {
+      await deleteTestUser(userId);
+    }
+  });
+
+  const sessionCookie = async (page: Page) =>
+    (await page.context().cookies()).find((cookie) => cookie.name === 'bfeai_session');
+
+  test('sets the session cookie only once the code is accepted', async ({ page }) => {
+    const first = await page.request.post('/api/auth/login', { data: { email, password } });
+    expect(first.ok()).toBe(true);
+    const { twoFactorRequired, challengeToken } = await first.json();
+    expect(twoFactorRequired).toBe(true);
+    expect(await sessionCookie(page)).toBeUndefined();
+
+    const wrong = await page.request.post('/api/auth/login', { data: { challengeToken, code: '000000' } });
+    expect(wrong.status()).toBe(401);
+    expect(await sessionCookie(page)).toBeUndefined();
+
+    const right = await page.request.post('/api/auth/login', {
+      data: { challengeToken, code: generateTOTP(RFC_SECRET, getTimeStep(Date.now())) },
+    });
+    expect(right.ok()).toBe(true);
+    expect(await sessionCookie(page)).toBeDefined();
+  });
+
+  test('retires a challenge after three wrong codes', async ({ page }) => {
+    const first = await page.request.post('/api/auth/login', { data: { email, password } });
+    const { challengeToken } = await first.json();
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const wrong = await page.request.post('/api/auth/login', { data: { challengeToken, code: '000000' } });
+      expect(wrong.status()).toBe(401);
+    }
+
+    const right = await page.request.post('/api/auth/login', {
+      data: { challengeToken, code: generateTOTP(RFC_SECRET, getTimeStep(Date.now())) },
+    });
+    expect(right.status()).toBe(401);
+    expect((await right.json()).error).toBe('Sign-in expired');
+    expect(await sessionCookie(page)).toBeUndefined();
+  });
+});
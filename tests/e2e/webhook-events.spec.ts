@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import type Stripe from 'stripe';
+import { getAdminClient } from '../utils/db-helpers';
+import type { WebhookEventRow } from '../../netlify/functions/utils/webhook-events';
+
+/**
+ * Stripe webhook event tests
+ *
+ * The retry schedule needs no database. The processing tests only run against
+ * a local Supabase stack (`supabase start`) with the migrations in
+ * supabase/migrations applied.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+const isLocalDatabase = /localhost|127\.0\.0\.1/.test(supabaseUrl);
+
+type WebhookEvents = typeof import('../../netlify/functions/utils/webhook-events');
+
+const loadWebhookEvents = (): WebhookEvents => {
+  // utils/supabase-admin and utils/stripe refuse to load without these; no test calls Stripe.
+  // Loaded with require so the env is set first (a static import is hoisted).
+  process.env.SUPABASE_URL ??= supabaseUrl || 'http://127.0.0.1:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'service-role-key';
+  process.env.STRIPE_SECRET_KEY ??= 'sk_test_placeholder';
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require('../../netlify/functions/utils/webhook-events');
+};
+
+const MINUTE = 60 * 1000;
+
+/** An event type no handler acts on, so processing it always succeeds */
+const mockEvent = (id: string): Stripe.Event =>
+  ({ id, type: 'test.unhandled', data: { object: {} } }) as unknown as Stripe.Event;
+
+test.describe('Webhook retry schedule', () => {
+  let webhookEvents: WebhookEvents;
+
+  test.beforeAll(() => {
+    webhookEvents = loadWebhookEvents();
+  });
+
+  test('doubles the delay after each failed attempt', () => {
+    expect(webhookEvents.webhookRetryDelayMs(1)).toBe(5 * MINUTE);
+    expect(webhookEvents.webhookRetryDelayMs(2)).toBe(10 * MINUTE);
+    expect(webhookEvents.webhookRetryDelayMs(4)).toBe(40 * MINUTE);
+  });
+
+  test('caps the delay at 12 hours', () => {
+    expect(webhookEvents.webhookRetryDelayMs(8)).toBe(640 * MINUTE);
+    expect(webhookEvents.webhookRetryDelayMs(9)).toBe(12 * 60 * MINUTE);
+    expect(webhookEvents.webhookRetryDelayMs(20)).toBe(12 * 60 * MINUTE);
+  });
+
+  test('skips events that are not in a claimable status', async () => {
+    const row: WebhookEventRow = {
+      id: 'evt_test_succeeded',
+      type: 'test.unhandled',
+      payload: mockEvent('evt_test_succeeded'),
+      status: 'succeeded',
+      attempts: 1,
+      last_error: null,
+      next_attempt_at: null,
+    };
+
+    expect(await webhookEvents.processWebhookEvent(row, ['failed'])).toEqual({
+      eventId: row.id,
+      status: 'skipped',
+      attempts: 1,
+    });
+  });
+});
+
+test.describe('Webhook event processing', () => {
+  test.skip(!isLocalDatabase, 'Requires a local Supabase database');
+
+  let webhookEvents: WebhookEvents;
+  let eventId: string;
+
+  test.beforeAll(() => {
+    webhookEvents = loadWebhookEvents();
+  });
+
+  test.beforeEach(() => {
+    eventId = `evt_test_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  });
+
+  test.afterEach(async () => {
+    await getAdminClient().from('stripe_events').delete().eq('id', eventId);
+  });
+
+  test('a redelivered event keeps its stored row', async () => {
+    const first = await webhookEvents.logWebhookEvent(mockEvent(eventId));
+    await webhookEvents.processWebhookEvent(first, ['received']);
+
+    const again = await webhookEvents.logWebhookEvent(mockEvent(eventId));
+    expect(again.status).toBe('succeeded');
+    expect(again.attempts).toBe(1);
+  });
+
+  test('an event is processed once when claimed concurrently', async () => {
+    const row = await webhookEvents.logWebhookEvent(mockEvent(eventId));
+
+    const outcomes = await Promise.all(
+      Array.from({ length: 3 }, () => webhookEvents.processWebhookEvent(row, ['received']))
+    );
+
+    expect(outcomes.filter((o) => o.status === 'succeeded')).toHaveLength(1);
+    expect(outcomes.filter((o) => o.status === 'skipped')).toHaveLength(2);
+  });
+});
@@ -4,7 +4,7 @@ import { createClient } from '@supabase/supabase-js';
  * Create a Supabase admin client for test cleanup
  * Uses service role key to bypass RLS policies
  */
-function getAdminClient() {
+export function getAdminClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
@@ -118,3 +118,40 @@ export async function verifyDatabaseConnection() {
     return false;
   }
 }
+
+/**
+ * Seed (or reset) a user's credit pools for credit tests
+ */
+export async function seedUserCredits(
+  userId: string,
+  balances: { subscription?: number; topup?: number; trial?: number }
+) {
+  const supabase = getAdminClient();
+
+  const { error } = await supabase.from('user_credits').upsert(
+    {
+      user_id: userId,
+      subscription_balance: balances.subscription ?? 0,
+      topup_balance: balances.topup ?? 0,
+      trial_balance: balances.trial ?? 0,
+      trial_expires_at: balances.trial ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() : null,
+      lifetime_spent: 0,
+    },
+    { onConflict: 'user_id' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to seed user_credits: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a test user and their credit records
+ */
+export async function deleteTestUser(userId: string) {
+  const supabase = getAdminClient();
+
+  await supabase.from('credit_transactions').delete().eq('user_id', userId);
+  await supabase.from('user_credits').delete().eq('user_id', userId);
+  await supabase.auth.admin.deleteUser(userId);
+}